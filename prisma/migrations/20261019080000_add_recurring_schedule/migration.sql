@@ -0,0 +1,56 @@
+-- CreateTable
+CREATE TABLE `RecurringSchedule` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `templateId` VARCHAR(191) NOT NULL,
+    `toWalletId` VARCHAR(191) NULL,
+    `amount` DECIMAL(18, 2) NULL,
+    `frequency` ENUM('daily', 'weekly', 'monthly', 'yearly') NOT NULL,
+    `interval` INTEGER NOT NULL DEFAULT 1,
+    `startDate` DATETIME(3) NOT NULL,
+    `endDate` DATETIME(3) NULL,
+    `maxOccurrences` INTEGER NULL,
+    `occurrenceCount` INTEGER NOT NULL DEFAULT 0,
+    `nextRunDate` DATETIME(3) NULL,
+    `lastRunDate` DATETIME(3) NULL,
+    `status` ENUM('active', 'paused', 'ended') NOT NULL DEFAULT 'active',
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `RecurringSchedule_status_nextRunDate_idx`(`status`, `nextRunDate`),
+    INDEX `RecurringSchedule_userId_status_idx`(`userId`, `status`),
+    INDEX `RecurringSchedule_templateId_idx`(`templateId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `RecurringOccurrence` (
+    `id` VARCHAR(191) NOT NULL,
+    `scheduleId` VARCHAR(191) NOT NULL,
+    `occurrenceDate` DATETIME(3) NOT NULL,
+    `status` ENUM('pending', 'posted', 'skipped', 'failed') NOT NULL,
+    `transactionId` VARCHAR(191) NULL,
+    `errorCode` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `RecurringOccurrence_transactionId_key`(`transactionId`),
+    INDEX `RecurringOccurrence_scheduleId_status_idx`(`scheduleId`, `status`),
+    UNIQUE INDEX `RecurringOccurrence_scheduleId_occurrenceDate_key`(`scheduleId`, `occurrenceDate`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `RecurringSchedule` ADD CONSTRAINT `RecurringSchedule_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RecurringSchedule` ADD CONSTRAINT `RecurringSchedule_templateId_fkey` FOREIGN KEY (`templateId`) REFERENCES `TransactionTemplate`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RecurringSchedule` ADD CONSTRAINT `RecurringSchedule_toWalletId_fkey` FOREIGN KEY (`toWalletId`) REFERENCES `Wallet`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RecurringOccurrence` ADD CONSTRAINT `RecurringOccurrence_scheduleId_fkey` FOREIGN KEY (`scheduleId`) REFERENCES `RecurringSchedule`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RecurringOccurrence` ADD CONSTRAINT `RecurringOccurrence_transactionId_fkey` FOREIGN KEY (`transactionId`) REFERENCES `Transaction`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
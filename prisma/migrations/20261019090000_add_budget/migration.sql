@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE `Budget` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `categoryId` VARCHAR(191) NOT NULL,
+    `includeChildren` BOOLEAN NOT NULL DEFAULT true,
+    `periodType` ENUM('weekly', 'monthly', 'yearly') NOT NULL DEFAULT 'monthly',
+    `amount` DECIMAL(18, 2) NOT NULL,
+    `alertThreshold` INTEGER NOT NULL DEFAULT 80,
+    `rollover` BOOLEAN NOT NULL DEFAULT false,
+    `startDate` DATETIME(3) NOT NULL,
+    `note` TEXT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `Budget_userId_periodType_idx`(`userId`, `periodType`),
+    INDEX `Budget_categoryId_idx`(`categoryId`),
+    UNIQUE INDEX `Budget_userId_categoryId_periodType_key`(`userId`, `categoryId`, `periodType`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `Budget` ADD CONSTRAINT `Budget_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `Budget` ADD CONSTRAINT `Budget_categoryId_fkey` FOREIGN KEY (`categoryId`) REFERENCES `Category`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
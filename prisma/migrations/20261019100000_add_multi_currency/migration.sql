@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE `User` ADD COLUMN `baseCurrency` VARCHAR(3) NOT NULL DEFAULT 'VND';
+
+-- AlterTable
+ALTER TABLE `Wallet` ADD COLUMN `currency` VARCHAR(3) NOT NULL DEFAULT 'VND';
+
+-- AlterTable
+ALTER TABLE `Transaction` ADD COLUMN `exchangeRate` DECIMAL(20, 8) NULL;
+
+-- CreateTable
+CREATE TABLE `ExchangeRate` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `fromCurrency` VARCHAR(3) NOT NULL,
+    `toCurrency` VARCHAR(3) NOT NULL,
+    `rate` DECIMAL(20, 8) NOT NULL,
+    `rateDate` DATETIME(3) NOT NULL,
+    `source` ENUM('manual', 'csv') NOT NULL DEFAULT 'manual',
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `ExchangeRate_userId_fromCurrency_toCurrency_rateDate_key`(`userId`, `fromCurrency`, `toCurrency`, `rateDate`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `ExchangeRate` ADD CONSTRAINT `ExchangeRate_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,92 @@
+-- CreateTable
+CREATE TABLE `ImportProfile` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `delimiter` VARCHAR(1) NOT NULL DEFAULT ',',
+    `hasHeader` BOOLEAN NOT NULL DEFAULT true,
+    `skipRows` INTEGER NOT NULL DEFAULT 0,
+    `dateFormat` ENUM('iso', 'dmy', 'mdy') NOT NULL DEFAULT 'iso',
+    `decimalSeparator` VARCHAR(1) NOT NULL DEFAULT '.',
+    `dateColumn` VARCHAR(191) NOT NULL,
+    `amountColumn` VARCHAR(191) NULL,
+    `debitColumn` VARCHAR(191) NULL,
+    `creditColumn` VARCHAR(191) NULL,
+    `descriptionColumn` VARCHAR(191) NULL,
+    `referenceColumn` VARCHAR(191) NULL,
+    `invertAmount` BOOLEAN NOT NULL DEFAULT false,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `ImportProfile_userId_name_key`(`userId`, `name`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `ImportBatch` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `walletId` VARCHAR(191) NOT NULL,
+    `profileId` VARCHAR(191) NULL,
+    `format` ENUM('csv', 'ofx') NOT NULL,
+    `fileName` VARCHAR(191) NULL,
+    `status` ENUM('preview', 'committed', 'discarded') NOT NULL DEFAULT 'preview',
+    `rowCount` INTEGER NOT NULL DEFAULT 0,
+    `duplicateCount` INTEGER NOT NULL DEFAULT 0,
+    `invalidCount` INTEGER NOT NULL DEFAULT 0,
+    `importedCount` INTEGER NOT NULL DEFAULT 0,
+    `duplicateWindowDays` INTEGER NOT NULL DEFAULT 3,
+    `committedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `ImportBatch_userId_createdAt_idx`(`userId`, `createdAt`),
+    INDEX `ImportBatch_walletId_status_idx`(`walletId`, `status`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `ImportRow` (
+    `id` VARCHAR(191) NOT NULL,
+    `batchId` VARCHAR(191) NOT NULL,
+    `rowIndex` INTEGER NOT NULL,
+    `sourceLine` INTEGER NULL,
+    `status` ENUM('ready', 'duplicate', 'invalid', 'imported', 'skipped') NOT NULL,
+    `type` ENUM('income', 'expense', 'transfer') NULL,
+    `transactionDate` DATETIME(3) NULL,
+    `amount` DECIMAL(18, 2) NULL,
+    `description` TEXT NULL,
+    `externalId` VARCHAR(255) NULL,
+    `errorMessage` VARCHAR(191) NULL,
+    `proposedCategoryId` VARCHAR(191) NULL,
+    `duplicateOfId` VARCHAR(191) NULL,
+    `transactionId` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `ImportRow_transactionId_key`(`transactionId`),
+    INDEX `ImportRow_externalId_idx`(`externalId`),
+    UNIQUE INDEX `ImportRow_batchId_rowIndex_key`(`batchId`, `rowIndex`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `ImportProfile` ADD CONSTRAINT `ImportProfile_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ImportBatch` ADD CONSTRAINT `ImportBatch_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ImportBatch` ADD CONSTRAINT `ImportBatch_walletId_fkey` FOREIGN KEY (`walletId`) REFERENCES `Wallet`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ImportBatch` ADD CONSTRAINT `ImportBatch_profileId_fkey` FOREIGN KEY (`profileId`) REFERENCES `ImportProfile`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ImportRow` ADD CONSTRAINT `ImportRow_batchId_fkey` FOREIGN KEY (`batchId`) REFERENCES `ImportBatch`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ImportRow` ADD CONSTRAINT `ImportRow_proposedCategoryId_fkey` FOREIGN KEY (`proposedCategoryId`) REFERENCES `Category`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ImportRow` ADD CONSTRAINT `ImportRow_transactionId_fkey` FOREIGN KEY (`transactionId`) REFERENCES `Transaction`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
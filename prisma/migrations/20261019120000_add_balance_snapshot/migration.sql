@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE `BalanceSnapshot` (
+    `id` VARCHAR(191) NOT NULL,
+    `walletId` VARCHAR(191) NOT NULL,
+    `asOf` DATETIME(3) NOT NULL,
+    `balance` DECIMAL(18, 2) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `BalanceSnapshot_walletId_asOf_key`(`walletId`, `asOf`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `BalanceSnapshot` ADD CONSTRAINT `BalanceSnapshot_walletId_fkey` FOREIGN KEY (`walletId`) REFERENCES `Wallet`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
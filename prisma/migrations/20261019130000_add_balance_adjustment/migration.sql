@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE `BalanceAdjustment` (
+    `id` VARCHAR(191) NOT NULL,
+    `walletId` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `source` ENUM('user', 'admin', 'job') NOT NULL,
+    `performedById` VARCHAR(191) NULL,
+    `previousBalance` DECIMAL(18, 2) NOT NULL,
+    `computedBalance` DECIMAL(18, 2) NOT NULL,
+    `difference` DECIMAL(18, 2) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `BalanceAdjustment_walletId_createdAt_idx`(`walletId`, `createdAt`),
+    INDEX `BalanceAdjustment_userId_createdAt_idx`(`userId`, `createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `BalanceAdjustment` ADD CONSTRAINT `BalanceAdjustment_walletId_fkey` FOREIGN KEY (`walletId`) REFERENCES `Wallet`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `BalanceAdjustment` ADD CONSTRAINT `BalanceAdjustment_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
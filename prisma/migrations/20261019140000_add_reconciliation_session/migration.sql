@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE `TransactionEntry` ADD COLUMN `reconciliationSessionId` VARCHAR(191) NULL;
+
+-- CreateTable
+CREATE TABLE `ReconciliationSession` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `walletId` VARCHAR(191) NOT NULL,
+    `statementDate` DATETIME(3) NOT NULL,
+    `statementBalance` DECIMAL(18, 2) NOT NULL,
+    `status` ENUM('open', 'locked') NOT NULL DEFAULT 'open',
+    `lockedAt` DATETIME(3) NULL,
+    `note` TEXT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `ReconciliationSession_walletId_status_idx`(`walletId`, `status`),
+    INDEX `ReconciliationSession_userId_createdAt_idx`(`userId`, `createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateIndex
+CREATE INDEX `TransactionEntry_reconciliationSessionId_idx` ON `TransactionEntry`(`reconciliationSessionId`);
+
+-- AddForeignKey
+ALTER TABLE `TransactionEntry` ADD CONSTRAINT `TransactionEntry_reconciliationSessionId_fkey` FOREIGN KEY (`reconciliationSessionId`) REFERENCES `ReconciliationSession`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ReconciliationSession` ADD CONSTRAINT `ReconciliationSession_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ReconciliationSession` ADD CONSTRAINT `ReconciliationSession_walletId_fkey` FOREIGN KEY (`walletId`) REFERENCES `Wallet`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE `AuditLog` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `actorId` VARCHAR(191) NULL,
+    `ipAddress` VARCHAR(45) NULL,
+    `userAgent` VARCHAR(500) NULL,
+    `entityType` ENUM('transaction', 'wallet', 'loan', 'loan_payment', 'category', 'transaction_template', 'goal', 'milestone') NOT NULL,
+    `entityId` VARCHAR(191) NOT NULL,
+    `action` ENUM('create', 'update', 'delete', 'restore') NOT NULL,
+    `before` JSON NULL,
+    `after` JSON NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `AuditLog_userId_createdAt_idx`(`userId`, `createdAt`),
+    INDEX `AuditLog_entityType_entityId_createdAt_idx`(`entityType`, `entityId`, `createdAt`),
+    INDEX `AuditLog_createdAt_idx`(`createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `AuditLog` ADD CONSTRAINT `AuditLog_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `Wallet` ADD COLUMN `creditLimit` DECIMAL(18, 2) NULL;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE `Wallet` ADD COLUMN `statementClosingDay` INTEGER NULL,
+    ADD COLUMN `paymentDueDay` INTEGER NULL;
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE `Loan` ADD COLUMN `interestType` ENUM('none', 'flat', 'reducing_balance') NOT NULL DEFAULT 'none',
+    ADD COLUMN `interestRate` DECIMAL(7, 4) NOT NULL DEFAULT 0,
+    ADD COLUMN `compoundingPeriod` ENUM('weekly', 'monthly', 'quarterly', 'yearly') NOT NULL DEFAULT 'monthly',
+    ADD COLUMN `installmentCount` INTEGER NULL,
+    ADD COLUMN `installmentPeriod` ENUM('weekly', 'monthly', 'quarterly', 'yearly') NOT NULL DEFAULT 'monthly',
+    ADD COLUMN `firstInstallmentDate` DATETIME(3) NULL;
+
+-- AlterTable
+ALTER TABLE `LoanPayment` ADD COLUMN `principalAmount` DECIMAL(18, 2) NOT NULL DEFAULT 0,
+    ADD COLUMN `interestAmount` DECIMAL(18, 2) NOT NULL DEFAULT 0,
+    ADD COLUMN `interestTransactionId` VARCHAR(191) NULL;
+
+-- Lần trả/thu nợ cũ không tách lãi => toàn bộ là tiền gốc
+UPDATE `LoanPayment` SET `principalAmount` = `amount`;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `LoanPayment_interestTransactionId_key` ON `LoanPayment`(`interestTransactionId`);
+
+-- AddForeignKey
+ALTER TABLE `LoanPayment` ADD CONSTRAINT `LoanPayment_interestTransactionId_fkey` FOREIGN KEY (`interestTransactionId`) REFERENCES `Transaction`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE `LoanPayment` ADD COLUMN `voidedAt` DATETIME(3) NULL,
+    ADD COLUMN `replacedById` VARCHAR(191) NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `LoanPayment_replacedById_key` ON `LoanPayment`(`replacedById`);
+
+-- AddForeignKey
+ALTER TABLE `LoanPayment` ADD CONSTRAINT `LoanPayment_replacedById_fkey` FOREIGN KEY (`replacedById`) REFERENCES `LoanPayment`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE `LoanAdjustment` (
+    `id` VARCHAR(191) NOT NULL,
+    `loanId` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `type` ENUM('top_up', 'forgiveness', 'write_off') NOT NULL,
+    `amount` DECIMAL(18, 2) NOT NULL,
+    `adjustmentDate` DATETIME(3) NOT NULL,
+    `walletId` VARCHAR(191) NULL,
+    `transactionId` VARCHAR(191) NULL,
+    `note` TEXT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `LoanAdjustment_transactionId_key`(`transactionId`),
+    INDEX `LoanAdjustment_loanId_adjustmentDate_idx`(`loanId`, `adjustmentDate`),
+    INDEX `LoanAdjustment_userId_type_idx`(`userId`, `type`),
+    INDEX `LoanAdjustment_walletId_idx`(`walletId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `LoanAdjustment` ADD CONSTRAINT `LoanAdjustment_loanId_fkey` FOREIGN KEY (`loanId`) REFERENCES `Loan`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `LoanAdjustment` ADD CONSTRAINT `LoanAdjustment_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `LoanAdjustment` ADD CONSTRAINT `LoanAdjustment_walletId_fkey` FOREIGN KEY (`walletId`) REFERENCES `Wallet`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `LoanAdjustment` ADD CONSTRAINT `LoanAdjustment_transactionId_fkey` FOREIGN KEY (`transactionId`) REFERENCES `Transaction`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE `AuditLog` MODIFY `entityType` ENUM('transaction', 'wallet', 'loan', 'loan_payment', 'loan_adjustment', 'category', 'transaction_template', 'goal', 'milestone') NOT NULL;
@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE `Contact` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `phone` VARCHAR(30) NULL,
+    `note` TEXT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `Contact_userId_name_key`(`userId`, `name`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AlterTable
+ALTER TABLE `Loan` ADD COLUMN `contactId` VARCHAR(191) NULL;
+
+-- AlterTable
+ALTER TABLE `Transaction` ADD COLUMN `contactId` VARCHAR(191) NULL;
+
+-- CreateIndex
+CREATE INDEX `Loan_contactId_idx` ON `Loan`(`contactId`);
+
+-- CreateIndex
+CREATE INDEX `Transaction_contactId_idx` ON `Transaction`(`contactId`);
+
+-- AddForeignKey
+ALTER TABLE `Contact` ADD CONSTRAINT `Contact_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `Loan` ADD CONSTRAINT `Loan_contactId_fkey` FOREIGN KEY (`contactId`) REFERENCES `Contact`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `Transaction` ADD CONSTRAINT `Transaction_contactId_fkey` FOREIGN KEY (`contactId`) REFERENCES `Contact`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Tạo contact từ counterpartyName của khoản vay cũ (gộp tên trùng không phân biệt hoa thường / dấu theo collation)
+INSERT INTO `Contact` (`id`, `userId`, `name`, `createdAt`, `updatedAt`)
+SELECT UUID(), `userId`, MIN(TRIM(`counterpartyName`)), MIN(`createdAt`), CURRENT_TIMESTAMP(3)
+FROM `Loan`
+WHERE TRIM(`counterpartyName`) <> ''
+GROUP BY `userId`, TRIM(`counterpartyName`);
+
+UPDATE `Loan` l
+JOIN `Contact` c ON c.`userId` = l.`userId` AND c.`name` = TRIM(l.`counterpartyName`)
+SET l.`contactId` = c.`id`;
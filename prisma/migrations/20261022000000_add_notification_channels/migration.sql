@@ -0,0 +1,46 @@
+-- AlterTable
+ALTER TABLE `Notification` MODIFY `type` ENUM('loan_due_soon', 'loan_overdue', 'budget_threshold', 'budget_exceeded', 'low_wallet_balance', 'goal_deadline') NOT NULL,
+    ADD COLUMN `inAppAt` DATETIME(3) NULL,
+    ADD COLUMN `emailSentAt` DATETIME(3) NULL,
+    ADD COLUMN `webhookSentAt` DATETIME(3) NULL;
+
+-- Thông báo cũ chỉ có kênh in-app
+UPDATE `Notification` SET `inAppAt` = `createdAt`;
+
+-- AlterTable
+ALTER TABLE `Wallet` ADD COLUMN `lowBalanceThreshold` DECIMAL(18, 2) NULL,
+    ADD COLUMN `lowBalanceNotifiedAt` DATETIME(3) NULL;
+
+-- CreateTable
+CREATE TABLE `NotificationPreference` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `type` ENUM('loan_due_soon', 'loan_overdue', 'budget_threshold', 'budget_exceeded', 'low_wallet_balance', 'goal_deadline') NOT NULL,
+    `inApp` BOOLEAN NOT NULL DEFAULT true,
+    `email` BOOLEAN NOT NULL DEFAULT false,
+    `webhook` BOOLEAN NOT NULL DEFAULT false,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `NotificationPreference_userId_type_key`(`userId`, `type`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `NotificationWebhook` (
+    `id` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `url` VARCHAR(2048) NOT NULL,
+    `secret` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `NotificationWebhook_userId_key`(`userId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `NotificationPreference` ADD CONSTRAINT `NotificationPreference_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `NotificationWebhook` ADD CONSTRAINT `NotificationWebhook_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -15,6 +15,7 @@ import { logger } from './config/logger';
 import { swaggerSpecs } from './config/swagger';
 import { routes } from './routes';
 import { errorMiddleware } from './middlewares/error.middleware';
+import { requestContext } from './middlewares/request-context.middleware';
 
 
 /**
@@ -57,8 +58,12 @@ export function createApp() {
   app.use(compression());
   // Middleware parse cookies từ request
   app.use(cookieParser());
+  // Restore nhận nguyên file JSON export => giới hạn riêng lớn hơn (phải đăng ký trước parser chung)
+  app.use('/api/restore', express.json({ limit: '50mb' }));
   // Middleware parse JSON body với giới hạn 1MB
   app.use(express.json({ limit: '1mb' }));
+  // Request context (người thực hiện, IP, user agent) cho nhật ký thay đổi
+  app.use(requestContext);
 
   // Swagger JSON spec endpoint
   app.get('/api-docs.json', (req, res) => {
@@ -1,6 +1,11 @@
 import 'dotenv/config';
 import { z } from 'zod';
 
+// Danh sách số ngày, VD: "7,3,1"
+const dayOffsets = (defaults: string) => z.string().default(defaults)
+  .transform((v) => v.split(',').map((d) => d.trim()).filter(Boolean).map(Number))
+  .pipe(z.array(z.number().int().min(0).max(365)));
+
 const envSchema = z.object({
   NODE_ENV: z.enum(['development', 'test', 'production']).default('development'),
   PORT: z.coerce.number().default(3000),
@@ -13,6 +18,71 @@ const envSchema = z.object({
   JWT_REFRESH_EXPIRES: z.string().default('7d'),
 
   CORS_ORIGIN: z.string().optional(),
-});
+
+  // Background jobs
+  RECURRING_JOB_ENABLED: z.enum(['true', 'false']).default('true').transform((v) => v === 'true'),
+  RECURRING_JOB_INTERVAL_MS: z.coerce.number().int().min(10_000).default(15 * 60 * 1000),
+  BALANCE_RECONCILIATION_JOB_ENABLED: z.enum(['true', 'false']).default('true').transform((v) => v === 'true'),
+  BALANCE_RECONCILIATION_JOB_INTERVAL_MS: z.coerce.number().int().min(60_000).default(24 * 60 * 60 * 1000),
+  // false: chỉ log cảnh báo khi phát hiện lệch; true: tự sửa và ghi nhật ký
+  BALANCE_RECONCILIATION_JOB_AUTO_REPAIR: z.enum(['true', 'false']).default('false').transform((v) => v === 'true'),
+  ATTACHMENT_CLEANUP_JOB_ENABLED: z.enum(['true', 'false']).default('true').transform((v) => v === 'true'),
+  ATTACHMENT_CLEANUP_JOB_INTERVAL_MS: z.coerce.number().int().min(60_000).default(60 * 60 * 1000),
+  TRASH_RETENTION_JOB_ENABLED: z.enum(['true', 'false']).default('true').transform((v) => v === 'true'),
+  TRASH_RETENTION_JOB_INTERVAL_MS: z.coerce.number().int().min(60_000).default(24 * 60 * 60 * 1000),
+  LOAN_REMINDER_JOB_ENABLED: z.enum(['true', 'false']).default('true').transform((v) => v === 'true'),
+  LOAN_REMINDER_JOB_INTERVAL_MS: z.coerce.number().int().min(60_000).default(60 * 60 * 1000),
+  // Cảnh báo ngân sách, số dư ví thấp, nhắc hạn mục tiêu
+  NOTIFICATION_ALERT_JOB_ENABLED: z.enum(['true', 'false']).default('true').transform((v) => v === 'true'),
+  NOTIFICATION_ALERT_JOB_INTERVAL_MS: z.coerce.number().int().min(60_000).default(60 * 60 * 1000),
+
+  // Số ngày giao dịch / khoản vay đã xoá được giữ trong thùng rác trước khi bị xoá hẳn
+  TRASH_RETENTION_DAYS: z.coerce.number().int().min(1).default(30),
+
+  // Mốc nhắc hạn trả / thu nợ: số ngày trước lần đến hạn và sau khi quá hạn, phân cách bằng dấu phẩy
+  LOAN_REMINDER_DAYS_BEFORE: dayOffsets('3,1'),
+  LOAN_REMINDER_DAYS_AFTER: dayOffsets('1,7,30'),
+  // Mốc nhắc hạn mục tiêu chưa hoàn thành: số ngày trước endDate
+  GOAL_REMINDER_DAYS_BEFORE: dayOffsets('7,1'),
+
+  // Kênh email của thông báo: bỏ trống SMTP_HOST => tắt kênh email
+  // Kiểm thử với SMTP sink cục bộ (MailHog / Mailpit: SMTP_HOST=localhost, SMTP_PORT=1025)
+  SMTP_HOST: z.string().min(1).optional(),
+  SMTP_PORT: z.coerce.number().int().min(1).max(65535).default(587),
+  // true: TLS ngay từ đầu (cổng 465); false: tự dùng STARTTLS nếu server hỗ trợ
+  SMTP_SECURE: z.enum(['true', 'false']).default('false').transform((v) => v === 'true'),
+  SMTP_USER: z.string().min(1).optional(),
+  SMTP_PASSWORD: z.string().optional(),
+  SMTP_FROM: z.string().min(3).default('LE Finance <no-reply@localhost>'),
+  SMTP_TIMEOUT_MS: z.coerce.number().int().min(1000).default(10_000),
+
+  // Kênh webhook của thông báo
+  NOTIFICATION_WEBHOOK_TIMEOUT_MS: z.coerce.number().int().min(500).default(5000),
+  // Host được phép dù là địa chỉ nội bộ (VD: localhost,127.0.0.1 cho webhook sink khi test), phân cách bằng dấu phẩy
+  NOTIFICATION_WEBHOOK_ALLOWED_HOSTS: z.string().default('')
+    .transform((v) => v.split(',').map((h) => h.trim().toLowerCase()).filter(Boolean)),
+
+  // Thanh toán tối thiểu của sao kê thẻ tín dụng = % dư nợ cuối kỳ
+  CREDIT_STATEMENT_MIN_PAYMENT_PERCENT: z.coerce.number().min(0).max(100).default(5),
+
+  // File đính kèm
+  ATTACHMENT_MAX_FILE_BYTES: z.coerce.number().int().min(1024).default(10 * 1024 * 1024),
+  ATTACHMENT_USER_QUOTA_BYTES: z.coerce.number().int().min(1024).default(200 * 1024 * 1024),
+
+  // Storage backend cho file đính kèm: local (thư mục trên server) hoặc s3 (AWS S3 / MinIO...)
+  STORAGE_DRIVER: z.enum(['local', 's3']).default('local'),
+  STORAGE_LOCAL_DIR: z.string().min(1).default('storage/attachments'),
+  // Bỏ trống => endpoint AWS theo region
+  S3_ENDPOINT: z.string().url().optional(),
+  S3_REGION: z.string().min(1).default('us-east-1'),
+  S3_BUCKET: z.string().min(1).optional(),
+  S3_ACCESS_KEY_ID: z.string().min(1).optional(),
+  S3_SECRET_ACCESS_KEY: z.string().min(1).optional(),
+  // true: http://endpoint/bucket/key (MinIO); false: http://bucket.endpoint/key
+  S3_FORCE_PATH_STYLE: z.enum(['true', 'false']).default('true').transform((v) => v === 'true'),
+}).refine(
+  (data) => data.STORAGE_DRIVER !== 's3' || (data.S3_BUCKET && data.S3_ACCESS_KEY_ID && data.S3_SECRET_ACCESS_KEY),
+  { message: 'S3_BUCKET, S3_ACCESS_KEY_ID và S3_SECRET_ACCESS_KEY là bắt buộc khi STORAGE_DRIVER=s3', path: ['STORAGE_DRIVER'] }
+);
 
 export const env = envSchema.parse(process.env);
@@ -256,9 +256,44 @@ export const swaggerOptions = {
             }
           }
         },
+        TransactionSplitLines: {
+          type: 'array',
+          description: 'Chia giao dịch thành nhiều category (2-20 dòng, tổng amount = amount giao dịch); dùng thay cho categoryId',
+          minItems: 2,
+          maxItems: 20,
+          items: {
+            type: 'object',
+            required: ['categoryId', 'amount'],
+            properties: {
+              categoryId: {
+                type: 'string',
+                format: 'uuid'
+              },
+              amount: {
+                type: 'number',
+                format: 'decimal',
+                minimum: 0.01,
+                example: 150.00
+              },
+              note: {
+                type: 'string',
+                maxLength: 1000
+              }
+            }
+          }
+        },
+        TransactionTagIds: {
+          type: 'array',
+          description: 'Tag gắn lên giao dịch (tối đa 20); khi cập nhật: bỏ trống = giữ nguyên, [] = gỡ hết',
+          maxItems: 20,
+          items: {
+            type: 'string',
+            format: 'uuid'
+          }
+        },
         IncomeTransaction: {
           type: 'object',
-          required: ['type', 'walletId', 'categoryId', 'transactionDate', 'amount'],
+          required: ['type', 'walletId', 'transactionDate', 'amount'],
           properties: {
             type: {
               type: 'string',
@@ -272,8 +307,12 @@ export const swaggerOptions = {
             categoryId: {
               type: 'string',
               format: 'uuid',
+              description: 'Bắt buộc nếu không dùng splits',
               example: '123e4567-e89b-12d3-a456-426614174001'
             },
+            splits: {
+              $ref: '#/components/schemas/TransactionSplitLines'
+            },
             transactionDate: {
               type: 'string',
               format: 'date-time',
@@ -289,12 +328,15 @@ export const swaggerOptions = {
               type: 'string',
               maxLength: 1000,
               example: 'Thu nhập từ lương tháng 1'
+            },
+            tagIds: {
+              $ref: '#/components/schemas/TransactionTagIds'
             }
           }
         },
         ExpenseTransaction: {
           type: 'object',
-          required: ['type', 'walletId', 'categoryId', 'transactionDate', 'amount'],
+          required: ['type', 'walletId', 'transactionDate', 'amount'],
           properties: {
             type: {
               type: 'string',
@@ -308,8 +350,12 @@ export const swaggerOptions = {
             categoryId: {
               type: 'string',
               format: 'uuid',
+              description: 'Bắt buộc nếu không dùng splits',
               example: '123e4567-e89b-12d3-a456-426614174002'
             },
+            splits: {
+              $ref: '#/components/schemas/TransactionSplitLines'
+            },
             transactionDate: {
               type: 'string',
               format: 'date-time',
@@ -325,6 +371,9 @@ export const swaggerOptions = {
               type: 'string',
               maxLength: 1000,
               example: 'Ăn trưa tại nhà hàng'
+            },
+            tagIds: {
+              $ref: '#/components/schemas/TransactionTagIds'
             }
           }
         },
@@ -361,8 +410,83 @@ export const swaggerOptions = {
               type: 'string',
               maxLength: 1000,
               example: 'Chuyển tiền từ ví tiền mặt sang ví ngân hàng'
+            },
+            tagIds: {
+              $ref: '#/components/schemas/TransactionTagIds'
             }
           }
+        },
+        Pagination: {
+          type: 'object',
+          properties: {
+            total: {
+              type: 'integer',
+              nullable: true,
+              description: 'null khi phân trang cursor (trừ khi includeTotal=true) hoặc includeTotal=false'
+            },
+            limit: {
+              type: 'integer',
+              example: 50
+            },
+            offset: {
+              type: 'integer',
+              example: 0
+            },
+            hasMore: {
+              type: 'boolean'
+            },
+            nextCursor: {
+              type: 'string',
+              nullable: true,
+              description: 'Truyền vào query cursor để lấy trang tiếp theo, null nếu hết'
+            }
+          }
+        }
+      },
+      parameters: {
+        Limit: {
+          in: 'query',
+          name: 'limit',
+          schema: {
+            type: 'integer',
+            minimum: 1,
+            maximum: 100,
+            default: 50
+          }
+        },
+        Cursor: {
+          in: 'query',
+          name: 'cursor',
+          description: 'pagination.nextCursor của trang trước (chỉ dùng với cùng sortBy/sortOrder)',
+          schema: {
+            type: 'string'
+          }
+        },
+        Offset: {
+          in: 'query',
+          name: 'offset',
+          description: 'Phân trang kiểu cũ, không dùng chung với cursor',
+          schema: {
+            type: 'integer',
+            minimum: 0
+          }
+        },
+        IncludeTotal: {
+          in: 'query',
+          name: 'includeTotal',
+          description: 'Đếm tổng số bản ghi (pagination.total). Mặc định: có khi không dùng cursor, không khi dùng cursor',
+          schema: {
+            type: 'boolean'
+          }
+        },
+        SortOrder: {
+          in: 'query',
+          name: 'sortOrder',
+          schema: {
+            type: 'string',
+            enum: ['asc', 'desc'],
+            default: 'desc'
+          }
         }
       }
     },
@@ -0,0 +1,17 @@
+/**
+ * Attachment Cleanup Job
+ * Định kỳ xoá file đính kèm mồ côi (giao dịch / khoản vay sở hữu đã bị xoá hẳn) khỏi storage và DB
+ */
+import { env } from '../config/env';
+import { scheduleJob } from './job-runner';
+import { AttachmentService } from '../modules/attachment/attachment.service';
+
+/**
+ * Khởi động job (bật/tắt qua ATTACHMENT_CLEANUP_JOB_ENABLED, chu kỳ qua ATTACHMENT_CLEANUP_JOB_INTERVAL_MS)
+ */
+export function startAttachmentCleanupJob() {
+  if (!env.ATTACHMENT_CLEANUP_JOB_ENABLED) return null;
+  return scheduleJob('attachment-cleanup', env.ATTACHMENT_CLEANUP_JOB_INTERVAL_MS, () =>
+    AttachmentService.purgeOrphans()
+  );
+}
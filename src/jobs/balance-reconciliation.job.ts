@@ -0,0 +1,18 @@
+/**
+ * Balance Reconciliation Job
+ * Định kỳ đối soát currentBalance của mọi ví với sổ cái, log cảnh báo (hoặc tự sửa) khi phát hiện lệch
+ */
+import { env } from '../config/env';
+import { scheduleJob } from './job-runner';
+import { BalanceReconciliationService } from '../modules/balance-reconciliation/balance-reconciliation.service';
+
+/**
+ * Khởi động job (bật/tắt qua BALANCE_RECONCILIATION_JOB_ENABLED, chu kỳ qua BALANCE_RECONCILIATION_JOB_INTERVAL_MS,
+ * tự sửa qua BALANCE_RECONCILIATION_JOB_AUTO_REPAIR)
+ */
+export function startBalanceReconciliationJob() {
+  if (!env.BALANCE_RECONCILIATION_JOB_ENABLED) return null;
+  return scheduleJob('balance-reconciliation', env.BALANCE_RECONCILIATION_JOB_INTERVAL_MS, () =>
+    BalanceReconciliationService.processBalanceDrift(env.BALANCE_RECONCILIATION_JOB_AUTO_REPAIR)
+  );
+}
@@ -0,0 +1,41 @@
+/**
+ * Job Runner
+ * Chạy các tác vụ nền định kỳ trong cùng process với HTTP server (setInterval)
+ * - Chạy ngay 1 lần khi khởi động (để catch-up sau downtime)
+ * - Không chạy chồng: nếu lần trước chưa xong thì bỏ qua tick hiện tại
+ * - Lỗi được log lại, không làm crash server
+ */
+import { logger } from '../config/logger';
+
+/**
+ * Đăng ký 1 job chạy định kỳ
+ *
+ * @param name - Tên job (dùng cho logging)
+ * @param intervalMs - Chu kỳ chạy (milliseconds)
+ * @param task - Hàm async thực hiện công việc, có thể trả về kết quả để log
+ * @returns Timer handle (đã unref để không giữ process khi shutdown)
+ */
+export function scheduleJob(name: string, intervalMs: number, task: () => Promise<unknown>) {
+  let running = false;
+
+  const run = async () => {
+    if (running) {
+      logger.warn({ job: name }, 'Job still running, skipping tick');
+      return;
+    }
+    running = true;
+    try {
+      const result = await task();
+      logger.info({ job: name, result }, 'Job finished');
+    } catch (err) {
+      logger.error({ job: name, err }, 'Job failed');
+    } finally {
+      running = false;
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,18 @@
+/**
+ * Loan Reminder Job
+ * Định kỳ sinh thông báo nhắc trước hạn / quá hạn trả nợ và thu nợ
+ */
+import { env } from '../config/env';
+import { scheduleJob } from './job-runner';
+import { LoanService } from '../modules/loan/loan.service';
+
+/**
+ * Khởi động job (bật/tắt qua LOAN_REMINDER_JOB_ENABLED, chu kỳ qua LOAN_REMINDER_JOB_INTERVAL_MS,
+ * mốc nhắc qua LOAN_REMINDER_DAYS_BEFORE / LOAN_REMINDER_DAYS_AFTER)
+ */
+export function startLoanReminderJob() {
+  if (!env.LOAN_REMINDER_JOB_ENABLED) return null;
+  return scheduleJob('loan-reminder', env.LOAN_REMINDER_JOB_INTERVAL_MS, () =>
+    LoanService.processDueReminders(env.LOAN_REMINDER_DAYS_BEFORE, env.LOAN_REMINDER_DAYS_AFTER)
+  );
+}
@@ -0,0 +1,22 @@
+/**
+ * Notification Alert Job
+ * Định kỳ gửi cảnh báo ngân sách (chạm ngưỡng / chi vượt), số dư ví thấp và nhắc hạn mục tiêu
+ */
+import { env } from '../config/env';
+import { scheduleJob } from './job-runner';
+import { BudgetService } from '../modules/budget/budget.service';
+import { WalletService } from '../modules/wallet/wallet.service';
+import { GoalService } from '../modules/goal/goal.service';
+
+/**
+ * Khởi động job (bật/tắt qua NOTIFICATION_ALERT_JOB_ENABLED, chu kỳ qua NOTIFICATION_ALERT_JOB_INTERVAL_MS,
+ * mốc nhắc hạn mục tiêu qua GOAL_REMINDER_DAYS_BEFORE)
+ */
+export function startNotificationAlertJob() {
+  if (!env.NOTIFICATION_ALERT_JOB_ENABLED) return null;
+  return scheduleJob('notification-alert', env.NOTIFICATION_ALERT_JOB_INTERVAL_MS, async () => ({
+    budgets: await BudgetService.processBudgetAlerts(),
+    wallets: await WalletService.processLowBalanceAlerts(),
+    goals: await GoalService.processDeadlineReminders(env.GOAL_REMINDER_DAYS_BEFORE)
+  }));
+}
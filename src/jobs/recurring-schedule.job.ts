@@ -0,0 +1,17 @@
+/**
+ * Recurring Schedule Job
+ * Định kỳ sinh giao dịch cho các lịch định kỳ đã đến hạn (kể cả sinh bù sau downtime)
+ */
+import { env } from '../config/env';
+import { scheduleJob } from './job-runner';
+import { RecurringScheduleService } from '../modules/recurring-schedule/recurring-schedule.service';
+
+/**
+ * Khởi động job (bật/tắt qua RECURRING_JOB_ENABLED, chu kỳ qua RECURRING_JOB_INTERVAL_MS)
+ */
+export function startRecurringScheduleJob() {
+  if (!env.RECURRING_JOB_ENABLED) return null;
+  return scheduleJob('recurring-schedule', env.RECURRING_JOB_INTERVAL_MS, () =>
+    RecurringScheduleService.processDueSchedules()
+  );
+}
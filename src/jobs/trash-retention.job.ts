@@ -0,0 +1,17 @@
+/**
+ * Trash Retention Job
+ * Định kỳ xoá hẳn giao dịch / khoản vay đã nằm trong thùng rác quá TRASH_RETENTION_DAYS ngày
+ */
+import { env } from '../config/env';
+import { scheduleJob } from './job-runner';
+import { TrashService } from '../modules/trash/trash.service';
+
+/**
+ * Khởi động job (bật/tắt qua TRASH_RETENTION_JOB_ENABLED, chu kỳ qua TRASH_RETENTION_JOB_INTERVAL_MS)
+ */
+export function startTrashRetentionJob() {
+  if (!env.TRASH_RETENTION_JOB_ENABLED) return null;
+  return scheduleJob('trash-retention', env.TRASH_RETENTION_JOB_INTERVAL_MS, () =>
+    TrashService.purgeExpired(env.TRASH_RETENTION_DAYS)
+  );
+}
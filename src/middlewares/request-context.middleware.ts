@@ -0,0 +1,24 @@
+/**
+ * Request Context Middleware
+ * Mở request context (utils/request-context) cho phần còn lại của request
+ * Phải đăng ký sau các body parser (callback của stream không giữ được async context)
+ */
+import { Request, Response, NextFunction } from 'express';
+import { runWithRequestContext } from '../utils/request-context';
+
+// Giới hạn theo cột AuditLog.userAgent
+const MAX_USER_AGENT_LENGTH = 500;
+
+export const requestContext = (req: Request, _res: Response, next: NextFunction) => {
+  runWithRequestContext(
+    {
+      // requireAuth chạy sau middleware này => đọc req.user tại thời điểm dùng
+      get actorId() {
+        return req.user?.sub ?? null;
+      },
+      ipAddress: req.ip ?? null,
+      userAgent: req.get('user-agent')?.slice(0, MAX_USER_AGENT_LENGTH) ?? null
+    },
+    next
+  );
+};
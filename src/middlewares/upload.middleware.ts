@@ -0,0 +1,87 @@
+/**
+ * File Upload Middleware
+ * Đọc body multipart/form-data (giới hạn kích thước), tách lấy 1 file và attach vào req.file
+ */
+import express, { Request, Response, NextFunction } from 'express';
+import { getBoundary, parseMultipart } from '../utils/multipart';
+
+export interface UploadedFile {
+  fieldName: string;
+  // Tên file gốc (đã bỏ đường dẫn / ký tự điều khiển)
+  fileName: string;
+  // MIME type do client khai báo
+  mimeType: string;
+  size: number;
+  data: Buffer;
+}
+
+// Dư cho header của các part và các field text đi kèm
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+function sanitizeFileName(fileName: string) {
+  const base = fileName.split(/[\\/]/).pop() ?? '';
+  const cleaned = base.replace(/[\u0000-\u001f\u007f"]/g, '').trim().slice(0, 255);
+  return cleaned || 'file';
+}
+
+/**
+ * Middleware factory nhận 1 file upload qua multipart/form-data
+ * - 400 nếu request không phải multipart, body sai định dạng hoặc thiếu field file
+ * - 413 nếu file vượt quá maxBytes
+ *
+ * @param fieldName - Tên field chứa file trong form
+ * @param maxBytes - Kích thước file tối đa (bytes)
+ *
+ * @example
+ * router.post('/files', requireAuth, uploadFile('file', 10 * 1024 * 1024), controller.upload);
+ */
+export const uploadFile = (fieldName: string, maxBytes: number) => {
+  const rawParser = express.raw({
+    type: 'multipart/form-data',
+    limit: maxBytes + MULTIPART_OVERHEAD_BYTES
+  });
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const boundary = req.is('multipart/form-data') ? getBoundary(req.headers['content-type'] ?? '') : null;
+    if (!boundary) {
+      return res.status(400).json({ message: 'Request must be multipart/form-data' });
+    }
+
+    rawParser(req, res, (err?: any) => {
+      if (err) {
+        if (err.type === 'entity.too.large') {
+          return res.status(413).json({ message: 'File too large' });
+        }
+        return next(err);
+      }
+
+      let parts;
+      try {
+        parts = parseMultipart(Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0), boundary);
+      } catch {
+        return res.status(400).json({ message: 'Invalid multipart body' });
+      }
+
+      const part = parts.find((p) => p.name === fieldName && p.fileName !== null);
+      if (!part) {
+        return res.status(400).json({ message: `Missing file field "${fieldName}"` });
+      }
+      if (part.data.length > maxBytes) {
+        return res.status(413).json({ message: 'File too large' });
+      }
+
+      req.file = {
+        fieldName,
+        fileName: sanitizeFileName(part.fileName!),
+        mimeType: (part.contentType ?? 'application/octet-stream').toLowerCase(),
+        size: part.data.length,
+        data: part.data
+      };
+      // Các field text còn lại (nếu có)
+      req.body = Object.fromEntries(
+        parts.filter((p) => p.fileName === null).map((p) => [p.name, p.data.toString('utf8')])
+      );
+      next();
+    });
+  };
+};
@@ -0,0 +1,220 @@
+/**
+ * Attachment Controller
+ * File này xử lý HTTP requests/responses cho file đính kèm của giao dịch và khoản vay
+ * Controller layer - chỉ xử lý HTTP, business logic nằm ở Service layer
+ */
+import { Request, Response } from 'express';
+import { AttachmentService } from './attachment.service';
+import { AttachmentOwner } from './attachment.schema';
+import { handleError } from '../../utils/error-handler';
+
+// Create module-specific error handler
+const handleAttachmentError = (error: any, res: Response) =>
+  handleError(error, res, 'Attachment');
+
+// Tên file an toàn cho header (fallback ASCII + bản UTF-8 theo RFC 5987)
+function contentDisposition(fileName: string) {
+  const ascii = fileName.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `attachment; filename="${ascii}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+async function upload(req: Request, res: Response, owner: AttachmentOwner) {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({ message: 'Missing file' });
+    }
+
+    const attachment = await AttachmentService.uploadAttachment(userId, owner, req.file);
+    return res.status(201).json({
+      message: 'Attachment uploaded successfully',
+      attachment
+    });
+  } catch (e: any) {
+    return handleAttachmentError(e, res);
+  }
+}
+
+async function list(req: Request, res: Response, owner: AttachmentOwner) {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+
+    const items = await AttachmentService.getAttachments(userId, owner);
+    return res.status(200).json({
+      message: 'Attachments retrieved successfully',
+      items
+    });
+  } catch (e: any) {
+    return handleAttachmentError(e, res);
+  }
+}
+
+export const AttachmentController = {
+  /**
+   * @swagger
+   * /transactions/{id}/attachments:
+   *   post:
+   *     tags:
+   *       - Attachments
+   *     summary: Đính kèm file (hoá đơn, chứng từ) vào giao dịch
+   *     description: |
+   *       Upload 1 file qua multipart/form-data, field `file`.
+   *       - Chấp nhận ảnh JPEG / PNG / WebP / HEIC và PDF; type được kiểm tra theo nội dung file và phải khớp Content-Type của part
+   *       - Kích thước tối đa theo ATTACHMENT_MAX_FILE_BYTES (mặc định 10MB)
+   *       - Tổng dung lượng của user tối đa theo ATTACHMENT_USER_QUOTA_BYTES (mặc định 200MB), xem GET /attachments/usage
+   *       Cùng định dạng cho khoản vay: POST /loans/{id}/attachments.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         multipart/form-data:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - file
+   *             properties:
+   *               file:
+   *                 type: string
+   *                 format: binary
+   *     responses:
+   *       201:
+   *         description: File đã đính kèm (metadata, không gồm nội dung)
+   *       400:
+   *         description: Không phải multipart, thiếu field file hoặc file rỗng
+   *       404:
+   *         description: Giao dịch không tồn tại
+   *       413:
+   *         description: File quá lớn hoặc vượt quá dung lượng cho phép
+   *       415:
+   *         description: Định dạng file không được hỗ trợ
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async uploadTransactionAttachment(req: Request, res: Response) {
+    return upload(req, res, { type: 'transaction', id: req.params.id });
+  },
+
+  /**
+   * Danh sách file đính kèm của giao dịch
+   * GET /api/transactions/:id/attachments
+   */
+  async getTransactionAttachments(req: Request, res: Response) {
+    return list(req, res, { type: 'transaction', id: req.params.id });
+  },
+
+  /**
+   * Đính kèm file vào khoản vay (multipart/form-data, field "file")
+   * POST /api/loans/:id/attachments
+   */
+  async uploadLoanAttachment(req: Request, res: Response) {
+    return upload(req, res, { type: 'loan', id: req.params.id });
+  },
+
+  /**
+   * Danh sách file đính kèm của khoản vay
+   * GET /api/loans/:id/attachments
+   */
+  async getLoanAttachments(req: Request, res: Response) {
+    return list(req, res, { type: 'loan', id: req.params.id });
+  },
+
+  /**
+   * Dung lượng file đính kèm đã dùng / hạn mức
+   * GET /api/attachments/usage
+   */
+  async getUsage(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const usage = await AttachmentService.getUsage(userId);
+      return res.status(200).json({
+        message: 'Attachment usage retrieved successfully',
+        usage
+      });
+    } catch (e: any) {
+      return handleAttachmentError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /attachments/{id}/download:
+   *   get:
+   *     tags:
+   *       - Attachments
+   *     summary: Tải file đính kèm
+   *     description: Chỉ chủ sở hữu tải được; file của giao dịch / khoản vay đã xoá không còn truy cập được.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: Nội dung file (Content-Type theo file gốc)
+   *       404:
+   *         description: File đính kèm không tồn tại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async downloadAttachment(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const file = await AttachmentService.downloadAttachment(req.params.id, userId);
+      res.setHeader('Content-Type', file.mimeType);
+      res.setHeader('Content-Length', file.size);
+      res.setHeader('Content-Disposition', contentDisposition(file.fileName));
+      res.setHeader('Cache-Control', 'private, no-store');
+      return res.status(200).send(file.data);
+    } catch (e: any) {
+      return handleAttachmentError(e, res);
+    }
+  },
+
+  /**
+   * Xoá file đính kèm
+   * DELETE /api/attachments/:id
+   */
+  async deleteAttachment(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const attachment = await AttachmentService.deleteAttachment(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Attachment deleted successfully',
+        attachment
+      });
+    } catch (e: any) {
+      return handleAttachmentError(e, res);
+    }
+  }
+};
@@ -0,0 +1,28 @@
+// Schema / hằng số cho Attachment APIs
+// File được upload qua multipart/form-data (field "file"), không có JSON body cần validate
+
+// Tên field chứa file trong form upload
+export const ATTACHMENT_FIELD_NAME = 'file';
+
+// MIME type được phép (hoá đơn / chứng từ: ảnh chụp hoặc PDF)
+export const ALLOWED_ATTACHMENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/heic',
+  'application/pdf'
+] as const;
+
+export type AttachmentMimeType = typeof ALLOWED_ATTACHMENT_TYPES[number];
+
+// Chủ sở hữu của file đính kèm
+export type AttachmentOwner =
+  | { type: 'transaction'; id: string }
+  | { type: 'loan'; id: string };
+
+// Dữ liệu file đã nhận từ upload middleware
+export interface AttachmentUpload {
+  fileName: string;
+  mimeType: string;
+  data: Buffer;
+}
@@ -0,0 +1,317 @@
+/**
+ * Attachment Service
+ * File này chứa business logic cho file đính kèm (hoá đơn, chứng từ) của giao dịch và khoản vay
+ * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
+ *
+ * Logic nghiệp vụ:
+ * - Nội dung file nằm ở storage backend (local / S3), DB chỉ lưu metadata + storageKey
+ * - MIME type được xác định theo nội dung file (magic bytes) và phải khớp với type client khai báo
+ * - Tổng dung lượng file của 1 user không vượt quá ATTACHMENT_USER_QUOTA_BYTES
+ * - Chủ sở hữu bị xoá mềm => file giữ nguyên nhưng không truy cập được;
+ *   chủ sở hữu bị xoá hẳn => FK về null, job dọn dẹp xoá file + bản ghi (purgeOrphans)
+ */
+import { createHash, randomUUID } from 'crypto';
+import { prisma } from '../../db/prisma';
+import { env } from '../../config/env';
+import { logger } from '../../config/logger';
+import { getStorage } from '../../storage/storage';
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  AttachmentMimeType,
+  AttachmentOwner,
+  AttachmentUpload
+} from './attachment.schema';
+
+// Số bản ghi mồ côi xử lý mỗi lượt dọn dẹp
+const PURGE_BATCH_SIZE = 100;
+
+// Tên gọi khác client hay gửi
+const MIME_ALIASES: Record<string, AttachmentMimeType> = {
+  'image/jpg': 'image/jpeg',
+  'image/pjpeg': 'image/jpeg',
+  'image/heif': 'image/heic'
+};
+
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+// Không trả storageKey ra ngoài
+const attachmentSelect = {
+  id: true,
+  transactionId: true,
+  loanId: true,
+  fileName: true,
+  mimeType: true,
+  size: true,
+  checksum: true,
+  createdAt: true
+} as const;
+
+/**
+ * Xác định MIME type theo magic bytes, null nếu không thuộc danh sách được phép
+ */
+function sniffMimeType(data: Buffer): AttachmentMimeType | null {
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (data.toString('latin1', 0, 4) === 'RIFF' && data.toString('latin1', 8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  if (data.toString('latin1', 4, 8) === 'ftyp' && HEIC_BRANDS.includes(data.toString('latin1', 8, 12))) {
+    return 'image/heic';
+  }
+  if (data.toString('latin1', 0, 5) === '%PDF-') {
+    return 'application/pdf';
+  }
+  return null;
+}
+
+function resolveMimeType(declared: string, data: Buffer): AttachmentMimeType {
+  const normalized = MIME_ALIASES[declared] ?? declared;
+  const detected = sniffMimeType(data);
+
+  if (!detected || detected !== normalized || !(ALLOWED_ATTACHMENT_TYPES as readonly string[]).includes(normalized)) {
+    throw new Error('ATTACHMENT_TYPE_NOT_ALLOWED');
+  }
+
+  return detected;
+}
+
+/**
+ * Chủ sở hữu phải thuộc user và chưa bị xoá
+ */
+async function assertOwnerExists(owner: AttachmentOwner, userId: string) {
+  if (owner.type === 'transaction') {
+    const transaction = await prisma.transaction.findFirst({
+      where: { id: owner.id, userId, deletedAt: null },
+      select: { id: true }
+    });
+    if (!transaction) {
+      throw new Error('TRANSACTION_NOT_FOUND');
+    }
+    return;
+  }
+
+  const loan = await prisma.loan.findFirst({
+    where: { id: owner.id, userId, deletedAt: null },
+    select: { id: true }
+  });
+  if (!loan) {
+    throw new Error('LOAN_NOT_FOUND');
+  }
+}
+
+async function getUsedBytes(userId: string) {
+  const result = await prisma.attachment.aggregate({
+    where: { userId },
+    _sum: { size: true },
+    _count: { _all: true }
+  });
+  return { used: result._sum.size ?? 0, count: result._count._all };
+}
+
+/**
+ * Lấy attachment còn truy cập được (chủ sở hữu chưa bị xoá)
+ */
+async function getAccessibleAttachment(attachmentId: string, userId: string) {
+  const attachment = await prisma.attachment.findFirst({
+    where: {
+      id: attachmentId,
+      userId,
+      OR: [
+        { transaction: { deletedAt: null } },
+        { loan: { deletedAt: null } }
+      ]
+    }
+  });
+
+  if (!attachment) {
+    throw new Error('ATTACHMENT_NOT_FOUND');
+  }
+
+  return attachment;
+}
+
+export const AttachmentService = {
+  /**
+   * Upload file đính kèm cho giao dịch / khoản vay
+   * Ghi file vào storage trước, sau đó tạo bản ghi; tạo bản ghi lỗi => xoá file vừa ghi
+   *
+   * @throws Error('TRANSACTION_NOT_FOUND' | 'LOAN_NOT_FOUND') nếu chủ sở hữu không tồn tại
+   * @throws Error('ATTACHMENT_EMPTY') nếu file rỗng
+   * @throws Error('ATTACHMENT_TYPE_NOT_ALLOWED') nếu nội dung file không phải ảnh / PDF hoặc không khớp type khai báo
+   * @throws Error('ATTACHMENT_QUOTA_EXCEEDED') nếu vượt quá dung lượng cho phép của user
+   */
+  async uploadAttachment(userId: string, owner: AttachmentOwner, file: AttachmentUpload) {
+    await assertOwnerExists(owner, userId);
+
+    if (file.data.length === 0) {
+      throw new Error('ATTACHMENT_EMPTY');
+    }
+
+    const mimeType = resolveMimeType(file.mimeType, file.data);
+
+    const { used } = await getUsedBytes(userId);
+    if (used + file.data.length > env.ATTACHMENT_USER_QUOTA_BYTES) {
+      throw new Error('ATTACHMENT_QUOTA_EXCEEDED');
+    }
+
+    const id = randomUUID();
+    const storageKey = `${userId}/${id}`;
+    const storage = getStorage();
+    await storage.put(storageKey, file.data, mimeType);
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        // Kiểm tra lại quota trong transaction (tránh nhiều upload song song cùng vượt quota)
+        const usage = await tx.attachment.aggregate({
+          where: { userId },
+          _sum: { size: true }
+        });
+        if ((usage._sum.size ?? 0) + file.data.length > env.ATTACHMENT_USER_QUOTA_BYTES) {
+          throw new Error('ATTACHMENT_QUOTA_EXCEEDED');
+        }
+
+        return await tx.attachment.create({
+          data: {
+            id,
+            userId,
+            transactionId: owner.type === 'transaction' ? owner.id : null,
+            loanId: owner.type === 'loan' ? owner.id : null,
+            storageKey,
+            fileName: file.fileName,
+            mimeType,
+            size: file.data.length,
+            checksum: createHash('sha256').update(file.data).digest('hex')
+          },
+          select: attachmentSelect
+        });
+      });
+    } catch (err) {
+      await storage.delete(storageKey).catch((deleteErr) =>
+        logger.warn({ err: deleteErr, storageKey }, 'Failed to remove stored file after upload error')
+      );
+      throw err;
+    }
+  },
+
+  /**
+   * Danh sách file đính kèm của giao dịch / khoản vay (mới nhất trước)
+   *
+   * @throws Error('TRANSACTION_NOT_FOUND' | 'LOAN_NOT_FOUND') nếu chủ sở hữu không tồn tại
+   */
+  async getAttachments(userId: string, owner: AttachmentOwner) {
+    await assertOwnerExists(owner, userId);
+
+    return await prisma.attachment.findMany({
+      where: {
+        userId,
+        ...(owner.type === 'transaction' ? { transactionId: owner.id } : { loanId: owner.id })
+      },
+      select: attachmentSelect,
+      orderBy: { createdAt: 'desc' }
+    });
+  },
+
+  /**
+   * Tải nội dung file đính kèm
+   *
+   * @throws Error('ATTACHMENT_NOT_FOUND') nếu attachment không tồn tại hoặc chủ sở hữu đã bị xoá
+   * @throws Error('ATTACHMENT_FILE_MISSING') nếu bản ghi còn nhưng file không còn trong storage
+   */
+  async downloadAttachment(attachmentId: string, userId: string) {
+    const attachment = await getAccessibleAttachment(attachmentId, userId);
+
+    try {
+      const data = await getStorage().get(attachment.storageKey);
+      return {
+        fileName: attachment.fileName,
+        mimeType: attachment.mimeType,
+        size: data.length,
+        data
+      };
+    } catch (err: any) {
+      if (err?.message === 'STORAGE_OBJECT_NOT_FOUND') {
+        throw new Error('ATTACHMENT_FILE_MISSING');
+      }
+      throw err;
+    }
+  },
+
+  /**
+   * Xoá file đính kèm
+   * Xoá bản ghi trước (giải phóng quota ngay), xoá file sau; xoá file lỗi chỉ log cảnh báo
+   *
+   * @throws Error('ATTACHMENT_NOT_FOUND') nếu attachment không tồn tại hoặc chủ sở hữu đã bị xoá
+   */
+  async deleteAttachment(attachmentId: string, userId: string) {
+    const attachment = await getAccessibleAttachment(attachmentId, userId);
+
+    const deleted = await prisma.attachment.delete({
+      where: { id: attachment.id },
+      select: attachmentSelect
+    });
+
+    await getStorage().delete(attachment.storageKey).catch((err) =>
+      logger.warn({ err, storageKey: attachment.storageKey }, 'Failed to remove attachment file')
+    );
+
+    return deleted;
+  },
+
+  /**
+   * Dung lượng đã dùng / hạn mức của user (bytes)
+   * Tính cả file của giao dịch / khoản vay đã xoá mềm (file vẫn còn lưu)
+   */
+  async getUsage(userId: string) {
+    const { used, count } = await getUsedBytes(userId);
+    return {
+      used,
+      quota: env.ATTACHMENT_USER_QUOTA_BYTES,
+      count,
+      maxFileSize: env.ATTACHMENT_MAX_FILE_BYTES
+    };
+  },
+
+  /**
+   * Dọn file mồ côi (chủ sở hữu đã bị xoá hẳn => transactionId và loanId đều null)
+   * Xoá file trước rồi mới xoá bản ghi, xoá file lỗi => giữ bản ghi để thử lại lượt sau
+   * Dùng cho job định kỳ và sau khi xoá hẳn giao dịch / khoản vay
+   *
+   * @returns Số attachment đã dọn
+   */
+  async purgeOrphans() {
+    const storage = getStorage();
+    let purged = 0;
+    let failedIds: string[] = [];
+
+    while (true) {
+      const orphans = await prisma.attachment.findMany({
+        where: { transactionId: null, loanId: null, id: { notIn: failedIds } },
+        select: { id: true, storageKey: true },
+        take: PURGE_BATCH_SIZE
+      });
+      if (orphans.length === 0) break;
+
+      const removedIds: string[] = [];
+      for (const orphan of orphans) {
+        try {
+          await storage.delete(orphan.storageKey);
+          removedIds.push(orphan.id);
+        } catch (err) {
+          logger.warn({ err, attachmentId: orphan.id }, 'Failed to remove orphan attachment file');
+          failedIds = [...failedIds, orphan.id];
+        }
+      }
+
+      if (removedIds.length > 0) {
+        const { count } = await prisma.attachment.deleteMany({ where: { id: { in: removedIds } } });
+        purged += count;
+      }
+    }
+
+    return { purged, failed: failedIds.length };
+  }
+};
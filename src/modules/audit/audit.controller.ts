@@ -0,0 +1,161 @@
+/**
+ * Audit Controller
+ * File này xử lý HTTP requests/responses cho nhật ký thay đổi dữ liệu tài chính
+ * Controller layer - chỉ xử lý HTTP, business logic nằm ở Service layer
+ */
+import { Request, Response } from 'express';
+import { AuditService } from './audit.service';
+import { handleError, handleValidationError } from '../../utils/error-handler';
+import { getAdminAuditLogsQuerySchema, getAuditLogsQuerySchema } from './audit.schema';
+
+// Create module-specific error handler
+const handleAuditError = (error: any, res: Response) =>
+  handleError(error, res, 'Audit');
+
+export const AuditController = {
+  /**
+   * @swagger
+   * /audit-logs:
+   *   get:
+   *     tags:
+   *       - Audit Logs
+   *     summary: Nhật ký thay đổi dữ liệu của user hiện tại
+   *     description: |
+   *       Mỗi thao tác tạo / sửa / xoá / khôi phục giao dịch, ví, khoản vay, lần trả nợ, category, template,
+   *       mục tiêu (và milestone) ghi 1 dòng: người thực hiện (`actorId`, null nếu do job nền), `ipAddress`, `userAgent`,
+   *       đối tượng (`entityType`, `entityId`), `action`, dữ liệu `before` / `after`. Mới nhất trước.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: entityType
+   *         schema:
+   *           type: string
+   *           enum: [transaction, wallet, loan, loan_payment, category, transaction_template, goal, milestone]
+   *       - in: query
+   *         name: entityId
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: action
+   *         schema:
+   *           type: string
+   *           enum: [create, update, delete, restore]
+   *       - in: query
+   *         name: startDate
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *       - in: query
+   *         name: endDate
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *       - $ref: '#/components/parameters/Limit'
+   *       - $ref: '#/components/parameters/Cursor'
+   *       - $ref: '#/components/parameters/Offset'
+   *       - $ref: '#/components/parameters/IncludeTotal'
+   *     responses:
+   *       200:
+   *         description: Danh sách nhật ký + phân trang
+   *       400:
+   *         description: Query hoặc cursor không hợp lệ
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async getMyAuditLogs(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const parsed = getAuditLogsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
+
+      const result = await AuditService.getUserAuditLogs(userId, parsed.data);
+      return res.status(200).json({
+        message: 'Audit logs retrieved successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleAuditError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /admin/audit-logs:
+   *   get:
+   *     tags:
+   *       - Audit Logs
+   *     summary: Nhật ký thay đổi toàn hệ thống (ADMIN)
+   *     description: Cùng bộ lọc với GET /audit-logs, thêm lọc theo chủ dữ liệu (`userId`) và người thực hiện (`actorId`).
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: userId
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: actorId
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: entityType
+   *         schema:
+   *           type: string
+   *           enum: [transaction, wallet, loan, loan_payment, category, transaction_template, goal, milestone]
+   *       - in: query
+   *         name: entityId
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: action
+   *         schema:
+   *           type: string
+   *           enum: [create, update, delete, restore]
+   *       - in: query
+   *         name: startDate
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *       - in: query
+   *         name: endDate
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *       - $ref: '#/components/parameters/Limit'
+   *       - $ref: '#/components/parameters/Cursor'
+   *       - $ref: '#/components/parameters/Offset'
+   *       - $ref: '#/components/parameters/IncludeTotal'
+   *     responses:
+   *       200:
+   *         description: Danh sách nhật ký + phân trang
+   *       400:
+   *         description: Query hoặc cursor không hợp lệ
+   *       401:
+   *         description: Chưa đăng nhập
+   *       403:
+   *         description: Không phải ADMIN
+   */
+  async getAuditLogs(req: Request, res: Response) {
+    try {
+      const parsed = getAdminAuditLogsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
+
+      const result = await AuditService.getAuditLogs(parsed.data);
+      return res.status(200).json({
+        message: 'Audit logs retrieved successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleAuditError(e, res);
+    }
+  }
+};
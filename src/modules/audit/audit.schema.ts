@@ -0,0 +1,59 @@
+// Schema validation cho Audit Log API
+// Sử dụng Zod để validate query parameters tra cứu nhật ký thay đổi
+import { z } from 'zod';
+import { paginationQueryShape } from '../../utils/pagination';
+
+export const AUDIT_ENTITY_TYPES = [
+  'transaction',
+  'wallet',
+  'loan',
+  'loan_payment',
+  'loan_adjustment',
+  'category',
+  'transaction_template',
+  'goal',
+  'milestone'
+] as const;
+
+export const AUDIT_ACTIONS = ['create', 'update', 'delete', 'restore'] as const;
+
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+const dateQuery = z.string().refine((val) => !isNaN(Date.parse(val)), {
+  message: 'Ngày không hợp lệ'
+}).transform((val) => new Date(val));
+
+const auditFilterShape = {
+  entityType: z.enum(AUDIT_ENTITY_TYPES, {
+    message: `entityType phải là ${AUDIT_ENTITY_TYPES.join(', ')}`
+  }).optional(),
+  entityId: z.string().min(1).optional(),
+  action: z.enum(AUDIT_ACTIONS, {
+    message: `action phải là ${AUDIT_ACTIONS.join(', ')}`
+  }).optional(),
+  // Khoảng thời gian ghi nhật ký (createdAt)
+  startDate: dateQuery.optional(),
+  endDate: dateQuery.optional(),
+  ...paginationQueryShape()
+};
+
+// Schema cho query parameters nhật ký của user hiện tại
+export const getAuditLogsQuerySchema = z.object(auditFilterShape).refine(
+  (data) => !data.startDate || !data.endDate || data.startDate <= data.endDate,
+  { message: 'startDate phải trước hoặc bằng endDate', path: ['endDate'] }
+);
+
+// Schema cho query parameters nhật ký toàn hệ thống (admin)
+export const getAdminAuditLogsQuerySchema = z.object({
+  ...auditFilterShape,
+  userId: z.string().min(1).optional(),
+  actorId: z.string().min(1).optional()
+}).refine(
+  (data) => !data.startDate || !data.endDate || data.startDate <= data.endDate,
+  { message: 'startDate phải trước hoặc bằng endDate', path: ['endDate'] }
+);
+
+// Type definitions cho TypeScript
+export type GetAuditLogsQuery = z.infer<typeof getAuditLogsQuerySchema>;
+export type GetAdminAuditLogsQuery = z.infer<typeof getAdminAuditLogsQuerySchema>;
@@ -0,0 +1,140 @@
+/**
+ * Audit Service
+ * File này chứa business logic cho nhật ký thay đổi dữ liệu tài chính
+ * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
+ *
+ * Logic nghiệp vụ:
+ * - Mỗi thao tác tạo / sửa / xoá / khôi phục của giao dịch, ví, khoản vay, lần trả nợ, điều chỉnh khoản vay, category,
+ *   template và mục tiêu ghi 1 dòng nhật ký: người thực hiện, IP / user agent, đối tượng, dữ liệu trước / sau
+ * - Thao tác hàng loạt (import sao kê, khôi phục backup, gộp liên hệ) ghi 1 dòng cho mỗi bản ghi bị tạo / sửa
+ * - Ghi trong cùng DB transaction với thay đổi (thay đổi rollback => không có nhật ký)
+ * - Người thực hiện / IP / user agent lấy từ request context, thao tác của job nền => null
+ * - Nhật ký chỉ thêm mới, không có API sửa / xoá
+ */
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../db/prisma';
+import { getRequestContext } from '../../utils/request-context';
+import { paginate, SortKey } from '../../utils/pagination';
+import { AuditAction, AuditEntityType, GetAdminAuditLogsQuery, GetAuditLogsQuery } from './audit.schema';
+
+export interface AuditEntry {
+  // Chủ dữ liệu bị thay đổi
+  userId: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  before?: unknown;
+  after?: unknown;
+}
+
+const AUDIT_LOG_SORT: SortKey[] = [
+  { field: 'createdAt', direction: 'desc' },
+  { field: 'id', direction: 'desc' }
+];
+
+/**
+ * Chuyển bản ghi Prisma (Decimal, Date...) về JSON thuần
+ */
+function toSnapshot(value: unknown) {
+  if (value === undefined || value === null) return undefined;
+  return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue;
+}
+
+function buildWhere(filters: Partial<GetAdminAuditLogsQuery>): Prisma.AuditLogWhereInput {
+  return {
+    ...(filters.userId ? { userId: filters.userId } : {}),
+    ...(filters.actorId ? { actorId: filters.actorId } : {}),
+    ...(filters.entityType ? { entityType: filters.entityType } : {}),
+    ...(filters.entityId ? { entityId: filters.entityId } : {}),
+    ...(filters.action ? { action: filters.action } : {}),
+    ...(filters.startDate || filters.endDate
+      ? {
+        createdAt: {
+          ...(filters.startDate ? { gte: filters.startDate } : {}),
+          ...(filters.endDate ? { lte: filters.endDate } : {})
+        }
+      }
+      : {})
+  };
+}
+
+async function getLogs(where: Prisma.AuditLogWhereInput, query: GetAuditLogsQuery) {
+  const { items: logs, pagination } = await paginate(
+    query,
+    AUDIT_LOG_SORT,
+    (page) => prisma.auditLog.findMany({
+      where: { AND: [where, page.where] },
+      orderBy: page.orderBy,
+      take: page.take,
+      skip: page.skip
+    }),
+    () => prisma.auditLog.count({ where })
+  );
+
+  return { logs, pagination };
+}
+
+export const AuditService = {
+  /**
+   * Ghi 1 dòng nhật ký
+   * Truyền tx khi thay đổi chạy trong DB transaction để nhật ký rollback cùng thay đổi
+   */
+  async record(entry: AuditEntry, client: Prisma.TransactionClient = prisma) {
+    const context = getRequestContext();
+
+    await client.auditLog.create({
+      data: {
+        userId: entry.userId,
+        actorId: context?.actorId ?? null,
+        ipAddress: context?.ipAddress ?? null,
+        userAgent: context?.userAgent ?? null,
+        entityType: entry.entityType,
+        entityId: entry.entityId,
+        action: entry.action,
+        before: toSnapshot(entry.before),
+        after: toSnapshot(entry.after)
+      }
+    });
+  },
+
+  /**
+   * Ghi nhiều dòng nhật ký trong 1 lệnh (import sao kê, khôi phục backup, gộp liên hệ...)
+   * Truyền tx khi thay đổi chạy trong DB transaction để nhật ký rollback cùng thay đổi
+   */
+  async recordMany(entries: AuditEntry[], client: Prisma.TransactionClient = prisma) {
+    if (entries.length === 0) return;
+    const context = getRequestContext();
+
+    await client.auditLog.createMany({
+      data: entries.map((entry) => ({
+        userId: entry.userId,
+        actorId: context?.actorId ?? null,
+        ipAddress: context?.ipAddress ?? null,
+        userAgent: context?.userAgent ?? null,
+        entityType: entry.entityType,
+        entityId: entry.entityId,
+        action: entry.action,
+        before: toSnapshot(entry.before),
+        after: toSnapshot(entry.after)
+      }))
+    });
+  },
+
+  /**
+   * Nhật ký thay đổi dữ liệu của user (mới nhất trước)
+   *
+   * @throws Error('INVALID_CURSOR') nếu cursor không hợp lệ
+   */
+  async getUserAuditLogs(userId: string, query: GetAuditLogsQuery) {
+    return await getLogs(buildWhere({ ...query, userId }), query);
+  },
+
+  /**
+   * Nhật ký thay đổi toàn hệ thống (admin), lọc theo user / người thực hiện / đối tượng / thời gian
+   *
+   * @throws Error('INVALID_CURSOR') nếu cursor không hợp lệ
+   */
+  async getAuditLogs(query: GetAdminAuditLogsQuery) {
+    return await getLogs(buildWhere(query), query);
+  }
+};
@@ -0,0 +1,194 @@
+/**
+ * Balance Reconciliation Controller
+ * File này xử lý HTTP requests/responses cho đối soát và sửa lệch số dư ví
+ * Controller layer - chỉ xử lý HTTP, business logic nằm ở Service layer
+ */
+import { Request, Response } from 'express';
+import { BalanceReconciliationService } from './balance-reconciliation.service';
+import { handleError, handleValidationError } from '../../utils/error-handler';
+import {
+  balanceCheckQuerySchema,
+  adminBalanceCheckQuerySchema,
+  getBalanceAdjustmentsQuerySchema
+} from './balance-reconciliation.schema';
+
+// Create module-specific error handler
+const handleReconciliationError = (error: any, res: Response) =>
+  handleError(error, res, 'BalanceReconciliation');
+
+export const BalanceReconciliationController = {
+  /**
+   * @swagger
+   * /balance-reconciliation:
+   *   get:
+   *     tags:
+   *       - Wallets
+   *     summary: Đối soát số dư ví với sổ cái
+   *     description: |
+   *       Tính lại số dư mỗi ví = openingBalance + tổng bút toán (in - out) của các giao dịch chưa xoá,
+   *       so sánh với currentBalance và trả về chênh lệch (difference = computedBalance - currentBalance).
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: walletId
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: Chỉ kiểm tra 1 ví
+   *       - in: query
+   *         name: onlyDrifted
+   *         schema:
+   *           type: boolean
+   *           default: false
+   *         description: Chỉ trả về các ví bị lệch
+   *     responses:
+   *       200:
+   *         description: Kết quả từng ví + summary (checked, drifted)
+   *       404:
+   *         description: Ví không tồn tại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async getBalanceCheck(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const parsed = balanceCheckQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
+
+      const result = await BalanceReconciliationService.getBalanceCheck(userId, parsed.data);
+      return res.status(200).json({
+        message: 'Balance check completed successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleReconciliationError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /balance-reconciliation/repair:
+   *   post:
+   *     tags:
+   *       - Wallets
+   *     summary: Sửa lệch số dư ví
+   *     description: |
+   *       Tính lại số dư trong 1 DB transaction, cộng phần chênh lệch vào currentBalance
+   *       và ghi nhật ký (BalanceAdjustment) cho mỗi ví được sửa. Ví không lệch được bỏ qua.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               walletIds:
+   *                 type: array
+   *                 items:
+   *                   type: string
+   *                   format: uuid
+   *                 description: Bỏ trống để sửa tất cả ví bị lệch
+   *     responses:
+   *       200:
+   *         description: Danh sách bản ghi sửa lệch + summary (checked, drifted, repaired)
+   *       404:
+   *         description: Ví không tồn tại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async repairBalances(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const result = await BalanceReconciliationService.repairBalances(userId, req.body, {
+        source: 'user',
+        performedById: userId
+      });
+      return res.status(200).json({
+        message: 'Balances repaired successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleReconciliationError(e, res);
+    }
+  },
+
+  /**
+   * Lấy lịch sử sửa lệch số dư
+   * GET /api/balance-reconciliation/adjustments?walletId=
+   */
+  async getAdjustments(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const parsed = getBalanceAdjustmentsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
+
+      const result = await BalanceReconciliationService.getAdjustments(userId, parsed.data);
+      return res.status(200).json({
+        message: 'Balance adjustments retrieved successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleReconciliationError(e, res);
+    }
+  },
+
+  /**
+   * Admin: đối soát toàn hệ thống (hoặc 1 user), chỉ trả về ví bị lệch
+   * GET /api/admin/balance-reconciliation?userId=
+   */
+  async adminGetBalanceCheck(req: Request, res: Response) {
+    try {
+      const parsed = adminBalanceCheckQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
+
+      const result = await BalanceReconciliationService.adminGetBalanceCheck(parsed.data);
+      return res.status(200).json({
+        message: 'Balance check completed successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleReconciliationError(e, res);
+    }
+  },
+
+  /**
+   * Admin: sửa lệch số dư (toàn hệ thống, 1 user hoặc các ví chỉ định)
+   * POST /api/admin/balance-reconciliation/repair
+   */
+  async adminRepairBalances(req: Request, res: Response) {
+    try {
+      const adminId = req.user?.sub;
+      if (!adminId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const result = await BalanceReconciliationService.adminRepairBalances(req.body, adminId);
+      return res.status(200).json({
+        message: 'Balances repaired successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleReconciliationError(e, res);
+    }
+  }
+};
@@ -0,0 +1,44 @@
+// Schema validation cho Balance Reconciliation APIs
+// Sử dụng Zod để validate request body/query cho đối soát và sửa lệch số dư ví
+import { z } from 'zod';
+
+const booleanQuery = z.enum(['true', 'false', '1', '0']).transform((v) => v === 'true' || v === '1');
+
+// Schema cho query parameters kiểm tra số dư (user)
+export const balanceCheckQuerySchema = z.object({
+  walletId: z.string().uuid('walletId phải là UUID hợp lệ').optional(),
+  // Chỉ trả về các ví bị lệch
+  onlyDrifted: booleanQuery.default(false)
+});
+
+// Schema cho sửa lệch số dư (user); bỏ trống walletIds => sửa tất cả ví bị lệch
+export const repairBalancesSchema = z.object({
+  walletIds: z.array(z.string().uuid('walletId phải là UUID hợp lệ'))
+    .min(1, 'walletIds không được rỗng')
+    .max(100, 'Tối đa 100 ví mỗi lần')
+    .optional()
+});
+
+// Schema cho query parameters kiểm tra số dư (admin); bỏ trống userId => quét toàn hệ thống
+export const adminBalanceCheckQuerySchema = z.object({
+  userId: z.string().uuid('userId phải là UUID hợp lệ').optional()
+});
+
+// Schema cho sửa lệch số dư (admin)
+export const adminRepairBalancesSchema = repairBalancesSchema.extend({
+  userId: z.string().uuid('userId phải là UUID hợp lệ').optional()
+});
+
+// Schema cho query parameters lịch sử sửa lệch
+export const getBalanceAdjustmentsQuerySchema = z.object({
+  walletId: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+// Type definitions cho TypeScript
+export type BalanceCheckQuery = z.infer<typeof balanceCheckQuerySchema>;
+export type RepairBalancesData = z.infer<typeof repairBalancesSchema>;
+export type AdminBalanceCheckQuery = z.infer<typeof adminBalanceCheckQuerySchema>;
+export type AdminRepairBalancesData = z.infer<typeof adminRepairBalancesSchema>;
+export type GetBalanceAdjustmentsQuery = z.infer<typeof getBalanceAdjustmentsQuerySchema>;
@@ -0,0 +1,330 @@
+/**
+ * Balance Reconciliation Service
+ * File này chứa business logic cho đối soát currentBalance của ví với sổ cái (TransactionEntry)
+ * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
+ *
+ * Logic nghiệp vụ:
+ * - currentBalance được cộng/trừ dần ở nhiều luồng (giao dịch, khoản vay, trả nợ, import...)
+ *   => 1 bug ở bất kỳ luồng nào cũng làm số dư lệch mà không ai biết
+ * - Số dư đúng = openingBalance + tổng entry in - tổng entry out của các giao dịch chưa xoá
+ * - Sửa lệch: tính lại trong DB transaction, cộng phần chênh lệch vào currentBalance
+ *   (increment thay vì ghi đè để không làm mất thay đổi của request chạy song song)
+ *   và ghi 1 BalanceAdjustment cho mỗi ví được sửa
+ */
+import { BalanceAdjustmentSource, Prisma } from '@prisma/client';
+import { prisma } from '../../db/prisma';
+import { logger } from '../../config/logger';
+import { roundMoney } from '../../utils/currency';
+import {
+  BalanceCheckQuery,
+  RepairBalancesData,
+  AdminBalanceCheckQuery,
+  AdminRepairBalancesData,
+  GetBalanceAdjustmentsQuery
+} from './balance-reconciliation.schema';
+
+// Số ví đối soát mỗi lượt query (job quét toàn hệ thống theo từng batch)
+const SCAN_BATCH_SIZE = 200;
+
+type DbClient = Prisma.TransactionClient;
+
+export interface BalanceActor {
+  source: BalanceAdjustmentSource;
+  // null nếu do job
+  performedById: string | null;
+}
+
+const walletSelect = {
+  id: true,
+  userId: true,
+  name: true,
+  currency: true,
+  isArchived: true,
+  openingBalance: true,
+  currentBalance: true
+} as const;
+
+type WalletRow = Prisma.WalletGetPayload<{ select: typeof walletSelect }>;
+
+/**
+ * Tổng entry (in - out) của các giao dịch chưa xoá theo từng ví
+ */
+async function sumLedgerByWallet(walletIds: string[], client: DbClient = prisma) {
+  const sums = await client.transactionEntry.groupBy({
+    by: ['walletId', 'direction'],
+    where: {
+      walletId: { in: walletIds },
+      transaction: { deletedAt: null }
+    },
+    _sum: { amount: true }
+  });
+
+  const ledger = new Map<string, number>();
+  for (const row of sums) {
+    const amount = row._sum.amount?.toNumber() ?? 0;
+    ledger.set(row.walletId, (ledger.get(row.walletId) ?? 0) + (row.direction === 'in' ? amount : -amount));
+  }
+  return ledger;
+}
+
+/**
+ * So sánh currentBalance với số dư tính lại từ sổ cái
+ */
+function toBalanceCheck(wallet: WalletRow, ledger: Map<string, number>) {
+  const currentBalance = wallet.currentBalance.toNumber();
+  const computedBalance = roundMoney(wallet.openingBalance.toNumber() + (ledger.get(wallet.id) ?? 0));
+  const difference = roundMoney(computedBalance - currentBalance);
+
+  return {
+    walletId: wallet.id,
+    userId: wallet.userId,
+    name: wallet.name,
+    currency: wallet.currency,
+    isArchived: wallet.isArchived,
+    currentBalance,
+    computedBalance,
+    difference,
+    isConsistent: difference === 0
+  };
+}
+
+type BalanceCheck = ReturnType<typeof toBalanceCheck>;
+
+/**
+ * Đối soát các ví thoả điều kiện `where`, quét theo batch (cursor theo id)
+ *
+ * @param includeConsistent - Trả về cả ví không lệch (false: chỉ ví lệch)
+ */
+async function scanWallets(where: Prisma.WalletWhereInput, includeConsistent: boolean) {
+  const wallets: BalanceCheck[] = [];
+  let checked = 0;
+  let drifted = 0;
+  let cursor: string | undefined;
+
+  while (true) {
+    const batch = await prisma.wallet.findMany({
+      where,
+      select: walletSelect,
+      orderBy: { id: 'asc' },
+      take: SCAN_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+    });
+    if (batch.length === 0) break;
+
+    const ledger = await sumLedgerByWallet(batch.map((w) => w.id));
+    for (const wallet of batch) {
+      const check = toBalanceCheck(wallet, ledger);
+      checked++;
+      if (!check.isConsistent) drifted++;
+      if (includeConsistent || !check.isConsistent) wallets.push(check);
+    }
+
+    if (batch.length < SCAN_BATCH_SIZE) break;
+    cursor = batch[batch.length - 1].id;
+  }
+
+  return { wallets, summary: { checked, drifted } };
+}
+
+/**
+ * Sửa lệch số dư các ví trong 1 DB transaction (tính lại trong transaction để tránh dữ liệu cũ)
+ *
+ * @returns Danh sách BalanceAdjustment đã ghi (ví không còn lệch thì bỏ qua)
+ */
+async function repairWallets(walletIds: string[], actor: BalanceActor) {
+  if (walletIds.length === 0) return [];
+
+  return await prisma.$transaction(async (tx) => {
+    const wallets = await tx.wallet.findMany({
+      where: { id: { in: walletIds } },
+      select: walletSelect
+    });
+    const ledger = await sumLedgerByWallet(wallets.map((w) => w.id), tx);
+
+    const adjustments = [];
+    for (const wallet of wallets) {
+      const check = toBalanceCheck(wallet, ledger);
+      if (check.isConsistent) continue;
+
+      await tx.wallet.update({
+        where: { id: wallet.id },
+        data: {
+          currentBalance: {
+            increment: check.difference
+          }
+        }
+      });
+
+      adjustments.push(await tx.balanceAdjustment.create({
+        data: {
+          walletId: wallet.id,
+          userId: wallet.userId,
+          source: actor.source,
+          performedById: actor.performedById,
+          previousBalance: check.currentBalance,
+          computedBalance: check.computedBalance,
+          difference: check.difference
+        },
+        include: {
+          wallet: { select: { id: true, name: true, currency: true } }
+        }
+      }));
+    }
+
+    return adjustments;
+  });
+}
+
+/**
+ * Quét và sửa lệch theo từng batch ví bị lệch
+ */
+async function scanAndRepair(where: Prisma.WalletWhereInput, actor: BalanceActor) {
+  const { wallets, summary } = await scanWallets(where, false);
+
+  const adjustments = [];
+  for (let i = 0; i < wallets.length; i += SCAN_BATCH_SIZE) {
+    const ids = wallets.slice(i, i + SCAN_BATCH_SIZE).map((w) => w.walletId);
+    adjustments.push(...await repairWallets(ids, actor));
+  }
+
+  return {
+    adjustments,
+    summary: { ...summary, repaired: adjustments.length }
+  };
+}
+
+export const BalanceReconciliationService = {
+  /**
+   * Đối soát số dư các ví của user
+   *
+   * @param userId - ID của user
+   * @param query - walletId (1 ví) / onlyDrifted (chỉ ví lệch)
+   * @returns Kết quả từng ví + tổng số ví đã kiểm tra / bị lệch
+   * @throws Error('WALLET_NOT_FOUND') nếu walletId không thuộc user
+   */
+  async getBalanceCheck(userId: string, query: Partial<BalanceCheckQuery> = {}) {
+    const { walletId, onlyDrifted = false } = query;
+
+    if (walletId) {
+      const wallet = await prisma.wallet.findFirst({ where: { id: walletId, userId }, select: { id: true } });
+      if (!wallet) {
+        throw new Error('WALLET_NOT_FOUND');
+      }
+    }
+
+    return await scanWallets({ userId, ...(walletId ? { id: walletId } : {}) }, !onlyDrifted);
+  },
+
+  /**
+   * Sửa lệch số dư các ví của user và ghi nhật ký
+   *
+   * @param userId - ID của user
+   * @param data - walletIds cần sửa (bỏ trống = tất cả ví bị lệch)
+   * @param actor - Nguồn sửa (user/admin/job) và người thực hiện
+   * @throws Error('WALLET_NOT_FOUND') nếu có walletId không thuộc user
+   */
+  async repairBalances(userId: string, data: RepairBalancesData, actor: BalanceActor) {
+    const walletIds = data.walletIds ? Array.from(new Set(data.walletIds)) : undefined;
+
+    if (walletIds) {
+      const count = await prisma.wallet.count({ where: { id: { in: walletIds }, userId } });
+      if (count !== walletIds.length) {
+        throw new Error('WALLET_NOT_FOUND');
+      }
+    }
+
+    return await scanAndRepair({ userId, ...(walletIds ? { id: { in: walletIds } } : {}) }, actor);
+  },
+
+  /**
+   * Lịch sử sửa lệch số dư của user
+   */
+  async getAdjustments(userId: string, filters: Partial<GetBalanceAdjustmentsQuery> = {}) {
+    const { walletId, limit = 20, offset = 0 } = filters;
+
+    const where: any = { userId };
+    if (walletId) where.walletId = walletId;
+
+    const adjustments = await prisma.balanceAdjustment.findMany({
+      where,
+      include: {
+        wallet: { select: { id: true, name: true, currency: true } }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      skip: offset
+    });
+
+    const total = await prisma.balanceAdjustment.count({ where });
+
+    return {
+      adjustments,
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total
+      }
+    };
+  },
+
+  /**
+   * Admin: đối soát toàn hệ thống (hoặc 1 user), chỉ trả về các ví bị lệch
+   */
+  async adminGetBalanceCheck(query: Partial<AdminBalanceCheckQuery> = {}) {
+    const { userId } = query;
+    return await scanWallets(userId ? { userId } : {}, false);
+  },
+
+  /**
+   * Admin: sửa lệch số dư toàn hệ thống, 1 user hoặc các ví chỉ định
+   *
+   * @param data - userId / walletIds (bỏ trống cả 2 = tất cả ví bị lệch)
+   * @param adminId - ID của admin thực hiện (ghi vào nhật ký)
+   * @throws Error('WALLET_NOT_FOUND') nếu có walletId không tồn tại (hoặc không thuộc userId)
+   */
+  async adminRepairBalances(data: AdminRepairBalancesData, adminId: string) {
+    const walletIds = data.walletIds ? Array.from(new Set(data.walletIds)) : undefined;
+    const where: Prisma.WalletWhereInput = {
+      ...(data.userId ? { userId: data.userId } : {}),
+      ...(walletIds ? { id: { in: walletIds } } : {})
+    };
+
+    if (walletIds) {
+      const count = await prisma.wallet.count({ where });
+      if (count !== walletIds.length) {
+        throw new Error('WALLET_NOT_FOUND');
+      }
+    }
+
+    return await scanAndRepair(where, { source: 'admin', performedById: adminId });
+  },
+
+  /**
+   * Quét toàn bộ ví để phát hiện lệch số dư (được gọi bởi job nền)
+   *
+   * @param repair - Tự động sửa các ví bị lệch (false: chỉ log cảnh báo)
+   * @returns Số ví đã kiểm tra / bị lệch / đã sửa
+   */
+  async processBalanceDrift(repair: boolean) {
+    if (!repair) {
+      const { wallets, summary } = await scanWallets({}, false);
+      for (const w of wallets) {
+        logger.warn(
+          { walletId: w.walletId, userId: w.userId, currentBalance: w.currentBalance, computedBalance: w.computedBalance },
+          'Wallet balance drift detected'
+        );
+      }
+      return { ...summary, repaired: 0 };
+    }
+
+    const { adjustments, summary } = await scanAndRepair({}, { source: 'job', performedById: null });
+    for (const a of adjustments) {
+      logger.warn(
+        { walletId: a.walletId, userId: a.userId, difference: a.difference.toNumber() },
+        'Wallet balance drift repaired'
+      );
+    }
+    return summary;
+  }
+};
@@ -0,0 +1,265 @@
+/**
+ * Budget Controller
+ * File này xử lý HTTP requests/responses cho các budget endpoints
+ * Controller layer - chỉ xử lý HTTP, business logic nằm ở Service layer
+ */
+import { Request, Response } from 'express';
+import { BudgetService } from './budget.service';
+import { handleError, handleValidationError } from '../../utils/error-handler';
+import { getBudgetsQuerySchema, getBudgetProgressQuerySchema } from './budget.schema';
+
+// Create module-specific error handler
+const handleBudgetError = (error: any, res: Response) =>
+  handleError(error, res, 'Budget');
+
+export const BudgetController = {
+  /**
+   * @swagger
+   * /budgets:
+   *   post:
+   *     tags:
+   *       - Budgets
+   *     summary: Tạo ngân sách
+   *     description: Đặt ngân sách chi tiêu cho 1 category expense theo chu kỳ
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - categoryId
+   *               - amount
+   *             properties:
+   *               categoryId:
+   *                 type: string
+   *                 format: uuid
+   *               periodType:
+   *                 type: string
+   *                 enum: [weekly, monthly, yearly]
+   *                 default: monthly
+   *               amount:
+   *                 type: number
+   *                 example: 5000000
+   *               includeChildren:
+   *                 type: boolean
+   *                 default: true
+   *                 description: Tính cả chi tiêu của category con
+   *               alertThreshold:
+   *                 type: integer
+   *                 minimum: 1
+   *                 maximum: 100
+   *                 default: 80
+   *                 description: Ngưỡng cảnh báo (% đã dùng)
+   *               rollover:
+   *                 type: boolean
+   *                 default: false
+   *                 description: Cộng phần chưa dùng sang kỳ sau
+   *               startDate:
+   *                 type: string
+   *                 format: date
+   *                 description: Ngày bất kỳ trong kỳ đầu tiên áp dụng
+   *               note:
+   *                 type: string
+   *     responses:
+   *       201:
+   *         description: Ngân sách được tạo thành công
+   *       400:
+   *         description: Category không phải expense
+   *       404:
+   *         description: Category không tồn tại
+   *       409:
+   *         description: Category đã có ngân sách cùng chu kỳ
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async createBudget(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const budget = await BudgetService.createBudget(req.body, userId);
+      return res.status(201).json({
+        message: 'Budget created successfully',
+        budget
+      });
+    } catch (e: any) {
+      return handleBudgetError(e, res);
+    }
+  },
+
+  /**
+   * Lấy danh sách ngân sách
+   * GET /api/budgets
+   */
+  async getBudgets(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const parsed = getBudgetsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
+
+      const result = await BudgetService.getBudgets(userId, parsed.data);
+      return res.status(200).json({
+        message: 'Budgets retrieved successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleBudgetError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /budgets/progress:
+   *   get:
+   *     tags:
+   *       - Budgets
+   *     summary: Tiến độ tất cả ngân sách
+   *     description: |
+   *       Ngân sách vs. chi tiêu thực tế, số còn lại, % đã dùng và cờ cảnh báo cho kỳ chứa `date`.
+   *       Chi tiêu từ ví có tiền tệ thiếu tỷ giá được liệt kê trong missingRates và không cộng vào spent.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: date
+   *         schema:
+   *           type: string
+   *           format: date
+   *         description: Ngày bất kỳ trong kỳ cần xem (mặc định hôm nay)
+   *       - in: query
+   *         name: periodType
+   *         schema:
+   *           type: string
+   *           enum: [weekly, monthly, yearly]
+   *     responses:
+   *       200:
+   *         description: Tiến độ từng ngân sách và tổng hợp
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async getBudgetsProgress(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const parsed = getBudgetProgressQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
+
+      const progress = await BudgetService.getBudgetsProgress(userId, parsed.data);
+      return res.status(200).json({
+        message: 'Budget progress retrieved successfully',
+        ...progress
+      });
+    } catch (e: any) {
+      return handleBudgetError(e, res);
+    }
+  },
+
+  /**
+   * Lấy ngân sách theo ID
+   * GET /api/budgets/:id
+   */
+  async getBudget(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const budget = await BudgetService.getBudgetById(req.params.id, userId);
+      if (!budget) {
+        return res.status(404).json({ message: 'Budget not found' });
+      }
+
+      return res.status(200).json({
+        message: 'Budget retrieved successfully',
+        budget
+      });
+    } catch (e: any) {
+      return handleBudgetError(e, res);
+    }
+  },
+
+  /**
+   * Tiến độ 1 ngân sách
+   * GET /api/budgets/:id/progress?date=YYYY-MM-DD
+   */
+  async getBudgetProgress(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const parsed = getBudgetProgressQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
+
+      const progress = await BudgetService.getBudgetProgress(req.params.id, userId, parsed.data.date);
+      return res.status(200).json({
+        message: 'Budget progress retrieved successfully',
+        progress
+      });
+    } catch (e: any) {
+      return handleBudgetError(e, res);
+    }
+  },
+
+  /**
+   * Cập nhật ngân sách
+   * PUT /api/budgets/:id
+   */
+  async updateBudget(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const budget = await BudgetService.updateBudget(req.params.id, userId, req.body);
+      return res.status(200).json({
+        message: 'Budget updated successfully',
+        budget
+      });
+    } catch (e: any) {
+      return handleBudgetError(e, res);
+    }
+  },
+
+  /**
+   * Xóa ngân sách
+   * DELETE /api/budgets/:id
+   */
+  async deleteBudget(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const budget = await BudgetService.deleteBudget(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Budget deleted successfully',
+        budget
+      });
+    } catch (e: any) {
+      return handleBudgetError(e, res);
+    }
+  }
+};
@@ -0,0 +1,62 @@
+// Schema validation cho Budget APIs
+// Sử dụng Zod để validate request body/query cho ngân sách
+import { z } from 'zod';
+
+const amountSchema = z.number().positive('amount phải lớn hơn 0').refine(
+  (val) => Number(val.toFixed(2)) === val,
+  'amount chỉ được phép 2 số thập phân'
+);
+
+const dateQuery = z.string().refine((val) => !isNaN(Date.parse(val)), {
+  message: 'date phải là ngày hợp lệ'
+}).transform((val) => new Date(val));
+
+// Schema cho tạo ngân sách
+export const createBudgetSchema = z.object({
+  categoryId: z.string().uuid('categoryId phải là UUID hợp lệ'),
+  periodType: z.enum(['weekly', 'monthly', 'yearly'], {
+    message: 'periodType phải là weekly, monthly hoặc yearly'
+  }).default('monthly'),
+  amount: amountSchema,
+  includeChildren: z.boolean().default(true),
+  alertThreshold: z.number().int().min(1, 'alertThreshold phải từ 1-100').max(100, 'alertThreshold phải từ 1-100').default(80),
+  rollover: z.boolean().default(false),
+  // Ngày bất kỳ trong kỳ đầu tiên áp dụng (mặc định kỳ hiện tại)
+  startDate: z.string().refine((val) => !isNaN(Date.parse(val)), {
+    message: 'startDate phải là ngày hợp lệ'
+  }).transform((val) => new Date(val)).optional(),
+  note: z.string().max(1000, 'note không được quá 1000 ký tự').optional()
+});
+
+// Schema cho cập nhật ngân sách (không đổi category/periodType)
+export const updateBudgetSchema = z.object({
+  amount: amountSchema.optional(),
+  includeChildren: z.boolean().optional(),
+  alertThreshold: z.number().int().min(1).max(100).optional(),
+  rollover: z.boolean().optional(),
+  note: z.string().max(1000).optional().nullable()
+}).refine(
+  (data) => Object.keys(data).length > 0,
+  'Phải cung cấp ít nhất một trường để cập nhật'
+);
+
+// Schema cho query parameters danh sách ngân sách
+export const getBudgetsQuerySchema = z.object({
+  periodType: z.enum(['weekly', 'monthly', 'yearly']).optional(),
+  categoryId: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+// Schema cho query parameters tiến độ ngân sách
+export const getBudgetProgressQuerySchema = z.object({
+  // Ngày bất kỳ trong kỳ cần xem (mặc định hôm nay)
+  date: dateQuery.optional(),
+  periodType: z.enum(['weekly', 'monthly', 'yearly']).optional()
+});
+
+// Type definitions cho TypeScript
+export type CreateBudgetData = z.infer<typeof createBudgetSchema>;
+export type UpdateBudgetData = z.infer<typeof updateBudgetSchema>;
+export type GetBudgetsQuery = z.infer<typeof getBudgetsQuerySchema>;
+export type GetBudgetProgressQuery = z.infer<typeof getBudgetProgressQuerySchema>;
@@ -0,0 +1,446 @@
+/**
+ * Budget Service
+ * File này chứa business logic cho ngân sách chi tiêu theo category
+ * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
+ *
+ * Logic nghiệp vụ:
+ * - Mỗi ngân sách gắn với 1 category expense + chu kỳ (weekly/monthly/yearly)
+ * - Số đã chi = tổng amount của Transaction(expense, deletedAt = null) trong kỳ,
+ *   thuộc category đó (và các category con nếu includeChildren)
+ *   + Giao dịch split chỉ tính các dòng thuộc category của ngân sách
+ * - Ngân sách tính theo tiền tệ gốc của user: chi tiêu từ ví khác tiền tệ được quy đổi
+ *   theo tỷ giá tại ngày giao dịch; tiền tệ thiếu tỷ giá được liệt kê trong missingRates, không cộng vào số đã chi
+ * - Rollover: phần chưa dùng của kỳ trước cộng vào kỳ sau (chi vượt thì kỳ sau không bị trừ)
+ * - Cảnh báo khi % đã dùng >= alertThreshold, và overspent khi chi > số khả dụng
+ *   + Job nền gửi thông báo 1 lần / kỳ cho mỗi mức (chạm ngưỡng, chi vượt)
+ */
+import { Budget, Category } from '@prisma/client';
+import { prisma } from '../../db/prisma';
+import { CurrencyConverter, ExchangeRateService } from '../exchange-rate/exchange-rate.service';
+import { categoryFilter } from '../transaction/transaction.service';
+import { getPeriodRange, listPeriods, shiftPeriod, startOfPeriod, PeriodRange } from '../../utils/period';
+import { logger } from '../../config/logger';
+import { NotificationInput, NotificationService } from '../notification/notification.service';
+import { CreateBudgetData, UpdateBudgetData, GetBudgetsQuery, GetBudgetProgressQuery } from './budget.schema';
+
+// Số kỳ tối đa nhìn lại khi tính rollover (tránh quét toàn bộ lịch sử)
+const MAX_ROLLOVER_PERIODS = 12;
+
+type BudgetWithCategory = Budget & { category: Category };
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Validate category thuộc user và là category expense
+ */
+async function validateExpenseCategory(categoryId: string, userId: string) {
+  const category = await prisma.category.findFirst({
+    where: { id: categoryId, userId }
+  });
+  if (!category) {
+    throw new Error('CATEGORY_NOT_FOUND');
+  }
+  if (category.type !== 'expense') {
+    throw new Error('BUDGET_CATEGORY_TYPE_INVALID');
+  }
+  return category;
+}
+
+/**
+ * Lấy category gốc + toàn bộ category con cháu (nếu includeChildren)
+ */
+async function collectCategoryIds(userId: string, rootCategoryId: string, includeChildren: boolean) {
+  if (!includeChildren) {
+    return [rootCategoryId];
+  }
+
+  const categories = await prisma.category.findMany({
+    where: { userId, type: 'expense' },
+    select: { id: true, parentId: true }
+  });
+
+  const childrenByParent = new Map<string, string[]>();
+  for (const c of categories) {
+    if (!c.parentId) continue;
+    const list = childrenByParent.get(c.parentId) ?? [];
+    list.push(c.id);
+    childrenByParent.set(c.parentId, list);
+  }
+
+  // BFS, dùng Set để an toàn nếu dữ liệu lỡ có vòng lặp
+  const ids = new Set<string>([rootCategoryId]);
+  const queue = [rootCategoryId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const childId of childrenByParent.get(current) ?? []) {
+      if (!ids.has(childId)) {
+        ids.add(childId);
+        queue.push(childId);
+      }
+    }
+  }
+
+  return Array.from(ids);
+}
+
+/**
+ * Tổng chi tiêu theo từng kỳ cho danh sách category (đã quy đổi về tiền tệ gốc)
+ *
+ * @returns totals: mảng số tiền, cùng thứ tự với `periods`; missingRates: tiền tệ thiếu tỷ giá (không cộng vào totals)
+ */
+async function sumExpenseByPeriod(
+  userId: string,
+  categoryIds: string[],
+  periods: PeriodRange[],
+  converter: CurrencyConverter
+) {
+  const totals = periods.map(() => 0);
+  const missingRates = new Set<string>();
+  if (periods.length === 0) return { totals, missingRates: [] };
+
+  const transactions = await prisma.transaction.findMany({
+    where: {
+      userId,
+      deletedAt: null,
+      type: 'expense',
+      ...categoryFilter(categoryIds),
+      transactionDate: {
+        gte: periods[0].start,
+        lt: periods[periods.length - 1].end
+      }
+    },
+    select: {
+      amount: true,
+      transactionDate: true,
+      entries: {
+        select: { wallet: { select: { currency: true } } },
+        take: 1
+      },
+      splits: {
+        where: { categoryId: { in: categoryIds } },
+        select: { amount: true }
+      }
+    }
+  });
+
+  for (const t of transactions) {
+    const time = t.transactionDate.getTime();
+    const index = periods.findIndex((p) => time >= p.start.getTime() && time < p.end.getTime());
+    if (index < 0) continue;
+
+    const currency = t.entries[0]?.wallet.currency ?? converter.currency;
+    // Giao dịch split: chỉ tính các dòng thuộc category của ngân sách
+    const spent = t.splits.length > 0
+      ? t.splits.reduce((sum, line) => sum + line.amount.toNumber(), 0)
+      : t.amount.toNumber();
+    const amount = converter.convert(spent, currency, t.transactionDate);
+    if (amount === null) {
+      missingRates.add(currency);
+      continue;
+    }
+    totals[index] += amount;
+  }
+
+  return { totals, missingRates: Array.from(missingRates) };
+}
+
+/**
+ * Tính tiến độ ngân sách cho kỳ chứa `date`
+ */
+async function computeProgress(budget: BudgetWithCategory, date: Date, converter: CurrencyConverter) {
+  const target = getPeriodRange(date, budget.periodType);
+
+  // Rollover chỉ tính từ kỳ đầu tiên của ngân sách, tối đa MAX_ROLLOVER_PERIODS kỳ trước
+  let firstStart = target.start;
+  if (budget.rollover && target.start.getTime() > budget.startDate.getTime()) {
+    const earliest = shiftPeriod(target.start, budget.periodType, -MAX_ROLLOVER_PERIODS);
+    firstStart = earliest.getTime() > budget.startDate.getTime() ? earliest : budget.startDate;
+  }
+
+  const periods = listPeriods(firstStart, target.start, budget.periodType);
+  const categoryIds = await collectCategoryIds(budget.userId, budget.categoryId, budget.includeChildren);
+  const { totals: spentByPeriod, missingRates } = await sumExpenseByPeriod(budget.userId, categoryIds, periods, converter);
+
+  const budgeted = budget.amount.toNumber();
+
+  // Cộng dồn phần chưa dùng của các kỳ trước (không để âm)
+  let rolloverAmount = 0;
+  for (let i = 0; i < periods.length - 1; i++) {
+    rolloverAmount = Math.max(0, budgeted + rolloverAmount - spentByPeriod[i]);
+  }
+
+  const spent = spentByPeriod[periods.length - 1] ?? 0;
+  const available = budgeted + rolloverAmount;
+  const percentUsed = available > 0 ? (spent / available) * 100 : spent > 0 ? 100 : 0;
+
+  return {
+    budgetId: budget.id,
+    categoryId: budget.categoryId,
+    category: {
+      id: budget.category.id,
+      name: budget.category.name,
+      icon: budget.category.icon
+    },
+    periodType: budget.periodType,
+    periodStart: target.start,
+    periodEnd: target.end,
+    includeChildren: budget.includeChildren,
+    currency: converter.currency,
+    budgeted: round2(budgeted),
+    rolloverAmount: round2(rolloverAmount),
+    available: round2(available),
+    spent: round2(spent),
+    remaining: round2(available - spent),
+    percentUsed: round2(percentUsed),
+    alertThreshold: budget.alertThreshold,
+    isOverThreshold: percentUsed >= budget.alertThreshold,
+    isOverspent: spent > available,
+    missingRates
+  };
+}
+
+export const BudgetService = {
+  /**
+   * Tạo ngân sách mới
+   *
+   * @param data - Dữ liệu ngân sách đã validate
+   * @param userId - ID của user
+   * @returns Budget object đã tạo
+   * @throws Error('CATEGORY_NOT_FOUND') nếu category không tồn tại
+   * @throws Error('BUDGET_CATEGORY_TYPE_INVALID') nếu category không phải expense
+   * @throws Error('BUDGET_EXISTS') nếu category đã có ngân sách cùng chu kỳ
+   */
+  async createBudget(data: CreateBudgetData, userId: string) {
+    const { categoryId, periodType, amount, includeChildren, alertThreshold, rollover, startDate, note } = data;
+
+    await validateExpenseCategory(categoryId, userId);
+
+    const existing = await prisma.budget.findFirst({
+      where: { userId, categoryId, periodType }
+    });
+    if (existing) {
+      throw new Error('BUDGET_EXISTS');
+    }
+
+    return await prisma.budget.create({
+      data: {
+        userId,
+        categoryId,
+        periodType,
+        amount,
+        includeChildren,
+        alertThreshold,
+        rollover,
+        startDate: startOfPeriod(startDate ?? new Date(), periodType),
+        note
+      },
+      include: { category: true }
+    });
+  },
+
+  /**
+   * Lấy danh sách ngân sách của user
+   *
+   * @param userId - ID của user
+   * @param filters - Các filter tùy chọn
+   * @returns Danh sách ngân sách với pagination
+   */
+  async getBudgets(userId: string, filters: Partial<GetBudgetsQuery> = {}) {
+    const { periodType, categoryId, limit = 50, offset = 0 } = filters;
+
+    const where: any = { userId };
+    if (periodType) where.periodType = periodType;
+    if (categoryId) where.categoryId = categoryId;
+
+    const budgets = await prisma.budget.findMany({
+      where,
+      include: { category: true },
+      orderBy: [
+        { periodType: 'asc' },
+        { createdAt: 'desc' }
+      ],
+      take: limit,
+      skip: offset
+    });
+
+    const total = await prisma.budget.count({ where });
+
+    return {
+      budgets,
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total
+      }
+    };
+  },
+
+  /**
+   * Lấy ngân sách theo ID
+   *
+   * @returns Budget object hoặc null nếu không tìm thấy
+   */
+  async getBudgetById(budgetId: string, userId: string) {
+    return await prisma.budget.findFirst({
+      where: { id: budgetId, userId },
+      include: { category: true }
+    });
+  },
+
+  /**
+   * Cập nhật ngân sách
+   *
+   * @throws Error('BUDGET_NOT_FOUND') nếu ngân sách không tồn tại
+   */
+  async updateBudget(budgetId: string, userId: string, data: UpdateBudgetData) {
+    const existing = await prisma.budget.findFirst({
+      where: { id: budgetId, userId }
+    });
+
+    if (!existing) {
+      throw new Error('BUDGET_NOT_FOUND');
+    }
+
+    return await prisma.budget.update({
+      where: { id: budgetId },
+      data,
+      include: { category: true }
+    });
+  },
+
+  /**
+   * Xóa ngân sách (hard delete)
+   *
+   * @throws Error('BUDGET_NOT_FOUND') nếu ngân sách không tồn tại
+   */
+  async deleteBudget(budgetId: string, userId: string) {
+    const existing = await prisma.budget.findFirst({
+      where: { id: budgetId, userId }
+    });
+
+    if (!existing) {
+      throw new Error('BUDGET_NOT_FOUND');
+    }
+
+    await prisma.budget.delete({
+      where: { id: budgetId }
+    });
+
+    return { id: budgetId, deleted: true } as any;
+  },
+
+  /**
+   * Tiến độ 1 ngân sách trong kỳ chứa `date`
+   *
+   * @throws Error('BUDGET_NOT_FOUND') nếu ngân sách không tồn tại
+   */
+  async getBudgetProgress(budgetId: string, userId: string, date = new Date()) {
+    const budget = await prisma.budget.findFirst({
+      where: { id: budgetId, userId },
+      include: { category: true }
+    });
+
+    if (!budget) {
+      throw new Error('BUDGET_NOT_FOUND');
+    }
+
+    return await computeProgress(budget, date, await ExchangeRateService.getBaseConverter(userId));
+  },
+
+  /**
+   * Tiến độ tất cả ngân sách của user trong kỳ chứa `date`, kèm tổng hợp
+   */
+  async getBudgetsProgress(userId: string, query: Partial<GetBudgetProgressQuery> = {}) {
+    const { date = new Date(), periodType } = query;
+
+    const where: any = { userId };
+    if (periodType) where.periodType = periodType;
+
+    const budgets = await prisma.budget.findMany({
+      where,
+      include: { category: true },
+      orderBy: [
+        { periodType: 'asc' },
+        { createdAt: 'desc' }
+      ]
+    });
+
+    const converter = await ExchangeRateService.getBaseConverter(userId);
+    const progress = [];
+    for (const budget of budgets) {
+      progress.push(await computeProgress(budget, date, converter));
+    }
+
+    return {
+      date,
+      currency: converter.currency,
+      budgets: progress,
+      summary: {
+        totalBudgeted: round2(progress.reduce((sum, p) => sum + p.available, 0)),
+        totalSpent: round2(progress.reduce((sum, p) => sum + p.spent, 0)),
+        overThresholdCount: progress.filter((p) => p.isOverThreshold).length,
+        overspentCount: progress.filter((p) => p.isOverspent).length,
+        missingRates: Array.from(new Set(progress.flatMap((p) => p.missingRates)))
+      }
+    };
+  },
+
+  /**
+   * Gửi cảnh báo ngân sách chạm ngưỡng (alertThreshold) / chi vượt trong kỳ hiện tại (được gọi bởi job nền)
+   * Mỗi ngân sách nhận tối đa 1 thông báo / mức / kỳ (dedupeKey theo ngày bắt đầu kỳ)
+   *
+   * @param now - Thời điểm tham chiếu (mặc định hiện tại)
+   * @returns Số user đã kiểm tra, số thông báo đã tạo và số lượt gửi thành công / lỗi
+   */
+  async processBudgetAlerts(now = new Date()) {
+    const owners = await prisma.budget.findMany({
+      distinct: ['userId'],
+      select: { userId: true }
+    });
+
+    const alerts: NotificationInput[] = [];
+    for (const { userId } of owners) {
+      try {
+        const { budgets, currency } = await this.getBudgetsProgress(userId, { date: now });
+        for (const progress of budgets) {
+          if (!progress.isOverThreshold && !progress.isOverspent) continue;
+
+          const periodStart = progress.periodStart.toISOString().slice(0, 10);
+          const spent = `${progress.spent.toLocaleString('vi-VN')} / ${progress.available.toLocaleString('vi-VN')} ${currency}`;
+          const data = {
+            budgetId: progress.budgetId,
+            categoryId: progress.categoryId,
+            periodStart,
+            spent: progress.spent,
+            available: progress.available,
+            percentUsed: progress.percentUsed
+          };
+
+          alerts.push(progress.isOverspent
+            ? {
+              userId,
+              type: 'budget_exceeded',
+              title: 'Vượt ngân sách',
+              message: `${progress.category.name}: đã chi ${spent}, vượt ${(-progress.remaining).toLocaleString('vi-VN')} ${currency}`,
+              data,
+              dedupeKey: `budget:${progress.budgetId}:${periodStart}:exceeded`
+            }
+            : {
+              userId,
+              type: 'budget_threshold',
+              title: 'Sắp hết ngân sách',
+              message: `${progress.category.name}: đã chi ${spent} (${progress.percentUsed}%)`,
+              data,
+              dedupeKey: `budget:${progress.budgetId}:${periodStart}:threshold`
+            });
+        }
+      } catch (err) {
+        logger.error({ err, userId }, 'Failed to compute budget alerts');
+      }
+    }
+
+    const result = await NotificationService.dispatch(alerts);
+    return { users: owners.length, ...result };
+  }
+};
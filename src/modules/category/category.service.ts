@@ -4,6 +4,7 @@
  * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
  */
 import { prisma } from '../../db/prisma';
+import { AuditService } from '../audit/audit.service';
 import { CreateCategoryData, UpdateCategoryData, GetCategoriesQuery, CreateFromTemplateData } from './category.schema';
 
 export const CategoryService = {
@@ -55,18 +56,28 @@ export const CategoryService = {
       // Vì đây là category mới nên không cần check circular
     }
 
-    // Tạo danh mục mới
-    const category = await prisma.category.create({
-      data: {
+    // Tạo danh mục mới + ghi nhật ký thay đổi
+    return await prisma.$transaction(async (tx) => {
+      const category = await tx.category.create({
+        data: {
+          userId,
+          name,
+          type,
+          icon,
+          parentId
+        }
+      });
+
+      await AuditService.record({
         userId,
-        name,
-        type,
-        icon,
-        parentId
-      }
-    });
+        entityType: 'category',
+        entityId: category.id,
+        action: 'create',
+        after: category
+      }, tx);
 
-    return category;
+      return category;
+    });
   },
 
   /**
@@ -184,19 +195,31 @@ export const CategoryService = {
       }
     }
 
-    // Cập nhật danh mục
-    const updatedCategory = await prisma.category.update({
-      where: { id: categoryId },
-      data,
-      include: {
-        children: {
-          orderBy: { sortOrder: 'asc' }
-        },
-        parent: true
-      }
-    });
+    // Cập nhật danh mục + ghi nhật ký thay đổi
+    return await prisma.$transaction(async (tx) => {
+      const updatedCategory = await tx.category.update({
+        where: { id: categoryId },
+        data,
+        include: {
+          children: {
+            orderBy: { sortOrder: 'asc' }
+          },
+          parent: true
+        }
+      });
 
-    return updatedCategory;
+      const { children: _children, parent: _parent, ...after } = updatedCategory;
+      await AuditService.record({
+        userId,
+        entityType: 'category',
+        entityId: categoryId,
+        action: 'update',
+        before: existingCategory,
+        after
+      }, tx);
+
+      return updatedCategory;
+    });
   },
 
   /**
@@ -221,6 +244,10 @@ export const CategoryService = {
         transactions: {
           select: { id: true },
           take: 1
+        },
+        transactionSplits: {
+          select: { id: true },
+          take: 1
         }
       }
     });
@@ -229,8 +256,8 @@ export const CategoryService = {
       throw new Error('CATEGORY_NOT_FOUND');
     }
 
-    // Kiểm tra danh mục có giao dịch nào không
-    if (category.transactions.length > 0) {
+    // Kiểm tra danh mục có giao dịch nào không (kể cả dòng split)
+    if (category.transactions.length > 0 || category.transactionSplits.length > 0) {
       throw new Error('CATEGORY_HAS_TRANSACTIONS');
     }
 
@@ -239,9 +266,21 @@ export const CategoryService = {
       throw new Error('CATEGORY_HAS_CHILDREN');
     }
 
-    // Hard delete danh mục (vì không có soft delete)
-    await prisma.category.delete({
-      where: { id: categoryId }
+    const { children: _children, transactions: _transactions, transactionSplits: _splits, ...before } = category;
+
+    // Hard delete danh mục (vì không có soft delete) + ghi nhật ký thay đổi
+    await prisma.$transaction(async (tx) => {
+      await tx.category.delete({
+        where: { id: categoryId }
+      });
+
+      await AuditService.record({
+        userId,
+        entityType: 'category',
+        entityId: categoryId,
+        action: 'delete',
+        before
+      }, tx);
     });
 
     return { id: categoryId, deleted: true } as any;
@@ -283,18 +322,28 @@ export const CategoryService = {
       throw new Error('CATEGORY_NAME_EXISTS');
     }
 
-    // Tạo category từ template
-    const category = await prisma.category.create({
-      data: {
+    // Tạo category từ template + ghi nhật ký thay đổi
+    return await prisma.$transaction(async (tx) => {
+      const category = await tx.category.create({
+        data: {
+          userId,
+          name: categoryName,
+          type: template.type,
+          icon: icon || template.icon,
+          isSystem: true
+        }
+      });
+
+      await AuditService.record({
         userId,
-        name: categoryName,
-        type: template.type,
-        icon: icon || template.icon,
-        isSystem: true
-      }
-    });
+        entityType: 'category',
+        entityId: category.id,
+        action: 'create',
+        after: category
+      }, tx);
 
-    return category;
+      return category;
+    });
   },
 
   /**
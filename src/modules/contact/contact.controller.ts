@@ -0,0 +1,202 @@
+/**
+ * Contact Controller
+ * File này xử lý HTTP requests/responses cho danh bạ người vay / cho vay / đối tác giao dịch
+ * Controller layer - chỉ xử lý HTTP, business logic nằm ở Service layer
+ */
+import { Request, Response } from 'express';
+import { ContactService } from './contact.service';
+import { handleError, handleValidationError } from '../../utils/error-handler';
+import { getContactsQuerySchema } from './contact.schema';
+
+// Create module-specific error handler
+const handleContactError = (error: any, res: Response) =>
+  handleError(error, res, 'Contact');
+
+export const ContactController = {
+  /**
+   * @swagger
+   * /contacts:
+   *   post:
+   *     tags:
+   *       - Contacts
+   *     summary: Tạo contact
+   *     description: |
+   *       Contact là người vay / cho vay / đối tác giao dịch. Tên unique theo user, không phân biệt hoa thường / dấu
+   *       ("Anh Minh" = "anh minh"). Gắn vào khoản vay (contactId) và giao dịch (contactId, optional).
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - name
+   *             properties:
+   *               name:
+   *                 type: string
+   *                 maxLength: 191
+   *               phone:
+   *                 type: string
+   *                 example: '+84 912 345 678'
+   *               note:
+   *                 type: string
+   *     responses:
+   *       201:
+   *         description: Contact đã tạo
+   *       400:
+   *         description: Dữ liệu không hợp lệ
+   *       409:
+   *         description: Tên contact đã tồn tại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async createContact(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const contact = await ContactService.createContact(req.body, userId);
+      return res.status(201).json({
+        message: 'Contact created successfully',
+        contact
+      });
+    } catch (e: any) {
+      return handleContactError(e, res);
+    }
+  },
+
+  /**
+   * Lấy danh sách contact
+   * GET /api/contacts?search=&sortBy=&sortOrder=&limit=&cursor=
+   */
+  async getContacts(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const parsed = getContactsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
+
+      const result = await ContactService.getContacts(userId, parsed.data);
+      return res.status(200).json({
+        message: 'Contacts retrieved successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleContactError(e, res);
+    }
+  },
+
+  /**
+   * Chi tiết contact
+   * GET /api/contacts/:id
+   */
+  async getContact(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const contact = await ContactService.getContactById(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Contact retrieved successfully',
+        contact
+      });
+    } catch (e: any) {
+      return handleContactError(e, res);
+    }
+  },
+
+  /**
+   * Sổ nợ với contact: dư nợ theo từng chiều, khoản vay đang mở, lịch sử trả / thu nợ
+   * GET /api/contacts/:id/ledger
+   */
+  async getContactLedger(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const ledger = await ContactService.getContactLedger(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Contact ledger retrieved successfully',
+        ...ledger
+      });
+    } catch (e: any) {
+      return handleContactError(e, res);
+    }
+  },
+
+  /**
+   * Sửa contact (đổi tên => đổi counterpartyName của khoản vay đang gắn)
+   * PUT /api/contacts/:id
+   */
+  async updateContact(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const contact = await ContactService.updateContact(req.params.id, userId, req.body);
+      return res.status(200).json({
+        message: 'Contact updated successfully',
+        contact
+      });
+    } catch (e: any) {
+      return handleContactError(e, res);
+    }
+  },
+
+  /**
+   * Gộp contact trùng vào contact :id
+   * POST /api/contacts/:id/merge
+   */
+  async mergeContacts(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const result = await ContactService.mergeContacts(req.params.id, userId, req.body);
+      return res.status(200).json({
+        message: 'Contacts merged successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleContactError(e, res);
+    }
+  },
+
+  /**
+   * Xoá contact (khoản vay / giao dịch giữ nguyên)
+   * DELETE /api/contacts/:id
+   */
+  async deleteContact(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const contact = await ContactService.deleteContact(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Contact deleted successfully',
+        contact
+      });
+    } catch (e: any) {
+      return handleContactError(e, res);
+    }
+  }
+};
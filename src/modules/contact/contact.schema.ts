@@ -0,0 +1,57 @@
+// Schema validation cho Contact APIs
+// Sử dụng Zod để validate request body/query cho danh bạ, sổ nợ theo contact và gộp contact trùng
+import { z } from 'zod';
+import { paginationQueryShape, sortQueryShape } from '../../utils/pagination';
+
+// Số contact tối đa gộp vào 1 contact mỗi lần
+export const MAX_MERGE_CONTACTS = 20;
+
+const contactName = z.string()
+  .trim()
+  .min(1, 'Tên contact không được rỗng')
+  .max(191, 'Tên contact quá dài');
+
+const contactPhone = z.string()
+  .trim()
+  .regex(/^\+?[0-9 .()-]{6,30}$/, 'Số điện thoại không hợp lệ');
+
+// Schema cho tạo contact
+export const createContactSchema = z.object({
+  name: contactName,
+  phone: contactPhone.optional(),
+  note: z.string().max(1000, 'Ghi chú quá dài').optional()
+});
+
+// Schema cho cập nhật contact
+export const updateContactSchema = z.object({
+  name: contactName.optional(),
+  phone: contactPhone.nullable().optional(),
+  note: z.string().max(1000, 'Ghi chú quá dài').nullable().optional()
+}).refine(
+  (data) => Object.keys(data).length > 0,
+  'Phải cung cấp ít nhất một trường để cập nhật'
+);
+
+// Schema cho gộp contact trùng vào contact đích (:id)
+export const mergeContactsSchema = z.object({
+  sourceContactIds: z.array(z.string().uuid('contactId phải là UUID hợp lệ'))
+    .min(1, 'sourceContactIds không được rỗng')
+    .max(MAX_MERGE_CONTACTS, `Tối đa ${MAX_MERGE_CONTACTS} contact mỗi lần`)
+});
+
+export const CONTACT_SORT_FIELDS = ['name', 'createdAt'] as const;
+
+// Schema cho query parameters danh sách contact
+export const getContactsQuerySchema = z.object({
+  // Tìm theo tên / số điện thoại (chứa chuỗi, không phân biệt hoa thường / dấu)
+  search: z.string().trim().min(1).max(191).optional(),
+  // Mặc định: tên tăng dần
+  ...sortQueryShape(CONTACT_SORT_FIELDS),
+  ...paginationQueryShape()
+});
+
+// Type definitions cho TypeScript
+export type CreateContactData = z.infer<typeof createContactSchema>;
+export type UpdateContactData = z.infer<typeof updateContactSchema>;
+export type MergeContactsData = z.infer<typeof mergeContactsSchema>;
+export type GetContactsQuery = z.infer<typeof getContactsQuerySchema>;
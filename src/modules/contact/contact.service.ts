@@ -0,0 +1,376 @@
+/**
+ * Contact Service
+ * File này chứa business logic cho danh bạ người vay / cho vay / đối tác giao dịch
+ * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
+ *
+ * Logic nghiệp vụ:
+ * - Contact thuộc user, tên unique theo user (không phân biệt hoa thường / dấu theo collation DB)
+ * - Khoản vay luôn gắn contact: nhập tên khi tạo khoản vay => gắn contact cùng tên, chưa có thì tạo mới
+ * - Giao dịch gắn contact tuỳ chọn (chỉ là metadata, không ảnh hưởng số dư)
+ * - Đổi tên contact => counterpartyName của các khoản vay đang gắn đổi theo
+ * - Xoá contact => khoản vay / giao dịch giữ nguyên, chỉ bỏ liên kết
+ * - Gộp contact trùng: chuyển khoản vay + giao dịch sang contact đích rồi xoá contact nguồn
+ * - Khoản vay / giao dịch bị đổi theo contact (đổi tên, gộp) ghi nhật ký thay đổi (update) cho từng bản ghi
+ */
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../db/prisma';
+import { roundMoney } from '../../utils/currency';
+import { paginate, SortKey } from '../../utils/pagination';
+import { AuditService } from '../audit/audit.service';
+import { transactionAuditSelect } from '../transaction/transaction.service';
+import {
+  CreateContactData,
+  UpdateContactData,
+  MergeContactsData,
+  GetContactsQuery
+} from './contact.schema';
+
+// Chỉ đếm khoản vay / giao dịch chưa xoá
+const contactInclude = {
+  _count: {
+    select: {
+      loans: { where: { deletedAt: null } },
+      transactions: { where: { deletedAt: null } }
+    }
+  }
+} as const;
+
+async function getContact(contactId: string, userId: string) {
+  const contact = await prisma.contact.findFirst({
+    where: { id: contactId, userId }
+  });
+
+  if (!contact) {
+    throw new Error('CONTACT_NOT_FOUND');
+  }
+
+  return contact;
+}
+
+async function assertNameAvailable(userId: string, name: string, excludeId?: string) {
+  const existing = await prisma.contact.findFirst({
+    where: {
+      userId,
+      name,
+      ...(excludeId ? { id: { not: excludeId } } : {})
+    },
+    select: { id: true }
+  });
+
+  if (existing) {
+    throw new Error('CONTACT_NAME_EXISTS');
+  }
+}
+
+/**
+ * Contact cùng tên của user (không phân biệt hoa thường / dấu), chưa có thì tạo mới
+ * Dùng khi khoản vay chỉ nhập counterpartyName
+ */
+export async function findOrCreateContact(tx: Prisma.TransactionClient, userId: string, name: string) {
+  const existing = await tx.contact.findFirst({
+    where: { userId, name }
+  });
+  if (existing) return existing;
+
+  return await tx.contact.create({
+    data: { userId, name }
+  });
+}
+
+export const ContactService = {
+  /**
+   * Tạo contact mới
+   *
+   * @throws Error('CONTACT_NAME_EXISTS') nếu user đã có contact cùng tên
+   */
+  async createContact(data: CreateContactData, userId: string) {
+    await assertNameAvailable(userId, data.name);
+
+    return await prisma.contact.create({
+      data: {
+        userId,
+        name: data.name,
+        phone: data.phone,
+        note: data.note
+      },
+      include: contactInclude
+    });
+  },
+
+  /**
+   * Danh sách contact của user (kèm số khoản vay / giao dịch đang gắn)
+   *
+   * @throws Error('INVALID_CURSOR') nếu cursor không hợp lệ
+   */
+  async getContacts(userId: string, filters: Partial<GetContactsQuery> = {}) {
+    const {
+      search,
+      sortBy = 'name',
+      sortOrder = 'asc',
+      limit = 50,
+      cursor,
+      offset,
+      includeTotal
+    } = filters;
+
+    const where: Prisma.ContactWhereInput = { userId };
+    if (search) {
+      where.OR = [
+        { name: { contains: search } },
+        { phone: { contains: search } }
+      ];
+    }
+
+    const sort: SortKey[] = [
+      { field: sortBy, direction: sortOrder },
+      { field: 'id', direction: sortOrder }
+    ];
+
+    const { items: contacts, pagination } = await paginate(
+      { limit, cursor, offset, includeTotal },
+      sort,
+      (page) => prisma.contact.findMany({
+        where: { AND: [where, page.where] },
+        include: contactInclude,
+        orderBy: page.orderBy,
+        take: page.take,
+        skip: page.skip
+      }),
+      () => prisma.contact.count({ where })
+    );
+
+    return {
+      contacts,
+      pagination
+    };
+  },
+
+  /**
+   * Chi tiết contact
+   *
+   * @throws Error('CONTACT_NOT_FOUND') nếu contact không thuộc user
+   */
+  async getContactById(contactId: string, userId: string) {
+    const contact = await prisma.contact.findFirst({
+      where: { id: contactId, userId },
+      include: contactInclude
+    });
+
+    if (!contact) {
+      throw new Error('CONTACT_NOT_FOUND');
+    }
+
+    return contact;
+  },
+
+  /**
+   * Sửa contact; đổi tên => cập nhật counterpartyName của các khoản vay đang gắn
+   *
+   * @throws Error('CONTACT_NOT_FOUND') nếu contact không thuộc user
+   * @throws Error('CONTACT_NAME_EXISTS') nếu tên mới trùng contact khác
+   */
+  async updateContact(contactId: string, userId: string, data: UpdateContactData) {
+    const contact = await getContact(contactId, userId);
+
+    if (data.name && data.name !== contact.name) {
+      await assertNameAvailable(userId, data.name, contactId);
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      const updated = await tx.contact.update({
+        where: { id: contactId },
+        data: {
+          name: data.name,
+          phone: data.phone,
+          note: data.note
+        },
+        include: contactInclude
+      });
+
+      if (data.name && data.name !== contact.name) {
+        const loans = await tx.loan.findMany({ where: { contactId } });
+        await tx.loan.updateMany({
+          where: { contactId },
+          data: { counterpartyName: data.name }
+        });
+
+        await AuditService.recordMany(loans.map((loan) => ({
+          userId,
+          entityType: 'loan' as const,
+          entityId: loan.id,
+          action: 'update' as const,
+          before: loan,
+          after: { ...loan, counterpartyName: data.name }
+        })), tx);
+      }
+
+      return updated;
+    });
+  },
+
+  /**
+   * Xoá contact (khoản vay / giao dịch giữ nguyên, bỏ liên kết)
+   *
+   * @throws Error('CONTACT_NOT_FOUND') nếu contact không thuộc user
+   */
+  async deleteContact(contactId: string, userId: string) {
+    await getContact(contactId, userId);
+
+    return await prisma.contact.delete({
+      where: { id: contactId }
+    });
+  },
+
+  /**
+   * Sổ nợ với 1 contact
+   * - summary: tổng dư nợ các khoản đang mở theo từng chiều, net > 0 => contact đang nợ bạn
+   * - openLoans: các khoản vay đang mở (kèm lần trả gần nhất)
+   * - payments: toàn bộ lần trả / thu nợ còn hiệu lực, mới nhất trước
+   * - adjustments: vay thêm / xoá nợ / xoá sổ, mới nhất trước
+   *
+   * @throws Error('CONTACT_NOT_FOUND') nếu contact không thuộc user
+   */
+  async getContactLedger(contactId: string, userId: string) {
+    const contact = await getContact(contactId, userId);
+
+    const loanWhere = { userId, contactId, deletedAt: null };
+
+    const [loans, payments, adjustments, transactionCount] = await Promise.all([
+      prisma.loan.findMany({
+        where: loanWhere,
+        include: {
+          payments: {
+            where: { voidedAt: null },
+            orderBy: { paymentDate: 'desc' },
+            take: 1
+          }
+        },
+        orderBy: [{ startDate: 'desc' }, { id: 'desc' }]
+      }),
+      prisma.loanPayment.findMany({
+        where: { voidedAt: null, loan: loanWhere },
+        include: {
+          loan: { select: { id: true, kind: true, counterpartyName: true } },
+          wallet: { select: { id: true, name: true, currency: true } }
+        },
+        orderBy: [{ paymentDate: 'desc' }, { createdAt: 'desc' }]
+      }),
+      prisma.loanAdjustment.findMany({
+        where: { loan: loanWhere },
+        include: {
+          loan: { select: { id: true, kind: true, counterpartyName: true } }
+        },
+        orderBy: [{ adjustmentDate: 'desc' }, { createdAt: 'desc' }]
+      }),
+      prisma.transaction.count({
+        where: { userId, contactId, deletedAt: null }
+      })
+    ]);
+
+    const openLoans = loans.filter((loan) => loan.status === 'open');
+    const outstandingOf = (kind: 'you_owe' | 'owed_to_you') => roundMoney(
+      openLoans
+        .filter((loan) => loan.kind === kind)
+        .reduce((sum, loan) => sum + loan.outstandingAmount.toNumber(), 0)
+    );
+    const youOwe = outstandingOf('you_owe');
+    const owedToYou = outstandingOf('owed_to_you');
+
+    return {
+      contact,
+      summary: {
+        youOwe,
+        owedToYou,
+        net: roundMoney(owedToYou - youOwe),
+        openLoanCount: openLoans.length,
+        closedLoanCount: loans.length - openLoans.length,
+        transactionCount
+      },
+      openLoans,
+      payments,
+      adjustments
+    };
+  },
+
+  /**
+   * Gộp các contact trùng vào contact đích
+   * Khoản vay + giao dịch chuyển sang contact đích (counterpartyName đổi theo), phone / note trống được lấy từ contact nguồn
+   *
+   * @returns Contact đích sau khi gộp, số khoản vay / giao dịch đã chuyển
+   * @throws Error('CONTACT_NOT_FOUND') nếu contact đích hoặc contact nguồn không thuộc user
+   * @throws Error('CONTACT_MERGE_SELF') nếu contact nguồn chứa contact đích
+   */
+  async mergeContacts(contactId: string, userId: string, data: MergeContactsData) {
+    const sourceIds = Array.from(new Set(data.sourceContactIds));
+    if (sourceIds.includes(contactId)) {
+      throw new Error('CONTACT_MERGE_SELF');
+    }
+
+    const target = await getContact(contactId, userId);
+    const sources = await prisma.contact.findMany({
+      where: { id: { in: sourceIds }, userId },
+      orderBy: { createdAt: 'asc' }
+    });
+    if (sources.length !== sourceIds.length) {
+      throw new Error('CONTACT_NOT_FOUND');
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      const movedLoans = await tx.loan.findMany({
+        where: { contactId: { in: sourceIds } }
+      });
+      const movedTransactions = await tx.transaction.findMany({
+        where: { contactId: { in: sourceIds } },
+        select: { ...transactionAuditSelect, contactId: true }
+      });
+
+      const loans = await tx.loan.updateMany({
+        where: { contactId: { in: sourceIds } },
+        data: { contactId, counterpartyName: target.name }
+      });
+      const transactions = await tx.transaction.updateMany({
+        where: { contactId: { in: sourceIds } },
+        data: { contactId }
+      });
+
+      await AuditService.recordMany([
+        ...movedLoans.map((loan) => ({
+          userId,
+          entityType: 'loan' as const,
+          entityId: loan.id,
+          action: 'update' as const,
+          before: loan,
+          after: { ...loan, contactId, counterpartyName: target.name }
+        })),
+        ...movedTransactions.map((transaction) => ({
+          userId,
+          entityType: 'transaction' as const,
+          entityId: transaction.id,
+          action: 'update' as const,
+          before: transaction,
+          after: { ...transaction, contactId }
+        }))
+      ], tx);
+
+      await tx.contact.deleteMany({
+        where: { id: { in: sourceIds } }
+      });
+
+      const contact = await tx.contact.update({
+        where: { id: contactId },
+        data: {
+          phone: target.phone ?? sources.find((s) => s.phone)?.phone ?? null,
+          note: target.note ?? sources.find((s) => s.note)?.note ?? null
+        },
+        include: contactInclude
+      });
+
+      return {
+        contact,
+        mergedContacts: sources.length,
+        movedLoans: loans.count,
+        movedTransactions: transactions.count
+      };
+    });
+  }
+};
@@ -0,0 +1,194 @@
+/**
+ * Credit Statement Controller
+ * File này xử lý HTTP requests/responses cho sao kê thẻ tín dụng
+ * Controller layer - chỉ xử lý HTTP, business logic nằm ở Service layer
+ */
+import { Request, Response } from 'express';
+import { CreditStatementService } from './credit-statement.service';
+import { handleError, handleValidationError } from '../../utils/error-handler';
+import { getCreditStatementsQuerySchema } from './credit-statement.schema';
+
+// Create module-specific error handler
+const handleCreditStatementError = (error: any, res: Response) =>
+  handleError(error, res, 'CreditStatement');
+
+export const CreditStatementController = {
+  /**
+   * @swagger
+   * /wallets/{id}/statements:
+   *   get:
+   *     tags:
+   *       - Credit Statements
+   *     summary: Danh sách kỳ sao kê của ví thẻ tín dụng
+   *     description: |
+   *       Tính từ bút toán của ví theo ngày chốt (statementClosingDay) và ngày đến hạn (paymentDueDay).
+   *       Mỗi kỳ gồm charges (tiêu dùng), payments (thanh toán / hoàn tiền), closingBalance, dư nợ và thanh toán tối thiểu,
+   *       số đã trả sau ngày chốt tới ngày đến hạn và trạng thái thanh toán. Kỳ đang mở có số liệu tạm tính.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *       - in: query
+   *         name: count
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 24
+   *           default: 6
+   *         description: Số kỳ gần nhất (gồm kỳ đang mở)
+   *     responses:
+   *       200:
+   *         description: Ví và danh sách kỳ sao kê (mới nhất trước)
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 message:
+   *                   type: string
+   *                 wallet:
+   *                   type: object
+   *                 statements:
+   *                   type: array
+   *                   items:
+   *                     type: object
+   *                     properties:
+   *                       periodStart:
+   *                         type: string
+   *                         format: date-time
+   *                       closingDate:
+   *                         type: string
+   *                         format: date-time
+   *                       dueDate:
+   *                         type: string
+   *                         format: date-time
+   *                       status:
+   *                         type: string
+   *                         enum: [open, closed]
+   *                       openingBalance:
+   *                         type: number
+   *                       charges:
+   *                         type: number
+   *                       payments:
+   *                         type: number
+   *                       closingBalance:
+   *                         type: number
+   *                       statementBalance:
+   *                         type: number
+   *                       minimumPayment:
+   *                         type: number
+   *                       paidAmount:
+   *                         type: number
+   *                       remainingBalance:
+   *                         type: number
+   *                       remainingMinimum:
+   *                         type: number
+   *                       paymentStatus:
+   *                         type: string
+   *                         nullable: true
+   *                         enum: [paid, minimum_paid, unpaid, overdue]
+   *       400:
+   *         description: Ví chưa cấu hình chu kỳ sao kê
+   *       404:
+   *         description: Ví không tồn tại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async getStatements(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const parsed = getCreditStatementsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
+
+      const result = await CreditStatementService.getStatements(req.params.id, userId, parsed.data);
+      return res.status(200).json({
+        message: 'Credit statements retrieved successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleCreditStatementError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /wallets/{id}/statements/pay:
+   *   post:
+   *     tags:
+   *       - Credit Statements
+   *     summary: Thanh toán sao kê thẻ tín dụng từ ví khác
+   *     description: |
+   *       Tạo giao dịch transfer từ fromWalletId vào ví thẻ. Bỏ trống amount => trả phần còn lại
+   *       (option=statement_balance) hoặc phần tối thiểu còn thiếu (option=minimum_payment) của kỳ đã chốt gần nhất;
+   *       ví nguồn khác tiền tệ thì bắt buộc nhập amount.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - fromWalletId
+   *             properties:
+   *               fromWalletId:
+   *                 type: string
+   *                 format: uuid
+   *               amount:
+   *                 type: number
+   *                 description: Số tiền trừ khỏi ví nguồn (theo tiền tệ ví nguồn)
+   *               option:
+   *                 type: string
+   *                 enum: [statement_balance, minimum_payment]
+   *                 default: statement_balance
+   *               transactionDate:
+   *                 type: string
+   *                 format: date-time
+   *               note:
+   *                 type: string
+   *     responses:
+   *       201:
+   *         description: Giao dịch transfer đã tạo và kỳ sao kê được thanh toán
+   *       400:
+   *         description: Dữ liệu không hợp lệ, không còn dư nợ phải trả hoặc ví nguồn không đủ số dư
+   *       404:
+   *         description: Ví không tồn tại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async payStatement(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const result = await CreditStatementService.payStatement(req.params.id, userId, req.body);
+      return res.status(201).json({
+        message: 'Credit statement paid successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleCreditStatementError(e, res);
+    }
+  }
+};
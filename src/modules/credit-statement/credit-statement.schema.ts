@@ -0,0 +1,37 @@
+// Schema validation cho Credit Statement APIs
+// Sử dụng Zod để validate request body/query cho sao kê thẻ tín dụng
+import { z } from 'zod';
+
+const dateValue = z.string().refine((val) => !isNaN(Date.parse(val)), {
+  message: 'Ngày không hợp lệ'
+}).transform((val) => new Date(val));
+
+// Số kỳ sao kê tối đa trả về mỗi lần
+export const MAX_STATEMENT_COUNT = 24;
+
+// Schema cho query parameters danh sách sao kê
+export const getCreditStatementsQuerySchema = z.object({
+  // Số kỳ gần nhất (gồm cả kỳ đang mở)
+  count: z.coerce.number().int().min(1).max(MAX_STATEMENT_COUNT).default(6)
+});
+
+// Schema cho thanh toán sao kê (chuyển tiền từ ví khác vào ví thẻ)
+export const payCreditStatementSchema = z.object({
+  fromWalletId: z.string().uuid('fromWalletId phải là UUID hợp lệ'),
+  // Số tiền trừ khỏi ví nguồn (theo tiền tệ ví nguồn); bỏ trống => lấy theo option của kỳ đã chốt gần nhất
+  amount: z.number().positive('amount phải lớn hơn 0').refine(
+    (val) => Number(val.toFixed(2)) === val,
+    'amount chỉ được phép 2 số thập phân'
+  ).optional(),
+  // statement_balance: trả hết dư nợ còn lại, minimum_payment: trả phần tối thiểu còn thiếu
+  option: z.enum(['statement_balance', 'minimum_payment'], {
+    message: 'option phải là statement_balance hoặc minimum_payment'
+  }).default('statement_balance'),
+  // Mặc định: thời điểm hiện tại
+  transactionDate: dateValue.optional(),
+  note: z.string().max(1000, 'note không được quá 1000 ký tự').optional()
+});
+
+// Type definitions cho TypeScript
+export type GetCreditStatementsQuery = z.infer<typeof getCreditStatementsQuerySchema>;
+export type PayCreditStatementData = z.infer<typeof payCreditStatementSchema>;
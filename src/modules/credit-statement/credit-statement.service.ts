@@ -0,0 +1,305 @@
+/**
+ * Credit Statement Service
+ * File này chứa business logic cho sao kê và thanh toán thẻ tín dụng
+ * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
+ *
+ * Logic nghiệp vụ:
+ * - Ví credit có ngày chốt (statementClosingDay) và ngày đến hạn (paymentDueDay) trong tháng, tính theo UTC
+ *   + Tháng ngắn hơn => dùng ngày cuối tháng
+ *   + Kỳ sao kê: từ sau ngày chốt kỳ trước tới hết ngày chốt kỳ này
+ *   + Ngày đến hạn: lần đầu tiên rơi vào paymentDueDay sau ngày chốt
+ * - Số liệu tính từ TransactionEntry của ví (giao dịch chưa xoá) theo transactionDate:
+ *   + charges = tổng entry out, payments = tổng entry in (gồm cả hoàn tiền) trong kỳ
+ *   + closingBalance = openingBalance + payments - charges (âm = đang nợ), openingBalance của ví coi như có trước kỳ đầu tiên
+ *   + statementBalance = dư nợ cuối kỳ, minimumPayment = CREDIT_STATEMENT_MIN_PAYMENT_PERCENT% dư nợ
+ *   + paidAmount = entry in sau ngày chốt tới hết ngày đến hạn => xác định đã trả đủ / trả tối thiểu / quá hạn
+ * - Thanh toán sao kê = transfer từ ví khác vào ví thẻ qua TransactionService (kiểm tra số dư, tỷ giá, audit như transfer thường)
+ */
+import { prisma } from '../../db/prisma';
+import { env } from '../../config/env';
+import { roundMoney } from '../../utils/currency';
+import { TransactionService } from '../transaction/transaction.service';
+import { GetCreditStatementsQuery, PayCreditStatementData } from './credit-statement.schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type StatementPaymentStatus = 'paid' | 'minimum_paid' | 'unpaid' | 'overdue';
+
+export interface CreditStatement {
+  periodStart: Date;
+  closingDate: Date;
+  dueDate: Date;
+  // open: kỳ chưa chốt (số liệu tạm tính), closed: đã qua ngày chốt
+  status: 'open' | 'closed';
+  openingBalance: number;
+  charges: number;
+  payments: number;
+  closingBalance: number;
+  transactionCount: number;
+  statementBalance: number;
+  minimumPayment: number;
+  paidAmount: number;
+  remainingBalance: number;
+  remainingMinimum: number;
+  // null với kỳ đang mở
+  paymentStatus: StatementPaymentStatus | null;
+}
+
+interface StatementWallet {
+  id: string;
+  openingBalance: { toNumber(): number };
+  statementClosingDay: number;
+  paymentDueDay: number;
+}
+
+/**
+ * Ngày `day` của tháng (year, month), tháng ngắn hơn => ngày cuối tháng
+ * month được phép tràn (âm / > 11), Date.UTC tự quy đổi sang năm tương ứng
+ */
+function dayOfMonth(year: number, month: number, day: number): Date {
+  const first = new Date(Date.UTC(year, month, 1));
+  const lastDay = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), Math.min(day, lastDay)));
+}
+
+/**
+ * Ngày đến hạn của kỳ chốt ngày `closingDate`: ngày paymentDueDay đầu tiên sau ngày chốt
+ */
+function dueDateFor(closingDate: Date, dueDay: number): Date {
+  const sameMonth = dayOfMonth(closingDate.getUTCFullYear(), closingDate.getUTCMonth(), dueDay);
+  return sameMonth.getTime() > closingDate.getTime()
+    ? sameMonth
+    : dayOfMonth(closingDate.getUTCFullYear(), closingDate.getUTCMonth() + 1, dueDay);
+}
+
+/**
+ * Tính `count` kỳ sao kê gần nhất của ví (kỳ chứa `now` là kỳ cuối), trả về mới nhất trước
+ */
+async function buildStatements(wallet: StatementWallet, count: number, now: Date): Promise<CreditStatement[]> {
+  const closingDay = wallet.statementClosingDay;
+
+  // Kỳ chứa now chốt trong tháng này nếu chưa qua ngày chốt, ngược lại chốt tháng sau
+  const thisMonthClosing = dayOfMonth(now.getUTCFullYear(), now.getUTCMonth(), closingDay);
+  const currentOffset = now.getTime() < thisMonthClosing.getTime() + DAY_MS ? 0 : 1;
+  const closingAt = (index: number) =>
+    dayOfMonth(now.getUTCFullYear(), now.getUTCMonth() + currentOffset - (count - 1) + index, closingDay);
+
+  // Cũ nhất trước; start/end là [start, end) theo transactionDate
+  const cycles = Array.from({ length: count }, (_, index) => {
+    const closingDate = closingAt(index);
+    const dueDate = dueDateFor(closingDate, wallet.paymentDueDay);
+    return {
+      start: new Date(closingAt(index - 1).getTime() + DAY_MS),
+      end: new Date(closingDate.getTime() + DAY_MS),
+      closingDate,
+      dueDate,
+      dueEnd: new Date(dueDate.getTime() + DAY_MS)
+    };
+  });
+
+  const rangeStart = cycles[0].start;
+  const rangeEnd = new Date(Math.max(...cycles.map((cycle) => Math.max(cycle.end.getTime(), cycle.dueEnd.getTime()))));
+
+  // Số dư trước kỳ đầu tiên
+  const before = await prisma.transactionEntry.groupBy({
+    by: ['direction'],
+    where: {
+      walletId: wallet.id,
+      transaction: { deletedAt: null, transactionDate: { lt: rangeStart } }
+    },
+    _sum: { amount: true }
+  });
+
+  let balance = wallet.openingBalance.toNumber();
+  for (const row of before) {
+    const amount = row._sum.amount?.toNumber() ?? 0;
+    balance += row.direction === 'in' ? amount : -amount;
+  }
+
+  const entries = await prisma.transactionEntry.findMany({
+    where: {
+      walletId: wallet.id,
+      transaction: { deletedAt: null, transactionDate: { gte: rangeStart, lt: rangeEnd } }
+    },
+    select: {
+      direction: true,
+      amount: true,
+      transaction: { select: { transactionDate: true } }
+    }
+  });
+
+  const percent = env.CREDIT_STATEMENT_MIN_PAYMENT_PERCENT;
+  const statements: CreditStatement[] = [];
+
+  for (const cycle of cycles) {
+    let charges = 0;
+    let payments = 0;
+    let paidAmount = 0;
+    let transactionCount = 0;
+
+    for (const entry of entries) {
+      const time = entry.transaction.transactionDate.getTime();
+      const amount = entry.amount.toNumber();
+
+      if (time >= cycle.start.getTime() && time < cycle.end.getTime()) {
+        transactionCount++;
+        if (entry.direction === 'in') {
+          payments += amount;
+        } else {
+          charges += amount;
+        }
+      } else if (entry.direction === 'in' && time >= cycle.end.getTime() && time < cycle.dueEnd.getTime()) {
+        paidAmount += amount;
+      }
+    }
+
+    const openingBalance = roundMoney(balance);
+    const closingBalance = roundMoney(balance + payments - charges);
+    balance = closingBalance;
+
+    const statementBalance = Math.max(0, -closingBalance);
+    const minimumPayment = Math.min(statementBalance, roundMoney((statementBalance * percent) / 100));
+    const remainingBalance = roundMoney(Math.max(0, statementBalance - paidAmount));
+    const remainingMinimum = roundMoney(Math.max(0, minimumPayment - paidAmount));
+    const status = cycle.end.getTime() > now.getTime() ? 'open' : 'closed';
+
+    let paymentStatus: StatementPaymentStatus | null = null;
+    if (status === 'closed') {
+      if (remainingBalance === 0) {
+        paymentStatus = 'paid';
+      } else if (remainingMinimum === 0) {
+        paymentStatus = 'minimum_paid';
+      } else {
+        paymentStatus = now.getTime() >= cycle.dueEnd.getTime() ? 'overdue' : 'unpaid';
+      }
+    }
+
+    statements.push({
+      periodStart: cycle.start,
+      closingDate: cycle.closingDate,
+      dueDate: cycle.dueDate,
+      status,
+      openingBalance,
+      charges: roundMoney(charges),
+      payments: roundMoney(payments),
+      closingBalance,
+      transactionCount,
+      statementBalance,
+      minimumPayment,
+      paidAmount: roundMoney(paidAmount),
+      remainingBalance,
+      remainingMinimum,
+      paymentStatus
+    });
+  }
+
+  return statements.reverse();
+}
+
+/**
+ * Ví credit của user đã cấu hình chu kỳ sao kê
+ */
+async function getStatementWallet(walletId: string, userId: string) {
+  const wallet = await prisma.wallet.findFirst({
+    where: { id: walletId, userId },
+    select: {
+      id: true,
+      name: true,
+      type: true,
+      currency: true,
+      openingBalance: true,
+      currentBalance: true,
+      creditLimit: true,
+      statementClosingDay: true,
+      paymentDueDay: true,
+      isArchived: true
+    }
+  });
+
+  if (!wallet) {
+    throw new Error('WALLET_NOT_FOUND');
+  }
+
+  const { statementClosingDay, paymentDueDay } = wallet;
+  if (statementClosingDay === null || paymentDueDay === null) {
+    throw new Error('CREDIT_STATEMENT_NOT_CONFIGURED');
+  }
+
+  return { ...wallet, statementClosingDay, paymentDueDay };
+}
+
+export const CreditStatementService = {
+  /**
+   * Danh sách kỳ sao kê gần nhất của ví thẻ tín dụng (mới nhất trước, gồm kỳ đang mở)
+   *
+   * @throws Error('WALLET_NOT_FOUND') nếu ví không thuộc user
+   * @throws Error('CREDIT_STATEMENT_NOT_CONFIGURED') nếu ví chưa có ngày chốt / ngày đến hạn
+   */
+  async getStatements(walletId: string, userId: string, query: Partial<GetCreditStatementsQuery> = {}) {
+    const { count = 6 } = query;
+    const wallet = await getStatementWallet(walletId, userId);
+    const statements = await buildStatements(wallet, count, new Date());
+
+    const { openingBalance: _openingBalance, ...walletInfo } = wallet;
+    return { wallet: walletInfo, statements };
+  },
+
+  /**
+   * Thanh toán sao kê: tạo transfer từ ví nguồn vào ví thẻ
+   * Bỏ trống amount => trả phần còn lại (hoặc phần tối thiểu còn thiếu) của kỳ đã chốt gần nhất
+   *
+   * @returns Giao dịch transfer vừa tạo và kỳ sao kê được thanh toán (tính trước khi trả)
+   * @throws Error('WALLET_NOT_FOUND') nếu ví thẻ không thuộc user hoặc đã lưu trữ
+   * @throws Error('CREDIT_STATEMENT_NOT_CONFIGURED') nếu ví chưa có chu kỳ sao kê
+   * @throws Error('CREDIT_STATEMENT_NOTHING_DUE') nếu bỏ trống amount mà kỳ gần nhất không còn gì phải trả
+   * @throws Error('CREDIT_STATEMENT_PAYMENT_AMOUNT_REQUIRED') nếu bỏ trống amount khi ví nguồn khác tiền tệ
+   * @throws Các lỗi của transfer (TRANSACTION_WALLET_NOT_FOUND, SAME_WALLET_TRANSFER, INSUFFICIENT_WALLET_BALANCE, ...)
+   */
+  async payStatement(walletId: string, userId: string, data: PayCreditStatementData) {
+    const wallet = await getStatementWallet(walletId, userId);
+    if (wallet.isArchived) {
+      throw new Error('WALLET_NOT_FOUND');
+    }
+
+    // Kỳ mới nhất là kỳ đang mở => kỳ đã chốt gần nhất đứng thứ 2
+    const statements = await buildStatements(wallet, 2, new Date());
+    const statement = statements.find((s) => s.status === 'closed') ?? null;
+
+    let amount = data.amount;
+    if (amount === undefined) {
+      const due = statement
+        ? (data.option === 'minimum_payment' ? statement.remainingMinimum : statement.remainingBalance)
+        : 0;
+      if (due <= 0) {
+        throw new Error('CREDIT_STATEMENT_NOTHING_DUE');
+      }
+
+      // Số còn phải trả tính theo tiền tệ ví thẻ, ví nguồn khác tiền tệ thì user phải tự nhập số tiền
+      const fromWallet = await prisma.wallet.findFirst({
+        where: { id: data.fromWalletId, userId, isArchived: false },
+        select: { currency: true }
+      });
+      if (!fromWallet) {
+        throw new Error('TRANSACTION_WALLET_NOT_FOUND');
+      }
+      if (fromWallet.currency !== wallet.currency) {
+        throw new Error('CREDIT_STATEMENT_PAYMENT_AMOUNT_REQUIRED');
+      }
+
+      amount = due;
+    }
+
+    const transaction = await TransactionService.createTransaction({
+      type: 'transfer',
+      fromWalletId: data.fromWalletId,
+      toWalletId: walletId,
+      amount,
+      transactionDate: data.transactionDate ?? new Date(),
+      note: data.note ?? (statement
+        ? `Thanh toán sao kê ${wallet.name} kỳ chốt ${statement.closingDate.toISOString().slice(0, 10)}`
+        : `Thanh toán thẻ ${wallet.name}`)
+    }, userId);
+
+    return { transaction, statement };
+  }
+};
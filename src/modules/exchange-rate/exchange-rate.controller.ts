@@ -0,0 +1,203 @@
+/**
+ * Exchange Rate Controller
+ * File này xử lý HTTP requests/responses cho bảng tỷ giá
+ * Controller layer - chỉ xử lý HTTP, business logic nằm ở Service layer
+ */
+import { Request, Response } from 'express';
+import { ExchangeRateService } from './exchange-rate.service';
+import { handleError, handleValidationError } from '../../utils/error-handler';
+import { getExchangeRatesQuerySchema, lookupExchangeRateQuerySchema } from './exchange-rate.schema';
+
+// Create module-specific error handler
+const handleExchangeRateError = (error: any, res: Response) =>
+  handleError(error, res, 'ExchangeRate');
+
+export const ExchangeRateController = {
+  /**
+   * @swagger
+   * /exchange-rates:
+   *   post:
+   *     tags:
+   *       - Exchange Rates
+   *     summary: Nhập tỷ giá
+   *     description: Lưu tỷ giá 1 fromCurrency = rate toCurrency tại ngày rateDate (trùng cặp + ngày thì ghi đè)
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - fromCurrency
+   *               - toCurrency
+   *               - rate
+   *               - rateDate
+   *             properties:
+   *               fromCurrency:
+   *                 type: string
+   *                 example: USD
+   *               toCurrency:
+   *                 type: string
+   *                 example: VND
+   *               rate:
+   *                 type: number
+   *                 example: 25400
+   *               rateDate:
+   *                 type: string
+   *                 format: date
+   *     responses:
+   *       200:
+   *         description: Tỷ giá đã được lưu
+   *       400:
+   *         description: Dữ liệu không hợp lệ
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async upsertRate(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const rate = await ExchangeRateService.upsertRate(req.body, userId);
+      return res.status(200).json({
+        message: 'Exchange rate saved successfully',
+        rate
+      });
+    } catch (e: any) {
+      return handleExchangeRateError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /exchange-rates/import:
+   *   post:
+   *     tags:
+   *       - Exchange Rates
+   *     summary: Upload tỷ giá từ CSV
+   *     description: |
+   *       Nội dung CSV gửi trong field `content`. Header bắt buộc gồm các cột `date`, `from`, `to`, `rate`
+   *       (thứ tự tuỳ ý). Dòng lỗi được bỏ qua và trả về kèm số dòng.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - content
+   *             properties:
+   *               content:
+   *                 type: string
+   *                 example: "date,from,to,rate\n2026-10-01,USD,VND,25400"
+   *               delimiter:
+   *                 type: string
+   *                 enum: [',', ';', "\t"]
+   *                 default: ','
+   *     responses:
+   *       200:
+   *         description: Kết quả import (imported, skipped, errors)
+   *       400:
+   *         description: File rỗng hoặc thiếu cột
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async importRates(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const result = await ExchangeRateService.importRatesCsv(req.body, userId);
+      return res.status(200).json({
+        message: 'Exchange rates imported successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleExchangeRateError(e, res);
+    }
+  },
+
+  /**
+   * Lấy danh sách tỷ giá
+   * GET /api/exchange-rates
+   */
+  async getRates(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const parsed = getExchangeRatesQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
+
+      const result = await ExchangeRateService.getRates(userId, parsed.data);
+      return res.status(200).json({
+        message: 'Exchange rates retrieved successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleExchangeRateError(e, res);
+    }
+  },
+
+  /**
+   * Tra cứu tỷ giá áp dụng tại 1 ngày
+   * GET /api/exchange-rates/lookup?from=USD&to=VND&date=YYYY-MM-DD
+   */
+  async lookupRate(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const parsed = lookupExchangeRateQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
+
+      const { from, to, date = new Date() } = parsed.data;
+      const applied = await ExchangeRateService.getRate(userId, from, to, date);
+      return res.status(200).json({
+        message: 'Exchange rate retrieved successfully',
+        fromCurrency: from,
+        toCurrency: to,
+        ...applied
+      });
+    } catch (e: any) {
+      return handleExchangeRateError(e, res);
+    }
+  },
+
+  /**
+   * Xóa tỷ giá
+   * DELETE /api/exchange-rates/:id
+   */
+  async deleteRate(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const rate = await ExchangeRateService.deleteRate(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Exchange rate deleted successfully',
+        rate
+      });
+    } catch (e: any) {
+      return handleExchangeRateError(e, res);
+    }
+  }
+};
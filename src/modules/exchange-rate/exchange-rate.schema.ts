@@ -0,0 +1,55 @@
+// Schema validation cho Exchange Rate APIs
+// Sử dụng Zod để validate request body/query cho bảng tỷ giá
+import { z } from 'zod';
+import { currencyCodeSchema } from '../../utils/currency';
+
+const dateString = (field: string) =>
+  z.string().refine((val) => !isNaN(Date.parse(val)), {
+    message: `${field} phải là ngày hợp lệ`
+  }).transform((val) => new Date(val));
+
+const rateSchema = z.number().positive('rate phải lớn hơn 0').refine(
+  (val) => Number(val.toFixed(8)) === val,
+  'rate chỉ được phép 8 số thập phân'
+);
+
+// Schema cho nhập tay 1 tỷ giá (trùng cặp + ngày thì ghi đè)
+export const createExchangeRateSchema = z.object({
+  fromCurrency: currencyCodeSchema,
+  toCurrency: currencyCodeSchema,
+  rate: rateSchema,
+  rateDate: dateString('rateDate')
+}).refine(
+  (data) => data.fromCurrency !== data.toCurrency,
+  { message: 'fromCurrency và toCurrency phải khác nhau', path: ['toCurrency'] }
+);
+
+// Schema cho upload CSV tỷ giá
+// Header bắt buộc: date, from, to, rate (không phân biệt hoa thường, thứ tự tuỳ ý)
+export const importExchangeRatesSchema = z.object({
+  content: z.string().min(1, 'content không được rỗng'),
+  delimiter: z.enum([',', ';', '\t']).default(',')
+});
+
+// Schema cho query parameters danh sách tỷ giá
+export const getExchangeRatesQuerySchema = z.object({
+  fromCurrency: currencyCodeSchema.optional(),
+  toCurrency: currencyCodeSchema.optional(),
+  startDate: dateString('startDate').optional(),
+  endDate: dateString('endDate').optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+// Schema cho tra cứu tỷ giá áp dụng tại 1 ngày
+export const lookupExchangeRateQuerySchema = z.object({
+  from: currencyCodeSchema,
+  to: currencyCodeSchema,
+  date: dateString('date').optional()
+});
+
+// Type definitions cho TypeScript
+export type CreateExchangeRateData = z.infer<typeof createExchangeRateSchema>;
+export type ImportExchangeRatesData = z.infer<typeof importExchangeRatesSchema>;
+export type GetExchangeRatesQuery = z.infer<typeof getExchangeRatesQuerySchema>;
+export type LookupExchangeRateQuery = z.infer<typeof lookupExchangeRateQuerySchema>;
@@ -0,0 +1,352 @@
+/**
+ * Exchange Rate Service
+ * File này chứa business logic cho bảng tỷ giá do user tự quản lý
+ * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
+ *
+ * Logic nghiệp vụ:
+ * - Tỷ giá lưu theo cặp (from -> to) và ngày: 1 from = rate to
+ * - Quy đổi tại ngày D dùng tỷ giá gần nhất có rateDate <= D
+ * - Nếu chỉ có cặp ngược (to -> from) thì dùng 1 / rate; cùng ngày thì ưu tiên cặp thuận
+ * - Không tự suy tỷ giá bắc cầu qua tiền tệ thứ 3 (tránh sai lệch khó kiểm soát)
+ */
+import { prisma } from '../../db/prisma';
+import { parseCsv } from '../../utils/csv';
+import { DEFAULT_CURRENCY, normalizeCurrency, roundMoney, roundRate } from '../../utils/currency';
+import { startOfPeriod } from '../../utils/period';
+import {
+  CreateExchangeRateData,
+  ImportExchangeRatesData,
+  GetExchangeRatesQuery
+} from './exchange-rate.schema';
+
+// Tên cột được chấp nhận trong file CSV (lowercase)
+const CSV_COLUMNS = {
+  date: ['date', 'ratedate', 'ngay'],
+  from: ['from', 'fromcurrency', 'base'],
+  to: ['to', 'tocurrency', 'quote'],
+  rate: ['rate', 'tygia']
+} as const;
+
+export interface AppliedRate {
+  rate: number;
+  rateDate: Date;
+  // true nếu tính từ cặp ngược (1 / rate)
+  inverted: boolean;
+}
+
+/**
+ * Bộ quy đổi về 1 tiền tệ đích, nạp sẵn toàn bộ tỷ giá liên quan
+ * Dùng cho thống kê/báo cáo cần quy đổi nhiều giao dịch (tránh query từng dòng)
+ */
+export interface CurrencyConverter {
+  currency: string;
+  getRate(fromCurrency: string, date: Date): number | null;
+  // null nếu không có tỷ giá cho tiền tệ này tại ngày đó
+  convert(amount: number, fromCurrency: string, date: Date): number | null;
+}
+
+/**
+ * Ngày áp dụng tỷ giá luôn lưu ở 00:00 UTC
+ */
+const toRateDate = (date: Date) => startOfPeriod(date, 'daily');
+
+/**
+ * Parse số tỷ giá trong CSV (chấp nhận dấu phẩy thập phân khi delimiter không phải dấu phẩy)
+ */
+function parseRateValue(raw: string, delimiter: string) {
+  let value = raw.trim();
+  if (delimiter !== ',' && value.includes(',') && !value.includes('.')) {
+    value = value.replace(',', '.');
+  }
+  if (value === '') return NaN;
+  return Number(value);
+}
+
+/**
+ * Tìm vị trí cột trong header CSV theo danh sách tên chấp nhận
+ */
+function findColumn(header: string[], names: readonly string[]) {
+  return header.findIndex((h) => names.includes(h.trim().toLowerCase().replace(/[\s_-]/g, '')));
+}
+
+export const ExchangeRateService = {
+  /**
+   * Nhập tay 1 tỷ giá (trùng cặp + ngày thì ghi đè)
+   *
+   * @param data - Dữ liệu tỷ giá đã validate
+   * @param userId - ID của user
+   * @returns ExchangeRate object
+   */
+  async upsertRate(data: CreateExchangeRateData, userId: string) {
+    const { fromCurrency, toCurrency, rate } = data;
+    const rateDate = toRateDate(data.rateDate);
+
+    return await prisma.exchangeRate.upsert({
+      where: {
+        userId_fromCurrency_toCurrency_rateDate: { userId, fromCurrency, toCurrency, rateDate }
+      },
+      create: { userId, fromCurrency, toCurrency, rate, rateDate, source: 'manual' },
+      update: { rate, source: 'manual' }
+    });
+  },
+
+  /**
+   * Import tỷ giá từ nội dung CSV
+   * Dòng lỗi được bỏ qua và trả về kèm số dòng; các dòng hợp lệ vẫn được ghi
+   *
+   * @throws Error('EXCHANGE_RATE_CSV_EMPTY') nếu file không có dòng dữ liệu
+   * @throws Error('EXCHANGE_RATE_CSV_INVALID_HEADER') nếu thiếu cột bắt buộc
+   */
+  async importRatesCsv(data: ImportExchangeRatesData, userId: string) {
+    const { content, delimiter } = data;
+    const rows = parseCsv(content, delimiter);
+    if (rows.length < 2) {
+      throw new Error('EXCHANGE_RATE_CSV_EMPTY');
+    }
+
+    const header = rows[0].values;
+    const columns = {
+      date: findColumn(header, CSV_COLUMNS.date),
+      from: findColumn(header, CSV_COLUMNS.from),
+      to: findColumn(header, CSV_COLUMNS.to),
+      rate: findColumn(header, CSV_COLUMNS.rate)
+    };
+    if (Object.values(columns).some((index) => index < 0)) {
+      throw new Error('EXCHANGE_RATE_CSV_INVALID_HEADER');
+    }
+
+    const errors: { line: number; message: string }[] = [];
+    // Trùng cặp + ngày trong cùng file => dòng sau ghi đè dòng trước
+    const rates = new Map<string, { fromCurrency: string; toCurrency: string; rate: number; rateDate: Date }>();
+
+    for (const row of rows.slice(1)) {
+      const rawDate = row.values[columns.date]?.trim() ?? '';
+      const fromCurrency = normalizeCurrency(row.values[columns.from] ?? '');
+      const toCurrency = normalizeCurrency(row.values[columns.to] ?? '');
+      const rate = parseRateValue(row.values[columns.rate] ?? '', delimiter);
+
+      if (!rawDate || isNaN(Date.parse(rawDate))) {
+        errors.push({ line: row.line, message: 'Ngày không hợp lệ' });
+        continue;
+      }
+      if (!fromCurrency || !toCurrency) {
+        errors.push({ line: row.line, message: 'Mã tiền tệ không hợp lệ' });
+        continue;
+      }
+      if (fromCurrency === toCurrency) {
+        errors.push({ line: row.line, message: 'Cặp tiền tệ phải khác nhau' });
+        continue;
+      }
+      if (!Number.isFinite(rate) || rate <= 0) {
+        errors.push({ line: row.line, message: 'Tỷ giá phải là số dương' });
+        continue;
+      }
+
+      const rateDate = toRateDate(new Date(rawDate));
+      rates.set(`${fromCurrency}:${toCurrency}:${rateDate.toISOString()}`, {
+        fromCurrency,
+        toCurrency,
+        rate: roundRate(rate),
+        rateDate
+      });
+    }
+
+    const values = Array.from(rates.values());
+    if (values.length > 0) {
+      await prisma.$transaction(
+        values.map((r) =>
+          prisma.exchangeRate.upsert({
+            where: {
+              userId_fromCurrency_toCurrency_rateDate: {
+                userId,
+                fromCurrency: r.fromCurrency,
+                toCurrency: r.toCurrency,
+                rateDate: r.rateDate
+              }
+            },
+            create: { userId, ...r, source: 'csv' },
+            update: { rate: r.rate, source: 'csv' }
+          })
+        )
+      );
+    }
+
+    return {
+      imported: values.length,
+      skipped: errors.length,
+      errors
+    };
+  },
+
+  /**
+   * Lấy danh sách tỷ giá của user (mới nhất trước)
+   */
+  async getRates(userId: string, filters: Partial<GetExchangeRatesQuery> = {}) {
+    const { fromCurrency, toCurrency, startDate, endDate, limit = 100, offset = 0 } = filters;
+
+    const where: any = { userId };
+    if (fromCurrency) where.fromCurrency = fromCurrency;
+    if (toCurrency) where.toCurrency = toCurrency;
+    if (startDate || endDate) {
+      where.rateDate = {};
+      if (startDate) where.rateDate.gte = toRateDate(startDate);
+      if (endDate) where.rateDate.lte = endDate;
+    }
+
+    const rates = await prisma.exchangeRate.findMany({
+      where,
+      orderBy: [
+        { rateDate: 'desc' },
+        { fromCurrency: 'asc' },
+        { toCurrency: 'asc' }
+      ],
+      take: limit,
+      skip: offset
+    });
+
+    const total = await prisma.exchangeRate.count({ where });
+
+    return {
+      rates,
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total
+      }
+    };
+  },
+
+  /**
+   * Xóa 1 tỷ giá
+   *
+   * @throws Error('EXCHANGE_RATE_NOT_FOUND') nếu tỷ giá không tồn tại
+   */
+  async deleteRate(rateId: string, userId: string) {
+    const existing = await prisma.exchangeRate.findFirst({
+      where: { id: rateId, userId }
+    });
+
+    if (!existing) {
+      throw new Error('EXCHANGE_RATE_NOT_FOUND');
+    }
+
+    await prisma.exchangeRate.delete({
+      where: { id: rateId }
+    });
+
+    return { id: rateId, deleted: true } as any;
+  },
+
+  /**
+   * Tìm tỷ giá áp dụng cho cặp tiền tệ tại ngày `date`
+   *
+   * @returns AppliedRate hoặc null nếu chưa có tỷ giá nào <= date
+   */
+  async findRate(userId: string, fromCurrency: string, toCurrency: string, date: Date): Promise<AppliedRate | null> {
+    if (fromCurrency === toCurrency) {
+      return { rate: 1, rateDate: toRateDate(date), inverted: false };
+    }
+
+    const direct = await prisma.exchangeRate.findFirst({
+      where: { userId, fromCurrency, toCurrency, rateDate: { lte: date } },
+      orderBy: { rateDate: 'desc' }
+    });
+    const inverse = await prisma.exchangeRate.findFirst({
+      where: { userId, fromCurrency: toCurrency, toCurrency: fromCurrency, rateDate: { lte: date } },
+      orderBy: { rateDate: 'desc' }
+    });
+
+    if (direct && (!inverse || direct.rateDate.getTime() >= inverse.rateDate.getTime())) {
+      return { rate: direct.rate.toNumber(), rateDate: direct.rateDate, inverted: false };
+    }
+    if (inverse) {
+      return { rate: roundRate(1 / inverse.rate.toNumber()), rateDate: inverse.rateDate, inverted: true };
+    }
+    return null;
+  },
+
+  /**
+   * Như findRate nhưng bắt buộc phải có tỷ giá
+   *
+   * @throws Error('EXCHANGE_RATE_UNAVAILABLE') nếu chưa có tỷ giá cho cặp/ngày
+   */
+  async getRate(userId: string, fromCurrency: string, toCurrency: string, date: Date): Promise<AppliedRate> {
+    const applied = await ExchangeRateService.findRate(userId, fromCurrency, toCurrency, date);
+    if (!applied) {
+      throw new Error('EXCHANGE_RATE_UNAVAILABLE');
+    }
+    return applied;
+  },
+
+  /**
+   * Tạo bộ quy đổi về tiền tệ gốc (baseCurrency) của user
+   */
+  async getBaseConverter(userId: string): Promise<CurrencyConverter> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { baseCurrency: true }
+    });
+    return await ExchangeRateService.getConverter(userId, user?.baseCurrency ?? DEFAULT_CURRENCY);
+  },
+
+  /**
+   * Tạo bộ quy đổi về tiền tệ `currency` cho user
+   * Nạp 1 lần tất cả tỷ giá có liên quan tới `currency`, tra cứu in-memory
+   */
+  async getConverter(userId: string, currency: string): Promise<CurrencyConverter> {
+    const rows = await prisma.exchangeRate.findMany({
+      where: {
+        userId,
+        OR: [{ toCurrency: currency }, { fromCurrency: currency }]
+      },
+      orderBy: { rateDate: 'asc' }
+    });
+
+    // Mỗi tiền tệ nguồn => danh sách (time, rate về `currency`) tăng dần theo ngày
+    // Cùng ngày: cặp ngược đứng trước để cặp thuận (đứng sau) được ưu tiên khi tra cứu
+    const series = new Map<string, { time: number; rate: number; direct: boolean }[]>();
+    for (const row of rows) {
+      const direct = row.toCurrency === currency;
+      const source = direct ? row.fromCurrency : row.toCurrency;
+      const rate = direct ? row.rate.toNumber() : 1 / row.rate.toNumber();
+      const list = series.get(source) ?? [];
+      list.push({ time: row.rateDate.getTime(), rate, direct });
+      series.set(source, list);
+    }
+    for (const list of series.values()) {
+      list.sort((a, b) => a.time - b.time || Number(a.direct) - Number(b.direct));
+    }
+
+    const getRate = (fromCurrency: string, date: Date) => {
+      if (fromCurrency === currency) return 1;
+      const list = series.get(fromCurrency);
+      if (!list) return null;
+
+      // Binary search phần tử cuối cùng có time <= date
+      const time = date.getTime();
+      let low = 0;
+      let high = list.length - 1;
+      let found = -1;
+      while (low <= high) {
+        const mid = (low + high) >> 1;
+        if (list[mid].time <= time) {
+          found = mid;
+          low = mid + 1;
+        } else {
+          high = mid - 1;
+        }
+      }
+      return found >= 0 ? list[found].rate : null;
+    };
+
+    return {
+      currency,
+      getRate,
+      convert(amount: number, fromCurrency: string, date: Date) {
+        const rate = getRate(fromCurrency, date);
+        return rate === null ? null : roundMoney(amount * rate);
+      }
+    };
+  }
+};
@@ -0,0 +1,92 @@
+/**
+ * Export Controller
+ * File này xử lý HTTP requests/responses cho xuất dữ liệu (JSON hoặc zip CSV)
+ * Controller layer - chỉ xử lý HTTP, business logic nằm ở Service layer
+ */
+import { Request, Response } from 'express';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ExportService } from './export.service';
+import { handleError, handleValidationError } from '../../utils/error-handler';
+import { exportQuerySchema } from './export.schema';
+
+// Create module-specific error handler
+const handleExportError = (error: any, res: Response) =>
+  handleError(error, res, 'Export');
+
+export const ExportController = {
+  /**
+   * @swagger
+   * /export:
+   *   get:
+   *     tags:
+   *       - Export
+   *     summary: Xuất toàn bộ dữ liệu
+   *     description: |
+   *       Tải về ví, danh mục, giao dịch (kèm bút toán), khoản vay (kèm lần trả/thu nợ), templates và mục tiêu.
+   *       - `format=json`: 1 file JSON (có `version` để import/restore)
+   *       - `format=csv`: file zip gồm các file CSV (UTF-8 có BOM, mở trực tiếp bằng Excel)
+   *
+   *       startDate/endDate lọc giao dịch (theo transactionDate), lần trả/thu nợ (theo paymentDate) và khoản vay
+   *       (bắt đầu hoặc có thanh toán trong khoảng). Ví, danh mục, templates và mục tiêu luôn xuất đầy đủ.
+   *       Giao dịch đã xoá không được xuất.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: format
+   *         schema:
+   *           type: string
+   *           enum: [json, csv]
+   *           default: json
+   *       - in: query
+   *         name: startDate
+   *         schema:
+   *           type: string
+   *           format: date
+   *       - in: query
+   *         name: endDate
+   *         schema:
+   *           type: string
+   *           format: date
+   *     responses:
+   *       200:
+   *         description: File export (application/json hoặc application/zip)
+   *       400:
+   *         description: Query không hợp lệ
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async exportData(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const parsed = exportQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
+
+      const { format } = parsed.data;
+      const fileName = `le-export-${new Date().toISOString().slice(0, 10)}.${format === 'json' ? 'json' : 'zip'}`;
+      const chunks = format === 'json'
+        ? ExportService.exportJson(userId, parsed.data)
+        : ExportService.exportCsvZip(userId, parsed.data);
+
+      res.status(200);
+      res.setHeader('Content-Type', format === 'json' ? 'application/json; charset=utf-8' : 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+      await pipeline(Readable.from(chunks), res);
+    } catch (e: any) {
+      // Lỗi sau khi đã gửi dữ liệu => không thể trả JSON lỗi, chỉ đóng kết nối
+      if (res.headersSent) {
+        res.destroy(e);
+        return;
+      }
+      return handleExportError(e, res);
+    }
+  }
+};
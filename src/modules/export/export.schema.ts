@@ -0,0 +1,24 @@
+// Schema validation cho Export APIs
+// Sử dụng Zod để validate query parameters khi xuất toàn bộ dữ liệu của user
+import { z } from 'zod';
+
+const dateQuery = z.string().refine((val) => !isNaN(Date.parse(val)), {
+  message: 'Ngày không hợp lệ'
+}).transform((val) => new Date(val));
+
+// Schema cho query parameters export
+export const exportQuerySchema = z.object({
+  // json: 1 file JSON; csv: file zip gồm nhiều file CSV (mỗi loại dữ liệu 1 file)
+  format: z.enum(['json', 'csv'], {
+    message: 'format phải là json hoặc csv'
+  }).default('json'),
+  // Khoảng thời gian áp dụng cho giao dịch, khoản vay và lần trả/thu nợ
+  startDate: dateQuery.optional(),
+  endDate: dateQuery.optional()
+}).refine(
+  (data) => !data.startDate || !data.endDate || data.startDate <= data.endDate,
+  { message: 'startDate phải trước hoặc bằng endDate', path: ['endDate'] }
+);
+
+// Type definitions cho TypeScript
+export type ExportQuery = z.infer<typeof exportQuerySchema>;
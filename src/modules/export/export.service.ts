@@ -0,0 +1,485 @@
+/**
+ * Export Service
+ * File này chứa business logic cho xuất toàn bộ dữ liệu của user (backup / phân tích bằng spreadsheet)
+ * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
+ *
+ * Dữ liệu được sinh dần thành từng chunk (async generator) để controller stream ra response,
+ * giao dịch được đọc theo lô nên không phải nạp toàn bộ lịch sử vào bộ nhớ cùng lúc.
+ * Với zip CSV, mỗi file giao dịch được nén và ghi ra theo từng lô (mỗi file đọc lại giao dịch 1 lượt).
+ *
+ * Khoảng thời gian (startDate/endDate) áp dụng cho:
+ * - Giao dịch: theo transactionDate
+ * - Lần trả/thu nợ: theo paymentDate
+ * - Khoản vay: bắt đầu trong khoảng hoặc có lần trả/thu nợ trong khoảng
+ * Ví, danh mục, tag, contact, templates và mục tiêu luôn được xuất đầy đủ (dữ liệu tham chiếu)
+ */
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../db/prisma';
+import { toCsv, toCsvLines } from '../../utils/csv';
+import { createZipWriter, ZipWriter } from '../../utils/zip';
+import { ExportQuery } from './export.schema';
+
+// Phiên bản định dạng file export (tăng khi đổi cấu trúc để import/restore nhận biết)
+export const EXPORT_VERSION = 1;
+
+// Số giao dịch đọc mỗi lô
+const TRANSACTION_BATCH_SIZE = 500;
+
+const walletExportSelect = {
+  id: true,
+  name: true,
+  type: true,
+  currency: true,
+  openingBalance: true,
+  currentBalance: true,
+  creditLimit: true,
+  statementClosingDay: true,
+  paymentDueDay: true,
+  lowBalanceThreshold: true,
+  isArchived: true,
+  createdAt: true
+} as const;
+
+const categoryExportSelect = {
+  id: true,
+  type: true,
+  name: true,
+  parentId: true,
+  icon: true,
+  sortOrder: true,
+  isSystem: true
+} as const;
+
+const tagExportSelect = {
+  id: true,
+  name: true,
+  color: true
+} as const;
+
+const contactExportSelect = {
+  id: true,
+  name: true,
+  phone: true,
+  note: true
+} as const;
+
+const transactionExportSelect = {
+  id: true,
+  type: true,
+  transactionDate: true,
+  categoryId: true,
+  amount: true,
+  exchangeRate: true,
+  note: true,
+  loanId: true,
+  contactId: true,
+  createdAt: true,
+  entries: {
+    select: { walletId: true, direction: true, amount: true }
+  },
+  splits: {
+    select: { categoryId: true, amount: true, note: true }
+  },
+  tags: {
+    select: { tagId: true }
+  }
+} as const;
+
+const loanExportSelect = {
+  id: true,
+  kind: true,
+  counterpartyName: true,
+  contactId: true,
+  principal: true,
+  outstandingAmount: true,
+  startDate: true,
+  dueDate: true,
+  status: true,
+  interestType: true,
+  interestRate: true,
+  compoundingPeriod: true,
+  installmentCount: true,
+  installmentPeriod: true,
+  firstInstallmentDate: true,
+  note: true,
+  createdAt: true
+} as const;
+
+const loanPaymentExportSelect = {
+  id: true,
+  walletId: true,
+  transactionId: true,
+  interestTransactionId: true,
+  paymentDate: true,
+  amount: true,
+  principalAmount: true,
+  interestAmount: true,
+  note: true
+} as const;
+
+const loanAdjustmentExportSelect = {
+  id: true,
+  type: true,
+  amount: true,
+  adjustmentDate: true,
+  walletId: true,
+  transactionId: true,
+  note: true
+} as const;
+
+const templateExportSelect = {
+  id: true,
+  name: true,
+  type: true,
+  walletId: true,
+  categoryId: true,
+  amount: true,
+  note: true
+} as const;
+
+const goalExportSelect = {
+  id: true,
+  title: true,
+  description: true,
+  periodType: true,
+  trackingType: true,
+  targetValue: true,
+  currentValue: true,
+  unit: true,
+  parentGoalId: true,
+  autoCalculate: true,
+  status: true,
+  priority: true,
+  category: true,
+  startDate: true,
+  endDate: true,
+  month: true,
+  year: true,
+  recurringConfig: true,
+  createdAt: true,
+  milestones: {
+    select: {
+      id: true,
+      title: true,
+      description: true,
+      targetValue: true,
+      currentValue: true,
+      targetDate: true,
+      isCompleted: true,
+      order: true
+    },
+    orderBy: { order: 'asc' }
+  }
+} as const;
+
+/**
+ * Điều kiện lọc theo khoảng thời gian cho 1 field DateTime
+ */
+function dateRange({ startDate, endDate }: Partial<ExportQuery>) {
+  if (!startDate && !endDate) return undefined;
+  return {
+    ...(startDate ? { gte: startDate } : {}),
+    ...(endDate ? { lte: endDate } : {})
+  };
+}
+
+/**
+ * Đọc dữ liệu tham chiếu + khoản vay (kích thước nhỏ, đọc 1 lần)
+ *
+ * @throws Error('USER_NOT_FOUND') nếu user không tồn tại
+ */
+async function loadExportData(userId: string, filters: Partial<ExportQuery>) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, name: true, baseCurrency: true }
+  });
+  if (!user) {
+    throw new Error('USER_NOT_FOUND');
+  }
+
+  const range = dateRange(filters);
+
+  const [wallets, categories, tags, contacts, transactionTemplates, goals, loans] = await Promise.all([
+    prisma.wallet.findMany({
+      where: { userId },
+      select: walletExportSelect,
+      orderBy: { createdAt: 'asc' }
+    }),
+    prisma.category.findMany({
+      where: { userId },
+      select: categoryExportSelect,
+      orderBy: [{ type: 'asc' }, { sortOrder: 'asc' }, { name: 'asc' }]
+    }),
+    prisma.tag.findMany({
+      where: { userId },
+      select: tagExportSelect,
+      orderBy: { name: 'asc' }
+    }),
+    prisma.contact.findMany({
+      where: { userId },
+      select: contactExportSelect,
+      orderBy: { name: 'asc' }
+    }),
+    prisma.transactionTemplate.findMany({
+      where: { userId },
+      select: templateExportSelect,
+      orderBy: { name: 'asc' }
+    }),
+    prisma.goal.findMany({
+      where: { userId },
+      select: goalExportSelect,
+      orderBy: { createdAt: 'asc' }
+    }),
+    prisma.loan.findMany({
+      where: {
+        userId,
+        deletedAt: null,
+        ...(range
+          ? {
+            OR: [
+              { startDate: range },
+              { payments: { some: { paymentDate: range } } },
+              { adjustments: { some: { adjustmentDate: range } } }
+            ]
+          }
+          : {})
+      },
+      select: {
+        ...loanExportSelect,
+        payments: {
+          where: { voidedAt: null, ...(range ? { paymentDate: range } : {}) },
+          select: loanPaymentExportSelect,
+          orderBy: { paymentDate: 'asc' }
+        },
+        adjustments: {
+          where: range ? { adjustmentDate: range } : undefined,
+          select: loanAdjustmentExportSelect,
+          orderBy: { adjustmentDate: 'asc' }
+        }
+      },
+      orderBy: { startDate: 'asc' }
+    })
+  ]);
+
+  return { user, wallets, categories, tags, contacts, transactionTemplates, goals, loans };
+}
+
+/**
+ * Đọc giao dịch (chưa xoá) theo lô, sắp theo ngày tăng dần
+ */
+async function* transactionBatches(userId: string, filters: Partial<ExportQuery>) {
+  const range = dateRange(filters);
+  let cursor: string | undefined;
+
+  while (true) {
+    const batch = await prisma.transaction.findMany({
+      where: {
+        userId,
+        deletedAt: null,
+        ...(range ? { transactionDate: range } : {})
+      },
+      select: transactionExportSelect,
+      orderBy: [{ transactionDate: 'asc' }, { id: 'asc' }],
+      take: TRANSACTION_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+    });
+
+    if (batch.length === 0) return;
+    yield batch;
+
+    if (batch.length < TRANSACTION_BATCH_SIZE) return;
+    cursor = batch[batch.length - 1].id;
+  }
+}
+
+type ExportTransaction = Prisma.TransactionGetPayload<{ select: typeof transactionExportSelect }>;
+
+/**
+ * Ghi 1 file CSV vào zip theo từng lô giao dịch (mỗi giao dịch => 0..n dòng)
+ */
+async function* transactionCsvFile(
+  zip: ZipWriter,
+  name: string,
+  header: string[],
+  batches: AsyncIterable<ExportTransaction[]>,
+  toRows: (t: ExportTransaction) => unknown[][]
+): AsyncGenerator<Buffer> {
+  const file = zip.openFile(name);
+  yield file.header;
+  yield file.write(toCsv(header, []));
+
+  for await (const batch of batches) {
+    const rows = batch.flatMap(toRows);
+    if (rows.length > 0) {
+      yield file.write(toCsvLines(rows));
+    }
+  }
+
+  yield file.end();
+}
+
+export const ExportService = {
+  /**
+   * Xuất dữ liệu thành 1 document JSON (sinh dần từng chunk)
+   *
+   * @throws Error('USER_NOT_FOUND') nếu user không tồn tại
+   */
+  async *exportJson(userId: string, filters: Partial<ExportQuery> = {}): AsyncGenerator<string> {
+    const { user, ...data } = await loadExportData(userId, filters);
+
+    const header = {
+      version: EXPORT_VERSION,
+      exportedAt: new Date(),
+      user,
+      range: { startDate: filters.startDate ?? null, endDate: filters.endDate ?? null },
+      ...data
+    };
+
+    // Mở document, mảng transactions được ghi dần theo lô
+    yield JSON.stringify(header).slice(0, -1) + ',"transactions":[';
+
+    let first = true;
+    for await (const batch of transactionBatches(userId, filters)) {
+      const items = batch.map((t) => JSON.stringify(t)).join(',');
+      yield first ? items : ',' + items;
+      first = false;
+    }
+
+    yield ']}';
+  },
+
+  /**
+   * Xuất dữ liệu thành file zip gồm các file CSV
+   *
+   * @throws Error('USER_NOT_FOUND') nếu user không tồn tại
+   */
+  async *exportCsvZip(userId: string, filters: Partial<ExportQuery> = {}): AsyncGenerator<Buffer> {
+    const { wallets, categories, tags, contacts, transactionTemplates, goals, loans } = await loadExportData(userId, filters);
+    const zip = createZipWriter();
+
+    const walletNames = new Map(wallets.map((w) => [w.id, w.name]));
+    const walletCurrencies = new Map(wallets.map((w) => [w.id, w.currency]));
+    const categoryNames = new Map(categories.map((c) => [c.id, c.name]));
+    const tagNames = new Map(tags.map((t) => [t.id, t.name]));
+    const contactNames = new Map(contacts.map((c) => [c.id, c.name]));
+
+    yield zip.addFile('wallets.csv', toCsv(
+      ['id', 'name', 'type', 'currency', 'openingBalance', 'currentBalance', 'creditLimit', 'statementClosingDay', 'paymentDueDay', 'lowBalanceThreshold', 'isArchived', 'createdAt'],
+      wallets.map((w) => [w.id, w.name, w.type, w.currency, w.openingBalance, w.currentBalance, w.creditLimit, w.statementClosingDay, w.paymentDueDay, w.lowBalanceThreshold, w.isArchived, w.createdAt])
+    ));
+
+    yield zip.addFile('categories.csv', toCsv(
+      ['id', 'type', 'name', 'parentId', 'parentName', 'icon', 'sortOrder', 'isSystem'],
+      categories.map((c) => [
+        c.id, c.type, c.name, c.parentId, c.parentId ? categoryNames.get(c.parentId) : null, c.icon, c.sortOrder, c.isSystem
+      ])
+    ));
+
+    yield zip.addFile('tags.csv', toCsv(
+      ['id', 'name', 'color'],
+      tags.map((t) => [t.id, t.name, t.color])
+    ));
+
+    yield zip.addFile('contacts.csv', toCsv(
+      ['id', 'name', 'phone', 'note'],
+      contacts.map((c) => [c.id, c.name, c.phone, c.note])
+    ));
+
+    // Giao dịch: 1 file header + 1 file bút toán (transfer có 2 entry) + 1 file dòng split + 1 file tag
+    // File zip ghi tuần tự => mỗi file đọc lại giao dịch theo lô, không gom cả lịch sử trong bộ nhớ
+    yield* transactionCsvFile(
+      zip,
+      'transactions.csv',
+      [
+        'id', 'transactionDate', 'type', 'categoryId', 'categoryName', 'amount', 'exchangeRate', 'note', 'loanId',
+        'contactId', 'contactName', 'createdAt'
+      ],
+      transactionBatches(userId, filters),
+      (t) => [[
+        t.id, t.transactionDate, t.type, t.categoryId, t.categoryId ? categoryNames.get(t.categoryId) : null,
+        t.amount, t.exchangeRate, t.note, t.loanId, t.contactId, t.contactId ? contactNames.get(t.contactId) : null, t.createdAt
+      ]]
+    );
+    yield* transactionCsvFile(
+      zip,
+      'transaction_entries.csv',
+      ['transactionId', 'walletId', 'walletName', 'currency', 'direction', 'amount'],
+      transactionBatches(userId, filters),
+      (t) => t.entries.map((e) => [t.id, e.walletId, walletNames.get(e.walletId), walletCurrencies.get(e.walletId), e.direction, e.amount])
+    );
+    yield* transactionCsvFile(
+      zip,
+      'transaction_splits.csv',
+      ['transactionId', 'categoryId', 'categoryName', 'amount', 'note'],
+      transactionBatches(userId, filters),
+      (t) => t.splits.map((line) => [t.id, line.categoryId, categoryNames.get(line.categoryId), line.amount, line.note])
+    );
+    yield* transactionCsvFile(
+      zip,
+      'transaction_tags.csv',
+      ['transactionId', 'tagId', 'tagName'],
+      transactionBatches(userId, filters),
+      (t) => t.tags.map(({ tagId }) => [t.id, tagId, tagNames.get(tagId)])
+    );
+
+    yield zip.addFile('loans.csv', toCsv(
+      [
+        'id', 'kind', 'counterpartyName', 'contactId', 'principal', 'outstandingAmount', 'startDate', 'dueDate', 'status',
+        'interestType', 'interestRate', 'compoundingPeriod', 'installmentCount', 'installmentPeriod', 'firstInstallmentDate',
+        'note', 'createdAt'
+      ],
+      loans.map((l) => [
+        l.id, l.kind, l.counterpartyName, l.contactId, l.principal, l.outstandingAmount, l.startDate, l.dueDate, l.status,
+        l.interestType, l.interestRate, l.compoundingPeriod, l.installmentCount, l.installmentPeriod, l.firstInstallmentDate,
+        l.note, l.createdAt
+      ])
+    ));
+
+    yield zip.addFile('loan_payments.csv', toCsv(
+      [
+        'id', 'loanId', 'paymentDate', 'amount', 'principalAmount', 'interestAmount', 'walletId', 'walletName',
+        'transactionId', 'interestTransactionId', 'note'
+      ],
+      loans.flatMap((l) => l.payments.map((p) => [
+        p.id, l.id, p.paymentDate, p.amount, p.principalAmount, p.interestAmount, p.walletId, walletNames.get(p.walletId),
+        p.transactionId, p.interestTransactionId, p.note
+      ]))
+    ));
+
+    yield zip.addFile('loan_adjustments.csv', toCsv(
+      ['id', 'loanId', 'type', 'adjustmentDate', 'amount', 'walletId', 'walletName', 'transactionId', 'note'],
+      loans.flatMap((l) => l.adjustments.map((a) => [
+        a.id, l.id, a.type, a.adjustmentDate, a.amount, a.walletId, a.walletId ? walletNames.get(a.walletId) : null,
+        a.transactionId, a.note
+      ]))
+    ));
+
+    yield zip.addFile('transaction_templates.csv', toCsv(
+      ['id', 'name', 'type', 'walletId', 'walletName', 'categoryId', 'categoryName', 'amount', 'note'],
+      transactionTemplates.map((t) => [
+        t.id, t.name, t.type, t.walletId, t.walletId ? walletNames.get(t.walletId) : null,
+        t.categoryId, t.categoryId ? categoryNames.get(t.categoryId) : null, t.amount, t.note
+      ])
+    ));
+
+    yield zip.addFile('goals.csv', toCsv(
+      [
+        'id', 'title', 'description', 'periodType', 'trackingType', 'targetValue', 'currentValue', 'unit',
+        'parentGoalId', 'status', 'priority', 'category', 'startDate', 'endDate', 'month', 'year'
+      ],
+      goals.map((g) => [
+        g.id, g.title, g.description, g.periodType, g.trackingType, g.targetValue, g.currentValue, g.unit,
+        g.parentGoalId, g.status, g.priority, g.category, g.startDate, g.endDate, g.month, g.year
+      ])
+    ));
+
+    yield zip.addFile('milestones.csv', toCsv(
+      ['id', 'goalId', 'title', 'description', 'targetValue', 'currentValue', 'targetDate', 'isCompleted', 'order'],
+      goals.flatMap((g) => g.milestones.map((m) => [
+        m.id, g.id, m.title, m.description, m.targetValue, m.currentValue, m.targetDate, m.isCompleted, m.order
+      ]))
+    ));
+
+    yield zip.finish();
+  }
+};
@@ -5,7 +5,8 @@
  */
 import { Request, Response } from 'express';
 import { GoalService } from './goal.service';
-import { handleError } from '../../utils/error-handler';
+import { handleError, handleValidationError } from '../../utils/error-handler';
+import { getGoalsQuerySchema } from './goal.schema';
 
 // Create module-specific error handler
 const handleGoalError = (error: any, res: Response) =>
@@ -188,18 +189,16 @@ export const GoalController = {
    *           format: uuid
    *         description: Lọc theo goal cha
    *       - in: query
-   *         name: limit
+   *         name: sortBy
    *         schema:
-   *           type: integer
-   *           minimum: 1
-   *           maximum: 100
-   *           default: 50
-   *       - in: query
-   *         name: offset
-   *         schema:
-   *           type: integer
-   *           minimum: 0
-   *           default: 0
+   *           type: string
+   *           enum: [createdAt, title]
+   *         description: Bỏ trống => theo trạng thái, độ ưu tiên cao trước, mới nhất trước
+   *       - $ref: '#/components/parameters/SortOrder'
+   *       - $ref: '#/components/parameters/Limit'
+   *       - $ref: '#/components/parameters/Cursor'
+   *       - $ref: '#/components/parameters/Offset'
+   *       - $ref: '#/components/parameters/IncludeTotal'
    *     responses:
    *       200:
    *         description: Danh sách goals
@@ -213,7 +212,12 @@ export const GoalController = {
         return res.status(401).json({ message: 'Unauthorized' });
       }
 
-      const result = await GoalService.getGoals(userId, req.query as any);
+      const parsed = getGoalsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
+
+      const result = await GoalService.getGoals(userId, parsed.data);
       return res.status(200).json({
         message: 'Goals retrieved successfully',
         ...result,
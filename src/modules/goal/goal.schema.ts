@@ -3,6 +3,7 @@
  * Sử dụng Zod để validate request body cho các goal operations
  */
 import { z } from 'zod';
+import { paginationQueryShape, sortQueryShape } from '../../utils/pagination';
 
 // Recurring config schema
 const recurringConfigSchema = z.object({
@@ -100,6 +101,9 @@ export const updateGoalSchema = z.object({
   'Phải cung cấp ít nhất một trường để cập nhật'
 );
 
+// Cột được phép sắp xếp danh sách mục tiêu
+export const GOAL_SORT_FIELDS = ['createdAt', 'title'] as const;
+
 // Schema cho query parameters
 export const getGoalsQuerySchema = z.object({
   periodType: z.enum(['daily', 'weekly', 'monthly', 'yearly']).optional(),
@@ -115,14 +119,9 @@ export const getGoalsQuerySchema = z.object({
     return isNaN(num) || num < 1 || num > 12 ? undefined : num;
   }).optional(),
   parentGoalId: z.string().uuid().optional(),
-  limit: z.string().transform((val) => {
-    const num = parseInt(val);
-    return isNaN(num) ? 50 : Math.min(Math.max(num, 1), 100);
-  }).optional().default(50),
-  offset: z.string().transform((val) => {
-    const num = parseInt(val);
-    return isNaN(num) ? 0 : Math.max(num, 0);
-  }).optional().default(0),
+  // Mặc định: theo trạng thái, độ ưu tiên cao trước, mới nhất trước
+  ...sortQueryShape(GOAL_SORT_FIELDS),
+  ...paginationQueryShape({ clamp: true }),
 });
 
 // Schema cho tạo milestone
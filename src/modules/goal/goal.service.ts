@@ -4,8 +4,13 @@
  * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
  */
 import { prisma } from '../../db/prisma';
+import { paginate, SortKey } from '../../utils/pagination';
+import { AuditService } from '../audit/audit.service';
+import { NotificationInput, NotificationService } from '../notification/notification.service';
 import { CreateGoalData, UpdateGoalData, GetGoalsQuery, CreateMilestoneData, UpdateMilestoneData } from './goal.schema';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export const GoalService = {
   /**
    * Tạo goal mới cho user
@@ -58,89 +63,102 @@ export const GoalService = {
       }
     }
 
-    // Tạo goal chính
-    const goal = await prisma.goal.create({
-      data: {
-        userId,
-        title,
-        description,
-        periodType,
-        trackingType,
-        targetValue: targetValue || null,
-        currentValue: currentValue || 0,
-        unit,
-        parentGoalId,
-        autoCalculate,
-        status,
-        priority,
-        category: category || null,
-        startDate: startDate ? new Date(startDate) : null,
-        endDate: endDate ? new Date(endDate) : null,
-        month,
-        year,
-        recurringConfig: recurringConfig || undefined,
-      },
-      include: {
-        milestones: true,
-        subGoals: true,
-        parentGoal: true,
-      },
-    });
-
-    // Tạo milestones nếu có
-    if (milestones && milestones.length > 0) {
-      await prisma.milestone.createMany({
-        data: milestones.map((m, index) => ({
-          goalId: goal.id,
-          title: m.title,
-          description: m.description,
-          targetValue: m.targetValue || null,
-          currentValue: m.currentValue || 0,
-          targetDate: m.targetDate ? new Date(m.targetDate) : null,
-          isCompleted: m.isCompleted || false,
-          order: m.order !== undefined ? m.order : index,
-        })),
-      });
-    }
-
-    // Tạo monthly sub-goals nếu là yearly goal và có yêu cầu
-    if (periodType === 'yearly' && createMonthlySubGoals && monthlyTargetValue && year) {
-      const monthlyGoals = [];
-      for (let m = 1; m <= 12; m++) {
-        monthlyGoals.push({
+    // Tạo goal + milestones + sub-goals + ghi nhật ký thay đổi trong 1 DB transaction
+    return await prisma.$transaction(async (tx) => {
+      // Tạo goal chính
+      const goal = await tx.goal.create({
+        data: {
           userId,
-          title: `${title} - Tháng ${m}`,
-          periodType: 'monthly' as const,
+          title,
+          description,
+          periodType,
           trackingType,
-          targetValue: monthlyTargetValue,
-          currentValue: 0,
+          targetValue: targetValue || null,
+          currentValue: currentValue || 0,
           unit,
-          parentGoalId: goal.id,
-          autoCalculate: true,
-          status: 'pending' as const,
+          parentGoalId,
+          autoCalculate,
+          status,
           priority,
           category: category || null,
-          month: m,
+          startDate: startDate ? new Date(startDate) : null,
+          endDate: endDate ? new Date(endDate) : null,
+          month,
           year,
+          recurringConfig: recurringConfig || undefined,
+        },
+        include: {
+          milestones: true,
+          subGoals: true,
+          parentGoal: true,
+        },
+      });
+
+      // Tạo milestones nếu có
+      if (milestones && milestones.length > 0) {
+        await tx.milestone.createMany({
+          data: milestones.map((m, index) => ({
+            goalId: goal.id,
+            title: m.title,
+            description: m.description,
+            targetValue: m.targetValue || null,
+            currentValue: m.currentValue || 0,
+            targetDate: m.targetDate ? new Date(m.targetDate) : null,
+            isCompleted: m.isCompleted || false,
+            order: m.order !== undefined ? m.order : index,
+          })),
         });
       }
-      await prisma.goal.createMany({
-        data: monthlyGoals,
-      });
-    }
 
-    // Lấy lại goal với đầy đủ relations
-    return await prisma.goal.findUnique({
-      where: { id: goal.id },
-      include: {
-        milestones: {
-          orderBy: { order: 'asc' },
-        },
-        subGoals: {
-          orderBy: { month: 'asc' },
+      // Tạo monthly sub-goals nếu là yearly goal và có yêu cầu
+      if (periodType === 'yearly' && createMonthlySubGoals && monthlyTargetValue && year) {
+        const monthlyGoals = [];
+        for (let m = 1; m <= 12; m++) {
+          monthlyGoals.push({
+            userId,
+            title: `${title} - Tháng ${m}`,
+            periodType: 'monthly' as const,
+            trackingType,
+            targetValue: monthlyTargetValue,
+            currentValue: 0,
+            unit,
+            parentGoalId: goal.id,
+            autoCalculate: true,
+            status: 'pending' as const,
+            priority,
+            category: category || null,
+            month: m,
+            year,
+          });
+        }
+        await tx.goal.createMany({
+          data: monthlyGoals,
+        });
+      }
+
+      // Lấy lại goal với đầy đủ relations
+      const createdGoal = await tx.goal.findUnique({
+        where: { id: goal.id },
+        include: {
+          milestones: {
+            orderBy: { order: 'asc' },
+          },
+          subGoals: {
+            orderBy: { month: 'asc' },
+          },
+          parentGoal: true,
         },
-        parentGoal: true,
-      },
+      });
+
+      await AuditService.record({
+        userId,
+        entityType: 'goal',
+        entityId: goal.id,
+        action: 'create',
+        after: createdGoal
+      }, tx);
+
+      return createdGoal;
     });
   },
 
@@ -160,14 +178,14 @@ export const GoalService = {
       year,
       month,
       parentGoalId,
+      sortBy,
+      sortOrder = 'desc',
       limit = 50,
-      offset = 0,
+      cursor,
+      offset,
+      includeTotal,
     } = filters;
 
-    // req.query luôn là string - chuẩn hóa sang number cho Prisma take/skip
-    const limitNum = typeof limit === 'number' ? limit : Math.min(100, Math.max(1, parseInt(String(limit), 10) || 50));
-    const offsetNum = typeof offset === 'number' ? offset : Math.max(0, parseInt(String(offset), 10) || 0);
-
     // Build where clause
     const where: any = { userId };
 
@@ -202,38 +220,43 @@ export const GoalService = {
       where.parentGoalId = null;
     }
 
+    const sort: SortKey[] = sortBy
+      ? [
+        { field: sortBy, direction: sortOrder },
+        { field: 'id', direction: sortOrder },
+      ]
+      : [
+        { field: 'status', direction: 'asc', values: ['pending', 'in_progress', 'completed', 'failed'] }, // pending -> in_progress -> completed
+        { field: 'priority', direction: 'desc', values: ['low', 'medium', 'high'] }, // high -> medium -> low
+        { field: 'createdAt', direction: 'desc' },
+        { field: 'id', direction: 'desc' },
+      ];
+
     // Lấy danh sách goals
-    const goals = await prisma.goal.findMany({
-      where,
-      include: {
-        milestones: {
-          orderBy: { order: 'asc' },
-        },
-        subGoals: {
-          orderBy: { month: 'asc' },
+    const { items: goals, pagination } = await paginate(
+      { limit, cursor, offset, includeTotal },
+      sort,
+      (page) => prisma.goal.findMany({
+        where: { AND: [where, page.where] },
+        include: {
+          milestones: {
+            orderBy: { order: 'asc' },
+          },
+          subGoals: {
+            orderBy: { month: 'asc' },
+          },
+          parentGoal: true,
         },
-        parentGoal: true,
-      },
-      orderBy: [
-        { status: 'asc' }, // pending -> in_progress -> completed
-        { priority: 'desc' }, // high -> medium -> low
-        { createdAt: 'desc' },
-      ],
-      take: limitNum,
-      skip: offsetNum,
-    });
-
-    // Đếm total
-    const total = await prisma.goal.count({ where });
+        orderBy: page.orderBy,
+        take: page.take,
+        skip: page.skip,
+      }),
+      () => prisma.goal.count({ where })
+    );
 
     return {
       goals,
-      pagination: {
-        total,
-        limit: limitNum,
-        offset: offsetNum,
-        hasMore: offsetNum + limitNum < total,
-      },
+      pagination,
     };
   },
 
@@ -314,19 +337,33 @@ export const GoalService = {
       }
     }
 
-    // Cập nhật goal
-    const updatedGoal = await prisma.goal.update({
-      where: { id: goalId },
-      data: updateData,
-      include: {
-        milestones: {
-          orderBy: { order: 'asc' },
-        },
-        subGoals: {
-          orderBy: { month: 'asc' },
+    // Cập nhật goal + ghi nhật ký thay đổi
+    const updatedGoal = await prisma.$transaction(async (tx) => {
+      const goal = await tx.goal.update({
+        where: { id: goalId },
+        data: updateData,
+        include: {
+          milestones: {
+            orderBy: { order: 'asc' },
+          },
+          subGoals: {
+            orderBy: { month: 'asc' },
+          },
+          parentGoal: true,
         },
-        parentGoal: true,
-      },
+      });
+
+      const { milestones: _milestones, subGoals: _subGoals, parentGoal: _parentGoal, ...after } = goal;
+      await AuditService.record({
+        userId,
+        entityType: 'goal',
+        entityId: goalId,
+        action: 'update',
+        before: existingGoal,
+        after
+      }, tx);
+
+      return goal;
     });
 
     // Nếu autoCalculate, cập nhật từ sub-goals
@@ -367,14 +404,26 @@ export const GoalService = {
       throw new Error('GOAL_HAS_SUB_GOALS');
     }
 
-    // Xóa milestones trước (cascade sẽ tự xóa)
-    await prisma.milestone.deleteMany({
-      where: { goalId },
-    });
+    const { subGoals: _subGoals, ...before } = goal;
 
-    // Xóa goal
-    await prisma.goal.delete({
-      where: { id: goalId },
+    await prisma.$transaction(async (tx) => {
+      // Xóa milestones trước (cascade sẽ tự xóa)
+      await tx.milestone.deleteMany({
+        where: { goalId },
+      });
+
+      // Xóa goal
+      await tx.goal.delete({
+        where: { id: goalId },
+      });
+
+      await AuditService.record({
+        userId,
+        entityType: 'goal',
+        entityId: goalId,
+        action: 'delete',
+        before
+      }, tx);
     });
 
     return goal;
@@ -449,21 +498,31 @@ export const GoalService = {
       throw new Error('GOAL_NOT_FOUND');
     }
 
-    // Tạo milestone
-    const milestone = await prisma.milestone.create({
-      data: {
-        goalId,
-        title,
-        description,
-        targetValue: targetValue || null,
-        currentValue: currentValue || 0,
-        targetDate: targetDate ? new Date(targetDate) : null,
-        isCompleted: false,
-        order,
-      },
-    });
+    // Tạo milestone + ghi nhật ký thay đổi
+    return await prisma.$transaction(async (tx) => {
+      const milestone = await tx.milestone.create({
+        data: {
+          goalId,
+          title,
+          description,
+          targetValue: targetValue || null,
+          currentValue: currentValue || 0,
+          targetDate: targetDate ? new Date(targetDate) : null,
+          isCompleted: false,
+          order,
+        },
+      });
 
-    return milestone;
+      await AuditService.record({
+        userId,
+        entityType: 'milestone',
+        entityId: milestone.id,
+        action: 'create',
+        after: milestone
+      }, tx);
+
+      return milestone;
+    });
   },
 
   /**
@@ -504,10 +563,25 @@ export const GoalService = {
     if (data.isCompleted !== undefined) updateData.isCompleted = data.isCompleted;
     if (data.order !== undefined) updateData.order = data.order;
 
-    // Cập nhật milestone
-    const updatedMilestone = await prisma.milestone.update({
-      where: { id: milestoneId },
-      data: updateData,
+    const { goal: _goal, ...before } = milestone;
+
+    // Cập nhật milestone + ghi nhật ký thay đổi
+    const updatedMilestone = await prisma.$transaction(async (tx) => {
+      const updated = await tx.milestone.update({
+        where: { id: milestoneId },
+        data: updateData,
+      });
+
+      await AuditService.record({
+        userId,
+        entityType: 'milestone',
+        entityId: milestoneId,
+        action: 'update',
+        before,
+        after: updated
+      }, tx);
+
+      return updated;
     });
 
     // Nếu tất cả milestones đã hoàn thành, cập nhật goal status
@@ -551,9 +625,19 @@ export const GoalService = {
       throw new Error('MILESTONE_NOT_FOUND');
     }
 
-    // Xóa milestone
-    await prisma.milestone.delete({
-      where: { id: milestoneId },
+    // Xóa milestone + ghi nhật ký thay đổi
+    await prisma.$transaction(async (tx) => {
+      await tx.milestone.delete({
+        where: { id: milestoneId },
+      });
+
+      await AuditService.record({
+        userId,
+        entityType: 'milestone',
+        entityId: milestoneId,
+        action: 'delete',
+        before: milestone
+      }, tx);
     });
 
     return milestone;
@@ -613,4 +697,51 @@ export const GoalService = {
       completionRate,
     };
   },
+
+  /**
+   * Nhắc hạn các goal chưa hoàn thành (pending / in_progress) có endDate (được gọi bởi job nền)
+   * Chỉ gửi mốc gần nhất đã tới, mỗi mốc 1 lần (dedupeKey gồm endDate => đổi hạn thì nhắc lại)
+   *
+   * @param daysBefore - Các mốc nhắc trước endDate (số ngày)
+   * @param now - Thời điểm tham chiếu (mặc định hiện tại)
+   * @returns Số goal đã kiểm tra, số thông báo đã tạo và số lượt gửi thành công / lỗi
+   */
+  async processDeadlineReminders(daysBefore: number[], now = new Date()) {
+    const until = new Date(now.getTime() + Math.max(0, ...daysBefore) * DAY_MS);
+    const goals = await prisma.goal.findMany({
+      where: {
+        status: { in: ['pending', 'in_progress'] },
+        endDate: { gte: now, lte: until }
+      }
+    });
+
+    const reminders: NotificationInput[] = [];
+    for (const goal of goals) {
+      const daysLeft = Math.ceil((goal.endDate!.getTime() - now.getTime()) / DAY_MS);
+      const offset = Math.min(...daysBefore.filter((d) => daysLeft <= d));
+      if (!Number.isFinite(offset)) continue;
+
+      const endDate = goal.endDate!.toISOString().slice(0, 10);
+      const progress = goal.targetValue !== null
+        ? ` - tiến độ ${(goal.currentValue?.toNumber() ?? 0).toLocaleString('vi-VN')} / ${goal.targetValue.toNumber().toLocaleString('vi-VN')}${goal.unit ? ` ${goal.unit}` : ''}`
+        : '';
+      reminders.push({
+        userId: goal.userId,
+        type: 'goal_deadline',
+        title: 'Mục tiêu sắp đến hạn',
+        message: `${goal.title}: hạn ${endDate} (còn ${daysLeft} ngày)${progress}`,
+        data: {
+          goalId: goal.id,
+          endDate,
+          daysLeft,
+          targetValue: goal.targetValue?.toNumber() ?? null,
+          currentValue: goal.currentValue?.toNumber() ?? null
+        },
+        dedupeKey: `goal:${goal.id}:${endDate}:-${offset}`
+      });
+    }
+
+    const result = await NotificationService.dispatch(reminders);
+    return { goals: goals.length, ...result };
+  },
 };
@@ -5,8 +5,19 @@
  */
 import { Request, Response } from 'express';
 import { LoanService } from './loan.service';
-import { handleError } from '../../utils/error-handler';
-import { CreateLoanData, UpdateLoanData, CreateLoanPaymentData, GetLoansQuery, GetLoanPaymentsQuery } from './loan.schema';
+import { handleError, handleValidationError } from '../../utils/error-handler';
+import {
+  CreateLoanData,
+  UpdateLoanData,
+  CreateLoanPaymentData,
+  UpdateLoanPaymentData,
+  IncreaseLoanPrincipalData,
+  ForgiveLoanData,
+  WriteOffLoanData,
+  getLoansQuerySchema,
+  getLoanPaymentsQuerySchema,
+  getOverdueInstallmentsQuerySchema
+} from './loan.schema';
 
 export const LoanController = {
   /**
@@ -37,9 +48,12 @@ export const LoanController = {
   async getLoans(req: Request, res: Response) {
     try {
       const userId = req.user!.sub;
-      const filters: GetLoansQuery = req.query as any;
+      const parsed = getLoansQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
 
-      const result = await LoanService.getLoans(userId, filters);
+      const result = await LoanService.getLoans(userId, parsed.data);
 
       res.json({
         success: true,
@@ -70,6 +84,136 @@ export const LoanController = {
     }
   },
 
+  /**
+   * GET /loans/installments/overdue
+   * Các kỳ trả góp quá hạn của mọi khoản nợ đang mở
+   */
+  async getOverdueInstallments(req: Request, res: Response) {
+    try {
+      const userId = req.user!.sub;
+      const parsed = getOverdueInstallmentsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
+
+      const result = await LoanService.getOverdueInstallments(userId, parsed.data);
+
+      res.json({
+        success: true,
+        data: result.installments,
+        summary: result.summary
+      });
+    } catch (error) {
+      handleError(error, res);
+    }
+  },
+
+  /**
+   * GET /loans/:id/schedule
+   * Lịch trả góp (gốc + lãi từng kỳ) và trạng thái thanh toán từng kỳ
+   */
+  async getLoanSchedule(req: Request, res: Response) {
+    try {
+      const userId = req.user!.sub;
+      const loanId = req.params.id;
+
+      const result = await LoanService.getLoanSchedule(loanId, userId);
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      handleError(error, res);
+    }
+  },
+
+  /**
+   * GET /loans/:id/history
+   * Lịch sử khoản vay: giải ngân, trả/thu nợ, vay thêm, xoá nợ, xoá sổ kèm dư nợ sau từng sự kiện
+   */
+  async getLoanHistory(req: Request, res: Response) {
+    try {
+      const userId = req.user!.sub;
+      const loanId = req.params.id;
+
+      const result = await LoanService.getLoanHistory(loanId, userId);
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      handleError(error, res);
+    }
+  },
+
+  /**
+   * POST /loans/:id/top-ups
+   * Vay thêm / cho vay thêm (tăng tiền gốc, giải ngân từ ví)
+   */
+  async increaseLoanPrincipal(req: Request, res: Response) {
+    try {
+      const userId = req.user!.sub;
+      const loanId = req.params.id;
+      const data: IncreaseLoanPrincipalData = req.body;
+
+      const result = await LoanService.increaseLoanPrincipal(loanId, userId, data);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: 'Giải ngân thêm thành công'
+      });
+    } catch (error) {
+      handleError(error, res);
+    }
+  },
+
+  /**
+   * POST /loans/:id/forgiveness
+   * Xoá 1 phần nợ (giảm dư nợ, không có dòng tiền)
+   */
+  async forgiveLoanAmount(req: Request, res: Response) {
+    try {
+      const userId = req.user!.sub;
+      const loanId = req.params.id;
+      const data: ForgiveLoanData = req.body;
+
+      const result = await LoanService.forgiveLoanAmount(loanId, userId, data);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: 'Xoá nợ thành công'
+      });
+    } catch (error) {
+      handleError(error, res);
+    }
+  },
+
+  /**
+   * POST /loans/:id/write-off
+   * Xoá sổ khoản vay (nợ khó đòi)
+   */
+  async writeOffLoan(req: Request, res: Response) {
+    try {
+      const userId = req.user!.sub;
+      const loanId = req.params.id;
+      const data: WriteOffLoanData = req.body;
+
+      const result = await LoanService.writeOffLoan(loanId, userId, data);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: 'Xoá sổ khoản vay thành công'
+      });
+    } catch (error) {
+      handleError(error, res);
+    }
+  },
+
   /**
    * GET /loans/:id
    * Lấy chi tiết khoản nợ theo ID
@@ -160,6 +304,49 @@ export const LoanController = {
     }
   },
 
+  /**
+   * PUT /loan-payments/:id
+   * Sửa thanh toán khoản nợ (huỷ lần trả cũ + tạo lần trả thay thế)
+   */
+  async updateLoanPayment(req: Request, res: Response) {
+    try {
+      const userId = req.user!.sub;
+      const paymentId = req.params.id;
+      const data: UpdateLoanPaymentData = req.body;
+
+      const payment = await LoanService.updateLoanPayment(paymentId, userId, data);
+
+      res.json({
+        success: true,
+        data: payment,
+        message: 'Cập nhật thanh toán thành công'
+      });
+    } catch (error) {
+      handleError(error, res);
+    }
+  },
+
+  /**
+   * DELETE /loan-payments/:id
+   * Huỷ thanh toán khoản nợ (hoàn tác số dư ví và dư nợ)
+   */
+  async voidLoanPayment(req: Request, res: Response) {
+    try {
+      const userId = req.user!.sub;
+      const paymentId = req.params.id;
+
+      const payment = await LoanService.voidLoanPayment(paymentId, userId);
+
+      res.json({
+        success: true,
+        data: payment,
+        message: 'Huỷ thanh toán thành công'
+      });
+    } catch (error) {
+      handleError(error, res);
+    }
+  },
+
   /**
    * GET /loan-payments
    * Lấy danh sách thanh toán khoản nợ
@@ -167,9 +354,12 @@ export const LoanController = {
   async getLoanPayments(req: Request, res: Response) {
     try {
       const userId = req.user!.sub;
-      const filters: GetLoanPaymentsQuery = req.query as any;
+      const parsed = getLoanPaymentsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
 
-      const result = await LoanService.getLoanPayments(userId, filters);
+      const result = await LoanService.getLoanPayments(userId, parsed.data);
 
       res.json({
         success: true,
@@ -3,36 +3,150 @@
  * Định nghĩa các schema validation cho loan endpoints
  */
 import { z } from 'zod';
+import { paginationQueryShape, sortQueryShape } from '../../utils/pagination';
+
+export const LOAN_INTEREST_TYPES = ['none', 'flat', 'reducing_balance'] as const;
+export const LOAN_PERIODS = ['weekly', 'monthly', 'quarterly', 'yearly'] as const;
+
+// Số kỳ trả góp tối đa (50 năm trả hàng tháng)
+export const MAX_INSTALLMENT_COUNT = 600;
+
+// Điều khoản lãi suất + trả góp (dùng chung cho tạo và cập nhật)
+const loanTermsShape = {
+  interestType: z.enum(LOAN_INTEREST_TYPES, {
+    message: 'Cách tính lãi phải là none, flat hoặc reducing_balance'
+  }).optional(),
+  // Lãi suất năm (%)
+  interestRate: z.number().min(0, 'Lãi suất không được âm').max(100, 'Lãi suất không được quá 100%/năm').refine(
+    (val) => Number(val.toFixed(4)) === val,
+    'Lãi suất chỉ được phép 4 số thập phân'
+  ).optional(),
+  compoundingPeriod: z.enum(LOAN_PERIODS, { message: 'Kỳ ghép lãi không hợp lệ' }).optional(),
+  installmentCount: z.number().int('Số kỳ trả góp phải là số nguyên')
+    .min(1, 'Số kỳ trả góp phải lớn hơn 0')
+    .max(MAX_INSTALLMENT_COUNT, `Số kỳ trả góp không được quá ${MAX_INSTALLMENT_COUNT}`)
+    .nullable()
+    .optional(),
+  installmentPeriod: z.enum(LOAN_PERIODS, { message: 'Kỳ trả góp không hợp lệ' }).optional(),
+  firstInstallmentDate: z.string().datetime('Ngày đến hạn kỳ đầu không hợp lệ').nullable().optional()
+};
+
+type LoanTermsInput = {
+  interestType?: (typeof LOAN_INTEREST_TYPES)[number];
+  interestRate?: number;
+  installmentCount?: number | null;
+  firstInstallmentDate?: string | null;
+};
+
+// Có tính lãi thì phải có lãi suất
+const hasInterestRate = (data: LoanTermsInput) =>
+  !data.interestType || data.interestType === 'none' || (data.interestRate ?? 0) > 0;
+const interestRateMessage = {
+  message: 'Phải nhập lãi suất khi tính lãi',
+  path: ['interestRate']
+};
+
+// Ngày đến hạn kỳ đầu chỉ đi cùng kế hoạch trả góp
+const firstInstallmentWithPlan = (data: LoanTermsInput) =>
+  data.firstInstallmentDate == null || data.installmentCount != null;
+const firstInstallmentMessage = {
+  message: 'firstInstallmentDate chỉ dùng khi có installmentCount',
+  path: ['firstInstallmentDate']
+};
 
 // Schema cho tạo loan mới
 export const createLoanSchema = z.object({
   kind: z.enum(['you_owe', 'owed_to_you'], {
     message: 'Loại khoản nợ phải là you_owe hoặc owed_to_you'
   }),
-  counterpartyName: z.string().min(1, 'Tên người/đơn vị không được để trống').max(255, 'Tên quá dài'),
+  // Chọn contact có sẵn hoặc nhập tên (tự gắn / tạo contact cùng tên)
+  contactId: z.string().uuid('ID contact không hợp lệ').optional(),
+  counterpartyName: z.string().trim().min(1, 'Tên người/đơn vị không được để trống').max(191, 'Tên quá dài').optional(),
   principal: z.number().positive('Số tiền gốc phải lớn hơn 0'),
   walletId: z.string().uuid('ID ví không hợp lệ'),
   startDate: z.string().datetime('Ngày bắt đầu không hợp lệ'),
   dueDate: z.string().datetime('Ngày hết hạn không hợp lệ').optional(),
-  note: z.string().max(1000, 'Ghi chú quá dài').optional()
-});
+  note: z.string().max(1000, 'Ghi chú quá dài').optional(),
+  ...loanTermsShape
+}).refine(
+  (data) => data.contactId !== undefined || data.counterpartyName !== undefined,
+  { message: 'Phải chọn contact hoặc nhập tên người/đơn vị', path: ['counterpartyName'] }
+).refine(hasInterestRate, interestRateMessage).refine(firstInstallmentWithPlan, firstInstallmentMessage).refine(
+  (data) => !data.firstInstallmentDate || Date.parse(data.firstInstallmentDate) > Date.parse(data.startDate),
+  { message: 'Ngày đến hạn kỳ đầu phải sau ngày bắt đầu', path: ['firstInstallmentDate'] }
+);
 
 // Schema cho cập nhật loan
+// Điều khoản lãi suất / trả góp chỉ đổi được khi khoản vay chưa có thanh toán (kiểm tra đầy đủ ở service)
 export const updateLoanSchema = z.object({
-  counterpartyName: z.string().min(1, 'Tên người/đơn vị không được để trống').max(255, 'Tên quá dài').optional(),
+  // Đổi contact => counterpartyName theo tên contact mới
+  contactId: z.string().uuid('ID contact không hợp lệ').optional(),
+  counterpartyName: z.string().trim().min(1, 'Tên người/đơn vị không được để trống').max(191, 'Tên quá dài').optional(),
   dueDate: z.string().datetime('Ngày hết hạn không hợp lệ').optional(),
-  note: z.string().max(1000, 'Ghi chú quá dài').optional()
+  note: z.string().max(1000, 'Ghi chú quá dài').optional(),
+  ...loanTermsShape
 });
 
+// Phần lãi trong amount; bỏ trống => tự tính theo lịch trả góp / lãi phát sinh (trả lãi trước, còn lại trừ gốc)
+const interestAmountSchema = z.number().min(0, 'Tiền lãi không được âm').refine(
+  (val) => Number(val.toFixed(2)) === val,
+  'Tiền lãi chỉ được phép 2 số thập phân'
+);
+
+const interestBelowAmount = (data: { amount?: number; interestAmount?: number }) =>
+  data.interestAmount === undefined || data.amount === undefined || data.interestAmount < data.amount;
+const interestBelowAmountMessage = {
+  message: 'Tiền lãi phải nhỏ hơn số tiền thanh toán',
+  path: ['interestAmount']
+};
+
 // Schema cho tạo loan payment
 export const createLoanPaymentSchema = z.object({
   loanId: z.string().uuid('ID khoản nợ không hợp lệ'),
   walletId: z.string().uuid('ID ví không hợp lệ'),
   paymentDate: z.string().datetime('Ngày thanh toán không hợp lệ'),
   amount: z.number().positive('Số tiền thanh toán phải lớn hơn 0'),
+  interestAmount: interestAmountSchema.optional(),
+  note: z.string().max(1000, 'Ghi chú quá dài').optional()
+}).refine(interestBelowAmount, interestBelowAmountMessage);
+
+// Schema cho sửa loan payment (field bỏ trống giữ giá trị cũ)
+export const updateLoanPaymentSchema = z.object({
+  walletId: z.string().uuid('ID ví không hợp lệ').optional(),
+  paymentDate: z.string().datetime('Ngày thanh toán không hợp lệ').optional(),
+  amount: z.number().positive('Số tiền thanh toán phải lớn hơn 0').optional(),
+  interestAmount: interestAmountSchema.optional(),
+  note: z.string().max(1000, 'Ghi chú quá dài').nullable().optional()
+}).refine(
+  (data) => Object.values(data).some((value) => value !== undefined),
+  'Phải có ít nhất 1 trường cần sửa'
+).refine(interestBelowAmount, interestBelowAmountMessage);
+
+// Schema cho vay thêm / cho vay thêm
+export const increaseLoanPrincipalSchema = z.object({
+  walletId: z.string().uuid('ID ví không hợp lệ'),
+  amount: z.number().positive('Số tiền phải lớn hơn 0'),
+  adjustmentDate: z.string().datetime('Ngày giải ngân không hợp lệ'),
+  note: z.string().max(1000, 'Ghi chú quá dài').optional()
+});
+
+// Schema cho xoá 1 phần nợ
+export const forgiveLoanSchema = z.object({
+  amount: z.number().positive('Số tiền xoá nợ phải lớn hơn 0'),
+  adjustmentDate: z.string().datetime('Ngày xoá nợ không hợp lệ'),
   note: z.string().max(1000, 'Ghi chú quá dài').optional()
 });
 
+// Schema cho xoá sổ khoản vay (bỏ trống ngày => hiện tại)
+export const writeOffLoanSchema = z.object({
+  adjustmentDate: z.string().datetime('Ngày xoá sổ không hợp lệ').optional(),
+  note: z.string().max(1000, 'Ghi chú quá dài').optional()
+});
+
+// Cột được phép sắp xếp danh sách khoản nợ / lần thanh toán
+export const LOAN_SORT_FIELDS = ['dueDate', 'startDate', 'createdAt', 'principal', 'outstandingAmount'] as const;
+export const LOAN_PAYMENT_SORT_FIELDS = ['paymentDate', 'amount', 'createdAt'] as const;
+
 // Schema cho query params lấy danh sách loans
 export const getLoansQuerySchema = z.object({
   kind: z.enum(['you_owe', 'owed_to_you']).optional(),
@@ -40,20 +154,37 @@ export const getLoansQuerySchema = z.object({
   startDate: z.string().optional(),
   endDate: z.string().optional(),
   counterpartyName: z.string().max(255).optional(),
-  limit: z.coerce.number().int().min(1).max(100).default(50),
-  offset: z.coerce.number().int().min(0).default(0)
+  contactId: z.string().uuid('ID contact không hợp lệ').optional(),
+  // Khoản đang mở có kỳ trả góp / dueDate đã qua mà chưa trả đủ
+  overdue: z.enum(['true', 'false', '1', '0']).transform((v) => v === 'true' || v === '1').optional(),
+  // Lần đến hạn tiếp theo (kỳ trả góp hoặc dueDate) trong N ngày tới
+  dueWithinDays: z.coerce.number().int('dueWithinDays phải là số nguyên').min(0).max(365).optional(),
+  // Mặc định: khoản đang mở trước, sau đó theo hạn trả gần nhất
+  ...sortQueryShape(LOAN_SORT_FIELDS),
+  ...paginationQueryShape()
 });
 
 // Schema cho query params lấy danh sách loan payments
 export const getLoanPaymentsQuerySchema = z.object({
   loanId: z.string().uuid('ID khoản nợ không hợp lệ').optional(),
-  limit: z.coerce.number().int().min(1).max(100).default(50),
-  offset: z.coerce.number().int().min(0).default(0)
+  // Mặc định: paymentDate giảm dần
+  ...sortQueryShape(LOAN_PAYMENT_SORT_FIELDS),
+  ...paginationQueryShape()
+});
+
+// Schema cho query params danh sách kỳ trả góp quá hạn
+export const getOverdueInstallmentsQuerySchema = z.object({
+  kind: z.enum(['you_owe', 'owed_to_you']).optional()
 });
 
 // Export types
 export type CreateLoanData = z.infer<typeof createLoanSchema>;
 export type UpdateLoanData = z.infer<typeof updateLoanSchema>;
 export type CreateLoanPaymentData = z.infer<typeof createLoanPaymentSchema>;
+export type UpdateLoanPaymentData = z.infer<typeof updateLoanPaymentSchema>;
+export type IncreaseLoanPrincipalData = z.infer<typeof increaseLoanPrincipalSchema>;
+export type ForgiveLoanData = z.infer<typeof forgiveLoanSchema>;
+export type WriteOffLoanData = z.infer<typeof writeOffLoanSchema>;
 export type GetLoansQuery = z.infer<typeof getLoansQuerySchema>;
-export type GetLoanPaymentsQuery = z.infer<typeof getLoanPaymentsQuerySchema>;
\ No newline at end of file
+export type GetLoanPaymentsQuery = z.infer<typeof getLoanPaymentsQuerySchema>;
+export type GetOverdueInstallmentsQuery = z.infer<typeof getOverdueInstallmentsQuerySchema>;
\ No newline at end of file
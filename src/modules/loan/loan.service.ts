@@ -7,9 +7,90 @@
  * - Loan: quản lý khoản nợ (bạn nợ người khác) hoặc cho vay (người khác nợ bạn)
  * - LoanPayment: mỗi lần trả/thu nợ phải tạo Transaction tương ứng và cập nhật wallet balance
  * - Khi outstandingAmount = 0 thì tự động đổi status thành 'closed'
+ * - Lãi suất (flat / reducing_balance) + kế hoạch trả góp (optional) => lịch trả góp tính lại mỗi lần đọc, không lưu DB
+ * - Mỗi LoanPayment tách phần gốc (trừ outstandingAmount, giao dịch loại khỏi thu/chi) và phần lãi (giao dịch thu/chi riêng)
+ * - Huỷ LoanPayment: hoàn tác số dư ví + dư nợ, xoá mềm giao dịch, giữ lại bản ghi (voidedAt); sửa = huỷ + tạo lần trả thay thế
+ * - LoanAdjustment: vay thêm (tăng gốc + dư nợ, có giao dịch giải ngân), xoá 1 phần nợ / xoá sổ (giảm dư nợ, không có dòng tiền)
  */
+import { Loan, LoanAdjustmentType, LoanPayment, Prisma } from '@prisma/client';
 import { prisma } from '../../db/prisma';
-import { CreateLoanData, UpdateLoanData, CreateLoanPaymentData, GetLoansQuery, GetLoanPaymentsQuery } from './loan.schema';
+import { roundMoney } from '../../utils/currency';
+import { paginate, SortKey } from '../../utils/pagination';
+import {
+  accrueInterest,
+  allocateToSchedule,
+  buildAmortizationSchedule,
+  getInstallmentDate,
+  PaymentAllocation,
+  ScheduledInstallment
+} from '../../utils/amortization';
+import { getAvailableBalance, WalletService } from '../wallet/wallet.service';
+import { AuditService } from '../audit/audit.service';
+import { findOrCreateContact } from '../contact/contact.service';
+import { assertTransactionsNotReconciled } from '../reconciliation/reconciliation.service';
+import { NotificationInput, NotificationService } from '../notification/notification.service';
+import {
+  CreateLoanData,
+  UpdateLoanData,
+  CreateLoanPaymentData,
+  GetLoansQuery,
+  GetLoanPaymentsQuery,
+  GetOverdueInstallmentsQuery,
+  UpdateLoanPaymentData,
+  IncreaseLoanPrincipalData,
+  ForgiveLoanData,
+  WriteOffLoanData
+} from './loan.schema';
+
+export type InstallmentStatus = 'paid' | 'partially_paid' | 'overdue' | 'upcoming';
+
+export interface LoanDueStatus {
+  isOverdue: boolean;
+  // Ngày đến hạn sớm nhất chưa trả đủ (kỳ trả góp quá hạn đầu tiên hoặc dueDate)
+  overdueSince: Date | null;
+  daysOverdue: number;
+  overdueAmount: number;
+  // Lần đến hạn tiếp theo chưa tới (kỳ trả góp chưa trả đủ hoặc dueDate)
+  nextDueDate: Date | null;
+  nextDueAmount: number;
+}
+
+export interface LoanInstallment extends ScheduledInstallment {
+  paidAmount: number;
+  remainingAmount: number;
+  status: InstallmentStatus;
+}
+
+type LoanTerms = Pick<
+  Loan,
+  'principal' | 'interestType' | 'interestRate' | 'compoundingPeriod' | 'installmentCount' | 'installmentPeriod' | 'firstInstallmentDate'
+>;
+
+type TransactionClient = Prisma.TransactionClient;
+
+interface LoanPaidTotals {
+  principal: number;
+  interest: number;
+}
+
+interface LoanPaymentInput {
+  walletId: string;
+  paymentDate: Date;
+  amount: number;
+  note?: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Lần trả/thu nợ còn hiệu lực (chưa bị huỷ)
+const ACTIVE_PAYMENT_FILTER = { voidedAt: null };
+
+const LOAN_PAYMENT_INCLUDE = {
+  loan: true,
+  wallet: true,
+  transaction: true,
+  interestTransaction: true
+} as const;
 
 /**
  * Validate wallet ownership
@@ -22,14 +103,27 @@ async function validateWalletOwnership(walletId: string, userId: string, require
     throw new Error('WALLET_NOT_FOUND');
   }
 
-  // Kiểm tra số dư nếu cần trừ tiền (khi trả nợ - you_owe)
-  if (requiredAmount !== undefined && wallet.currentBalance.toNumber() < requiredAmount) {
+  // Kiểm tra số dư nếu cần trừ tiền (khi trả nợ - you_owe), ví credit / bank được âm tới hạn mức
+  if (requiredAmount !== undefined && getAvailableBalance(wallet).lessThan(requiredAmount)) {
     throw new Error('INSUFFICIENT_WALLET_BALANCE');
   }
 
   return wallet;
 }
 
+/**
+ * Validate contact ownership
+ */
+async function validateContactOwnership(contactId: string, userId: string) {
+  const contact = await prisma.contact.findFirst({
+    where: { id: contactId, userId }
+  });
+  if (!contact) {
+    throw new Error('LOAN_CONTACT_NOT_FOUND');
+  }
+  return contact;
+}
+
 /**
  * Validate loan ownership và kiểm tra trạng thái
  */
@@ -46,22 +140,653 @@ async function validateLoanOwnership(loanId: string, userId: string) {
   return loan;
 }
 
+/**
+ * Lịch trả góp theo điều khoản khoản vay, null nếu không có kế hoạch trả góp
+ */
+function getLoanSchedule(loan: LoanTerms) {
+  if (loan.installmentCount === null || loan.firstInstallmentDate === null) {
+    return null;
+  }
+
+  return buildAmortizationSchedule({
+    principal: loan.principal.toNumber(),
+    interestType: loan.interestType,
+    interestRate: loan.interestRate.toNumber(),
+    compoundingPeriod: loan.compoundingPeriod,
+    installmentCount: loan.installmentCount,
+    installmentPeriod: loan.installmentPeriod,
+    firstInstallmentDate: loan.firstInstallmentDate
+  });
+}
+
+/**
+ * Gắn số đã trả / còn lại / trạng thái cho từng kỳ
+ * Tiền gốc và lãi đã trả được cộng dồn lấp đầy các kỳ theo thứ tự; khoản vay đã tất toán => mọi kỳ coi như đã trả
+ */
+function withInstallmentStatus(
+  schedule: ScheduledInstallment[],
+  paidPrincipal: number,
+  paidInterest: number,
+  closed: boolean,
+  now: Date
+): LoanInstallment[] {
+  let scheduledPrincipal = 0;
+  let scheduledInterest = 0;
+
+  return schedule.map((installment) => {
+    const principalPaid = Math.min(installment.principal, Math.max(0, paidPrincipal - scheduledPrincipal));
+    const interestPaid = Math.min(installment.interest, Math.max(0, paidInterest - scheduledInterest));
+    scheduledPrincipal += installment.principal;
+    scheduledInterest += installment.interest;
+
+    const paidAmount = roundMoney(principalPaid + interestPaid);
+    const remainingAmount = closed ? 0 : roundMoney(installment.amount - paidAmount);
+
+    let status: InstallmentStatus;
+    if (remainingAmount <= 0) {
+      status = 'paid';
+    } else if (installment.dueDate.getTime() < now.getTime()) {
+      status = 'overdue';
+    } else {
+      status = paidAmount > 0 ? 'partially_paid' : 'upcoming';
+    }
+
+    return { ...installment, paidAmount, remainingAmount, status };
+  });
+}
+
+/**
+ * Tình trạng đến hạn / quá hạn của khoản vay tại thời điểm now
+ * - Có lịch trả góp: kỳ đã qua ngày đến hạn mà chưa trả đủ là quá hạn, kỳ chưa trả đủ tiếp theo là lần đến hạn kế tiếp
+ * - Đã qua dueDate: toàn bộ dư nợ còn lại coi như quá hạn
+ * - Khoản vay đã tất toán không bao giờ quá hạn
+ */
+function getLoanDueStatus(loan: Loan, paid: LoanPaidTotals, now: Date): LoanDueStatus {
+  const status: LoanDueStatus = {
+    isOverdue: false,
+    overdueSince: null,
+    daysOverdue: 0,
+    overdueAmount: 0,
+    nextDueDate: null,
+    nextDueAmount: 0
+  };
+  if (loan.status !== 'open') return status;
+
+  const schedule = getLoanSchedule(loan);
+  const installments = schedule ? withInstallmentStatus(schedule, paid.principal, paid.interest, false, now) : [];
+  const overdue = installments.filter((i) => i.status === 'overdue');
+  const next = installments.find((i) => i.status === 'upcoming' || i.status === 'partially_paid');
+
+  let overdueAmount = roundMoney(overdue.reduce((sum, i) => sum + i.remainingAmount, 0));
+  let overdueSince = overdue[0]?.dueDate ?? null;
+  if (loan.dueDate && loan.dueDate.getTime() < now.getTime()) {
+    overdueAmount = Math.max(overdueAmount, loan.outstandingAmount.toNumber());
+    if (!overdueSince || loan.dueDate.getTime() < overdueSince.getTime()) overdueSince = loan.dueDate;
+  }
+
+  if (overdueSince && overdueAmount > 0) {
+    status.isOverdue = true;
+    status.overdueSince = overdueSince;
+    status.daysOverdue = Math.floor((now.getTime() - overdueSince.getTime()) / DAY_MS);
+    status.overdueAmount = overdueAmount;
+  }
+
+  if (next) {
+    status.nextDueDate = next.dueDate;
+    status.nextDueAmount = next.remainingAmount;
+  } else if (!schedule && loan.dueDate && loan.dueDate.getTime() >= now.getTime()) {
+    status.nextDueDate = loan.dueDate;
+    status.nextDueAmount = loan.outstandingAmount.toNumber();
+  }
+
+  return status;
+}
+
+/**
+ * Gắn dueStatus cho danh sách khoản vay (chỉ khoản có lịch trả góp cần tổng đã trả)
+ */
+async function withDueStatus<T extends Loan>(loans: T[], now: Date) {
+  const installmentLoanIds = loans.filter((l) => l.status === 'open' && l.installmentCount !== null).map((l) => l.id);
+  const paidTotals = installmentLoanIds.length > 0
+    ? await prisma.loanPayment.groupBy({
+      by: ['loanId'],
+      where: { loanId: { in: installmentLoanIds }, ...ACTIVE_PAYMENT_FILTER },
+      _sum: { principalAmount: true, interestAmount: true }
+    })
+    : [];
+  const paidByLoan = new Map<string, LoanPaidTotals>(paidTotals.map((row) => [row.loanId, {
+    principal: row._sum.principalAmount?.toNumber() ?? 0,
+    interest: row._sum.interestAmount?.toNumber() ?? 0
+  }]));
+
+  return loans.map((loan) => ({
+    ...loan,
+    dueStatus: getLoanDueStatus(loan, paidByLoan.get(loan.id) ?? { principal: 0, interest: 0 }, now)
+  }));
+}
+
+/**
+ * Khoản vay đang mở có thể quá hạn hoặc đến hạn trước until: dueDate trước until hoặc có kỳ trả góp trước until
+ * (lọc lại chính xác bằng getLoanDueStatus)
+ */
+async function getOpenLoansDueBefore(until: Date, filter: Prisma.LoanWhereInput) {
+  return await prisma.loan.findMany({
+    where: {
+      ...filter,
+      deletedAt: null,
+      status: 'open',
+      OR: [
+        { dueDate: { lte: until } },
+        { installmentCount: { not: null }, firstInstallmentDate: { lte: until } }
+      ]
+    }
+  });
+}
+
+const formatReminderDate = (date: Date) => date.toISOString().slice(0, 10);
+const formatReminderAmount = (amount: number) => amount.toLocaleString('vi-VN');
+
+/**
+ * Thông báo nhắc hạn cho 1 khoản vay: chỉ mốc gần nhất đã tới của lần đến hạn tiếp theo / lần quá hạn hiện tại
+ * - Trước hạn: mốc d (daysBefore) tới khi còn <= d ngày
+ * - Sau hạn: mốc d (daysAfter) tới khi đã quá hạn >= d ngày
+ * dedupeKey gồm ngày đến hạn + mốc => mỗi mốc chỉ nhắc 1 lần
+ */
+function buildDueReminders(
+  loan: Loan,
+  due: LoanDueStatus,
+  daysBefore: number[],
+  daysAfter: number[],
+  now: Date
+): NotificationInput[] {
+  const reminders: NotificationInput[] = [];
+  const action = loan.kind === 'you_owe' ? 'trả nợ' : 'thu nợ';
+
+  if (due.nextDueDate) {
+    const daysLeft = Math.ceil((due.nextDueDate.getTime() - now.getTime()) / DAY_MS);
+    const offset = Math.min(...daysBefore.filter((d) => daysLeft <= d));
+    if (Number.isFinite(offset)) {
+      const dueDate = formatReminderDate(due.nextDueDate);
+      reminders.push({
+        userId: loan.userId,
+        loanId: loan.id,
+        type: 'loan_due_soon',
+        title: `Sắp đến hạn ${action}`,
+        message: `${loan.counterpartyName}: ${formatReminderAmount(due.nextDueAmount)} đến hạn ngày ${dueDate} (còn ${daysLeft} ngày)`,
+        data: { loanId: loan.id, kind: loan.kind, dueDate, amount: due.nextDueAmount, daysLeft },
+        dedupeKey: `loan:${loan.id}:${dueDate}:-${offset}`
+      });
+    }
+  }
+
+  if (due.isOverdue && due.overdueSince) {
+    const offset = Math.max(...daysAfter.filter((d) => due.daysOverdue >= d));
+    if (Number.isFinite(offset)) {
+      const dueDate = formatReminderDate(due.overdueSince);
+      reminders.push({
+        userId: loan.userId,
+        loanId: loan.id,
+        type: 'loan_overdue',
+        title: `Quá hạn ${action}`,
+        message: `${loan.counterpartyName}: ${formatReminderAmount(due.overdueAmount)} đã quá hạn ${due.daysOverdue} ngày (từ ${dueDate})`,
+        data: { loanId: loan.id, kind: loan.kind, dueDate, amount: due.overdueAmount, daysOverdue: due.daysOverdue },
+        dedupeKey: `loan:${loan.id}:${dueDate}:+${offset}`
+      });
+    }
+  }
+
+  return reminders;
+}
+
+/**
+ * Tổng gốc / lãi đã trả và ngày trả gần nhất của khoản vay (bỏ qua lần trả đã huỷ và excludePaymentId)
+ */
+async function getPaidTotals(loanId: string, excludePaymentId?: string) {
+  const totals = await prisma.loanPayment.aggregate({
+    where: {
+      loanId,
+      ...ACTIVE_PAYMENT_FILTER,
+      ...(excludePaymentId ? { id: { not: excludePaymentId } } : {})
+    },
+    _sum: { principalAmount: true, interestAmount: true },
+    _max: { paymentDate: true }
+  });
+
+  return {
+    principal: totals._sum.principalAmount?.toNumber() ?? 0,
+    interest: totals._sum.interestAmount?.toNumber() ?? 0,
+    lastPaymentDate: totals._max.paymentDate
+  };
+}
+
+/**
+ * Tách số tiền thanh toán thành phần gốc và phần lãi
+ * - Nhập interestAmount => dùng luôn
+ * - Có lịch trả góp => phân bổ theo lịch (mỗi kỳ lãi trước, gốc sau)
+ * - Có lãi nhưng không trả góp => lãi phát sinh từ lần trả gần nhất (hoặc ngày bắt đầu) tới paymentDate, trả lãi trước
+ * excludePaymentId: lần trả đang được sửa, không tính vào số đã trả
+ */
+async function splitLoanPayment(
+  loan: Loan,
+  amount: number,
+  paymentDate: Date,
+  interestAmount?: number,
+  excludePaymentId?: string
+): Promise<PaymentAllocation> {
+  if (interestAmount !== undefined) {
+    return { principal: roundMoney(amount - interestAmount), interest: interestAmount };
+  }
+
+  if (loan.interestType === 'none' && loan.installmentCount === null) {
+    return { principal: amount, interest: 0 };
+  }
+
+  const paid = await getPaidTotals(loan.id, excludePaymentId);
+  const schedule = getLoanSchedule(loan);
+  if (schedule) {
+    return allocateToSchedule(schedule, paid.principal, paid.interest, amount);
+  }
+
+  const accrued = accrueInterest({
+    interestType: loan.interestType,
+    interestRate: loan.interestRate.toNumber(),
+    compoundingPeriod: loan.compoundingPeriod,
+    principal: loan.principal.toNumber(),
+    balance: loan.outstandingAmount.toNumber()
+  }, paid.lastPaymentDate ?? loan.startDate, paymentDate);
+  const interest = Math.min(amount, accrued);
+
+  return { principal: roundMoney(amount - interest), interest };
+}
+
+/**
+ * Chuẩn hoá điều khoản trả góp: không trả góp => bỏ ngày kỳ đầu; có trả góp mà thiếu ngày kỳ đầu => 1 kỳ sau startDate
+ */
+function resolveInstallmentTerms(
+  startDate: Date,
+  installmentCount: number | null,
+  installmentPeriod: Loan['installmentPeriod'],
+  firstInstallmentDate: Date | null
+) {
+  if (installmentCount === null) {
+    return { installmentCount: null, firstInstallmentDate: null };
+  }
+
+  return {
+    installmentCount,
+    firstInstallmentDate: firstInstallmentDate ?? getInstallmentDate(startDate, installmentPeriod, 1)
+  };
+}
+
+/**
+ * Ghi 1 lần trả/thu nợ trong DB transaction: giao dịch gốc + giao dịch lãi (nếu có), LoanPayment, số dư ví
+ * Dư nợ / trạng thái khoản vay do caller cập nhật
+ * - you_owe: expense + entry out (trừ tiền ví)
+ * - owed_to_you: income + entry in (cộng tiền ví)
+ */
+async function recordLoanPayment(
+  tx: TransactionClient,
+  loan: Loan,
+  userId: string,
+  input: LoanPaymentInput,
+  split: PaymentAllocation
+) {
+  const { walletId, paymentDate, amount, note } = input;
+  const transactionType = loan.kind === 'you_owe' ? 'expense' : 'income';
+  const entryDirection = loan.kind === 'you_owe' ? 'out' : 'in';
+
+  // 1. Giao dịch phần gốc, category mặc định cho loan payments
+  const defaultCategory = await tx.category.findFirst({
+    where: {
+      userId,
+      type: transactionType,
+      name: loan.kind === 'you_owe' ? 'Trả nợ' : 'Thu nợ',
+      isSystem: true
+    }
+  });
+
+  const transaction = await tx.transaction.create({
+    data: {
+      userId,
+      type: transactionType,
+      transactionDate: paymentDate,
+      categoryId: defaultCategory?.id ?? null,
+      amount: split.principal,
+      note: note || `${loan.kind === 'you_owe' ? 'Trả nợ' : 'Thu nợ'}: ${loan.counterpartyName}`,
+      entries: {
+        create: {
+          walletId,
+          direction: entryDirection,
+          amount: split.principal
+        }
+      }
+    }
+  });
+
+  // 2. Giao dịch phần lãi (cùng ví, cùng chiều), không gắn loanPayment nên vẫn vào thống kê thu/chi
+  let interestTransactionId: string | null = null;
+  if (split.interest > 0) {
+    const interestCategory = await tx.category.findFirst({
+      where: {
+        userId,
+        type: transactionType,
+        name: loan.kind === 'you_owe' ? 'Lãi vay' : 'Lãi suất',
+        isSystem: true
+      }
+    });
+
+    const interestTransaction = await tx.transaction.create({
+      data: {
+        userId,
+        type: transactionType,
+        transactionDate: paymentDate,
+        categoryId: interestCategory?.id ?? null,
+        amount: split.interest,
+        note: `${loan.kind === 'you_owe' ? 'Lãi vay' : 'Lãi cho vay'}: ${loan.counterpartyName}`,
+        entries: {
+          create: {
+            walletId,
+            direction: entryDirection,
+            amount: split.interest
+          }
+        }
+      }
+    });
+    interestTransactionId = interestTransaction.id;
+  }
+
+  // 3. LoanPayment
+  const loanPayment = await tx.loanPayment.create({
+    data: {
+      loanId: loan.id,
+      userId,
+      walletId,
+      transactionId: transaction.id,
+      interestTransactionId,
+      paymentDate,
+      amount,
+      principalAmount: split.principal,
+      interestAmount: split.interest,
+      note
+    },
+    include: LOAN_PAYMENT_INCLUDE
+  });
+
+  // 4. Số dư ví: trả nợ trừ tiền, thu nợ cộng tiền
+  await tx.wallet.update({
+    where: { id: walletId },
+    data: {
+      currentBalance: {
+        [loan.kind === 'you_owe' ? 'decrement' : 'increment']: amount
+      } as any
+    }
+  });
+
+  await WalletService.invalidateBalanceSnapshots([walletId], paymentDate, tx);
+
+  return loanPayment;
+}
+
+/**
+ * Hoàn tác 1 lần trả/thu nợ trong DB transaction: trả lại số dư ví, xoá mềm giao dịch gốc + lãi, đánh dấu voidedAt
+ * Dư nợ / trạng thái khoản vay do caller cập nhật
+ */
+async function reverseLoanPayment(tx: TransactionClient, loan: Loan, payment: LoanPayment) {
+  const now = new Date();
+
+  await tx.wallet.update({
+    where: { id: payment.walletId },
+    data: {
+      currentBalance: {
+        [loan.kind === 'you_owe' ? 'increment' : 'decrement']: payment.amount
+      } as any
+    }
+  });
+
+  await tx.transaction.updateMany({
+    where: {
+      id: {
+        in: payment.interestTransactionId
+          ? [payment.transactionId, payment.interestTransactionId]
+          : [payment.transactionId]
+      }
+    },
+    data: { deletedAt: now }
+  });
+
+  await WalletService.invalidateBalanceSnapshots([payment.walletId], payment.paymentDate, tx);
+
+  return await tx.loanPayment.update({
+    where: { id: payment.id },
+    data: { voidedAt: now }
+  });
+}
+
+/**
+ * Khoá dòng khoản vay trong DB transaction và đọc lại giá trị mới nhất
+ * UPDATE không đổi dữ liệu vẫn giữ row lock tới khi commit => thao tác đồng thời trên cùng khoản vay phải chờ,
+ * dư nợ dùng để kiểm tra / tính toán không bị cũ
+ */
+async function lockLoan(tx: TransactionClient, loanId: string) {
+  return await tx.loan.update({
+    where: { id: loanId },
+    data: { outstandingAmount: { increment: 0 } }
+  });
+}
+
+/**
+ * Trạng thái theo dư nợ: còn dư nợ => open, hết => closed
+ */
+const statusForOutstanding = (outstandingAmount: number) => outstandingAmount > 0 ? 'open' as const : 'closed' as const;
+
+/**
+ * Xoá sổ là chốt sổ cuối cùng của khoản vay: không mở lại (vay thêm), không sửa / huỷ lần trả trước đó
+ * (sẽ làm phát sinh dư nợ sau xoá sổ)
+ * @throws Error('LOAN_WRITTEN_OFF') nếu khoản vay đã xoá sổ
+ */
+async function assertNotWrittenOff(tx: TransactionClient, loanId: string) {
+  const writeOff = await tx.loanAdjustment.findFirst({
+    where: { loanId, type: 'write_off' },
+    select: { id: true }
+  });
+  if (writeOff) {
+    throw new Error('LOAN_WRITTEN_OFF');
+  }
+}
+
+/**
+ * Khoá khoản vay trước khi sửa / huỷ lần trả, kiểm tra lại trong transaction:
+ * - Lần trả vẫn còn hiệu lực (không bị huỷ / sửa đồng thời)
+ * - Khoản vay chưa xoá sổ
+ * - Giao dịch của lần trả không thuộc phiên đối chiếu vừa bị khoá
+ *
+ * @returns Khoản vay mới nhất
+ * @throws Error('LOAN_PAYMENT_NOT_FOUND') nếu lần trả đã bị huỷ
+ * @throws Error('LOAN_WRITTEN_OFF') nếu khoản vay đã xoá sổ
+ * @throws Error('TRANSACTION_LOCKED_BY_RECONCILIATION') nếu giao dịch thuộc phiên đối chiếu đã khoá
+ */
+async function lockLoanForPaymentChange(tx: TransactionClient, loanId: string, paymentId: string) {
+  const loan = await lockLoan(tx, loanId);
+
+  const payment = await tx.loanPayment.findFirst({
+    where: { id: paymentId, ...ACTIVE_PAYMENT_FILTER },
+    select: { id: true, transactionId: true, interestTransactionId: true }
+  });
+  if (!payment) {
+    throw new Error('LOAN_PAYMENT_NOT_FOUND');
+  }
+
+  await assertNotWrittenOff(tx, loanId);
+  await assertTransactionsNotReconciled(
+    tx,
+    payment.interestTransactionId ? [payment.transactionId, payment.interestTransactionId] : [payment.transactionId]
+  );
+
+  return loan;
+}
+
+/**
+ * Lấy lần trả/thu nợ còn hiệu lực để sửa / huỷ, kèm khoản vay (kể cả đã tất toán)
+ * Giao dịch gốc / lãi đã khớp sao kê trong phiên đối chiếu đã khoá => không cho sửa / huỷ
+ */
+async function getMutableLoanPayment(paymentId: string, userId: string) {
+  const payment = await prisma.loanPayment.findFirst({
+    where: {
+      id: paymentId,
+      userId,
+      ...ACTIVE_PAYMENT_FILTER,
+      loan: { deletedAt: null }
+    },
+    include: {
+      loan: true,
+      transaction: {
+        select: { entries: { select: { reconciliationSession: { select: { status: true } } } } }
+      },
+      interestTransaction: {
+        select: { entries: { select: { reconciliationSession: { select: { status: true } } } } }
+      }
+    }
+  });
+
+  if (!payment) {
+    throw new Error('LOAN_PAYMENT_NOT_FOUND');
+  }
+
+  const entries = [...payment.transaction.entries, ...(payment.interestTransaction?.entries ?? [])];
+  if (entries.some((e) => e.reconciliationSession?.status === 'locked')) {
+    throw new Error('TRANSACTION_LOCKED_BY_RECONCILIATION');
+  }
+
+  const { loan, transaction: _transaction, interestTransaction: _interestTransaction, ...loanPayment } = payment;
+  return { loan, payment: loanPayment };
+}
+
+/**
+ * Ghi điều chỉnh giảm dư nợ không có dòng tiền (xoá 1 phần nợ / xoá sổ) + nhật ký
+ * Khoản vay được khoá và kiểm tra lại trong transaction => 2 yêu cầu đồng thời không cùng vượt dư nợ
+ * Dư nợ về 0 => tất toán khoản vay
+ *
+ * @param amount - Số tiền giảm, null => toàn bộ dư nợ hiện tại (xoá sổ)
+ * @throws Error('LOAN_ALREADY_CLOSED') nếu khoản vay đã tất toán
+ * @throws Error('LOAN_FORGIVENESS_EXCEEDS_OUTSTANDING') nếu số tiền vượt dư nợ
+ */
+async function reduceOutstanding(
+  loanId: string,
+  userId: string,
+  type: Exclude<LoanAdjustmentType, 'top_up'>,
+  amount: number | null,
+  adjustmentDate: Date,
+  note?: string
+) {
+  return await prisma.$transaction(async (tx) => {
+    const loan = await lockLoan(tx, loanId);
+    if (loan.status === 'closed') {
+      throw new Error('LOAN_ALREADY_CLOSED');
+    }
+
+    const outstanding = loan.outstandingAmount.toNumber();
+    const reduction = amount ?? outstanding;
+    if (reduction > outstanding) {
+      throw new Error('LOAN_FORGIVENESS_EXCEEDS_OUTSTANDING');
+    }
+
+    const adjustment = await tx.loanAdjustment.create({
+      data: {
+        loanId,
+        userId,
+        type,
+        amount: reduction,
+        adjustmentDate,
+        note
+      }
+    });
+
+    const newOutstandingAmount = roundMoney(outstanding - reduction);
+    const updatedLoan = await tx.loan.update({
+      where: { id: loanId },
+      data: {
+        outstandingAmount: Math.max(0, newOutstandingAmount),
+        status: statusForOutstanding(newOutstandingAmount)
+      }
+    });
+
+    await AuditService.record({
+      userId,
+      entityType: 'loan_adjustment',
+      entityId: adjustment.id,
+      action: 'create',
+      after: adjustment
+    }, tx);
+    await AuditService.record({
+      userId,
+      entityType: 'loan',
+      entityId: loanId,
+      action: 'update',
+      before: loan,
+      after: updatedLoan
+    }, tx);
+
+    return { adjustment, loan: updatedLoan };
+  });
+}
+
+/**
+ * Bỏ các quan hệ include khỏi LoanPayment trước khi ghi nhật ký
+ */
+function toPaymentSnapshot(loanPayment: LoanPayment & Partial<Record<keyof typeof LOAN_PAYMENT_INCLUDE, unknown>>) {
+  const {
+    loan: _loan,
+    wallet: _wallet,
+    transaction: _transaction,
+    interestTransaction: _interestTransaction,
+    ...payment
+  } = loanPayment;
+  return payment;
+}
+
 export const LoanService = {
   /**
    * Tạo khoản nợ/cho vay mới
    * Logic nghiệp vụ:
    * - you_owe: tạo income transaction (nhận tiền vào ví)
    * - owed_to_you: tạo expense transaction (trừ tiền từ ví)
+   * - Có kế hoạch trả góp: bỏ trống dueDate => ngày đến hạn kỳ cuối
+   * - Không chọn contactId => gắn contact trùng tên counterpartyName (chưa có thì tạo mới)
    *
    * @param data - Dữ liệu khoản nợ mới
    * @param userId - ID của user tạo khoản nợ
    * @returns Loan object đã tạo
+   * @throws Error('LOAN_CONTACT_NOT_FOUND') nếu contact không thuộc user
    */
   async createLoan(data: CreateLoanData, userId: string) {
-    const { kind, counterpartyName, principal, walletId, startDate, dueDate, note } = data;
+    const {
+      kind,
+      contactId,
+      counterpartyName,
+      principal,
+      walletId,
+      startDate,
+      dueDate,
+      note,
+      interestType = 'none',
+      interestRate = 0,
+      compoundingPeriod = 'monthly',
+      installmentPeriod = 'monthly'
+    } = data;
+
+    const installment = resolveInstallmentTerms(
+      new Date(startDate),
+      data.installmentCount ?? null,
+      installmentPeriod,
+      data.firstInstallmentDate ? new Date(data.firstInstallmentDate) : null
+    );
+    const lastInstallmentDate = installment.firstInstallmentDate && installment.installmentCount !== null
+      ? getInstallmentDate(installment.firstInstallmentDate, installmentPeriod, installment.installmentCount - 1)
+      : null;
 
     // Validate wallet ownership
     await validateWalletOwnership(walletId, userId);
+    const contact = contactId ? await validateContactOwnership(contactId, userId) : null;
 
     // Nếu là cho vay (owed_to_you), kiểm tra số dư ví
     if (kind === 'owed_to_you') {
@@ -70,18 +795,25 @@ export const LoanService = {
 
     // Tạo loan và transaction trong DB transaction
     return await prisma.$transaction(async (tx) => {
-      // 1. Tạo Loan
+      // 1. Tạo Loan (gắn contact đã chọn hoặc contact cùng tên)
+      const loanContact = contact ?? await findOrCreateContact(tx, userId, counterpartyName!);
       const loan = await tx.loan.create({
         data: {
           userId,
           kind,
-          counterpartyName,
+          contactId: loanContact.id,
+          counterpartyName: loanContact.name,
           principal,
           outstandingAmount: principal, // Ban đầu dư nợ = số tiền gốc
           startDate: new Date(startDate),
-          dueDate: dueDate ? new Date(dueDate) : null,
+          dueDate: dueDate ? new Date(dueDate) : lastInstallmentDate,
           note,
-          status: 'open'
+          status: 'open',
+          interestType,
+          interestRate: interestType === 'none' ? 0 : interestRate,
+          compoundingPeriod,
+          installmentPeriod,
+          ...installment
         }
       });
 
@@ -110,7 +842,7 @@ export const LoanService = {
           transactionDate: new Date(startDate),
           categoryId,
           amount: principal,
-          note: note || `${kind === 'you_owe' ? 'Vay nợ' : 'Cho vay'}: ${counterpartyName}`,
+          note: note || `${kind === 'you_owe' ? 'Vay nợ' : 'Cho vay'}: ${loan.counterpartyName}`,
           loanId: loan.id, // ✅ đánh dấu giao dịch gốc của khoản vay
           entries: {
             create: {
@@ -145,6 +877,16 @@ export const LoanService = {
         });
       }
 
+      await WalletService.invalidateBalanceSnapshots([walletId], new Date(startDate), tx);
+
+      await AuditService.record({
+        userId,
+        entityType: 'loan',
+        entityId: loan.id,
+        action: 'create',
+        after: { ...loan, walletId, baseTransactionId: transaction.id }
+      }, tx);
+
       // Có thể return kèm transaction nếu FE cần sau này
       return loan;
     });
@@ -154,13 +896,26 @@ export const LoanService = {
    * Lấy danh sách khoản nợ/cho vay của user
    *
    * @param userId - ID của user
-   * @param filters - Các filter tùy chọn
-   * @returns Danh sách khoản nợ với pagination
+   * @param filters - Các filter tùy chọn (overdue, dueWithinDays: lần đến hạn tiếp theo trong N ngày tới)
+   * @returns Danh sách khoản nợ (kèm dueStatus) với pagination
    */
   async getLoans(userId: string, filters: Partial<GetLoansQuery> = {}) {
-    const { kind, status, startDate, endDate, counterpartyName } = filters;
-    const limit = Math.min(100, Math.max(1, Number(filters.limit) || 50));
-    const offset = Math.max(0, Number(filters.offset) || 0);
+    const {
+      kind,
+      status,
+      startDate,
+      endDate,
+      counterpartyName,
+      contactId,
+      overdue,
+      dueWithinDays,
+      sortBy,
+      sortOrder = 'desc',
+      limit = 50,
+      cursor,
+      offset,
+      includeTotal
+    } = filters;
 
     // Build where clause
     const where: any = {
@@ -175,6 +930,27 @@ export const LoanService = {
         contains: counterpartyName
       };
     }
+    if (contactId) where.contactId = contactId;
+
+    // Quá hạn / sắp đến hạn phụ thuộc lịch trả góp + số đã trả => tính trên khoản vay ứng viên rồi lọc theo id
+    const now = new Date();
+    if (overdue !== undefined || dueWithinDays !== undefined) {
+      const until = new Date(now.getTime() + (dueWithinDays ?? 0) * DAY_MS);
+      const candidates = await withDueStatus(await getOpenLoansDueBefore(until, { userId }), now);
+      const idFilters: Prisma.LoanWhereInput[] = [];
+
+      if (overdue !== undefined) {
+        const overdueIds = candidates.filter((l) => l.dueStatus.isOverdue).map((l) => l.id);
+        idFilters.push({ id: overdue ? { in: overdueIds } : { notIn: overdueIds } });
+      }
+      if (dueWithinDays !== undefined) {
+        const dueIds = candidates
+          .filter((l) => l.dueStatus.nextDueDate && l.dueStatus.nextDueDate.getTime() <= until.getTime())
+          .map((l) => l.id);
+        idFilters.push({ id: { in: dueIds } });
+      }
+      where.AND = idFilters;
+    }
     if (startDate || endDate) {
       where.startDate = {};
       if (startDate) {
@@ -187,35 +963,41 @@ export const LoanService = {
       }
     }
 
-    // Lấy danh sách khoản nợ
-    const loans = await prisma.loan.findMany({
-      where,
-      include: {
-        payments: {
-          orderBy: { paymentDate: 'desc' },
-          take: 3 // Lấy 3 lần trả gần nhất
-        }
-      },
-      orderBy: [
-        { status: 'asc' }, // Open loans trước
-        { dueDate: 'asc' }, // Sắp hết hạn trước
-        { createdAt: 'desc' }
-      ],
-      take: limit,
-      skip: offset
-    });
+    const sort: SortKey[] = sortBy
+      ? [
+        { field: sortBy, direction: sortOrder, nullable: sortBy === 'dueDate' },
+        { field: 'id', direction: sortOrder }
+      ]
+      : [
+        { field: 'status', direction: 'asc', values: ['open', 'closed'] }, // Open loans trước
+        { field: 'dueDate', direction: 'asc', nullable: true }, // Sắp hết hạn trước
+        { field: 'createdAt', direction: 'desc' },
+        { field: 'id', direction: 'desc' }
+      ];
 
-    // Đếm total
-    const total = await prisma.loan.count({ where });
+    // Lấy danh sách khoản nợ
+    const { items: loans, pagination } = await paginate(
+      { limit, cursor, offset, includeTotal },
+      sort,
+      (page) => prisma.loan.findMany({
+        where: { AND: [where, page.where] },
+        include: {
+          payments: {
+            where: ACTIVE_PAYMENT_FILTER,
+            orderBy: { paymentDate: 'desc' },
+            take: 3 // Lấy 3 lần trả gần nhất
+          }
+        },
+        orderBy: page.orderBy,
+        take: page.take,
+        skip: page.skip
+      }),
+      () => prisma.loan.count({ where })
+    );
 
     return {
-      loans,
-      pagination: {
-        total,
-        limit,
-        offset,
-        hasMore: offset + limit < total
-      }
+      loans: await withDueStatus(loans, now),
+      pagination
     };
   },
 
@@ -224,10 +1006,10 @@ export const LoanService = {
    *
    * @param loanId - ID của khoản nợ
    * @param userId - ID của user (để verify ownership)
-   * @returns Loan object với payments hoặc null nếu không tìm thấy
+   * @returns Loan object với payments, dueStatus hoặc null nếu không tìm thấy
    */
   async getLoanById(loanId: string, userId: string) {
-    return await prisma.loan.findFirst({
+    const loan = await prisma.loan.findFirst({
       where: {
         id: loanId,
         userId,
@@ -235,14 +1017,28 @@ export const LoanService = {
       },
       include: {
         payments: {
+          where: ACTIVE_PAYMENT_FILTER,
           include: {
             wallet: true,
-            transaction: true
+            transaction: true,
+            interestTransaction: true
           },
           orderBy: { paymentDate: 'desc' }
+        },
+        adjustments: {
+          include: {
+            wallet: true,
+            transaction: true
+          },
+          orderBy: { adjustmentDate: 'desc' }
         }
       }
     });
+
+    if (!loan) return null;
+
+    const [withStatus] = await withDueStatus([loan], new Date());
+    return withStatus;
   },
 
   /**
@@ -253,6 +1049,10 @@ export const LoanService = {
    * @param data - Dữ liệu cập nhật
    * @returns Loan object đã cập nhật
    * @throws Error('LOAN_NOT_FOUND') nếu khoản nợ không tồn tại
+   * @throws Error('LOAN_CONTACT_NOT_FOUND') nếu contact không thuộc user
+   * @throws Error('LOAN_TERMS_LOCKED') nếu đổi lãi suất / trả góp khi khoản nợ đã có thanh toán
+   * @throws Error('LOAN_INTEREST_RATE_REQUIRED') nếu tính lãi mà lãi suất = 0
+   * @throws Error('LOAN_INVALID_FIRST_INSTALLMENT_DATE') nếu kỳ đầu không sau ngày bắt đầu
    */
   async updateLoan(loanId: string, userId: string, data: UpdateLoanData) {
     // Kiểm tra khoản nợ tồn tại và thuộc user
@@ -264,38 +1064,123 @@ export const LoanService = {
       throw new Error('LOAN_NOT_FOUND');
     }
 
-    // Cập nhật khoản nợ
-    const updatedLoan = await prisma.loan.update({
-      where: { id: loanId },
-      data: {
-        ...data,
-        dueDate: data.dueDate ? new Date(data.dueDate) : undefined
+    const {
+      contactId,
+      counterpartyName,
+      dueDate,
+      note,
+      interestType,
+      interestRate,
+      compoundingPeriod,
+      installmentCount,
+      installmentPeriod,
+      firstInstallmentDate
+    } = data;
+
+    let terms = {};
+    const termsChanged = [interestType, interestRate, compoundingPeriod, installmentCount, installmentPeriod, firstInstallmentDate]
+      .some((value) => value !== undefined);
+
+    if (termsChanged) {
+      // Lịch trả góp / lãi đã phân bổ vào các lần thanh toán cũ => không đổi điều khoản nữa
+      const payment = await prisma.loanPayment.findFirst({
+        where: { loanId, ...ACTIVE_PAYMENT_FILTER },
+        select: { id: true }
+      });
+      if (payment) {
+        throw new Error('LOAN_TERMS_LOCKED');
       }
-    });
 
-    return updatedLoan;
-  },
+      const nextInterestType = interestType ?? existingLoan.interestType;
+      const nextInterestRate = nextInterestType === 'none' ? 0 : interestRate ?? existingLoan.interestRate.toNumber();
+      if (nextInterestType !== 'none' && nextInterestRate <= 0) {
+        throw new Error('LOAN_INTEREST_RATE_REQUIRED');
+      }
 
-  /**
-   * Xóa khoản nợ (soft delete)
-   *
+      // Đổi số kỳ / chu kỳ mà không nhập ngày kỳ đầu => tính lại từ startDate
+      const nextPeriod = installmentPeriod ?? existingLoan.installmentPeriod;
+      const installment = resolveInstallmentTerms(
+        existingLoan.startDate,
+        installmentCount !== undefined ? installmentCount : existingLoan.installmentCount,
+        nextPeriod,
+        firstInstallmentDate !== undefined
+          ? (firstInstallmentDate ? new Date(firstInstallmentDate) : null)
+          : (installmentCount !== undefined || installmentPeriod !== undefined ? null : existingLoan.firstInstallmentDate)
+      );
+      if (installment.firstInstallmentDate && installment.firstInstallmentDate.getTime() <= existingLoan.startDate.getTime()) {
+        throw new Error('LOAN_INVALID_FIRST_INSTALLMENT_DATE');
+      }
+
+      // Hạn trả theo kỳ cuối nếu không nhập dueDate
+      const lastInstallmentDate = installment.firstInstallmentDate && installment.installmentCount !== null
+        ? getInstallmentDate(installment.firstInstallmentDate, nextPeriod, installment.installmentCount - 1)
+        : undefined;
+
+      terms = {
+        interestType: nextInterestType,
+        interestRate: nextInterestRate,
+        compoundingPeriod,
+        installmentPeriod,
+        ...installment,
+        ...(dueDate === undefined && lastInstallmentDate ? { dueDate: lastInstallmentDate } : {})
+      };
+    }
+
+    const contact = contactId ? await validateContactOwnership(contactId, userId) : null;
+
+    // Cập nhật khoản nợ + ghi nhật ký thay đổi
+    return await prisma.$transaction(async (tx) => {
+      // Đổi contact hoặc đổi tên => gắn contact đã chọn / contact cùng tên
+      const nextContact = contact ?? (counterpartyName ? await findOrCreateContact(tx, userId, counterpartyName) : null);
+      const updatedLoan = await tx.loan.update({
+        where: { id: loanId },
+        data: {
+          ...(nextContact ? { contactId: nextContact.id, counterpartyName: nextContact.name } : {}),
+          note,
+          dueDate: dueDate ? new Date(dueDate) : undefined,
+          ...terms
+        }
+      });
+
+      await AuditService.record({
+        userId,
+        entityType: 'loan',
+        entityId: loanId,
+        action: 'update',
+        before: existingLoan,
+        after: updatedLoan
+      }, tx);
+
+      return updatedLoan;
+    });
+  },
+
+  /**
+   * Xóa khoản nợ (soft delete)
+   *
    * @param loanId - ID của khoản nợ cần xóa
    * @param userId - ID của user sở hữu khoản nợ
    * @returns Loan object đã xóa
    * @throws Error('LOAN_NOT_FOUND') nếu khoản nợ không tồn tại
    * @throws Error('LOAN_HAS_PAYMENTS') nếu khoản nợ đã có thanh toán
+   * @throws Error('LOAN_HAS_ADJUSTMENTS') nếu khoản nợ đã vay thêm / xoá nợ / xoá sổ
+   * @throws Error('TRANSACTION_LOCKED_BY_RECONCILIATION') nếu giao dịch gốc thuộc phiên đối chiếu đã khoá
    */
   async deleteLoan(loanId: string, userId: string) {
     // Xóa khoản nợ cần đảm bảo hoàn lại tiền gốc vào ví
     // Chỉ cho phép xóa nếu khoản nợ chưa có thanh toán nào
     const deletedLoan = await prisma.$transaction(async (tx) => {
-      // 1. Lấy loan + kiểm tra payments
+      // 1. Lấy loan + kiểm tra payments (kể cả lần trả đã huỷ: giữ lịch sử cùng giao dịch đã xoá mềm)
       const loan = await tx.loan.findFirst({
         where: { id: loanId, userId, deletedAt: null },
         include: {
           payments: {
             select: { id: true },
             take: 1
+          },
+          adjustments: {
+            select: { id: true },
+            take: 1
           }
         }
       });
@@ -310,6 +1195,11 @@ export const LoanService = {
         throw new Error('LOAN_HAS_PAYMENTS');
       }
 
+      // Vay thêm / xoá nợ / xoá sổ đã làm thay đổi gốc, dư nợ => cũng không cho xoá
+      if (loan.adjustments.length > 0) {
+        throw new Error('LOAN_HAS_ADJUSTMENTS');
+      }
+
       // 2. Tìm Transaction gốc đã được tạo khi tạo loan để hoàn tiền
       //    Giờ đã link trực tiếp Loan <-> Transaction qua loanId
       const baseTransaction = await tx.transaction.findFirst({
@@ -319,10 +1209,21 @@ export const LoanService = {
           loanId: loan.id
         },
         include: {
-          entries: true
+          entries: {
+            include: {
+              reconciliationSession: {
+                select: { status: true }
+              }
+            }
+          }
         }
       });
 
+      // Giao dịch gốc đã khớp sao kê trong phiên đối chiếu đã khoá => không cho xoá
+      if (baseTransaction?.entries.some((e) => e.reconciliationSession?.status === 'locked')) {
+        throw new Error('TRANSACTION_LOCKED_BY_RECONCILIATION');
+      }
+
       if (baseTransaction && baseTransaction.entries.length === 1) {
         const entry = baseTransaction.entries[0];
 
@@ -344,6 +1245,8 @@ export const LoanService = {
           where: { id: baseTransaction.id },
           data: { deletedAt: new Date() }
         });
+
+        await WalletService.invalidateBalanceSnapshots([entry.walletId], baseTransaction.transactionDate, tx);
       }
 
       // 5. Soft delete loan
@@ -352,32 +1255,155 @@ export const LoanService = {
         data: { deletedAt: new Date() }
       });
 
+      const { payments: _payments, adjustments: _adjustments, ...before } = loan;
+      await AuditService.record({
+        userId,
+        entityType: 'loan',
+        entityId: loanId,
+        action: 'delete',
+        before,
+        after: deleted
+      }, tx);
+
       return deleted;
     });
 
     return deletedLoan;
   },
 
+  /**
+   * Khôi phục khoản nợ đã xoá mềm cùng giao dịch gốc, ghi lại tiền gốc vào ví
+   * - you_owe: cộng lại tiền gốc vào ví
+   * - owed_to_you: trừ lại tiền gốc khỏi ví, kiểm tra số dư như khi tạo khoản vay
+   * Giao dịch gốc vẫn link với khoản vay qua loanId => khôi phục cả 2, mất đánh dấu cleared của phiên đối chiếu cũ
+   *
+   * @throws Error('LOAN_NOT_FOUND') nếu khoản nợ không nằm trong thùng rác
+   * @throws Error('TRANSACTION_LOCKED_BY_RECONCILIATION') nếu giao dịch gốc thuộc phiên đối chiếu đã khoá
+   * @throws Error('WALLET_NOT_FOUND') nếu ví của giao dịch gốc đã lưu trữ
+   * @throws Error('INSUFFICIENT_WALLET_BALANCE') nếu ví không đủ số dư (owed_to_you)
+   */
+  async restoreLoan(loanId: string, userId: string) {
+    return await prisma.$transaction(async (tx) => {
+      const loan = await tx.loan.findFirst({
+        where: { id: loanId, userId, deletedAt: { not: null } }
+      });
+
+      // Chốt khôi phục trước khi ghi số dư: 2 request khôi phục đồng thời chỉ 1 request ghi được
+      const claimed = await tx.loan.updateMany({
+        where: { id: loanId, userId, deletedAt: { not: null } },
+        data: { deletedAt: null }
+      });
+      if (!loan || claimed.count === 0) {
+        throw new Error('LOAN_NOT_FOUND');
+      }
+
+      // Giao dịch gốc chỉ bị xoá mềm cùng khoản vay khi có đúng 1 entry (xem deleteLoan)
+      const baseTransaction = await tx.transaction.findFirst({
+        where: {
+          userId,
+          deletedAt: { not: null },
+          loanId: loan.id
+        },
+        include: {
+          entries: {
+            include: {
+              reconciliationSession: {
+                select: { status: true }
+              }
+            }
+          }
+        }
+      });
+
+      if (baseTransaction?.entries.some((e) => e.reconciliationSession?.status === 'locked')) {
+        throw new Error('TRANSACTION_LOCKED_BY_RECONCILIATION');
+      }
+
+      if (baseTransaction && baseTransaction.entries.length === 1) {
+        const entry = baseTransaction.entries[0];
+
+        const wallet = await tx.wallet.findFirst({
+          where: { id: entry.walletId, userId, isArchived: false },
+          select: { currentBalance: true, creditLimit: true }
+        });
+        if (!wallet) {
+          throw new Error('WALLET_NOT_FOUND');
+        }
+
+        if (loan.kind === 'owed_to_you' && getAvailableBalance(wallet).lessThan(loan.principal)) {
+          throw new Error('INSUFFICIENT_WALLET_BALANCE');
+        }
+
+        await tx.wallet.update({
+          where: { id: entry.walletId },
+          data: {
+            currentBalance: {
+              [loan.kind === 'you_owe' ? 'increment' : 'decrement']:
+                loan.principal
+            } as any
+          }
+        });
+
+        await tx.transactionEntry.updateMany({
+          where: { transactionId: baseTransaction.id, reconciliationSessionId: { not: null } },
+          data: { reconciliationSessionId: null }
+        });
+
+        await tx.transaction.update({
+          where: { id: baseTransaction.id },
+          data: { deletedAt: null }
+        });
+
+        await WalletService.invalidateBalanceSnapshots([entry.walletId], baseTransaction.transactionDate, tx);
+      }
+
+      const restored = await tx.loan.findUniqueOrThrow({
+        where: { id: loanId }
+      });
+
+      await AuditService.record({
+        userId,
+        entityType: 'loan',
+        entityId: loanId,
+        action: 'restore',
+        before: loan,
+        after: restored
+      }, tx);
+
+      return restored;
+    });
+  },
+
   /**
    * Tạo thanh toán khoản nợ
    * Logic nghiệp vụ:
    * - you_owe: tạo expense transaction (trừ tiền từ wallet)
    * - owed_to_you: tạo income transaction (cộng tiền vào wallet)
-   * - Cập nhật outstandingAmount của loan
+   * - Tách amount thành phần gốc và phần lãi (splitLoanPayment); phần lãi ghi thành giao dịch riêng
+   *   (you_owe: expense "Lãi vay", owed_to_you: income "Lãi suất"), vẫn tính vào thống kê thu/chi
+   * - Cập nhật outstandingAmount của loan theo phần gốc
    * - Nếu outstandingAmount = 0 thì đổi status thành 'closed'
    *
    * @param data - Dữ liệu thanh toán
    * @param userId - ID của user thực hiện thanh toán
    * @returns LoanPayment object đã tạo
+   * @throws Error('LOAN_PAYMENT_PRINCIPAL_REQUIRED') nếu số tiền chỉ đủ trả lãi (không còn phần gốc)
+   * @throws Error('PAYMENT_EXCEEDS_OUTSTANDING') nếu phần gốc vượt quá dư nợ
    */
   async createLoanPayment(data: CreateLoanPaymentData, userId: string) {
     const { loanId, walletId, paymentDate, amount, note } = data;
 
     // Validate loan và wallet
     const loan = await validateLoanOwnership(loanId, userId);
-    
-    // Kiểm tra số tiền thanh toán không vượt quá dư nợ
-    if (amount > loan.outstandingAmount.toNumber()) {
+
+    // Tách gốc / lãi
+    const split = await splitLoanPayment(loan, amount, new Date(paymentDate), data.interestAmount);
+    if (split.principal <= 0) {
+      throw new Error('LOAN_PAYMENT_PRINCIPAL_REQUIRED');
+    }
+
+    // Kiểm tra phần gốc không vượt quá dư nợ
+    if (split.principal > loan.outstandingAmount.toNumber()) {
       throw new Error('PAYMENT_EXCEEDS_OUTSTANDING');
     }
 
@@ -387,32 +1413,414 @@ export const LoanService = {
 
     // Tạo payment và transaction trong DB transaction
     return await prisma.$transaction(async (tx) => {
-      // 1. Tạo Transaction tương ứng
-      const transactionType = loan.kind === 'you_owe' ? 'expense' : 'income';
-      const entryDirection = loan.kind === 'you_owe' ? 'out' : 'in';
+      // Kiểm tra lại trên dư nợ mới nhất (lần trả / điều chỉnh đồng thời)
+      const current = await lockLoan(tx, loanId);
+      if (current.status === 'closed') {
+        throw new Error('LOAN_ALREADY_CLOSED');
+      }
+      if (split.principal > current.outstandingAmount.toNumber()) {
+        throw new Error('PAYMENT_EXCEEDS_OUTSTANDING');
+      }
+
+      // 1. Giao dịch gốc / lãi + LoanPayment + số dư ví
+      const loanPayment = await recordLoanPayment(tx, current, userId, {
+        walletId,
+        paymentDate: new Date(paymentDate),
+        amount,
+        note
+      }, split);
+
+      // 2. Cập nhật outstandingAmount của loan (chỉ phần gốc)
+      const newOutstandingAmount = roundMoney(current.outstandingAmount.toNumber() - split.principal);
+
+      const updatedLoan = await tx.loan.update({
+        where: { id: loanId },
+        data: {
+          outstandingAmount: Math.max(0, newOutstandingAmount),
+          status: statusForOutstanding(newOutstandingAmount)
+        }
+      });
+
+      // 3. Nhật ký: lần trả nợ mới + thay đổi dư nợ của khoản vay
+      await AuditService.record({
+        userId,
+        entityType: 'loan_payment',
+        entityId: loanPayment.id,
+        action: 'create',
+        after: toPaymentSnapshot(loanPayment)
+      }, tx);
+      await AuditService.record({
+        userId,
+        entityType: 'loan',
+        entityId: loanId,
+        action: 'update',
+        before: current,
+        after: updatedLoan
+      }, tx);
+
+      return loanPayment;
+    });
+  },
+
+  /**
+   * Sửa lần trả/thu nợ: huỷ lần trả cũ (hoàn tác số dư, dư nợ, xoá mềm giao dịch) và tạo lần trả thay thế
+   * - Field bỏ trống giữ giá trị cũ; đổi amount mà không nhập interestAmount => tách lại gốc / lãi
+   * - Kiểm tra như createLoanPayment, tính trên dư nợ / số dư ví sau khi hoàn tác lần trả cũ
+   * - Trạng thái khoản vay tính lại theo dư nợ mới (đã tất toán được mở lại nếu dư nợ mới > 0)
+   * - Khoản vay đã xoá sổ không sửa được lần trả
+   *
+   * @param paymentId - ID của lần trả cần sửa
+   * @param userId - ID của user sở hữu
+   * @param data - Dữ liệu cập nhật
+   * @returns LoanPayment thay thế
+   * @throws Error('LOAN_PAYMENT_NOT_FOUND') nếu lần trả không tồn tại hoặc đã huỷ
+   * @throws Error('TRANSACTION_LOCKED_BY_RECONCILIATION') nếu giao dịch thuộc phiên đối chiếu đã khoá
+   * @throws Error('LOAN_PAYMENT_PRINCIPAL_REQUIRED') nếu số tiền chỉ đủ trả lãi (không còn phần gốc)
+   * @throws Error('PAYMENT_EXCEEDS_OUTSTANDING') nếu phần gốc vượt quá dư nợ
+   * @throws Error('INSUFFICIENT_WALLET_BALANCE') nếu ví không đủ số dư (you_owe)
+   * @throws Error('LOAN_WRITTEN_OFF') nếu khoản vay đã xoá sổ
+   */
+  async updateLoanPayment(paymentId: string, userId: string, data: UpdateLoanPaymentData) {
+    const { loan, payment } = await getMutableLoanPayment(paymentId, userId);
+
+    const input: LoanPaymentInput = {
+      walletId: data.walletId ?? payment.walletId,
+      paymentDate: data.paymentDate ? new Date(data.paymentDate) : payment.paymentDate,
+      amount: data.amount ?? payment.amount.toNumber(),
+      note: data.note !== undefined ? data.note : payment.note
+    };
+
+    // Giữ phần lãi cũ nếu không đổi số tiền / ngày trả; ngược lại tách lại theo lịch trả góp / lãi phát sinh
+    const keepInterest = data.amount === undefined && data.paymentDate === undefined;
+    const interestAmount = data.interestAmount ?? (keepInterest ? payment.interestAmount.toNumber() : undefined);
+    if (interestAmount !== undefined && interestAmount >= input.amount) {
+      throw new Error('LOAN_PAYMENT_PRINCIPAL_REQUIRED');
+    }
+
+    // Dư nợ sau khi hoàn tác lần trả cũ
+    const restoredLoan = { ...loan, outstandingAmount: loan.outstandingAmount.plus(payment.principalAmount) };
+    const split = await splitLoanPayment(restoredLoan, input.amount, input.paymentDate, interestAmount, payment.id);
+    if (split.principal <= 0) {
+      throw new Error('LOAN_PAYMENT_PRINCIPAL_REQUIRED');
+    }
+    if (split.principal > restoredLoan.outstandingAmount.toNumber()) {
+      throw new Error('PAYMENT_EXCEEDS_OUTSTANDING');
+    }
+
+    // Trả nợ từ cùng ví => số tiền cũ được hoàn lại trước khi trừ số tiền mới
+    const refunded = input.walletId === payment.walletId ? payment.amount.toNumber() : 0;
+    const requiredAmount = loan.kind === 'you_owe' ? roundMoney(input.amount - refunded) : undefined;
+    await validateWalletOwnership(input.walletId, userId, requiredAmount);
+
+    return await prisma.$transaction(async (tx) => {
+      // Kiểm tra lại trên dư nợ mới nhất (lần trả / điều chỉnh đồng thời)
+      const current = await lockLoanForPaymentChange(tx, loan.id, payment.id);
+      const restoredOutstanding = roundMoney(current.outstandingAmount.toNumber() + payment.principalAmount.toNumber());
+      if (split.principal > restoredOutstanding) {
+        throw new Error('PAYMENT_EXCEEDS_OUTSTANDING');
+      }
+
+      // 1. Huỷ lần trả cũ
+      const voided = await reverseLoanPayment(tx, current, payment);
+
+      // 2. Lần trả thay thế
+      const loanPayment = await recordLoanPayment(tx, current, userId, input, split);
+      await tx.loanPayment.update({
+        where: { id: payment.id },
+        data: { replacedById: loanPayment.id }
+      });
+
+      // 3. Dư nợ / trạng thái khoản vay
+      const newOutstandingAmount = roundMoney(restoredOutstanding - split.principal);
+      const updatedLoan = await tx.loan.update({
+        where: { id: loan.id },
+        data: {
+          outstandingAmount: Math.max(0, newOutstandingAmount),
+          status: statusForOutstanding(newOutstandingAmount)
+        }
+      });
+
+      // 4. Nhật ký: lần trả cũ (trước) -> lần trả thay thế (sau) + thay đổi dư nợ
+      await AuditService.record({
+        userId,
+        entityType: 'loan_payment',
+        entityId: payment.id,
+        action: 'update',
+        before: payment,
+        after: { ...voided, replacedById: loanPayment.id, replacement: toPaymentSnapshot(loanPayment) }
+      }, tx);
+      await AuditService.record({
+        userId,
+        entityType: 'loan',
+        entityId: loan.id,
+        action: 'update',
+        before: current,
+        after: updatedLoan
+      }, tx);
+
+      return loanPayment;
+    });
+  },
+
+  /**
+   * Huỷ lần trả/thu nợ: hoàn tác số dư ví, cộng lại phần gốc vào dư nợ, xoá mềm giao dịch gốc + lãi
+   * Trạng thái khoản vay tính lại theo dư nợ mới (đã tất toán được mở lại); lần trả giữ lại với voidedAt để tra cứu lịch sử
+   * Khoản vay đã xoá sổ không huỷ được lần trả (xoá sổ là chốt sổ cuối cùng)
+   *
+   * @param paymentId - ID của lần trả cần huỷ
+   * @param userId - ID của user sở hữu
+   * @returns LoanPayment đã huỷ
+   * @throws Error('LOAN_PAYMENT_NOT_FOUND') nếu lần trả không tồn tại hoặc đã huỷ
+   * @throws Error('TRANSACTION_LOCKED_BY_RECONCILIATION') nếu giao dịch thuộc phiên đối chiếu đã khoá
+   * @throws Error('LOAN_WRITTEN_OFF') nếu khoản vay đã xoá sổ
+   */
+  async voidLoanPayment(paymentId: string, userId: string) {
+    const { loan, payment } = await getMutableLoanPayment(paymentId, userId);
+
+    return await prisma.$transaction(async (tx) => {
+      // Dư nợ mới nhất (lần trả / điều chỉnh đồng thời)
+      const current = await lockLoanForPaymentChange(tx, loan.id, payment.id);
+
+      const voided = await reverseLoanPayment(tx, current, payment);
+
+      const newOutstandingAmount = roundMoney(current.outstandingAmount.toNumber() + payment.principalAmount.toNumber());
+      const updatedLoan = await tx.loan.update({
+        where: { id: loan.id },
+        data: {
+          outstandingAmount: newOutstandingAmount,
+          status: statusForOutstanding(newOutstandingAmount)
+        }
+      });
+
+      await AuditService.record({
+        userId,
+        entityType: 'loan_payment',
+        entityId: payment.id,
+        action: 'delete',
+        before: payment,
+        after: voided
+      }, tx);
+      await AuditService.record({
+        userId,
+        entityType: 'loan',
+        entityId: loan.id,
+        action: 'update',
+        before: current,
+        after: updatedLoan
+      }, tx);
+
+      return voided;
+    });
+  },
+
+  /**
+   * Lấy danh sách thanh toán khoản nợ
+   *
+   * @param userId - ID của user
+   * @param filters - Các filter tùy chọn
+   * @returns Danh sách thanh toán với pagination
+   */
+  async getLoanPayments(userId: string, filters: Partial<GetLoanPaymentsQuery> = {}) {
+    const {
+      loanId,
+      sortBy = 'paymentDate',
+      sortOrder = 'desc',
+      limit = 50,
+      cursor,
+      offset,
+      includeTotal
+    } = filters;
+
+    // Build where clause
+    const where: any = { userId, ...ACTIVE_PAYMENT_FILTER };
+    if (loanId) where.loanId = loanId;
+
+    const { items: payments, pagination } = await paginate(
+      { limit, cursor, offset, includeTotal },
+      [
+        { field: sortBy, direction: sortOrder },
+        { field: 'id', direction: sortOrder }
+      ],
+      (page) => prisma.loanPayment.findMany({
+        where: { AND: [where, page.where] },
+        include: LOAN_PAYMENT_INCLUDE,
+        orderBy: page.orderBy,
+        take: page.take,
+        skip: page.skip
+      }),
+      () => prisma.loanPayment.count({ where })
+    );
+
+    return {
+      payments,
+      pagination
+    };
+  },
+
+  /**
+   * Lịch trả góp của khoản nợ kèm số đã trả / còn lại / trạng thái từng kỳ
+   *
+   * @param loanId - ID của khoản nợ
+   * @param userId - ID của user (để verify ownership)
+   * @throws Error('LOAN_NOT_FOUND') nếu khoản nợ không tồn tại
+   * @throws Error('LOAN_NO_INSTALLMENT_PLAN') nếu khoản nợ không có kế hoạch trả góp
+   */
+  async getLoanSchedule(loanId: string, userId: string) {
+    const loan = await prisma.loan.findFirst({
+      where: { id: loanId, userId, deletedAt: null }
+    });
+
+    if (!loan) {
+      throw new Error('LOAN_NOT_FOUND');
+    }
+
+    const schedule = getLoanSchedule(loan);
+    if (!schedule) {
+      throw new Error('LOAN_NO_INSTALLMENT_PLAN');
+    }
+
+    const paid = await getPaidTotals(loan.id);
+    const installments = withInstallmentStatus(schedule, paid.principal, paid.interest, loan.status === 'closed', new Date());
+    const overdue = installments.filter((i) => i.status === 'overdue');
+
+    return {
+      loan,
+      summary: {
+        totalPrincipal: loan.principal.toNumber(),
+        totalInterest: roundMoney(schedule.reduce((sum, i) => sum + i.interest, 0)),
+        totalAmount: roundMoney(schedule.reduce((sum, i) => sum + i.amount, 0)),
+        paidPrincipal: paid.principal,
+        paidInterest: paid.interest,
+        overdueCount: overdue.length,
+        overdueAmount: roundMoney(overdue.reduce((sum, i) => sum + i.remainingAmount, 0)),
+        nextInstallment: installments.find((i) => i.status !== 'paid') ?? null
+      },
+      installments
+    };
+  },
+
+  /**
+   * Các kỳ trả góp quá hạn (chưa trả đủ, đã qua ngày đến hạn) của mọi khoản nợ đang mở
+   * Sắp xếp theo ngày đến hạn cũ nhất trước
+   *
+   * @param userId - ID của user
+   * @param filters - Lọc theo kind
+   */
+  async getOverdueInstallments(userId: string, filters: Partial<GetOverdueInstallmentsQuery> = {}) {
+    const now = new Date();
+    const loans = await prisma.loan.findMany({
+      where: {
+        userId,
+        deletedAt: null,
+        status: 'open',
+        installmentCount: { not: null },
+        // Kỳ đầu chưa tới hạn thì chắc chắn chưa có kỳ quá hạn
+        firstInstallmentDate: { lt: now },
+        ...(filters.kind ? { kind: filters.kind } : {})
+      }
+    });
+
+    const paidTotals = loans.length > 0
+      ? await prisma.loanPayment.groupBy({
+        by: ['loanId'],
+        where: { loanId: { in: loans.map((l) => l.id) }, ...ACTIVE_PAYMENT_FILTER },
+        _sum: { principalAmount: true, interestAmount: true }
+      })
+      : [];
+    const paidByLoan = new Map(paidTotals.map((row) => [row.loanId, row._sum]));
+
+    const installments = loans.flatMap((loan) => {
+      const paid = paidByLoan.get(loan.id);
+      const schedule = withInstallmentStatus(
+        getLoanSchedule(loan) ?? [],
+        paid?.principalAmount?.toNumber() ?? 0,
+        paid?.interestAmount?.toNumber() ?? 0,
+        false,
+        now
+      );
+
+      return schedule
+        .filter((i) => i.status === 'overdue')
+        .map((i) => ({
+          loanId: loan.id,
+          kind: loan.kind,
+          counterpartyName: loan.counterpartyName,
+          number: i.number,
+          dueDate: i.dueDate,
+          amount: i.amount,
+          paidAmount: i.paidAmount,
+          remainingAmount: i.remainingAmount,
+          daysOverdue: Math.floor((now.getTime() - i.dueDate.getTime()) / DAY_MS)
+        }));
+    }).sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+
+    const totalFor = (kind: Loan['kind']) => roundMoney(
+      installments.filter((i) => i.kind === kind).reduce((sum, i) => sum + i.remainingAmount, 0)
+    );
+
+    return {
+      installments,
+      summary: {
+        count: installments.length,
+        youOweAmount: totalFor('you_owe'),
+        owedToYouAmount: totalFor('owed_to_you')
+      }
+    };
+  },
+
+  /**
+   * Vay thêm / cho vay thêm: tăng tiền gốc và dư nợ, tạo giao dịch giải ngân từ ví
+   * - you_owe: income + entry in (nhận thêm tiền vào ví)
+   * - owed_to_you: expense + entry out (trừ tiền ví, kiểm tra số dư)
+   * Khoản vay đã tất toán được mở lại (trừ khoản đã xoá sổ); lịch trả góp (nếu có) tính lại theo tiền gốc mới
+   *
+   * @param loanId - ID của khoản nợ
+   * @param userId - ID của user sở hữu
+   * @param data - Ví, số tiền, ngày giải ngân
+   * @returns Điều chỉnh vừa tạo và khoản vay sau cập nhật
+   * @throws Error('LOAN_NOT_FOUND') nếu khoản nợ không tồn tại
+   * @throws Error('WALLET_NOT_FOUND') nếu ví không tồn tại / đã lưu trữ
+   * @throws Error('INSUFFICIENT_WALLET_BALANCE') nếu ví không đủ số dư (owed_to_you)
+   * @throws Error('LOAN_WRITTEN_OFF') nếu khoản vay đã xoá sổ
+   */
+  async increaseLoanPrincipal(loanId: string, userId: string, data: IncreaseLoanPrincipalData) {
+    const { walletId, amount, note } = data;
+    const adjustmentDate = new Date(data.adjustmentDate);
+
+    const loan = await prisma.loan.findFirst({
+      where: { id: loanId, userId, deletedAt: null }
+    });
+    if (!loan) {
+      throw new Error('LOAN_NOT_FOUND');
+    }
+
+    await validateWalletOwnership(walletId, userId, loan.kind === 'owed_to_you' ? amount : undefined);
+
+    return await prisma.$transaction(async (tx) => {
+      const current = await lockLoan(tx, loanId);
+      await assertNotWrittenOff(tx, loanId);
+
+      // 1. Giao dịch giải ngân thêm (cùng category với giao dịch gốc của khoản vay)
+      const transactionType = loan.kind === 'you_owe' ? 'income' : 'expense';
+      const entryDirection = loan.kind === 'you_owe' ? 'in' : 'out';
 
-      // Tìm category mặc định cho loan payments
-      let categoryId: string | null = null;
       const defaultCategory = await tx.category.findFirst({
         where: {
           userId,
           type: transactionType,
-          name: loan.kind === 'you_owe' ? 'Trả nợ' : 'Thu nợ',
+          name: loan.kind === 'you_owe' ? 'Vay nợ' : 'Cho vay',
           isSystem: true
         }
       });
-      if (defaultCategory) {
-        categoryId = defaultCategory.id;
-      }
 
       const transaction = await tx.transaction.create({
         data: {
           userId,
           type: transactionType,
-          transactionDate: new Date(paymentDate),
-          categoryId,
+          transactionDate: adjustmentDate,
+          categoryId: defaultCategory?.id ?? null,
           amount,
-          note: note || `${loan.kind === 'you_owe' ? 'Trả nợ' : 'Thu nợ'}: ${loan.counterpartyName}`,
+          note: note || `${loan.kind === 'you_owe' ? 'Vay thêm' : 'Cho vay thêm'}: ${loan.counterpartyName}`,
           entries: {
             create: {
               walletId,
@@ -423,102 +1831,197 @@ export const LoanService = {
         }
       });
 
-      // 2. Tạo LoanPayment
-      const loanPayment = await tx.loanPayment.create({
+      // 2. Số dư ví
+      await tx.wallet.update({
+        where: { id: walletId },
+        data: {
+          currentBalance: {
+            [loan.kind === 'you_owe' ? 'increment' : 'decrement']: amount
+          } as any
+        }
+      });
+
+      await WalletService.invalidateBalanceSnapshots([walletId], adjustmentDate, tx);
+
+      // 3. Điều chỉnh + tăng gốc / dư nợ
+      const adjustment = await tx.loanAdjustment.create({
         data: {
           loanId,
           userId,
+          type: 'top_up',
+          amount,
+          adjustmentDate,
           walletId,
           transactionId: transaction.id,
-          paymentDate: new Date(paymentDate),
-          amount,
           note
-        },
-        include: {
-          loan: true,
-          wallet: true,
-          transaction: true
         }
       });
 
-      // 3. Cập nhật wallet balance
-      if (loan.kind === 'you_owe') {
-        // Trả nợ: trừ tiền từ wallet
-        await tx.wallet.update({
-          where: { id: walletId },
-          data: {
-            currentBalance: {
-              decrement: amount
-            }
-          }
-        });
-      } else {
-        // Thu nợ: cộng tiền vào wallet
-        await tx.wallet.update({
-          where: { id: walletId },
-          data: {
-            currentBalance: {
-              increment: amount
-            }
-          }
-        });
-      }
-
-      // 4. Cập nhật outstandingAmount của loan
-      const newOutstandingAmount = loan.outstandingAmount.toNumber() - amount;
-      const newStatus = newOutstandingAmount <= 0 ? 'closed' : 'open';
-
-      await tx.loan.update({
+      const updatedLoan = await tx.loan.update({
         where: { id: loanId },
         data: {
-          outstandingAmount: Math.max(0, newOutstandingAmount),
-          status: newStatus
+          principal: { increment: amount },
+          outstandingAmount: { increment: amount },
+          status: 'open'
         }
       });
 
-      return loanPayment;
+      await AuditService.record({
+        userId,
+        entityType: 'loan_adjustment',
+        entityId: adjustment.id,
+        action: 'create',
+        after: adjustment
+      }, tx);
+      await AuditService.record({
+        userId,
+        entityType: 'loan',
+        entityId: loanId,
+        action: 'update',
+        before: current,
+        after: updatedLoan
+      }, tx);
+
+      return { adjustment, loan: updatedLoan };
     });
   },
 
   /**
-   * Lấy danh sách thanh toán khoản nợ
+   * Xoá 1 phần nợ: giảm dư nợ, không có dòng tiền
+   * Thống kê khoản vay ghi nhận như khoản thu (you_owe: được xoá nợ) hoặc khoản chi (owed_to_you: xoá nợ cho người vay)
    *
-   * @param userId - ID của user
-   * @param filters - Các filter tùy chọn
-   * @returns Danh sách thanh toán với pagination
+   * @param loanId - ID của khoản nợ
+   * @param userId - ID của user sở hữu
+   * @param data - Số tiền xoá nợ, ngày
+   * @returns Điều chỉnh vừa tạo và khoản vay sau cập nhật
+   * @throws Error('LOAN_NOT_FOUND') nếu khoản nợ không tồn tại
+   * @throws Error('LOAN_ALREADY_CLOSED') nếu khoản nợ đã tất toán
+   * @throws Error('LOAN_FORGIVENESS_EXCEEDS_OUTSTANDING') nếu số tiền xoá nợ vượt quá dư nợ
    */
-  async getLoanPayments(userId: string, filters: Partial<GetLoanPaymentsQuery> = {}) {
-    const { loanId, limit = 50, offset = 0 } = filters;
+  async forgiveLoanAmount(loanId: string, userId: string, data: ForgiveLoanData) {
+    await validateLoanOwnership(loanId, userId);
 
-    // Build where clause
-    const where: any = { userId };
-    if (loanId) where.loanId = loanId;
+    return await reduceOutstanding(loanId, userId, 'forgiveness', data.amount, new Date(data.adjustmentDate), data.note);
+  },
 
-    const payments = await prisma.loanPayment.findMany({
-      where,
+  /**
+   * Xoá sổ khoản vay (nợ khó đòi): xoá toàn bộ dư nợ còn lại và tất toán, không có dòng tiền
+   *
+   * @param loanId - ID của khoản nợ
+   * @param userId - ID của user sở hữu
+   * @param data - Ngày xoá sổ (mặc định hiện tại), ghi chú
+   * @returns Điều chỉnh vừa tạo và khoản vay sau cập nhật
+   * @throws Error('LOAN_NOT_FOUND') nếu khoản nợ không tồn tại
+   * @throws Error('LOAN_ALREADY_CLOSED') nếu khoản nợ đã tất toán
+   */
+  async writeOffLoan(loanId: string, userId: string, data: WriteOffLoanData) {
+    await validateLoanOwnership(loanId, userId);
+    const adjustmentDate = data.adjustmentDate ? new Date(data.adjustmentDate) : new Date();
+
+    return await reduceOutstanding(loanId, userId, 'write_off', null, adjustmentDate, data.note);
+  },
+
+  /**
+   * Lịch sử khoản vay theo thời gian: giải ngân ban đầu, trả/thu nợ, vay thêm, xoá nợ, xoá sổ
+   * Mỗi sự kiện kèm thay đổi dư nợ và dư nợ sau sự kiện (lần trả đã huỷ không tính)
+   *
+   * @param loanId - ID của khoản nợ
+   * @param userId - ID của user (để verify ownership)
+   * @throws Error('LOAN_NOT_FOUND') nếu khoản nợ không tồn tại
+   */
+  async getLoanHistory(loanId: string, userId: string) {
+    const loan = await prisma.loan.findFirst({
+      where: { id: loanId, userId, deletedAt: null },
       include: {
-        loan: true,
-        wallet: true,
-        transaction: true
-      },
-      orderBy: { paymentDate: 'desc' },
-      take: limit,
-      skip: offset
+        baseTransaction: {
+          select: { id: true, entries: { select: { walletId: true } } }
+        },
+        payments: {
+          where: ACTIVE_PAYMENT_FILTER,
+          orderBy: [{ paymentDate: 'asc' }, { createdAt: 'asc' }]
+        },
+        adjustments: {
+          orderBy: [{ adjustmentDate: 'asc' }, { createdAt: 'asc' }]
+        }
+      }
     });
 
-    const total = await prisma.loanPayment.count({ where });
+    if (!loan) {
+      throw new Error('LOAN_NOT_FOUND');
+    }
+
+    const { baseTransaction, payments, adjustments, ...loanData } = loan;
+    const toppedUp = adjustments
+      .filter((a) => a.type === 'top_up')
+      .reduce((sum, a) => sum + a.amount.toNumber(), 0);
+
+    const events = [
+      {
+        type: 'disbursement' as const,
+        id: loan.id,
+        date: loan.startDate,
+        createdAt: loan.createdAt,
+        amount: roundMoney(loan.principal.toNumber() - toppedUp),
+        walletId: baseTransaction?.entries[0]?.walletId ?? null,
+        transactionId: baseTransaction?.id ?? null,
+        note: loan.note,
+        outstandingChange: roundMoney(loan.principal.toNumber() - toppedUp)
+      },
+      ...payments.map((p) => ({
+        type: 'payment' as const,
+        id: p.id,
+        date: p.paymentDate,
+        createdAt: p.createdAt,
+        amount: p.amount.toNumber(),
+        principalAmount: p.principalAmount.toNumber(),
+        interestAmount: p.interestAmount.toNumber(),
+        walletId: p.walletId,
+        transactionId: p.transactionId,
+        note: p.note,
+        outstandingChange: -p.principalAmount.toNumber()
+      })),
+      ...adjustments.map((a) => ({
+        type: a.type,
+        id: a.id,
+        date: a.adjustmentDate,
+        createdAt: a.createdAt,
+        amount: a.amount.toNumber(),
+        walletId: a.walletId,
+        transactionId: a.transactionId,
+        note: a.note,
+        outstandingChange: a.type === 'top_up' ? a.amount.toNumber() : -a.amount.toNumber()
+      }))
+    ].sort((a, b) => a.date.getTime() - b.date.getTime() || a.createdAt.getTime() - b.createdAt.getTime());
 
+    let outstanding = 0;
     return {
-      payments,
-      pagination: {
-        total,
-        limit,
-        offset,
-        hasMore: offset + limit < total
-      }
+      loan: loanData,
+      events: events.map(({ createdAt: _createdAt, ...event }) => {
+        outstanding = roundMoney(outstanding + event.outstandingChange);
+        return { ...event, outstandingAfter: outstanding };
+      })
     };
   },
 
+  /**
+   * Sinh thông báo nhắc hạn trả / thu nợ cho mọi khoản vay đang mở (được gọi bởi job nền)
+   * Chạy lại / chạy bù sau downtime không sinh trùng (dedupeKey), mốc đã bị bỏ qua không gửi lại
+   *
+   * @param daysBefore - Các mốc nhắc trước lần đến hạn (số ngày)
+   * @param daysAfter - Các mốc nhắc sau khi quá hạn (số ngày)
+   * @param now - Thời điểm tham chiếu (mặc định hiện tại)
+   * @returns Số khoản vay đã kiểm tra, số thông báo đã tạo và số lượt gửi thành công / lỗi
+   */
+  async processDueReminders(daysBefore: number[], daysAfter: number[], now = new Date()) {
+    const until = new Date(now.getTime() + Math.max(0, ...daysBefore) * DAY_MS);
+    const loans = await withDueStatus(await getOpenLoansDueBefore(until, {}), now);
+
+    const reminders = loans.flatMap((loan) => buildDueReminders(loan, loan.dueStatus, daysBefore, daysAfter, now));
+    const result = await NotificationService.dispatch(reminders);
+
+    return { loans: loans.length, ...result };
+  },
+
   /**
    * Lấy thống kê tổng quan về khoản nợ của user
    *
@@ -541,6 +2044,41 @@ export const LoanService = {
       }
     });
 
+    // Tổng điều chỉnh (vay thêm / xoá nợ / xoá sổ) theo loại khoản vay
+    const [youOweAdjustments, owedToYouAdjustments] = await Promise.all(
+      (['you_owe', 'owed_to_you'] as const).map((kind) => prisma.loanAdjustment.groupBy({
+        by: ['type'],
+        where: { userId, loan: { kind, deletedAt: null } },
+        _count: { id: true },
+        _sum: { amount: true }
+      }))
+    );
+
+    const summarizeAdjustments = (rows: typeof youOweAdjustments) => {
+      const sumOf = (type: LoanAdjustmentType) =>
+        rows.find((r) => r.type === type)?._sum.amount?.toNumber() ?? 0;
+      return {
+        toppedUpAmount: sumOf('top_up'),
+        forgivenAmount: sumOf('forgiveness'),
+        writtenOffAmount: sumOf('write_off'),
+        writtenOffCount: rows.find((r) => r.type === 'write_off')?._count.id ?? 0
+      };
+    };
+    const youOweAdjusted = summarizeAdjustments(youOweAdjustments);
+    const owedToYouAdjusted = summarizeAdjustments(owedToYouAdjustments);
+
+    // Khoản đang quá hạn theo loại
+    const now = new Date();
+    const overdueLoans = (await withDueStatus(await getOpenLoansDueBefore(now, { userId }), now))
+      .filter((l) => l.dueStatus.isOverdue);
+    const summarizeOverdue = (kind: Loan['kind']) => {
+      const loans = overdueLoans.filter((l) => l.kind === kind);
+      return {
+        overdueCount: loans.length,
+        overdueAmount: roundMoney(loans.reduce((sum, l) => sum + l.dueStatus.overdueAmount, 0))
+      };
+    };
+
     // Tính tổng dư nợ theo loại
     const youOweTotal = loanStats
       .filter(stat => stat.kind === 'you_owe' && stat.status === 'open')
@@ -553,11 +2091,20 @@ export const LoanService = {
     return {
       youOwe: {
         count: loanStats.filter(s => s.kind === 'you_owe' && s.status === 'open').reduce((sum, s) => sum + s._count.id, 0),
-        totalAmount: youOweTotal
+        totalAmount: youOweTotal,
+        ...summarizeOverdue('you_owe'),
+        ...youOweAdjusted
       },
       owedToYou: {
         count: loanStats.filter(s => s.kind === 'owed_to_you' && s.status === 'open').reduce((sum, s) => sum + s._count.id, 0),
-        totalAmount: owedToYouTotal
+        totalAmount: owedToYouTotal,
+        ...summarizeOverdue('owed_to_you'),
+        ...owedToYouAdjusted
+      },
+      // Xoá nợ / xoá sổ không có dòng tiền: được xoá nợ tính như khoản thu, xoá nợ cho người vay tính như khoản chi
+      adjustments: {
+        incomeAmount: roundMoney(youOweAdjusted.forgivenAmount + youOweAdjusted.writtenOffAmount),
+        expenseAmount: roundMoney(owedToYouAdjusted.forgivenAmount + owedToYouAdjusted.writtenOffAmount)
       },
       totalLoans: loanStats.reduce((sum, stat) => sum + stat._count.id, 0)
     };
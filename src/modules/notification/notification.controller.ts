@@ -0,0 +1,244 @@
+/**
+ * Notification Controller
+ * File này xử lý HTTP requests/responses cho thông báo: notification center, kênh nhận, webhook
+ * Controller layer - chỉ xử lý HTTP, business logic nằm ở Service layer
+ */
+import { Request, Response } from 'express';
+import { NotificationService } from './notification.service';
+import { handleError, handleValidationError } from '../../utils/error-handler';
+import { getNotificationsQuerySchema } from './notification.schema';
+
+// Create module-specific error handler
+const handleNotificationError = (error: any, res: Response) =>
+  handleError(error, res, 'Notification');
+
+export const NotificationController = {
+  /**
+   * @swagger
+   * /notifications:
+   *   get:
+   *     tags:
+   *       - Notifications
+   *     summary: Danh sách thông báo
+   *     description: |
+   *       Thông báo do job nền sinh ra, mới nhất trước: loan_due_soon / loan_overdue (hạn trả / thu nợ),
+   *       budget_threshold / budget_exceeded (ngân sách), low_wallet_balance (số dư ví thấp), goal_deadline (hạn mục tiêu).
+   *       Chỉ gồm thông báo gửi qua kênh in_app (tắt in_app cho 1 loại => loại đó không hiện ở đây). Trả kèm unreadCount.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: type
+   *         schema:
+   *           type: string
+   *           enum: [loan_due_soon, loan_overdue, budget_threshold, budget_exceeded, low_wallet_balance, goal_deadline]
+   *       - in: query
+   *         name: unreadOnly
+   *         schema:
+   *           type: boolean
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *       - in: query
+   *         name: cursor
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Danh sách thông báo
+   *       400:
+   *         description: Query không hợp lệ
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async getNotifications(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const parsed = getNotificationsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
+
+      const result = await NotificationService.getNotifications(userId, parsed.data);
+      return res.status(200).json({
+        message: 'Notifications retrieved successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleNotificationError(e, res);
+    }
+  },
+
+  /**
+   * Số thông báo chưa đọc
+   * GET /api/notifications/unread-count
+   */
+  async getUnreadCount(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const result = await NotificationService.getUnreadCount(userId);
+      return res.status(200).json({
+        message: 'Unread count retrieved successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleNotificationError(e, res);
+    }
+  },
+
+  /**
+   * Đánh dấu thông báo đã đọc
+   * POST /api/notifications/:id/read
+   */
+  async markAsRead(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const notification = await NotificationService.markAsRead(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Notification marked as read',
+        notification
+      });
+    } catch (e: any) {
+      return handleNotificationError(e, res);
+    }
+  },
+
+  /**
+   * Đánh dấu mọi thông báo đã đọc
+   * POST /api/notifications/read-all
+   */
+  async markAllAsRead(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const result = await NotificationService.markAllAsRead(userId);
+      return res.status(200).json({
+        message: 'Notifications marked as read',
+        ...result
+      });
+    } catch (e: any) {
+      return handleNotificationError(e, res);
+    }
+  },
+
+  /**
+   * Kênh nhận theo từng loại thông báo (mặc định: chỉ in_app)
+   * GET /api/notifications/preferences
+   */
+  async getPreferences(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const result = await NotificationService.getPreferences(userId);
+      return res.status(200).json({
+        message: 'Notification preferences retrieved successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleNotificationError(e, res);
+    }
+  },
+
+  /**
+   * Cập nhật kênh nhận (inApp / email / webhook) theo loại thông báo
+   * PUT /api/notifications/preferences
+   */
+  async updatePreferences(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const result = await NotificationService.updatePreferences(userId, req.body);
+      return res.status(200).json({
+        message: 'Notification preferences updated successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleNotificationError(e, res);
+    }
+  },
+
+  /**
+   * Webhook nhận thông báo (kèm secret để xác thực chữ ký)
+   * GET /api/notifications/webhook
+   */
+  async getWebhook(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const result = await NotificationService.getWebhook(userId);
+      return res.status(200).json({
+        message: 'Notification webhook retrieved successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleNotificationError(e, res);
+    }
+  },
+
+  /**
+   * Cấu hình webhook nhận thông báo (secret sinh khi tạo mới / rotateSecret)
+   * PUT /api/notifications/webhook
+   */
+  async upsertWebhook(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const result = await NotificationService.upsertWebhook(userId, req.body);
+      return res.status(200).json({
+        message: 'Notification webhook saved successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleNotificationError(e, res);
+    }
+  },
+
+  /**
+   * Xoá webhook nhận thông báo
+   * DELETE /api/notifications/webhook
+   */
+  async deleteWebhook(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const webhook = await NotificationService.deleteWebhook(userId);
+      return res.status(200).json({
+        message: 'Notification webhook deleted successfully',
+        webhook
+      });
+    } catch (e: any) {
+      return handleNotificationError(e, res);
+    }
+  }
+};
@@ -0,0 +1,58 @@
+// Schema validation cho Notification APIs
+// Sử dụng Zod để validate query danh sách thông báo, cài đặt kênh nhận và webhook
+import { z } from 'zod';
+import { paginationQueryShape } from '../../utils/pagination';
+import { isAllowedWebhookHost } from '../../notifications/webhook-target';
+
+// Enum từ Prisma schema để đảm bảo consistency
+export const NOTIFICATION_TYPES = [
+  'loan_due_soon',
+  'loan_overdue',
+  'budget_threshold',
+  'budget_exceeded',
+  'low_wallet_balance',
+  'goal_deadline'
+] as const;
+
+const notificationTypeSchema = z.enum(NOTIFICATION_TYPES, {
+  message: `type phải là một trong: ${NOTIFICATION_TYPES.join(', ')}`
+});
+
+// Schema cho query parameters danh sách thông báo (mới nhất trước)
+export const getNotificationsQuerySchema = z.object({
+  type: notificationTypeSchema.optional(),
+  // Chỉ lấy thông báo chưa đọc
+  unreadOnly: z.enum(['true', 'false', '1', '0']).transform((v) => v === 'true' || v === '1').default(false),
+  ...paginationQueryShape()
+});
+
+// Schema cho cập nhật kênh nhận theo loại thông báo (field bỏ trống => giữ nguyên)
+export const updateNotificationPreferencesSchema = z.object({
+  preferences: z.array(z.object({
+    type: notificationTypeSchema,
+    inApp: z.boolean().optional(),
+    email: z.boolean().optional(),
+    webhook: z.boolean().optional()
+  })).min(1, 'Phải có ít nhất một loại thông báo').max(NOTIFICATION_TYPES.length)
+}).refine(
+  (data) => new Set(data.preferences.map((p) => p.type)).size === data.preferences.length,
+  { message: 'Mỗi loại thông báo chỉ được xuất hiện một lần', path: ['preferences'] }
+);
+
+// Schema cho cấu hình webhook nhận thông báo
+export const upsertNotificationWebhookSchema = z.object({
+  url: z.string().max(2048, 'URL không được quá 2048 ký tự').url('URL không hợp lệ').refine(
+    (val) => /^https?:$/.test(new URL(val).protocol),
+    'URL phải dùng http hoặc https'
+  ).refine(
+    (val) => !/^https?:$/.test(new URL(val).protocol) || isAllowedWebhookHost(new URL(val).hostname),
+    'URL không được trỏ vào địa chỉ nội bộ (localhost, mạng private, link-local)'
+  ),
+  // Sinh secret ký mới (secret cũ hết hiệu lực)
+  rotateSecret: z.boolean().optional().default(false)
+});
+
+// Type definitions cho TypeScript
+export type GetNotificationsQuery = z.infer<typeof getNotificationsQuerySchema>;
+export type UpdateNotificationPreferencesData = z.infer<typeof updateNotificationPreferencesSchema>;
+export type UpsertNotificationWebhookData = z.infer<typeof upsertNotificationWebhookSchema>;
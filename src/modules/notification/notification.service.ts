@@ -0,0 +1,321 @@
+/**
+ * Notification Service
+ * File này chứa business logic cho thông báo (nhắc hạn trả / thu nợ, cảnh báo ngân sách, số dư ví thấp, hạn mục tiêu)
+ * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
+ *
+ * Logic nghiệp vụ:
+ * - Thông báo do job nền sinh ra qua dispatch(), user chỉ đọc / đánh dấu đã đọc
+ * - Mỗi thông báo có dedupeKey unique theo user => job chạy lại không sinh trùng
+ * - User chọn kênh nhận (in_app / email / webhook) theo từng loại thông báo; chưa cài đặt => chỉ in_app
+ * - Notification center chỉ hiện thông báo đã gửi qua kênh in_app (inAppAt != null)
+ * - Gửi lỗi ở 1 kênh không ảnh hưởng kênh khác, không gửi lại (chỉ log)
+ * - Xoá hẳn khoản vay => xoá thông báo liên quan (cascade)
+ */
+import { randomBytes } from 'crypto';
+import { NotificationType, Prisma } from '@prisma/client';
+import { prisma } from '../../db/prisma';
+import { logger } from '../../config/logger';
+import { paginate } from '../../utils/pagination';
+import { getChannels, NotificationChannelName, NotificationRecipient } from '../../notifications/channel';
+import {
+  NOTIFICATION_TYPES,
+  GetNotificationsQuery,
+  UpdateNotificationPreferencesData,
+  UpsertNotificationWebhookData
+} from './notification.schema';
+
+// Thông báo cần gửi (job nền tạo ra)
+export interface NotificationInput {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  data?: Prisma.InputJsonValue;
+  // Unique theo user, VD: loan:<id>:<ngày đến hạn>:-3
+  dedupeKey: string;
+  loanId?: string;
+}
+
+interface ChannelPreference {
+  inApp: boolean;
+  email: boolean;
+  webhook: boolean;
+}
+
+// Loại thông báo chưa cài đặt => chỉ hiện trong app
+const DEFAULT_PREFERENCE: ChannelPreference = { inApp: true, email: false, webhook: false };
+
+const CHANNEL_PREFERENCE: Record<NotificationChannelName, keyof ChannelPreference> = {
+  in_app: 'inApp',
+  email: 'email',
+  webhook: 'webhook'
+};
+
+const CHANNEL_SENT_AT: Record<NotificationChannelName, 'inAppAt' | 'emailSentAt' | 'webhookSentAt'> = {
+  in_app: 'inAppAt',
+  email: 'emailSentAt',
+  webhook: 'webhookSentAt'
+};
+
+// Chỉ thông báo đã gửi qua kênh in_app mới hiện trong notification center
+const inAppWhere = (userId: string): Prisma.NotificationWhereInput => ({ userId, inAppAt: { not: null } });
+
+// Secret ký webhook (HMAC-SHA256)
+const generateWebhookSecret = () => randomBytes(32).toString('hex');
+
+async function getPreferences(userId: string) {
+  const rows = await prisma.notificationPreference.findMany({
+    where: { userId }
+  });
+  const byType = new Map(rows.map((row) => [row.type, row]));
+
+  return NOTIFICATION_TYPES.map((type) => {
+    const row = byType.get(type);
+    return {
+      type,
+      inApp: row?.inApp ?? DEFAULT_PREFERENCE.inApp,
+      email: row?.email ?? DEFAULT_PREFERENCE.email,
+      webhook: row?.webhook ?? DEFAULT_PREFERENCE.webhook
+    };
+  });
+}
+
+/**
+ * Người nhận + kênh đã chọn theo loại thông báo (null nếu user không còn tồn tại)
+ */
+async function loadRecipient(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      email: true,
+      name: true,
+      notificationWebhook: { select: { url: true, secret: true } }
+    }
+  });
+  if (!user) return null;
+
+  const recipient: NotificationRecipient = {
+    userId,
+    email: user.email,
+    name: user.name,
+    webhook: user.notificationWebhook
+  };
+  const preferences = new Map((await getPreferences(userId)).map((p) => [p.type, p]));
+
+  return { recipient, preferences };
+}
+
+export const NotificationService = {
+  /**
+   * Danh sách thông báo của user (mới nhất trước) kèm số thông báo chưa đọc
+   *
+   * @throws Error('INVALID_CURSOR') nếu cursor không hợp lệ
+   */
+  async getNotifications(userId: string, filters: Partial<GetNotificationsQuery> = {}) {
+    const { type, unreadOnly = false, limit = 50, cursor, offset, includeTotal } = filters;
+
+    const where = inAppWhere(userId);
+    if (type) where.type = type;
+    if (unreadOnly) where.readAt = null;
+
+    const { items: notifications, pagination } = await paginate(
+      { limit, cursor, offset, includeTotal },
+      [
+        { field: 'createdAt', direction: 'desc' },
+        { field: 'id', direction: 'desc' }
+      ],
+      (page) => prisma.notification.findMany({
+        where: { AND: [where, page.where] },
+        orderBy: page.orderBy,
+        take: page.take,
+        skip: page.skip
+      }),
+      () => prisma.notification.count({ where })
+    );
+
+    const unreadCount = await prisma.notification.count({
+      where: { ...inAppWhere(userId), readAt: null }
+    });
+
+    return {
+      notifications,
+      unreadCount,
+      pagination
+    };
+  },
+
+  /**
+   * Số thông báo chưa đọc (badge của notification center)
+   */
+  async getUnreadCount(userId: string) {
+    const unreadCount = await prisma.notification.count({
+      where: { ...inAppWhere(userId), readAt: null }
+    });
+
+    return { unreadCount };
+  },
+
+  /**
+   * Đánh dấu 1 thông báo đã đọc (đã đọc rồi thì giữ nguyên thời điểm đọc)
+   *
+   * @throws Error('NOTIFICATION_NOT_FOUND') nếu thông báo không thuộc user
+   */
+  async markAsRead(notificationId: string, userId: string) {
+    const notification = await prisma.notification.findFirst({
+      where: { ...inAppWhere(userId), id: notificationId }
+    });
+
+    if (!notification) {
+      throw new Error('NOTIFICATION_NOT_FOUND');
+    }
+    if (notification.readAt) {
+      return notification;
+    }
+
+    return await prisma.notification.update({
+      where: { id: notificationId },
+      data: { readAt: new Date() }
+    });
+  },
+
+  /**
+   * Đánh dấu mọi thông báo chưa đọc của user là đã đọc
+   *
+   * @returns Số thông báo đã cập nhật
+   */
+  async markAllAsRead(userId: string) {
+    const result = await prisma.notification.updateMany({
+      where: { ...inAppWhere(userId), readAt: null },
+      data: { readAt: new Date() }
+    });
+
+    return { updated: result.count };
+  },
+
+  /**
+   * Kênh nhận của mọi loại thông báo (loại chưa cài đặt => giá trị mặc định)
+   */
+  async getPreferences(userId: string) {
+    return { preferences: await getPreferences(userId) };
+  },
+
+  /**
+   * Cập nhật kênh nhận theo loại thông báo (field bỏ trống => giữ nguyên)
+   *
+   * @returns Kênh nhận của mọi loại thông báo sau cập nhật
+   */
+  async updatePreferences(userId: string, data: UpdateNotificationPreferencesData) {
+    await prisma.$transaction(data.preferences.map(({ type, ...channels }) =>
+      prisma.notificationPreference.upsert({
+        where: { userId_type: { userId, type } },
+        create: { userId, type, ...DEFAULT_PREFERENCE, ...channels },
+        update: channels
+      })
+    ));
+
+    return { preferences: await getPreferences(userId) };
+  },
+
+  /**
+   * Webhook nhận thông báo của user (null nếu chưa cấu hình)
+   */
+  async getWebhook(userId: string) {
+    const webhook = await prisma.notificationWebhook.findUnique({
+      where: { userId }
+    });
+
+    return { webhook };
+  },
+
+  /**
+   * Cấu hình webhook nhận thông báo; secret ký sinh khi tạo mới hoặc khi rotateSecret
+   * Bật kênh webhook cho từng loại thông báo qua updatePreferences
+   */
+  async upsertWebhook(userId: string, data: UpsertNotificationWebhookData) {
+    const webhook = await prisma.notificationWebhook.upsert({
+      where: { userId },
+      create: { userId, url: data.url, secret: generateWebhookSecret() },
+      update: {
+        url: data.url,
+        ...(data.rotateSecret ? { secret: generateWebhookSecret() } : {})
+      }
+    });
+
+    return { webhook };
+  },
+
+  /**
+   * Xoá webhook nhận thông báo (kênh webhook ngừng gửi)
+   *
+   * @throws Error('NOTIFICATION_WEBHOOK_NOT_FOUND') nếu chưa cấu hình webhook
+   */
+  async deleteWebhook(userId: string) {
+    const webhook = await prisma.notificationWebhook.findUnique({
+      where: { userId }
+    });
+
+    if (!webhook) {
+      throw new Error('NOTIFICATION_WEBHOOK_NOT_FOUND');
+    }
+
+    return await prisma.notificationWebhook.delete({
+      where: { userId }
+    });
+  },
+
+  /**
+   * Ghi thông báo và gửi qua các kênh user đã chọn cho loại thông báo đó
+   * - Trùng dedupeKey (đã sinh ở lần chạy trước) => bỏ qua
+   * - Gửi thành công => ghi thời điểm gửi theo kênh (inAppAt / emailSentAt / webhookSentAt)
+   * - Gửi lỗi => log cảnh báo, không chặn kênh / thông báo khác
+   *
+   * @returns Số thông báo mới, số lượt gửi thành công / lỗi
+   */
+  async dispatch(inputs: NotificationInput[]) {
+    const recipients = new Map<string, Awaited<ReturnType<typeof loadRecipient>>>();
+    let created = 0;
+    let delivered = 0;
+    let failed = 0;
+
+    for (const input of inputs) {
+      if (!recipients.has(input.userId)) {
+        recipients.set(input.userId, await loadRecipient(input.userId));
+      }
+      const target = recipients.get(input.userId);
+      if (!target) continue;
+
+      let notification;
+      try {
+        notification = await prisma.notification.create({ data: input });
+      } catch (e: any) {
+        if (e instanceof Prisma.PrismaClientKnownRequestError && e.code === 'P2002') continue;
+        throw e;
+      }
+      created++;
+
+      const preference = target.preferences.get(input.type) ?? DEFAULT_PREFERENCE;
+      const sentAt: Prisma.NotificationUpdateInput = {};
+      for (const channel of getChannels()) {
+        if (!preference[CHANNEL_PREFERENCE[channel.name]] || !channel.isAvailable(target.recipient)) continue;
+
+        try {
+          await channel.deliver(notification, target.recipient);
+          sentAt[CHANNEL_SENT_AT[channel.name]] = new Date();
+          delivered++;
+        } catch (err) {
+          failed++;
+          logger.warn({ err, notificationId: notification.id, channel: channel.name }, 'Failed to deliver notification');
+        }
+      }
+
+      if (Object.keys(sentAt).length > 0) {
+        await prisma.notification.update({
+          where: { id: notification.id },
+          data: sentAt
+        });
+      }
+    }
+
+    return { notifications: created, delivered, failed };
+  }
+};
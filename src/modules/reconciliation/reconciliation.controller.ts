@@ -0,0 +1,232 @@
+/**
+ * Reconciliation Controller
+ * File này xử lý HTTP requests/responses cho phiên đối chiếu sao kê ngân hàng
+ * Controller layer - chỉ xử lý HTTP, business logic nằm ở Service layer
+ */
+import { Request, Response } from 'express';
+import { ReconciliationService } from './reconciliation.service';
+import { handleError, handleValidationError } from '../../utils/error-handler';
+import { getReconciliationsQuerySchema } from './reconciliation.schema';
+
+// Create module-specific error handler
+const handleReconciliationError = (error: any, res: Response) =>
+  handleError(error, res, 'Reconciliation');
+
+export const ReconciliationController = {
+  /**
+   * @swagger
+   * /reconciliations:
+   *   post:
+   *     tags:
+   *       - Reconciliations
+   *     summary: Tạo phiên đối chiếu sao kê ngân hàng cho 1 ví
+   *     description: |
+   *       Nhập ngày chốt và số dư cuối kỳ trên sao kê, sau đó đánh dấu cleared các giao dịch có trên sao kê
+   *       (POST /reconciliations/{id}/clear). Khi difference = 0 thì khoá phiên (POST /reconciliations/{id}/lock);
+   *       giao dịch cleared của phiên đã khoá không sửa/xoá được cho tới khi unlock.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - walletId
+   *               - statementDate
+   *               - statementBalance
+   *             properties:
+   *               walletId:
+   *                 type: string
+   *                 format: uuid
+   *               statementDate:
+   *                 type: string
+   *                 format: date-time
+   *                 description: Ngày chốt sao kê (giao dịch sau ngày này không cleared được)
+   *               statementBalance:
+   *                 type: number
+   *                 description: Số dư cuối kỳ trên sao kê (theo tiền tệ của ví)
+   *               note:
+   *                 type: string
+   *     responses:
+   *       201:
+   *         description: Phiên kèm summary (clearedBalance, difference), giao dịch cleared và chưa cleared
+   *       400:
+   *         description: Dữ liệu không hợp lệ hoặc ngày chốt trước phiên đã khoá gần nhất
+   *       404:
+   *         description: Ví không tồn tại
+   *       409:
+   *         description: Ví đang có phiên chưa khoá
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async createSession(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const session = await ReconciliationService.createSession(req.body, userId);
+      return res.status(201).json({
+        message: 'Reconciliation session created successfully',
+        session
+      });
+    } catch (e: any) {
+      return handleReconciliationError(e, res);
+    }
+  },
+
+  /**
+   * Lấy danh sách phiên đối chiếu
+   * GET /api/reconciliations?walletId=&status=
+   */
+  async getSessions(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const parsed = getReconciliationsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
+
+      const result = await ReconciliationService.getSessions(userId, parsed.data);
+      return res.status(200).json({
+        message: 'Reconciliation sessions retrieved successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleReconciliationError(e, res);
+    }
+  },
+
+  /**
+   * Chi tiết phiên đối chiếu
+   * GET /api/reconciliations/:id
+   */
+  async getSession(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const session = await ReconciliationService.getSessionById(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Reconciliation session retrieved successfully',
+        session
+      });
+    } catch (e: any) {
+      return handleReconciliationError(e, res);
+    }
+  },
+
+  /**
+   * Cập nhật ngày chốt / số dư sao kê / ghi chú (phiên chưa khoá)
+   * PUT /api/reconciliations/:id
+   */
+  async updateSession(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const session = await ReconciliationService.updateSession(req.params.id, userId, req.body);
+      return res.status(200).json({
+        message: 'Reconciliation session updated successfully',
+        session
+      });
+    } catch (e: any) {
+      return handleReconciliationError(e, res);
+    }
+  },
+
+  /**
+   * Đánh dấu / bỏ đánh dấu cleared các giao dịch
+   * POST /api/reconciliations/:id/clear
+   */
+  async setCleared(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const session = await ReconciliationService.setCleared(req.params.id, userId, req.body);
+      return res.status(200).json({
+        message: 'Cleared transactions updated successfully',
+        session
+      });
+    } catch (e: any) {
+      return handleReconciliationError(e, res);
+    }
+  },
+
+  /**
+   * Khoá phiên (số dư cleared phải khớp sao kê)
+   * POST /api/reconciliations/:id/lock
+   */
+  async lockSession(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const session = await ReconciliationService.lockSession(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Reconciliation session locked successfully',
+        session
+      });
+    } catch (e: any) {
+      return handleReconciliationError(e, res);
+    }
+  },
+
+  /**
+   * Mở khoá phiên mới nhất của ví
+   * POST /api/reconciliations/:id/unlock
+   */
+  async unlockSession(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const session = await ReconciliationService.unlockSession(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Reconciliation session unlocked successfully',
+        session
+      });
+    } catch (e: any) {
+      return handleReconciliationError(e, res);
+    }
+  },
+
+  /**
+   * Xoá phiên chưa khoá
+   * DELETE /api/reconciliations/:id
+   */
+  async deleteSession(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const session = await ReconciliationService.deleteSession(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Reconciliation session deleted successfully',
+        session
+      });
+    } catch (e: any) {
+      return handleReconciliationError(e, res);
+    }
+  }
+};
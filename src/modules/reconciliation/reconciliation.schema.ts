@@ -0,0 +1,50 @@
+// Schema validation cho Reconciliation APIs
+// Sử dụng Zod để validate request body/query cho phiên đối chiếu sao kê ngân hàng
+import { z } from 'zod';
+
+const dateValue = z.string().refine((val) => !isNaN(Date.parse(val)), {
+  message: 'Ngày không hợp lệ'
+}).transform((val) => new Date(val));
+
+const statementBalance = z.number().refine(
+  (val) => Number(val.toFixed(2)) === val,
+  'statementBalance chỉ được phép 2 số thập phân'
+);
+
+// Schema cho tạo phiên đối chiếu
+export const createReconciliationSchema = z.object({
+  walletId: z.string().uuid('walletId phải là UUID hợp lệ'),
+  // Ngày chốt sao kê: giao dịch có transactionDate <= statementDate mới được đánh dấu cleared
+  statementDate: dateValue,
+  statementBalance,
+  note: z.string().max(1000).optional()
+});
+
+// Schema cho cập nhật phiên đối chiếu (chỉ khi phiên còn open)
+export const updateReconciliationSchema = z.object({
+  statementDate: dateValue.optional(),
+  statementBalance: statementBalance.optional(),
+  note: z.string().max(1000).nullable().optional()
+});
+
+// Schema cho đánh dấu / bỏ đánh dấu cleared
+export const clearTransactionsSchema = z.object({
+  transactionIds: z.array(z.string().uuid('transactionId phải là UUID hợp lệ'))
+    .min(1, 'transactionIds không được rỗng')
+    .max(500, 'Tối đa 500 giao dịch mỗi lần'),
+  cleared: z.boolean().default(true)
+});
+
+// Schema cho query parameters danh sách phiên đối chiếu
+export const getReconciliationsQuerySchema = z.object({
+  walletId: z.string().uuid().optional(),
+  status: z.enum(['open', 'locked']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+// Type definitions cho TypeScript
+export type CreateReconciliationData = z.infer<typeof createReconciliationSchema>;
+export type UpdateReconciliationData = z.infer<typeof updateReconciliationSchema>;
+export type ClearTransactionsData = z.infer<typeof clearTransactionsSchema>;
+export type GetReconciliationsQuery = z.infer<typeof getReconciliationsQuerySchema>;
@@ -0,0 +1,434 @@
+/**
+ * Reconciliation Service
+ * File này chứa business logic cho đối chiếu ví với sao kê ngân hàng
+ * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
+ *
+ * Logic nghiệp vụ:
+ * - Mỗi phiên gắn 1 ví, có ngày chốt (statementDate) và số dư cuối kỳ trên sao kê (statementBalance)
+ * - User đánh dấu cleared các giao dịch đã xuất hiện trên sao kê (lưu ở entry của ví => transfer chỉ cleared phía ví này)
+ * - clearedBalance = openingBalance + tổng entry cleared của các phiên từ trước tới phiên hiện tại
+ * - difference = statementBalance - clearedBalance; chỉ khoá được phiên khi difference = 0
+ * - Phiên locked: giao dịch cleared không sửa/xoá được qua updateTransaction/deleteTransaction cho tới khi unlock
+ * - Mỗi ví tối đa 1 phiên open; chỉ unlock được phiên mới nhất của ví
+ * - Khoá phiên / đánh dấu cleared / sửa xoá giao dịch cleared đều khoá dòng phiên trong DB transaction
+ *   => phiên đã khoá luôn khớp số dư, không bị đổi giao dịch sau khi khoá
+ */
+import { Prisma, ReconciliationSession } from '@prisma/client';
+import { prisma } from '../../db/prisma';
+import { roundMoney } from '../../utils/currency';
+import {
+  CreateReconciliationData,
+  UpdateReconciliationData,
+  ClearTransactionsData,
+  GetReconciliationsQuery
+} from './reconciliation.schema';
+
+const entrySelect = {
+  id: true,
+  direction: true,
+  amount: true,
+  transaction: {
+    select: {
+      id: true,
+      type: true,
+      transactionDate: true,
+      amount: true,
+      note: true,
+      category: { select: { id: true, name: true, icon: true } }
+    }
+  }
+} as const;
+
+async function getSession(sessionId: string, userId: string) {
+  const session = await prisma.reconciliationSession.findFirst({
+    where: { id: sessionId, userId },
+    include: {
+      wallet: { select: { id: true, name: true, currency: true, openingBalance: true } }
+    }
+  });
+
+  if (!session) {
+    throw new Error('RECONCILIATION_NOT_FOUND');
+  }
+
+  return session;
+}
+
+async function getOpenSession(sessionId: string, userId: string) {
+  const session = await getSession(sessionId, userId);
+  if (session.status !== 'open') {
+    throw new Error('RECONCILIATION_NOT_OPEN');
+  }
+  return session;
+}
+
+/**
+ * statementDate không được trước ngày chốt của phiên đã khoá gần nhất (khác phiên hiện tại)
+ */
+async function assertStatementDateAfterLast(walletId: string, statementDate: Date, excludeSessionId?: string) {
+  const last = await prisma.reconciliationSession.findFirst({
+    where: {
+      walletId,
+      status: 'locked',
+      ...(excludeSessionId ? { id: { not: excludeSessionId } } : {})
+    },
+    orderBy: { statementDate: 'desc' },
+    select: { statementDate: true }
+  });
+
+  if (last && statementDate.getTime() < last.statementDate.getTime()) {
+    throw new Error('RECONCILIATION_DATE_BEFORE_LAST');
+  }
+}
+
+/**
+ * Số dư cleared tính tới phiên `session` (gồm các phiên tạo trước nó)
+ */
+async function getClearedBalance(
+  session: Pick<ReconciliationSession, 'walletId' | 'createdAt'>,
+  openingBalance: number,
+  client: Prisma.TransactionClient = prisma
+) {
+  const sums = await client.transactionEntry.groupBy({
+    by: ['direction'],
+    where: {
+      walletId: session.walletId,
+      transaction: { deletedAt: null },
+      reconciliationSession: { createdAt: { lte: session.createdAt } }
+    },
+    _sum: { amount: true }
+  });
+
+  let balance = openingBalance;
+  for (const row of sums) {
+    const amount = row._sum.amount?.toNumber() ?? 0;
+    balance += row.direction === 'in' ? amount : -amount;
+  }
+  return roundMoney(balance);
+}
+
+/**
+ * Tổng hợp phiên: clearedBalance, difference, số giao dịch cleared trong phiên
+ */
+async function buildSummary(session: Awaited<ReturnType<typeof getSession>>, client: Prisma.TransactionClient = prisma) {
+  const clearedBalance = await getClearedBalance(session, session.wallet.openingBalance.toNumber(), client);
+  const statementBalance = session.statementBalance.toNumber();
+  const clearedCount = await client.transactionEntry.count({
+    where: { reconciliationSessionId: session.id, transaction: { deletedAt: null } }
+  });
+
+  return {
+    statementBalance,
+    clearedBalance,
+    difference: roundMoney(statementBalance - clearedBalance),
+    clearedCount
+  };
+}
+
+/**
+ * Khoá dòng phiên open (UPDATE không đổi dữ liệu) để thao tác đồng thời trên cùng phiên phải chờ nhau
+ * @returns false nếu phiên không còn open
+ */
+async function lockOpenSession(tx: Prisma.TransactionClient, sessionId: string) {
+  const { count } = await tx.reconciliationSession.updateMany({
+    where: { id: sessionId, status: 'open' },
+    data: { status: 'open' }
+  });
+  return count > 0;
+}
+
+/**
+ * Kiểm tra lại trong DB transaction sửa / xoá giao dịch: entry cleared không thuộc phiên đã khoá
+ * Phiên open được khoá dòng tới hết transaction => lockSession đồng thời phải chờ và tính lại số dư sau thay đổi
+ *
+ * @throws Error('TRANSACTION_LOCKED_BY_RECONCILIATION') nếu giao dịch thuộc phiên đã khoá
+ */
+export async function assertTransactionsNotReconciled(tx: Prisma.TransactionClient, transactionIds: string[]) {
+  const entries = await tx.transactionEntry.findMany({
+    where: { transactionId: { in: transactionIds }, reconciliationSessionId: { not: null } },
+    select: { reconciliationSessionId: true }
+  });
+
+  for (const sessionId of new Set(entries.map((e) => e.reconciliationSessionId!))) {
+    if (!(await lockOpenSession(tx, sessionId))) {
+      throw new Error('TRANSACTION_LOCKED_BY_RECONCILIATION');
+    }
+  }
+}
+
+export const ReconciliationService = {
+  /**
+   * Tạo phiên đối chiếu cho 1 ví
+   *
+   * @throws Error('WALLET_NOT_FOUND') nếu ví không thuộc user
+   * @throws Error('RECONCILIATION_ALREADY_OPEN') nếu ví đang có phiên open
+   * @throws Error('RECONCILIATION_DATE_BEFORE_LAST') nếu ngày chốt trước phiên đã khoá gần nhất
+   */
+  async createSession(data: CreateReconciliationData, userId: string) {
+    const wallet = await prisma.wallet.findFirst({
+      where: { id: data.walletId, userId },
+      select: { id: true }
+    });
+    if (!wallet) {
+      throw new Error('WALLET_NOT_FOUND');
+    }
+
+    const openSession = await prisma.reconciliationSession.findFirst({
+      where: { walletId: data.walletId, status: 'open' },
+      select: { id: true }
+    });
+    if (openSession) {
+      throw new Error('RECONCILIATION_ALREADY_OPEN');
+    }
+
+    await assertStatementDateAfterLast(data.walletId, data.statementDate);
+
+    const session = await prisma.reconciliationSession.create({
+      data: {
+        userId,
+        walletId: data.walletId,
+        statementDate: data.statementDate,
+        statementBalance: data.statementBalance,
+        note: data.note
+      }
+    });
+
+    return await ReconciliationService.getSessionById(session.id, userId);
+  },
+
+  /**
+   * Lấy danh sách phiên đối chiếu của user
+   */
+  async getSessions(userId: string, filters: Partial<GetReconciliationsQuery> = {}) {
+    const { walletId, status, limit = 20, offset = 0 } = filters;
+
+    const where: any = { userId };
+    if (walletId) where.walletId = walletId;
+    if (status) where.status = status;
+
+    const sessions = await prisma.reconciliationSession.findMany({
+      where,
+      include: {
+        wallet: { select: { id: true, name: true, currency: true } },
+        _count: { select: { entries: true } }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      skip: offset
+    });
+
+    const total = await prisma.reconciliationSession.count({ where });
+
+    return {
+      sessions,
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total
+      }
+    };
+  },
+
+  /**
+   * Chi tiết phiên: tổng hợp, giao dịch đã cleared, và (khi phiên open) giao dịch chưa cleared tới ngày chốt
+   *
+   * @throws Error('RECONCILIATION_NOT_FOUND') nếu phiên không tồn tại
+   */
+  async getSessionById(sessionId: string, userId: string) {
+    const session = await getSession(sessionId, userId);
+    const { openingBalance, ...wallet } = session.wallet;
+
+    const [summary, cleared, uncleared] = await Promise.all([
+      buildSummary(session),
+      prisma.transactionEntry.findMany({
+        where: { reconciliationSessionId: session.id, transaction: { deletedAt: null } },
+        select: entrySelect,
+        orderBy: { transaction: { transactionDate: 'asc' } }
+      }),
+      session.status === 'open'
+        ? prisma.transactionEntry.findMany({
+          where: {
+            walletId: session.walletId,
+            reconciliationSessionId: null,
+            transaction: { deletedAt: null, transactionDate: { lte: session.statementDate } }
+          },
+          select: entrySelect,
+          orderBy: { transaction: { transactionDate: 'asc' } }
+        })
+        : Promise.resolve([])
+    ]);
+
+    return {
+      ...session,
+      wallet: { ...wallet, openingBalance: openingBalance.toNumber() },
+      summary,
+      cleared,
+      uncleared
+    };
+  },
+
+  /**
+   * Cập nhật ngày chốt / số dư sao kê / ghi chú của phiên open
+   * Lùi ngày chốt => bỏ cleared các giao dịch sau ngày chốt mới
+   *
+   * @throws Error('RECONCILIATION_NOT_OPEN') nếu phiên đã khoá
+   * @throws Error('RECONCILIATION_DATE_BEFORE_LAST') nếu ngày chốt trước phiên đã khoá gần nhất
+   */
+  async updateSession(sessionId: string, userId: string, data: UpdateReconciliationData) {
+    const session = await getOpenSession(sessionId, userId);
+
+    if (data.statementDate) {
+      await assertStatementDateAfterLast(session.walletId, data.statementDate, session.id);
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.reconciliationSession.update({
+        where: { id: sessionId },
+        data: {
+          statementDate: data.statementDate,
+          statementBalance: data.statementBalance,
+          note: data.note
+        }
+      });
+
+      if (data.statementDate) {
+        await tx.transactionEntry.updateMany({
+          where: {
+            reconciliationSessionId: sessionId,
+            transaction: { transactionDate: { gt: data.statementDate } }
+          },
+          data: { reconciliationSessionId: null }
+        });
+      }
+    });
+
+    return await ReconciliationService.getSessionById(sessionId, userId);
+  },
+
+  /**
+   * Đánh dấu / bỏ đánh dấu cleared cho các giao dịch của ví trong phiên open
+   *
+   * @throws Error('RECONCILIATION_NOT_OPEN') nếu phiên đã khoá
+   * @throws Error('RECONCILIATION_TRANSACTION_INVALID') nếu giao dịch không thuộc ví, đã xoá,
+   *   sau ngày chốt hoặc đã cleared ở phiên khác
+   */
+  async setCleared(sessionId: string, userId: string, data: ClearTransactionsData) {
+    const session = await getOpenSession(sessionId, userId);
+    const transactionIds = Array.from(new Set(data.transactionIds));
+
+    const entries = await prisma.transactionEntry.findMany({
+      where: {
+        walletId: session.walletId,
+        transactionId: { in: transactionIds },
+        transaction: { userId, deletedAt: null }
+      },
+      select: {
+        id: true,
+        transactionId: true,
+        reconciliationSessionId: true,
+        transaction: { select: { transactionDate: true } }
+      }
+    });
+
+    if (new Set(entries.map((e) => e.transactionId)).size !== transactionIds.length) {
+      throw new Error('RECONCILIATION_TRANSACTION_INVALID');
+    }
+    const inOtherSession = entries.some((e) => e.reconciliationSessionId && e.reconciliationSessionId !== session.id);
+    const afterStatement = data.cleared
+      && entries.some((e) => e.transaction.transactionDate.getTime() > session.statementDate.getTime());
+    if (inOtherSession || afterStatement) {
+      throw new Error('RECONCILIATION_TRANSACTION_INVALID');
+    }
+
+    await prisma.$transaction(async (tx) => {
+      // Phiên có thể vừa bị khoá bởi request khác => kiểm tra lại trong transaction
+      if (!(await lockOpenSession(tx, session.id))) {
+        throw new Error('RECONCILIATION_NOT_OPEN');
+      }
+
+      await tx.transactionEntry.updateMany({
+        where: { id: { in: entries.map((e) => e.id) } },
+        data: { reconciliationSessionId: data.cleared ? session.id : null }
+      });
+    });
+
+    return await ReconciliationService.getSessionById(sessionId, userId);
+  },
+
+  /**
+   * Khoá phiên khi số dư cleared khớp số dư sao kê
+   *
+   * @throws Error('RECONCILIATION_NOT_OPEN') nếu phiên đã khoá
+   * @throws Error('RECONCILIATION_NOT_BALANCED') nếu difference khác 0
+   */
+  async lockSession(sessionId: string, userId: string) {
+    const session = await getOpenSession(sessionId, userId);
+
+    await prisma.$transaction(async (tx) => {
+      // Chốt trạng thái trước (khoá dòng phiên), sau đó mới tính số dư => không lẫn thay đổi đồng thời
+      const claimed = await tx.reconciliationSession.updateMany({
+        where: { id: sessionId, userId, status: 'open' },
+        data: { status: 'locked', lockedAt: new Date() }
+      });
+      if (claimed.count === 0) {
+        throw new Error('RECONCILIATION_NOT_OPEN');
+      }
+
+      const summary = await buildSummary(session, tx);
+      if (summary.difference !== 0) {
+        throw new Error('RECONCILIATION_NOT_BALANCED');
+      }
+    });
+
+    return await ReconciliationService.getSessionById(sessionId, userId);
+  },
+
+  /**
+   * Mở khoá phiên (cho phép sửa/xoá lại các giao dịch đã cleared)
+   *
+   * @throws Error('RECONCILIATION_NOT_LOCKED') nếu phiên chưa khoá
+   * @throws Error('RECONCILIATION_NOT_LATEST') nếu ví đã có phiên mới hơn
+   */
+  async unlockSession(sessionId: string, userId: string) {
+    const session = await getSession(sessionId, userId);
+    if (session.status !== 'locked') {
+      throw new Error('RECONCILIATION_NOT_LOCKED');
+    }
+
+    const newer = await prisma.reconciliationSession.findFirst({
+      where: { walletId: session.walletId, createdAt: { gt: session.createdAt } },
+      select: { id: true }
+    });
+    if (newer) {
+      throw new Error('RECONCILIATION_NOT_LATEST');
+    }
+
+    await prisma.reconciliationSession.update({
+      where: { id: sessionId },
+      data: { status: 'open', lockedAt: null }
+    });
+
+    return await ReconciliationService.getSessionById(sessionId, userId);
+  },
+
+  /**
+   * Xoá phiên open (bỏ cleared toàn bộ giao dịch của phiên)
+   *
+   * @throws Error('RECONCILIATION_NOT_OPEN') nếu phiên đã khoá
+   */
+  async deleteSession(sessionId: string, userId: string) {
+    await getOpenSession(sessionId, userId);
+
+    return await prisma.$transaction(async (tx) => {
+      await tx.transactionEntry.updateMany({
+        where: { reconciliationSessionId: sessionId },
+        data: { reconciliationSessionId: null }
+      });
+
+      return await tx.reconciliationSession.delete({
+        where: { id: sessionId }
+      });
+    });
+  }
+};
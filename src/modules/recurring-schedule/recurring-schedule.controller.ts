@@ -0,0 +1,334 @@
+/**
+ * Recurring Schedule Controller
+ * File này xử lý HTTP requests/responses cho các lịch giao dịch định kỳ
+ * Controller layer - chỉ xử lý HTTP, business logic nằm ở Service layer
+ */
+import { Request, Response } from 'express';
+import { RecurringScheduleService } from './recurring-schedule.service';
+import { handleError, handleValidationError } from '../../utils/error-handler';
+import { getRecurringSchedulesQuerySchema, getUpcomingOccurrencesQuerySchema } from './recurring-schedule.schema';
+
+// Create module-specific error handler
+const handleRecurringError = (error: any, res: Response) =>
+  handleError(error, res, 'RecurringSchedule');
+
+export const RecurringScheduleController = {
+  /**
+   * @swagger
+   * /recurring-schedules:
+   *   post:
+   *     tags:
+   *       - Recurring Schedules
+   *     summary: Tạo lịch giao dịch định kỳ
+   *     description: Tạo lịch sinh giao dịch tự động từ transaction template (tiền nhà, lương, subscription...)
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - templateId
+   *               - frequency
+   *               - startDate
+   *             properties:
+   *               templateId:
+   *                 type: string
+   *                 format: uuid
+   *               toWalletId:
+   *                 type: string
+   *                 format: uuid
+   *                 description: Ví đích (bắt buộc với template transfer)
+   *               amount:
+   *                 type: number
+   *                 description: Override số tiền của template
+   *               frequency:
+   *                 type: string
+   *                 enum: [daily, weekly, monthly, yearly]
+   *               interval:
+   *                 type: integer
+   *                 minimum: 1
+   *                 default: 1
+   *                 description: Lặp mỗi N đơn vị frequency
+   *               startDate:
+   *                 type: string
+   *                 format: date-time
+   *               endDate:
+   *                 type: string
+   *                 format: date-time
+   *               maxOccurrences:
+   *                 type: integer
+   *                 minimum: 1
+   *     responses:
+   *       201:
+   *         description: Lịch được tạo thành công
+   *       400:
+   *         description: Dữ liệu không hợp lệ hoặc template thiếu thông tin
+   *       404:
+   *         description: Template hoặc ví không tồn tại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async createSchedule(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const schedule = await RecurringScheduleService.createSchedule(req.body, userId);
+      return res.status(201).json({
+        message: 'Recurring schedule created successfully',
+        schedule
+      });
+    } catch (e: any) {
+      return handleRecurringError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /recurring-schedules:
+   *   get:
+   *     tags:
+   *       - Recurring Schedules
+   *     summary: Lấy danh sách lịch định kỳ
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [active, paused, ended]
+   *       - in: query
+   *         name: templateId
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 100
+   *           default: 50
+   *       - in: query
+   *         name: offset
+   *         schema:
+   *           type: integer
+   *           minimum: 0
+   *           default: 0
+   *     responses:
+   *       200:
+   *         description: Danh sách lịch định kỳ
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async getSchedules(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const parsed = getRecurringSchedulesQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
+
+      const result = await RecurringScheduleService.getSchedules(userId, parsed.data);
+      return res.status(200).json({
+        message: 'Recurring schedules retrieved successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleRecurringError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /recurring-schedules/upcoming:
+   *   get:
+   *     tags:
+   *       - Recurring Schedules
+   *     summary: Các lần phát sinh sắp tới
+   *     description: Liệt kê các lần phát sinh của tất cả lịch active trong N ngày tới (kể cả lần quá hạn chưa xử lý)
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: days
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 366
+   *           default: 30
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 500
+   *           default: 100
+   *     responses:
+   *       200:
+   *         description: Danh sách lần phát sinh (status scheduled/skipped)
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async getUpcomingOccurrences(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const parsed = getUpcomingOccurrencesQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
+
+      const result = await RecurringScheduleService.getUpcomingOccurrences(userId, parsed.data);
+      return res.status(200).json({
+        message: 'Upcoming occurrences retrieved successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleRecurringError(e, res);
+    }
+  },
+
+  /**
+   * Lấy lịch định kỳ theo ID (kèm lịch sử và 5 lần phát sinh sắp tới)
+   * GET /api/recurring-schedules/:id
+   */
+  async getSchedule(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const schedule = await RecurringScheduleService.getScheduleById(req.params.id, userId);
+      if (!schedule) {
+        return res.status(404).json({ message: 'Recurring schedule not found' });
+      }
+
+      return res.status(200).json({
+        message: 'Recurring schedule retrieved successfully',
+        schedule
+      });
+    } catch (e: any) {
+      return handleRecurringError(e, res);
+    }
+  },
+
+  /**
+   * Cập nhật lịch định kỳ
+   * PUT /api/recurring-schedules/:id
+   */
+  async updateSchedule(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const schedule = await RecurringScheduleService.updateSchedule(req.params.id, userId, req.body);
+      return res.status(200).json({
+        message: 'Recurring schedule updated successfully',
+        schedule
+      });
+    } catch (e: any) {
+      return handleRecurringError(e, res);
+    }
+  },
+
+  /**
+   * Xóa lịch định kỳ (giao dịch đã sinh vẫn giữ nguyên)
+   * DELETE /api/recurring-schedules/:id
+   */
+  async deleteSchedule(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const schedule = await RecurringScheduleService.deleteSchedule(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Recurring schedule deleted successfully',
+        schedule
+      });
+    } catch (e: any) {
+      return handleRecurringError(e, res);
+    }
+  },
+
+  /**
+   * Tạm dừng lịch định kỳ
+   * POST /api/recurring-schedules/:id/pause
+   */
+  async pauseSchedule(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const schedule = await RecurringScheduleService.pauseSchedule(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Recurring schedule paused successfully',
+        schedule
+      });
+    } catch (e: any) {
+      return handleRecurringError(e, res);
+    }
+  },
+
+  /**
+   * Tiếp tục lịch định kỳ đã tạm dừng
+   * POST /api/recurring-schedules/:id/resume
+   */
+  async resumeSchedule(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const schedule = await RecurringScheduleService.resumeSchedule(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Recurring schedule resumed successfully',
+        schedule
+      });
+    } catch (e: any) {
+      return handleRecurringError(e, res);
+    }
+  },
+
+  /**
+   * Bỏ qua 1 lần phát sinh sắp tới
+   * POST /api/recurring-schedules/:id/skip
+   */
+  async skipOccurrence(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const occurrence = await RecurringScheduleService.skipOccurrence(req.params.id, userId, req.body);
+      return res.status(200).json({
+        message: 'Occurrence skipped successfully',
+        occurrence
+      });
+    } catch (e: any) {
+      return handleRecurringError(e, res);
+    }
+  }
+};
@@ -0,0 +1,70 @@
+// Schema validation cho Recurring Schedule APIs
+// Sử dụng Zod để validate request body/query cho lịch giao dịch định kỳ
+import { z } from 'zod';
+
+const dateString = (field: string) =>
+  z.string().refine((val) => !isNaN(Date.parse(val)), {
+    message: `${field} phải là ngày hợp lệ`
+  }).transform((val) => new Date(val));
+
+const amountSchema = z.number().positive('amount phải lớn hơn 0').refine(
+  (val) => Number(val.toFixed(2)) === val,
+  'amount chỉ được phép 2 số thập phân'
+);
+
+// Schema cho tạo lịch định kỳ
+export const createRecurringScheduleSchema = z.object({
+  templateId: z.string().uuid('templateId phải là UUID hợp lệ'),
+  // Chỉ dùng cho template transfer (template chỉ lưu ví nguồn)
+  toWalletId: z.string().uuid('toWalletId phải là UUID hợp lệ').optional(),
+  // Override amount của template
+  amount: amountSchema.optional(),
+  frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly'], {
+    message: 'frequency phải là daily, weekly, monthly hoặc yearly'
+  }),
+  interval: z.number().int().min(1, 'interval phải >= 1').max(365, 'interval không được quá 365').default(1),
+  startDate: dateString('startDate'),
+  endDate: dateString('endDate').optional(),
+  maxOccurrences: z.number().int().min(1, 'maxOccurrences phải >= 1').optional()
+}).refine(
+  (data) => !data.endDate || data.endDate.getTime() >= data.startDate.getTime(),
+  { message: 'endDate phải sau startDate', path: ['endDate'] }
+);
+
+// Schema cho cập nhật lịch định kỳ
+// Không cho đổi quy tắc lặp (frequency/interval/startDate) vì sẽ làm lệch index các lần đã xử lý
+export const updateRecurringScheduleSchema = z.object({
+  toWalletId: z.string().uuid('toWalletId phải là UUID hợp lệ').optional().nullable(),
+  amount: amountSchema.optional().nullable(),
+  endDate: dateString('endDate').optional().nullable(),
+  maxOccurrences: z.number().int().min(1, 'maxOccurrences phải >= 1').optional().nullable()
+}).refine(
+  (data) => Object.keys(data).length > 0,
+  'Phải cung cấp ít nhất một trường để cập nhật'
+);
+
+// Schema cho bỏ qua 1 lần phát sinh
+export const skipOccurrenceSchema = z.object({
+  occurrenceDate: dateString('occurrenceDate')
+});
+
+// Schema cho query parameters danh sách lịch
+export const getRecurringSchedulesQuerySchema = z.object({
+  status: z.enum(['active', 'paused', 'ended']).optional(),
+  templateId: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+// Schema cho query parameters danh sách lần phát sinh sắp tới
+export const getUpcomingOccurrencesQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(366).default(30),
+  limit: z.coerce.number().int().min(1).max(500).default(100)
+});
+
+// Type definitions cho TypeScript
+export type CreateRecurringScheduleData = z.infer<typeof createRecurringScheduleSchema>;
+export type UpdateRecurringScheduleData = z.infer<typeof updateRecurringScheduleSchema>;
+export type SkipOccurrenceData = z.infer<typeof skipOccurrenceSchema>;
+export type GetRecurringSchedulesQuery = z.infer<typeof getRecurringSchedulesQuerySchema>;
+export type GetUpcomingOccurrencesQuery = z.infer<typeof getUpcomingOccurrencesQuerySchema>;
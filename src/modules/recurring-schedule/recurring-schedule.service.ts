@@ -0,0 +1,661 @@
+/**
+ * Recurring Schedule Service
+ * File này chứa business logic cho lịch giao dịch định kỳ (tiền nhà, lương, subscription...)
+ * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
+ *
+ * Logic nghiệp vụ:
+ * - Mỗi lịch tham chiếu 1 TransactionTemplate (type/wallet/category/amount/note)
+ * - Job nền gọi processDueSchedules() để sinh giao dịch qua TransactionService.createTransaction
+ * - Catch-up: nếu server tắt nhiều ngày, lần chạy sau sẽ sinh bù tất cả lần phát sinh đã quá hạn
+ * - Idempotent: mỗi (scheduleId, occurrenceDate) chỉ có 1 RecurringOccurrence (unique)
+ *   => giữ chỗ occurrence trước rồi mới tạo giao dịch, chạy lại không bao giờ sinh trùng
+ * - Tạo giao dịch và đánh dấu posted trong cùng 1 DB transaction => failed luôn có nghĩa là chưa có giao dịch
+ * - Lần phát sinh lỗi (VD: không đủ số dư) được ghi failed và bỏ qua, không chặn các lần sau
+ * - Lần phát sinh kẹt ở pending (job dừng giữa chừng) quá STALE_PENDING_MS được job chạy lại
+ */
+import { Prisma, RecurringSchedule, TransactionTemplate } from '@prisma/client';
+import { prisma } from '../../db/prisma';
+import { logger } from '../../config/logger';
+import { TransactionService } from '../transaction/transaction.service';
+import { CreateTransactionData } from '../transaction/transaction.schema';
+import {
+  RecurrenceRule,
+  getOccurrenceDate,
+  isOccurrenceInRange,
+  findFirstIndexOnOrAfter,
+  listOccurrences
+} from '../../utils/recurrence';
+import {
+  CreateRecurringScheduleData,
+  UpdateRecurringScheduleData,
+  SkipOccurrenceData,
+  GetRecurringSchedulesQuery,
+  GetUpcomingOccurrencesQuery
+} from './recurring-schedule.schema';
+
+// Giới hạn số lần sinh bù cho 1 lịch trong 1 lần chạy job (tránh 1 lịch daily bị bỏ quên chiếm cả batch)
+const MAX_CATCH_UP_PER_RUN = 366;
+
+// Số lịch đến hạn xử lý mỗi lần chạy job
+const DUE_SCHEDULE_BATCH_SIZE = 100;
+
+// Occurrence pending lâu hơn mức này => job trước đã dừng giữa chừng (chưa tạo giao dịch), được xử lý lại
+const STALE_PENDING_MS = 10 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ScheduleWithTemplate = RecurringSchedule & { template: TransactionTemplate };
+
+/**
+ * Chuyển schedule sang RecurrenceRule để tính ngày phát sinh
+ */
+function toRule(schedule: Pick<RecurringSchedule, 'frequency' | 'interval' | 'startDate' | 'endDate' | 'maxOccurrences'>): RecurrenceRule {
+  return {
+    frequency: schedule.frequency,
+    interval: schedule.interval,
+    startDate: schedule.startDate,
+    endDate: schedule.endDate,
+    maxOccurrences: schedule.maxOccurrences
+  };
+}
+
+/**
+ * Tính nextRunDate/status khi lần phát sinh kế tiếp là `index`
+ * Hết lần phát sinh hợp lệ => ended
+ */
+function getNextState(rule: RecurrenceRule, index: number): { nextRunDate: Date | null; status: 'active' | 'ended' } {
+  const date = getOccurrenceDate(rule, index);
+  if (!isOccurrenceInRange(rule, index, date)) {
+    return { nextRunDate: null, status: 'ended' };
+  }
+  return { nextRunDate: date, status: 'active' };
+}
+
+/**
+ * Validate template thuộc user và đủ thông tin để sinh giao dịch
+ */
+async function validateTemplate(templateId: string, userId: string) {
+  const template = await prisma.transactionTemplate.findFirst({
+    where: { id: templateId, userId }
+  });
+  if (!template) {
+    throw new Error('TEMPLATE_NOT_FOUND');
+  }
+
+  // Template phải có ví; income/expense phải có category
+  if (!template.walletId || (template.type !== 'transfer' && !template.categoryId)) {
+    throw new Error('RECURRING_TEMPLATE_INCOMPLETE');
+  }
+
+  return template;
+}
+
+/**
+ * Validate wallet ownership
+ */
+async function validateWalletOwnership(walletId: string, userId: string) {
+  const wallet = await prisma.wallet.findFirst({
+    where: { id: walletId, userId, isArchived: false }
+  });
+  if (!wallet) {
+    throw new Error('WALLET_NOT_FOUND');
+  }
+  return wallet;
+}
+
+/**
+ * Validate cấu hình ví đích / amount theo template
+ */
+async function validateScheduleTarget(
+  template: TransactionTemplate,
+  userId: string,
+  toWalletId: string | null | undefined,
+  amount: number | null | undefined
+) {
+  if (amount == null && template.amount == null) {
+    throw new Error('RECURRING_AMOUNT_REQUIRED');
+  }
+
+  if (template.type === 'transfer') {
+    if (!toWalletId) {
+      throw new Error('RECURRING_TRANSFER_TARGET_REQUIRED');
+    }
+    if (toWalletId === template.walletId) {
+      throw new Error('SAME_WALLET_TRANSFER');
+    }
+    await validateWalletOwnership(toWalletId, userId);
+  }
+}
+
+/**
+ * Dựng payload cho TransactionService.createTransaction từ schedule + template
+ */
+function buildTransactionData(schedule: ScheduleWithTemplate, occurrenceDate: Date): CreateTransactionData {
+  const { template } = schedule;
+  const amount = (schedule.amount ?? template.amount)?.toNumber();
+
+  if (!template.walletId || amount === undefined) {
+    throw new Error('RECURRING_TEMPLATE_INCOMPLETE');
+  }
+
+  const base = {
+    transactionDate: occurrenceDate,
+    amount,
+    note: template.note || undefined
+  };
+
+  if (template.type === 'transfer') {
+    if (!schedule.toWalletId) {
+      throw new Error('RECURRING_TRANSFER_TARGET_REQUIRED');
+    }
+    return { ...base, type: 'transfer', fromWalletId: template.walletId, toWalletId: schedule.toWalletId };
+  }
+
+  if (!template.categoryId) {
+    throw new Error('RECURRING_TEMPLATE_INCOMPLETE');
+  }
+  return { ...base, type: template.type, walletId: template.walletId, categoryId: template.categoryId };
+}
+
+/**
+ * Tạo giao dịch cho occurrence đã giữ chỗ (pending)
+ * Giao dịch + trạng thái posted ghi trong cùng DB transaction: lỗi => không có giao dịch nào, occurrence chuyển failed
+ */
+async function postOccurrence(schedule: ScheduleWithTemplate, occurrenceId: string, occurrenceDate: Date) {
+  try {
+    await TransactionService.createTransaction(
+      buildTransactionData(schedule, occurrenceDate),
+      schedule.userId,
+      (tx, transactionId) => tx.recurringOccurrence.update({
+        where: { id: occurrenceId },
+        data: { status: 'posted', transactionId, errorCode: null }
+      })
+    );
+  } catch (e: any) {
+    const errorCode = String(e?.code ?? e?.message ?? 'INTERNAL_SERVER_ERROR').slice(0, 191);
+    logger.warn({ scheduleId: schedule.id, occurrenceDate, errorCode }, 'Recurring occurrence failed');
+    await prisma.recurringOccurrence.updateMany({
+      where: { id: occurrenceId, status: 'pending' },
+      data: { status: 'failed', errorCode }
+    });
+  }
+}
+
+/**
+ * Sinh 1 lần phát sinh
+ * 1) Giữ chỗ RecurringOccurrence (pending) - unique (scheduleId, occurrenceDate)
+ * 2) Tạo giao dịch + đánh dấu posted (hoặc failed nếu lỗi)
+ *
+ * @returns false nếu lần phát sinh này đã được xử lý trước đó (skipped hoặc job khác đã chạy)
+ */
+async function materializeOccurrence(schedule: ScheduleWithTemplate, occurrenceDate: Date) {
+  let occurrenceId: string;
+  try {
+    const occurrence = await prisma.recurringOccurrence.create({
+      data: {
+        scheduleId: schedule.id,
+        occurrenceDate,
+        status: 'pending'
+      }
+    });
+    occurrenceId = occurrence.id;
+  } catch (e: any) {
+    if (e instanceof Prisma.PrismaClientKnownRequestError && e.code === 'P2002') {
+      return false;
+    }
+    throw e;
+  }
+
+  await postOccurrence(schedule, occurrenceId, occurrenceDate);
+  return true;
+}
+
+/**
+ * Xử lý lại các occurrence kẹt ở pending (job trước dừng giữa lúc giữ chỗ và tạo giao dịch)
+ * Pending => chắc chắn chưa có giao dịch (tạo giao dịch và posted là 1 DB transaction) nên tạo lại an toàn
+ * Giữ chỗ lại bằng updatedAt để 2 job chạy song song không cùng xử lý 1 occurrence
+ *
+ * @returns Số occurrence đã xử lý lại
+ */
+async function retryStalePendingOccurrences(now: Date) {
+  const stale = await prisma.recurringOccurrence.findMany({
+    where: {
+      status: 'pending',
+      updatedAt: { lt: new Date(now.getTime() - STALE_PENDING_MS) }
+    },
+    include: { schedule: { include: { template: true } } },
+    orderBy: { updatedAt: 'asc' },
+    take: DUE_SCHEDULE_BATCH_SIZE
+  });
+
+  let retried = 0;
+  for (const occurrence of stale) {
+    // updateMany tự cập nhật updatedAt => job khác không còn thấy occurrence này là stale
+    const claimed = await prisma.recurringOccurrence.updateMany({
+      where: { id: occurrence.id, status: 'pending', updatedAt: occurrence.updatedAt },
+      data: { errorCode: null }
+    });
+    if (claimed.count === 0) continue;
+
+    logger.warn({ scheduleId: occurrence.scheduleId, occurrenceDate: occurrence.occurrenceDate }, 'Retrying stale recurring occurrence');
+    await postOccurrence(occurrence.schedule, occurrence.id, occurrence.occurrenceDate);
+    retried++;
+  }
+
+  return retried;
+}
+
+export const RecurringScheduleService = {
+  /**
+   * Tạo lịch định kỳ mới
+   *
+   * @param data - Dữ liệu lịch định kỳ đã validate
+   * @param userId - ID của user
+   * @returns RecurringSchedule object đã tạo
+   * @throws Error('TEMPLATE_NOT_FOUND') nếu template không tồn tại
+   * @throws Error('RECURRING_TEMPLATE_INCOMPLETE') nếu template thiếu ví/category
+   */
+  async createSchedule(data: CreateRecurringScheduleData, userId: string) {
+    const { templateId, toWalletId, amount, frequency, interval, startDate, endDate, maxOccurrences } = data;
+
+    const template = await validateTemplate(templateId, userId);
+    await validateScheduleTarget(template, userId, toWalletId, amount);
+
+    const rule = toRule({ frequency, interval, startDate, endDate: endDate ?? null, maxOccurrences: maxOccurrences ?? null });
+
+    return await prisma.recurringSchedule.create({
+      data: {
+        userId,
+        templateId,
+        toWalletId: template.type === 'transfer' ? toWalletId : null,
+        amount: amount ?? null,
+        frequency,
+        interval,
+        startDate,
+        endDate: endDate ?? null,
+        maxOccurrences: maxOccurrences ?? null,
+        ...getNextState(rule, 0)
+      },
+      include: {
+        template: true,
+        toWallet: true
+      }
+    });
+  },
+
+  /**
+   * Lấy danh sách lịch định kỳ của user
+   *
+   * @param userId - ID của user
+   * @param filters - Các filter tùy chọn
+   * @returns Danh sách lịch với pagination
+   */
+  async getSchedules(userId: string, filters: Partial<GetRecurringSchedulesQuery> = {}) {
+    const { status, templateId, limit = 50, offset = 0 } = filters;
+
+    const where: any = { userId };
+    if (status) where.status = status;
+    if (templateId) where.templateId = templateId;
+
+    const schedules = await prisma.recurringSchedule.findMany({
+      where,
+      include: {
+        template: true,
+        toWallet: true
+      },
+      orderBy: [
+        { status: 'asc' },       // active -> paused -> ended
+        { nextRunDate: 'asc' },  // Sắp đến hạn trước
+        { createdAt: 'desc' }
+      ],
+      take: limit,
+      skip: offset
+    });
+
+    const total = await prisma.recurringSchedule.count({ where });
+
+    return {
+      schedules,
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total
+      }
+    };
+  },
+
+  /**
+   * Lấy lịch định kỳ theo ID, kèm lịch sử gần nhất và 5 lần phát sinh sắp tới
+   *
+   * @param scheduleId - ID của lịch
+   * @param userId - ID của user (để verify ownership)
+   * @returns Schedule object hoặc null nếu không tìm thấy
+   */
+  async getScheduleById(scheduleId: string, userId: string) {
+    const schedule = await prisma.recurringSchedule.findFirst({
+      where: { id: scheduleId, userId },
+      include: {
+        template: true,
+        toWallet: true,
+        occurrences: {
+          include: { transaction: true },
+          orderBy: { occurrenceDate: 'desc' },
+          take: 20
+        }
+      }
+    });
+
+    if (!schedule) {
+      return null;
+    }
+
+    const upcoming = schedule.status === 'ended'
+      ? []
+      : listOccurrences(toRule(schedule), new Date(0), new Date(8640000000000000), {
+          startIndex: schedule.occurrenceCount,
+          limit: 5
+        }).map((o) => o.date);
+
+    return { ...schedule, upcoming };
+  },
+
+  /**
+   * Cập nhật lịch định kỳ (ví đích, amount, điều kiện kết thúc)
+   *
+   * @throws Error('RECURRING_SCHEDULE_NOT_FOUND') nếu lịch không tồn tại
+   */
+  async updateSchedule(scheduleId: string, userId: string, data: UpdateRecurringScheduleData) {
+    const existing = await prisma.recurringSchedule.findFirst({
+      where: { id: scheduleId, userId },
+      include: { template: true }
+    });
+
+    if (!existing) {
+      throw new Error('RECURRING_SCHEDULE_NOT_FOUND');
+    }
+
+    const toWalletId = data.toWalletId === undefined ? existing.toWalletId : data.toWalletId;
+    const amount = data.amount === undefined ? existing.amount?.toNumber() : data.amount;
+    await validateScheduleTarget(existing.template, userId, toWalletId, amount);
+
+    const endDate = data.endDate === undefined ? existing.endDate : data.endDate;
+    const maxOccurrences = data.maxOccurrences === undefined ? existing.maxOccurrences : data.maxOccurrences;
+
+    const updateData: any = {
+      toWalletId: existing.template.type === 'transfer' ? toWalletId : null,
+      amount: amount ?? null,
+      endDate,
+      maxOccurrences
+    };
+
+    // Điều kiện kết thúc thay đổi => tính lại nextRunDate/status (không mở lại lịch đang paused)
+    if (existing.status !== 'paused') {
+      const rule = toRule({ ...existing, endDate, maxOccurrences });
+      Object.assign(updateData, getNextState(rule, existing.occurrenceCount));
+    }
+
+    return await prisma.recurringSchedule.update({
+      where: { id: scheduleId },
+      data: updateData,
+      include: {
+        template: true,
+        toWallet: true
+      }
+    });
+  },
+
+  /**
+   * Xóa lịch định kỳ (hard delete)
+   * Các giao dịch đã sinh vẫn giữ nguyên
+   *
+   * @throws Error('RECURRING_SCHEDULE_NOT_FOUND') nếu lịch không tồn tại
+   */
+  async deleteSchedule(scheduleId: string, userId: string) {
+    const schedule = await prisma.recurringSchedule.findFirst({
+      where: { id: scheduleId, userId }
+    });
+
+    if (!schedule) {
+      throw new Error('RECURRING_SCHEDULE_NOT_FOUND');
+    }
+
+    await prisma.recurringSchedule.delete({
+      where: { id: scheduleId }
+    });
+
+    return { id: scheduleId, deleted: true } as any;
+  },
+
+  /**
+   * Tạm dừng lịch: job sẽ không sinh giao dịch cho tới khi resume
+   *
+   * @throws Error('RECURRING_SCHEDULE_NOT_ACTIVE') nếu lịch không ở trạng thái active
+   */
+  async pauseSchedule(scheduleId: string, userId: string) {
+    const schedule = await prisma.recurringSchedule.findFirst({
+      where: { id: scheduleId, userId }
+    });
+
+    if (!schedule) {
+      throw new Error('RECURRING_SCHEDULE_NOT_FOUND');
+    }
+    if (schedule.status !== 'active') {
+      throw new Error('RECURRING_SCHEDULE_NOT_ACTIVE');
+    }
+
+    return await prisma.recurringSchedule.update({
+      where: { id: scheduleId },
+      data: { status: 'paused' }
+    });
+  },
+
+  /**
+   * Tiếp tục lịch đã tạm dừng
+   * Các lần phát sinh rơi vào thời gian tạm dừng được bỏ qua (không sinh bù)
+   *
+   * @throws Error('RECURRING_SCHEDULE_NOT_PAUSED') nếu lịch không ở trạng thái paused
+   */
+  async resumeSchedule(scheduleId: string, userId: string, now = new Date()) {
+    const schedule = await prisma.recurringSchedule.findFirst({
+      where: { id: scheduleId, userId }
+    });
+
+    if (!schedule) {
+      throw new Error('RECURRING_SCHEDULE_NOT_FOUND');
+    }
+    if (schedule.status !== 'paused') {
+      throw new Error('RECURRING_SCHEDULE_NOT_PAUSED');
+    }
+
+    const rule = toRule(schedule);
+    const nextIndex = findFirstIndexOnOrAfter(rule, now, schedule.occurrenceCount);
+
+    return await prisma.recurringSchedule.update({
+      where: { id: scheduleId },
+      data: {
+        occurrenceCount: nextIndex,
+        ...getNextState(rule, nextIndex)
+      }
+    });
+  },
+
+  /**
+   * Bỏ qua 1 lần phát sinh sắp tới (VD: tháng này không đóng tiền gym)
+   * occurrenceDate chỉ cần cùng ngày (UTC) với lần phát sinh theo quy tắc
+   *
+   * @throws Error('RECURRING_INVALID_OCCURRENCE') nếu ngày không khớp lần phát sinh nào chưa xử lý
+   * @throws Error('RECURRING_OCCURRENCE_ALREADY_PROCESSED') nếu lần phát sinh đã được xử lý
+   */
+  async skipOccurrence(scheduleId: string, userId: string, data: SkipOccurrenceData) {
+    const schedule = await prisma.recurringSchedule.findFirst({
+      where: { id: scheduleId, userId }
+    });
+
+    if (!schedule) {
+      throw new Error('RECURRING_SCHEDULE_NOT_FOUND');
+    }
+    if (schedule.status === 'ended') {
+      throw new Error('RECURRING_INVALID_OCCURRENCE');
+    }
+
+    const rule = toRule(schedule);
+    const dayStart = new Date(Math.floor(data.occurrenceDate.getTime() / DAY_MS) * DAY_MS);
+    const index = findFirstIndexOnOrAfter(rule, dayStart, schedule.occurrenceCount);
+    const occurrenceDate = getOccurrenceDate(rule, index);
+
+    if (
+      occurrenceDate.getTime() >= dayStart.getTime() + DAY_MS ||
+      !isOccurrenceInRange(rule, index, occurrenceDate)
+    ) {
+      throw new Error('RECURRING_INVALID_OCCURRENCE');
+    }
+
+    try {
+      return await prisma.recurringOccurrence.create({
+        data: {
+          scheduleId,
+          occurrenceDate,
+          status: 'skipped'
+        }
+      });
+    } catch (e: any) {
+      if (e instanceof Prisma.PrismaClientKnownRequestError && e.code === 'P2002') {
+        throw new Error('RECURRING_OCCURRENCE_ALREADY_PROCESSED');
+      }
+      throw e;
+    }
+  },
+
+  /**
+   * Liệt kê các lần phát sinh sắp tới của tất cả lịch active trong `days` ngày tới
+   * Bao gồm cả các lần đã quá hạn nhưng job chưa xử lý
+   *
+   * @param userId - ID của user
+   * @param query - days (mặc định 30), limit (mặc định 100)
+   */
+  async getUpcomingOccurrences(userId: string, query: Partial<GetUpcomingOccurrencesQuery> = {}, now = new Date()) {
+    const { days = 30, limit = 100 } = query;
+    const to = new Date(now.getTime() + days * DAY_MS);
+
+    const schedules = await prisma.recurringSchedule.findMany({
+      where: {
+        userId,
+        status: 'active',
+        nextRunDate: { lte: to }
+      },
+      include: { template: true }
+    });
+
+    // Các lần đã bị skip trước trong khoảng thời gian này
+    const skipped = await prisma.recurringOccurrence.findMany({
+      where: {
+        scheduleId: { in: schedules.map((s) => s.id) },
+        status: 'skipped',
+        occurrenceDate: { lte: to }
+      },
+      select: { scheduleId: true, occurrenceDate: true }
+    });
+    const skippedKeys = new Set(skipped.map((o) => `${o.scheduleId}:${o.occurrenceDate.getTime()}`));
+
+    const occurrences = schedules.flatMap((schedule) =>
+      listOccurrences(toRule(schedule), new Date(0), to, {
+        startIndex: schedule.occurrenceCount,
+        limit
+      }).map(({ date }) => ({
+        scheduleId: schedule.id,
+        templateId: schedule.templateId,
+        templateName: schedule.template.name,
+        type: schedule.template.type,
+        amount: schedule.amount ?? schedule.template.amount,
+        occurrenceDate: date,
+        status: skippedKeys.has(`${schedule.id}:${date.getTime()}`) ? 'skipped' : 'scheduled'
+      }))
+    );
+
+    occurrences.sort((a, b) => a.occurrenceDate.getTime() - b.occurrenceDate.getTime());
+
+    return { occurrences: occurrences.slice(0, limit) };
+  },
+
+  /**
+   * Sinh giao dịch cho tất cả lần phát sinh đã đến hạn của 1 lịch (kể cả sinh bù)
+   * Lưu tiến độ sau mỗi lần để nếu lỗi giữa chừng thì lần chạy sau tiếp tục đúng chỗ
+   * Lịch bị tạm dừng / xoá trong lúc chạy => dừng ngay, không ghi đè lại trạng thái active
+   *
+   * @returns Số lần phát sinh đã xử lý
+   */
+  async processSchedule(scheduleId: string, now = new Date()) {
+    const schedule = await prisma.recurringSchedule.findUnique({
+      where: { id: scheduleId },
+      include: { template: true }
+    });
+
+    if (!schedule || schedule.status !== 'active') {
+      return 0;
+    }
+
+    const rule = toRule(schedule);
+    let index = schedule.occurrenceCount;
+    let processed = 0;
+
+    while (processed < MAX_CATCH_UP_PER_RUN) {
+      const occurrenceDate = getOccurrenceDate(rule, index);
+      if (!isOccurrenceInRange(rule, index, occurrenceDate) || occurrenceDate.getTime() > now.getTime()) {
+        break;
+      }
+
+      await materializeOccurrence(schedule, occurrenceDate);
+      processed++;
+
+      // Chỉ lưu tiến độ khi lịch vẫn active và chưa bị đổi tiến độ (user tạm dừng / xoá / tiếp tục giữa chừng => dừng)
+      const saved = await prisma.recurringSchedule.updateMany({
+        where: { id: scheduleId, status: 'active', occurrenceCount: index },
+        data: {
+          occurrenceCount: index + 1,
+          lastRunDate: occurrenceDate,
+          ...getNextState(rule, index + 1)
+        }
+      });
+      if (saved.count === 0) {
+        break;
+      }
+      index++;
+    }
+
+    return processed;
+  },
+
+  /**
+   * Xử lý tất cả lịch active đã đến hạn (được gọi bởi job nền)
+   * Trước đó xử lý lại các occurrence kẹt ở pending từ lần chạy bị dừng giữa chừng
+   *
+   * @param now - Thời điểm tham chiếu (mặc định hiện tại)
+   * @returns Số lịch, số lần phát sinh đã xử lý và số occurrence pending đã xử lý lại
+   */
+  async processDueSchedules(now = new Date()) {
+    const retried = await retryStalePendingOccurrences(now);
+
+    const dueSchedules = await prisma.recurringSchedule.findMany({
+      where: {
+        status: 'active',
+        nextRunDate: { lte: now }
+      },
+      select: { id: true },
+      orderBy: { nextRunDate: 'asc' },
+      take: DUE_SCHEDULE_BATCH_SIZE
+    });
+
+    let occurrences = 0;
+    for (const { id } of dueSchedules) {
+      try {
+        occurrences += await this.processSchedule(id, now);
+      } catch (e) {
+        // 1 lịch lỗi không được chặn các lịch khác
+        logger.error({ err: e, scheduleId: id }, 'Recurring schedule processing failed');
+      }
+    }
+
+    return { schedules: dueSchedules.length, occurrences, retried };
+  }
+};
@@ -0,0 +1,235 @@
+/**
+ * Report Controller
+ * File này xử lý HTTP requests/responses cho các báo cáo tổng hợp
+ * Controller layer - chỉ xử lý HTTP, business logic nằm ở Service layer
+ */
+import { Request, Response } from 'express';
+import { ReportService } from './report.service';
+import { handleError, handleValidationError } from '../../utils/error-handler';
+import { cashflowQuerySchema, netWorthQuerySchema, tagReportQuerySchema } from './report.schema';
+
+// Create module-specific error handler
+const handleReportError = (error: any, res: Response) =>
+  handleError(error, res, 'Report');
+
+export const ReportController = {
+  /**
+   * @swagger
+   * /reports/cashflow:
+   *   get:
+   *     tags:
+   *       - Reports
+   *     summary: Báo cáo thu/chi theo kỳ
+   *     description: |
+   *       Tổng thu, chi và net theo từng kỳ (ngày/tuần/tháng/năm) trong khoảng startDate..endDate,
+   *       kèm chi tiết theo category và theo ví. Số tiền quy đổi về tiền tệ gốc của user.
+   *       Transfer không tính vào thu/chi, chỉ hiển thị ở chi tiết ví (transferIn/transferOut).
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: startDate
+   *         schema:
+   *           type: string
+   *           format: date
+   *         description: Mặc định đầu tháng hiện tại
+   *       - in: query
+   *         name: endDate
+   *         schema:
+   *           type: string
+   *           format: date
+   *         description: Mặc định hiện tại
+   *       - in: query
+   *         name: groupBy
+   *         schema:
+   *           type: string
+   *           enum: [daily, weekly, monthly, yearly]
+   *           default: monthly
+   *       - in: query
+   *         name: walletId
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: Chỉ tính bút toán của 1 ví
+   *       - in: query
+   *         name: rollupCategories
+   *         schema:
+   *           type: boolean
+   *           default: false
+   *         description: Gộp category con vào category gốc
+   *       - in: query
+   *         name: excludeLoanRelated
+   *         schema:
+   *           type: boolean
+   *           default: false
+   *         description: Loại giao dịch trả nợ/thu nợ và giải ngân khoản vay
+   *     responses:
+   *       200:
+   *         description: Báo cáo (totals + periods, mỗi phần có income, expense, net, byCategory, byWallet)
+   *       400:
+   *         description: Query không hợp lệ, khoảng thời gian quá dài hoặc thiếu tỷ giá
+   *       404:
+   *         description: Ví không tồn tại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async getCashflow(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const parsed = cashflowQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
+
+      const report = await ReportService.getCashflow(userId, parsed.data);
+      return res.status(200).json({
+        message: 'Cashflow report retrieved successfully',
+        ...report
+      });
+    } catch (e: any) {
+      return handleReportError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /reports/net-worth:
+   *   get:
+   *     tags:
+   *       - Reports
+   *     summary: Lịch sử tài sản ròng theo kỳ
+   *     description: |
+   *       Giá trị tại cuối mỗi kỳ (ngày/tuần/tháng) trong khoảng startDate..endDate:
+   *       tổng số dư các ví + khoản cho vay còn phải thu - khoản đi vay còn phải trả, quy đổi về tiền tệ gốc
+   *       theo tỷ giá ngày cuối kỳ. Kèm số dư từng ví (kể cả ví đã archive).
+   *       Tiền tệ thiếu tỷ giá được liệt kê trong missingRates và không cộng vào tổng.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: startDate
+   *         schema:
+   *           type: string
+   *           format: date
+   *         description: Mặc định đầu tháng của 11 tháng trước
+   *       - in: query
+   *         name: endDate
+   *         schema:
+   *           type: string
+   *           format: date
+   *         description: Mặc định hiện tại
+   *       - in: query
+   *         name: groupBy
+   *         schema:
+   *           type: string
+   *           enum: [daily, weekly, monthly]
+   *           default: monthly
+   *     responses:
+   *       200:
+   *         description: Chuỗi tài sản ròng (series) và số dư từng ví (byWallet)
+   *       400:
+   *         description: Query không hợp lệ hoặc khoảng thời gian quá dài
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async getNetWorth(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const parsed = netWorthQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
+
+      const report = await ReportService.getNetWorth(userId, parsed.data);
+      return res.status(200).json({
+        message: 'Net worth report retrieved successfully',
+        ...report
+      });
+    } catch (e: any) {
+      return handleReportError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /reports/tags:
+   *   get:
+   *     tags:
+   *       - Reports
+   *     summary: Báo cáo thu/chi theo tag
+   *     description: |
+   *       Tổng thu, chi, net và số giao dịch của từng tag trong khoảng startDate..endDate, quy đổi về tiền tệ gốc.
+   *       Giao dịch nhiều tag được tính vào mỗi tag nên tổng các tag có thể lớn hơn totals.
+   *       Giao dịch không có tag được gom vào untagged. Transfer không tính.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: startDate
+   *         schema:
+   *           type: string
+   *           format: date
+   *         description: Mặc định đầu tháng hiện tại
+   *       - in: query
+   *         name: endDate
+   *         schema:
+   *           type: string
+   *           format: date
+   *         description: Mặc định hiện tại
+   *       - in: query
+   *         name: walletId
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: Chỉ tính bút toán của 1 ví
+   *       - in: query
+   *         name: tagIds
+   *         schema:
+   *           type: string
+   *         description: Chỉ tính các tag này (UUID cách nhau bởi dấu phẩy)
+   *       - in: query
+   *         name: excludeLoanRelated
+   *         schema:
+   *           type: boolean
+   *           default: false
+   *         description: Loại giao dịch trả nợ/thu nợ và giải ngân khoản vay
+   *     responses:
+   *       200:
+   *         description: Báo cáo (totals, byTag, untagged; mỗi phần có income, expense, net, transactionCount)
+   *       400:
+   *         description: Query không hợp lệ hoặc thiếu tỷ giá
+   *       404:
+   *         description: Ví hoặc tag không tồn tại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async getTagBreakdown(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const parsed = tagReportQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
+
+      const report = await ReportService.getTagBreakdown(userId, parsed.data);
+      return res.status(200).json({
+        message: 'Tag report retrieved successfully',
+        ...report
+      });
+    } catch (e: any) {
+      return handleReportError(e, res);
+    }
+  }
+};
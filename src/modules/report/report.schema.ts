@@ -0,0 +1,62 @@
+// Schema validation cho Report APIs
+// Sử dụng Zod để validate query parameters của các báo cáo
+import { z } from 'zod';
+
+const dateQuery = z.string().refine((val) => !isNaN(Date.parse(val)), {
+  message: 'Ngày không hợp lệ'
+}).transform((val) => new Date(val));
+
+const booleanQuery = z.enum(['true', 'false', '1', '0']).transform((v) => v === 'true' || v === '1');
+
+// Schema cho query parameters báo cáo thu/chi
+export const cashflowQuerySchema = z.object({
+  // Mặc định: từ đầu tháng hiện tại đến hiện tại
+  startDate: dateQuery.optional(),
+  endDate: dateQuery.optional(),
+  groupBy: z.enum(['daily', 'weekly', 'monthly', 'yearly'], {
+    message: 'groupBy phải là daily, weekly, monthly hoặc yearly'
+  }).default('monthly'),
+  walletId: z.string().uuid('walletId phải là UUID hợp lệ').optional(),
+  // Gộp số liệu của category con vào category gốc
+  rollupCategories: booleanQuery.default(false),
+  // Loại giao dịch trả nợ/thu nợ và giải ngân khoản vay (giống GET /transactions)
+  excludeLoanRelated: booleanQuery.default(false)
+}).refine(
+  (data) => !data.startDate || !data.endDate || data.startDate <= data.endDate,
+  { message: 'startDate phải trước hoặc bằng endDate', path: ['endDate'] }
+);
+
+// Schema cho query parameters lịch sử tài sản ròng
+export const netWorthQuerySchema = z.object({
+  // Mặc định: 12 tháng gần nhất (tính cả tháng hiện tại)
+  startDate: dateQuery.optional(),
+  endDate: dateQuery.optional(),
+  groupBy: z.enum(['daily', 'weekly', 'monthly'], {
+    message: 'groupBy phải là daily, weekly hoặc monthly'
+  }).default('monthly')
+}).refine(
+  (data) => !data.startDate || !data.endDate || data.startDate <= data.endDate,
+  { message: 'startDate phải trước hoặc bằng endDate', path: ['endDate'] }
+);
+
+// Schema cho query parameters báo cáo thu/chi theo tag
+export const tagReportQuerySchema = z.object({
+  // Mặc định: từ đầu tháng hiện tại đến hiện tại
+  startDate: dateQuery.optional(),
+  endDate: dateQuery.optional(),
+  walletId: z.string().uuid('walletId phải là UUID hợp lệ').optional(),
+  // Chỉ tính các tag này (cách nhau bởi dấu phẩy)
+  tagIds: z.string()
+    .transform((val) => val.split(',').map((id) => id.trim()).filter(Boolean))
+    .pipe(z.array(z.string().uuid('tagId phải là UUID hợp lệ')).min(1))
+    .optional(),
+  excludeLoanRelated: booleanQuery.default(false)
+}).refine(
+  (data) => !data.startDate || !data.endDate || data.startDate <= data.endDate,
+  { message: 'startDate phải trước hoặc bằng endDate', path: ['endDate'] }
+);
+
+// Type definitions cho TypeScript
+export type CashflowQuery = z.infer<typeof cashflowQuerySchema>;
+export type NetWorthQuery = z.infer<typeof netWorthQuerySchema>;
+export type TagReportQuery = z.infer<typeof tagReportQuerySchema>;
@@ -0,0 +1,510 @@
+/**
+ * Report Service
+ * File này chứa business logic cho các báo cáo tổng hợp
+ * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
+ *
+ * Báo cáo thu/chi (cashflow):
+ * - Thu/chi/net theo từng kỳ (ngày/tuần/tháng/năm) trong khoảng thời gian, kèm chi tiết theo category và theo ví
+ * - Mọi số tiền quy đổi về tiền tệ gốc của user theo tỷ giá tại ngày giao dịch
+ * - Transfer không tính vào thu/chi, chỉ xuất hiện ở chi tiết theo ví (transferIn/transferOut)
+ * - Giao dịch split được tính theo từng dòng category
+ * - excludeLoanRelated dùng cùng điều kiện với GET /transactions
+ *
+ * Thu/chi theo tag:
+ * - Tổng thu/chi của các giao dịch gắn từng tag (cả giao dịch, không chia theo dòng split)
+ * - 1 giao dịch nhiều tag được tính vào mỗi tag => tổng các tag có thể lớn hơn totals
+ *
+ * Lịch sử tài sản ròng (net worth):
+ * - Số dư các ví tại cuối mỗi kỳ (dùng BalanceSnapshot làm cache, xem WalletService.getBalanceHistory)
+ * - Cộng khoản cho vay còn phải thu, trừ khoản đi vay còn phải trả tại cùng thời điểm
+ * - Quy đổi theo tỷ giá tại cuối kỳ; tiền tệ thiếu tỷ giá được liệt kê trong missingRates, không cộng vào tổng
+ */
+import { prisma } from '../../db/prisma';
+import { roundMoney } from '../../utils/currency';
+import { formatPeriodKey, listPeriods, shiftPeriod, startOfPeriod } from '../../utils/period';
+import { ExchangeRateService } from '../exchange-rate/exchange-rate.service';
+import { NOT_LOAN_RELATED_FILTER, tagFilter } from '../transaction/transaction.service';
+import { WalletService } from '../wallet/wallet.service';
+import { CashflowQuery, NetWorthQuery, TagReportQuery } from './report.schema';
+
+// Số kỳ tối đa trong 1 báo cáo (VD: daily tối đa ~3 năm)
+const MAX_REPORT_PERIODS = 1100;
+
+interface WalletTotals {
+  income: number;
+  expense: number;
+  transferIn: number;
+  transferOut: number;
+}
+
+interface CashflowBucket {
+  income: number;
+  expense: number;
+  // key: categoryId (hoặc "uncategorized:<type>") -> số tiền
+  categories: Map<string, number>;
+  wallets: Map<string, WalletTotals>;
+}
+
+const createBucket = (): CashflowBucket => ({
+  income: 0,
+  expense: 0,
+  categories: new Map(),
+  wallets: new Map()
+});
+
+/**
+ * Cộng số tiền của 1 bút toán vào bucket
+ */
+function addToBucket(
+  bucket: CashflowBucket,
+  type: 'income' | 'expense' | 'transfer',
+  categoryKey: string | null,
+  walletId: string,
+  direction: 'in' | 'out',
+  amount: number
+) {
+  const wallet = bucket.wallets.get(walletId) ?? { income: 0, expense: 0, transferIn: 0, transferOut: 0 };
+  bucket.wallets.set(walletId, wallet);
+
+  if (type === 'transfer') {
+    if (direction === 'in') wallet.transferIn += amount;
+    else wallet.transferOut += amount;
+    return;
+  }
+
+  if (type === 'income') {
+    bucket.income += amount;
+    wallet.income += amount;
+  } else {
+    bucket.expense += amount;
+    wallet.expense += amount;
+  }
+  if (categoryKey) {
+    bucket.categories.set(categoryKey, (bucket.categories.get(categoryKey) ?? 0) + amount);
+  }
+}
+
+interface TagTotals {
+  income: number;
+  expense: number;
+  transactionCount: number;
+}
+
+const createTagTotals = (): TagTotals => ({ income: 0, expense: 0, transactionCount: 0 });
+
+const formatTagTotals = (totals: TagTotals) => ({
+  income: roundMoney(totals.income),
+  expense: roundMoney(totals.expense),
+  net: roundMoney(totals.income - totals.expense),
+  transactionCount: totals.transactionCount
+});
+
+export const ReportService = {
+  /**
+   * Báo cáo thu/chi theo kỳ, category và ví
+   *
+   * @throws Error('REPORT_RANGE_TOO_LARGE') nếu số kỳ vượt quá MAX_REPORT_PERIODS
+   * @throws Error('WALLET_NOT_FOUND') nếu walletId không thuộc user
+   * @throws Error('EXCHANGE_RATE_UNAVAILABLE') nếu thiếu tỷ giá để quy đổi
+   */
+  async getCashflow(userId: string, query: Partial<CashflowQuery> = {}) {
+    const now = new Date();
+    const {
+      startDate = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+      endDate = now,
+      groupBy = 'monthly',
+      walletId,
+      rollupCategories = false,
+      excludeLoanRelated = false
+    } = query;
+
+    const periods = listPeriods(startDate, endDate, groupBy);
+    if (periods.length > MAX_REPORT_PERIODS) {
+      throw new Error('REPORT_RANGE_TOO_LARGE');
+    }
+
+    const [wallets, categories, converter] = await Promise.all([
+      prisma.wallet.findMany({
+        where: { userId },
+        select: { id: true, name: true, currency: true, isArchived: true }
+      }),
+      prisma.category.findMany({
+        where: { userId },
+        select: { id: true, name: true, type: true, icon: true, parentId: true }
+      }),
+      ExchangeRateService.getBaseConverter(userId)
+    ]);
+    if (walletId && !wallets.some((w) => w.id === walletId)) {
+      throw new Error('WALLET_NOT_FOUND');
+    }
+
+    const walletsById = new Map(wallets.map((w) => [w.id, w]));
+    const categoriesById = new Map(categories.map((c) => [c.id, c]));
+
+    // Category gốc của 1 category (khi rollup)
+    const rootOf = (categoryId: string) => {
+      let current = categoriesById.get(categoryId);
+      const visited = new Set<string>();
+      while (current?.parentId && categoriesById.has(current.parentId) && !visited.has(current.id)) {
+        visited.add(current.id);
+        current = categoriesById.get(current.parentId);
+      }
+      return current?.id ?? categoryId;
+    };
+
+    const baseWhere: any = {
+      userId,
+      deletedAt: null,
+      transactionDate: { gte: startDate, lte: endDate }
+    };
+    if (walletId) baseWhere.entries = { some: { walletId } };
+
+    const transactions = await prisma.transaction.findMany({
+      where: excludeLoanRelated ? { AND: [baseWhere, NOT_LOAN_RELATED_FILTER] } : baseWhere,
+      select: {
+        type: true,
+        transactionDate: true,
+        categoryId: true,
+        entries: {
+          select: { walletId: true, direction: true, amount: true }
+        },
+        splits: {
+          select: { categoryId: true, amount: true }
+        }
+      },
+      orderBy: { transactionDate: 'asc' }
+    });
+
+    const total = createBucket();
+    const buckets = periods.map(() => createBucket());
+
+    // Giao dịch đã sắp theo ngày => duyệt kỳ tuần tự
+    let periodIndex = 0;
+    for (const t of transactions) {
+      const time = t.transactionDate.getTime();
+      while (periodIndex < periods.length - 1 && time >= periods[periodIndex].end.getTime()) {
+        periodIndex++;
+      }
+
+      const toCategoryKey = (categoryId: string | null) => t.type === 'transfer'
+        ? null
+        : categoryId
+          ? (rollupCategories ? rootOf(categoryId) : categoryId)
+          : `uncategorized:${t.type}`;
+
+      for (const entry of t.entries) {
+        if (walletId && entry.walletId !== walletId) continue;
+
+        // Giao dịch split: mỗi dòng tính vào category riêng (tổng các dòng = số tiền entry)
+        const lines = t.splits.length > 0
+          ? t.splits.map((line) => ({ categoryId: line.categoryId, amount: line.amount.toNumber() }))
+          : [{ categoryId: t.categoryId, amount: entry.amount.toNumber() }];
+
+        const currency = walletsById.get(entry.walletId)?.currency ?? converter.currency;
+        for (const line of lines) {
+          const amount = converter.convert(line.amount, currency, t.transactionDate);
+          if (amount === null) {
+            throw new Error('EXCHANGE_RATE_UNAVAILABLE');
+          }
+
+          const categoryKey = toCategoryKey(line.categoryId);
+          addToBucket(buckets[periodIndex], t.type, categoryKey, entry.walletId, entry.direction, amount);
+          addToBucket(total, t.type, categoryKey, entry.walletId, entry.direction, amount);
+        }
+      }
+    }
+
+    // Chuyển bucket sang dạng response (làm tròn, sắp xếp giảm dần theo số tiền)
+    const formatBucket = (bucket: CashflowBucket) => ({
+      income: roundMoney(bucket.income),
+      expense: roundMoney(bucket.expense),
+      net: roundMoney(bucket.income - bucket.expense),
+      byCategory: Array.from(bucket.categories.entries())
+        .map(([key, amount]) => {
+          const category = categoriesById.get(key);
+          return {
+            categoryId: category?.id ?? null,
+            name: category?.name ?? null,
+            icon: category?.icon ?? null,
+            type: category?.type ?? key.split(':')[1],
+            amount: roundMoney(amount)
+          };
+        })
+        .sort((a, b) => b.amount - a.amount),
+      byWallet: Array.from(bucket.wallets.entries())
+        .map(([id, totals]) => {
+          const wallet = walletsById.get(id);
+          return {
+            walletId: id,
+            name: wallet?.name ?? null,
+            currency: wallet?.currency ?? null,
+            income: roundMoney(totals.income),
+            expense: roundMoney(totals.expense),
+            transferIn: roundMoney(totals.transferIn),
+            transferOut: roundMoney(totals.transferOut),
+            net: roundMoney(totals.income - totals.expense + totals.transferIn - totals.transferOut)
+          };
+        })
+        .sort((a, b) => (a.name ?? '').localeCompare(b.name ?? ''))
+    });
+
+    return {
+      currency: converter.currency,
+      groupBy,
+      startDate,
+      endDate,
+      rollupCategories,
+      excludeLoanRelated,
+      totals: formatBucket(total),
+      periods: periods.map((period, index) => ({
+        period: formatPeriodKey(period.start, groupBy),
+        startDate: period.start,
+        endDate: period.end,
+        ...formatBucket(buckets[index])
+      }))
+    };
+  },
+
+  /**
+   * Báo cáo thu/chi theo tag trong khoảng thời gian (transfer không tính)
+   *
+   * @throws Error('WALLET_NOT_FOUND') nếu walletId không thuộc user
+   * @throws Error('TAG_NOT_FOUND') nếu có tagId không thuộc user
+   * @throws Error('EXCHANGE_RATE_UNAVAILABLE') nếu thiếu tỷ giá để quy đổi
+   */
+  async getTagBreakdown(userId: string, query: Partial<TagReportQuery> = {}) {
+    const now = new Date();
+    const {
+      startDate = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+      endDate = now,
+      walletId,
+      tagIds,
+      excludeLoanRelated = false
+    } = query;
+
+    const [wallets, tags, converter] = await Promise.all([
+      prisma.wallet.findMany({
+        where: { userId },
+        select: { id: true, currency: true }
+      }),
+      prisma.tag.findMany({
+        where: { userId, ...(tagIds ? { id: { in: tagIds } } : {}) },
+        select: { id: true, name: true, color: true },
+        orderBy: { name: 'asc' }
+      }),
+      ExchangeRateService.getBaseConverter(userId)
+    ]);
+    if (walletId && !wallets.some((w) => w.id === walletId)) {
+      throw new Error('WALLET_NOT_FOUND');
+    }
+    if (tagIds && tags.length !== new Set(tagIds).size) {
+      throw new Error('TAG_NOT_FOUND');
+    }
+
+    const currencies = new Map(wallets.map((w) => [w.id, w.currency]));
+
+    const baseWhere: any = {
+      userId,
+      deletedAt: null,
+      type: { in: ['income', 'expense'] },
+      transactionDate: { gte: startDate, lte: endDate }
+    };
+    if (walletId) baseWhere.entries = { some: { walletId } };
+    if (tagIds) Object.assign(baseWhere, tagFilter(tagIds));
+
+    const transactions = await prisma.transaction.findMany({
+      where: excludeLoanRelated ? { AND: [baseWhere, NOT_LOAN_RELATED_FILTER] } : baseWhere,
+      select: {
+        type: true,
+        transactionDate: true,
+        entries: {
+          select: { walletId: true, amount: true }
+        },
+        tags: {
+          select: { tagId: true }
+        }
+      }
+    });
+
+    const total = createTagTotals();
+    const untagged = createTagTotals();
+    const byTag = new Map(tags.map((tag) => [tag.id, createTagTotals()]));
+
+    const addTo = (totals: TagTotals, type: 'income' | 'expense' | 'transfer', amount: number) => {
+      if (type === 'income') totals.income += amount;
+      else totals.expense += amount;
+      totals.transactionCount++;
+    };
+
+    for (const t of transactions) {
+      let amount = 0;
+      for (const entry of t.entries) {
+        if (walletId && entry.walletId !== walletId) continue;
+        const converted = converter.convert(
+          entry.amount.toNumber(),
+          currencies.get(entry.walletId) ?? converter.currency,
+          t.transactionDate
+        );
+        if (converted === null) {
+          throw new Error('EXCHANGE_RATE_UNAVAILABLE');
+        }
+        amount += converted;
+      }
+
+      addTo(total, t.type, amount);
+      if (t.tags.length === 0) {
+        addTo(untagged, t.type, amount);
+        continue;
+      }
+      for (const { tagId } of t.tags) {
+        const totals = byTag.get(tagId);
+        if (totals) addTo(totals, t.type, amount);
+      }
+    }
+
+    return {
+      currency: converter.currency,
+      startDate,
+      endDate,
+      excludeLoanRelated,
+      totals: formatTagTotals(total),
+      byTag: tags
+        .map((tag) => ({
+          tagId: tag.id,
+          name: tag.name,
+          color: tag.color,
+          ...formatTagTotals(byTag.get(tag.id)!)
+        }))
+        .sort((a, b) => b.expense - a.expense || b.income - a.income),
+      untagged: formatTagTotals(untagged)
+    };
+  },
+
+  /**
+   * Lịch sử tài sản ròng theo kỳ: số dư ví + khoản cho vay còn phải thu - khoản đi vay còn phải trả
+   * Mỗi điểm là giá trị tại cuối kỳ (kỳ hiện tại: cuối ngày endDate)
+   *
+   * @throws Error('REPORT_RANGE_TOO_LARGE') nếu số kỳ vượt quá MAX_REPORT_PERIODS
+   */
+  async getNetWorth(userId: string, query: Partial<NetWorthQuery> = {}) {
+    const now = new Date();
+    const {
+      startDate = shiftPeriod(now, 'monthly', -11),
+      endDate = now,
+      groupBy = 'monthly'
+    } = query;
+
+    const periods = listPeriods(startDate, endDate, groupBy);
+    if (periods.length > MAX_REPORT_PERIODS) {
+      throw new Error('REPORT_RANGE_TOO_LARGE');
+    }
+
+    // Mốc asOf (exclusive) của từng kỳ, không vượt quá cuối ngày endDate
+    const endLimit = shiftPeriod(startOfPeriod(endDate, 'daily'), 'daily', 1);
+    const asOfs = periods.map((p) => (p.end.getTime() < endLimit.getTime() ? p.end : endLimit));
+
+    const [walletHistory, loans, converter] = await Promise.all([
+      WalletService.getBalanceHistory(userId, asOfs),
+      prisma.loan.findMany({
+        where: { userId, deletedAt: null, startDate: { lt: asOfs[asOfs.length - 1] } },
+        select: {
+          kind: true,
+          principal: true,
+          startDate: true,
+          payments: {
+            where: { voidedAt: null },
+            select: { principalAmount: true, paymentDate: true, wallet: { select: { currency: true } } }
+          },
+          adjustments: {
+            select: { type: true, amount: true, adjustmentDate: true }
+          },
+          baseTransaction: {
+            select: { entries: { select: { wallet: { select: { currency: true } } } } }
+          }
+        }
+      }),
+      ExchangeRateService.getBaseConverter(userId)
+    ]);
+
+    const missingRates = new Set<string>();
+    // Quy đổi tại thời điểm ngay trước asOf (tỷ giá của ngày cuối kỳ)
+    const convertAt = (amount: number, currency: string, asOf: Date) => {
+      const converted = converter.convert(amount, currency, new Date(asOf.getTime() - 1));
+      if (converted === null) missingRates.add(currency);
+      return converted;
+    };
+
+    // Tiền tệ khoản vay = tiền tệ ví giải ngân (hoặc ví trả/thu nợ), mặc định tiền tệ gốc
+    // Thay đổi dư nợ sau giải ngân ban đầu: trả/thu nợ, xoá nợ, xoá sổ (âm) và vay thêm (dương)
+    // principal đã gồm tiền vay thêm => gốc ban đầu = principal - tổng vay thêm
+    const loanItems = loans.map((loan) => ({
+      kind: loan.kind,
+      principal: loan.principal.toNumber() - loan.adjustments
+        .filter((a) => a.type === 'top_up')
+        .reduce((sum, a) => sum + a.amount.toNumber(), 0),
+      startDate: loan.startDate,
+      changes: [
+        ...loan.payments.map((p) => ({ amount: -p.principalAmount.toNumber(), date: p.paymentDate })),
+        ...loan.adjustments.map((a) => ({
+          amount: a.type === 'top_up' ? a.amount.toNumber() : -a.amount.toNumber(),
+          date: a.adjustmentDate
+        }))
+      ],
+      currency: loan.baseTransaction?.entries[0]?.wallet.currency
+        ?? loan.payments[0]?.wallet.currency
+        ?? converter.currency
+    }));
+
+    const byWallet = walletHistory.map((wallet) => ({
+      walletId: wallet.walletId,
+      name: wallet.name,
+      currency: wallet.currency,
+      isArchived: wallet.isArchived,
+      balances: wallet.balances,
+      convertedBalances: wallet.balances.map((balance, i) => {
+        const converted = convertAt(balance, wallet.currency, asOfs[i]);
+        return converted === null ? null : roundMoney(converted);
+      })
+    }));
+
+    const series = periods.map((period, i) => {
+      const asOf = asOfs[i];
+      const walletsTotal = byWallet.reduce((sum, w) => sum + (w.convertedBalances[i] ?? 0), 0);
+
+      let loansReceivable = 0;
+      let loansPayable = 0;
+      for (const loan of loanItems) {
+        if (loan.startDate.getTime() >= asOf.getTime()) continue;
+        const changed = loan.changes
+          .filter((c) => c.date.getTime() < asOf.getTime())
+          .reduce((sum, c) => sum + c.amount, 0);
+        const outstanding = Math.max(0, roundMoney(loan.principal + changed));
+        if (outstanding === 0) continue;
+
+        const converted = convertAt(outstanding, loan.currency, asOf);
+        if (converted === null) continue;
+        if (loan.kind === 'owed_to_you') loansReceivable += converted;
+        else loansPayable += converted;
+      }
+
+      return {
+        period: formatPeriodKey(period.start, groupBy),
+        asOf,
+        walletsTotal: roundMoney(walletsTotal),
+        loansReceivable: roundMoney(loansReceivable),
+        loansPayable: roundMoney(loansPayable),
+        netWorth: roundMoney(walletsTotal + loansReceivable - loansPayable)
+      };
+    });
+
+    return {
+      currency: converter.currency,
+      groupBy,
+      startDate,
+      endDate,
+      series,
+      byWallet,
+      missingRates: Array.from(missingRates)
+    };
+  }
+};
@@ -0,0 +1,82 @@
+/**
+ * Restore Controller
+ * File này xử lý HTTP requests/responses cho khôi phục dữ liệu từ file JSON export
+ * Controller layer - chỉ xử lý HTTP, business logic nằm ở Service layer
+ */
+import { Request, Response } from 'express';
+import { RestoreService } from './restore.service';
+import { ErrorMap, handleError, handleValidationError } from '../../utils/error-handler';
+import { restoreQuerySchema } from './restore.schema';
+
+// Create module-specific error handler
+const handleRestoreError = (error: any, res: Response) =>
+  handleError(error, res, 'Restore');
+
+export const RestoreController = {
+  /**
+   * @swagger
+   * /restore:
+   *   post:
+   *     tags:
+   *       - Export
+   *     summary: Khôi phục dữ liệu từ file JSON export
+   *     description: |
+   *       Body là nguyên document JSON tải từ `GET /export?format=json` (export toàn bộ, không lọc theo ngày).
+   *       Chỉ áp dụng cho tài khoản trống (chưa có ví, giao dịch, khoản vay, template, mục tiêu).
+   *       Mọi ID được sinh mới; số dư ví và dư nợ khoản vay được tính lại từ dữ liệu.
+   *       Nếu phát hiện xung đột (tham chiếu không tồn tại, bút toán sai, trùng tên...) thì không ghi gì và trả về 409 kèm danh sách.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: dryRun
+   *         schema:
+   *           type: boolean
+   *           default: false
+   *         description: Chỉ kiểm tra xung đột, không ghi dữ liệu
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *     responses:
+   *       200:
+   *         description: Đã khôi phục (hoặc dry-run hợp lệ) kèm số bản ghi từng loại
+   *       400:
+   *         description: Document không đúng định dạng export
+   *       409:
+   *         description: Có xung đột, không có dữ liệu nào được ghi
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async restore(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const parsed = restoreQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
+
+      const result = await RestoreService.restore(userId, req.body, parsed.data);
+      if (result.conflicts.length > 0) {
+        return res.status(409).json({
+          code: 'RESTORE_CONFLICTS',
+          message: ErrorMap.RESTORE_CONFLICTS.message,
+          ...result
+        });
+      }
+
+      return res.status(200).json({
+        message: result.restored ? 'Data restored successfully' : 'Restore dry run passed',
+        ...result
+      });
+    } catch (e: any) {
+      return handleRestoreError(e, res);
+    }
+  }
+};
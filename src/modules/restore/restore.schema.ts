@@ -0,0 +1,191 @@
+// Schema validation cho Restore APIs
+// Sử dụng Zod để validate document JSON được tạo bởi GET /export?format=json
+// Decimal trong file export là chuỗi số => coerce về number; field thừa (createdAt của bản ghi con...) bị bỏ qua
+import { z } from 'zod';
+
+const id = z.string().min(1).max(191);
+
+const dateValue = z.string().refine((val) => !isNaN(Date.parse(val)), {
+  message: 'Ngày không hợp lệ'
+}).transform((val) => new Date(val));
+
+const money = z.coerce.number().refine(Number.isFinite, 'Số tiền không hợp lệ');
+const positiveMoney = money.refine((val) => val > 0, 'Số tiền phải lớn hơn 0');
+
+const restoreWalletSchema = z.object({
+  id,
+  name: z.string().min(1).max(191),
+  type: z.enum(['cash', 'bank', 'ewallet', 'credit']),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Mã tiền tệ phải gồm 3 chữ cái in hoa').default('VND'),
+  openingBalance: money,
+  // File export cũ không có hạn mức
+  creditLimit: money.refine((val) => val >= 0, 'Hạn mức không được âm').nullable().default(null),
+  statementClosingDay: z.number().int().min(1).max(31).nullable().default(null),
+  paymentDueDay: z.number().int().min(1).max(31).nullable().default(null),
+  // File export cũ không có ngưỡng cảnh báo số dư
+  lowBalanceThreshold: money.refine((val) => val >= 0, 'Ngưỡng cảnh báo không được âm').nullable().default(null),
+  isArchived: z.boolean().default(false),
+  createdAt: dateValue.optional()
+});
+
+const restoreCategorySchema = z.object({
+  id,
+  type: z.enum(['income', 'expense']),
+  name: z.string().min(1).max(191),
+  parentId: id.nullable().default(null),
+  icon: z.string().max(191).nullable().default(null),
+  sortOrder: z.number().int().default(0),
+  isSystem: z.boolean().default(false)
+});
+
+const restoreTagSchema = z.object({
+  id,
+  name: z.string().trim().min(1).max(50),
+  color: z.string().max(20).nullable().default(null)
+});
+
+const restoreContactSchema = z.object({
+  id,
+  name: z.string().trim().min(1).max(191),
+  phone: z.string().max(30).nullable().default(null),
+  note: z.string().nullable().default(null)
+});
+
+const restoreTransactionSchema = z.object({
+  id,
+  type: z.enum(['income', 'expense', 'transfer']),
+  transactionDate: dateValue,
+  categoryId: id.nullable().default(null),
+  amount: positiveMoney,
+  exchangeRate: z.coerce.number().positive().nullable().default(null),
+  note: z.string().nullable().default(null),
+  loanId: id.nullable().default(null),
+  contactId: id.nullable().default(null),
+  createdAt: dateValue.optional(),
+  entries: z.array(z.object({
+    walletId: id,
+    direction: z.enum(['in', 'out']),
+    amount: positiveMoney
+  })).min(1),
+  splits: z.array(z.object({
+    categoryId: id,
+    amount: positiveMoney,
+    note: z.string().nullable().default(null)
+  })).default([]),
+  tags: z.array(z.object({
+    tagId: id
+  })).default([])
+});
+
+const restoreLoanSchema = z.object({
+  id,
+  kind: z.enum(['you_owe', 'owed_to_you']),
+  counterpartyName: z.string().trim().min(1).max(191),
+  // File export cũ không có contact => gắn contact cùng tên
+  contactId: id.nullable().default(null),
+  principal: positiveMoney,
+  startDate: dateValue,
+  dueDate: dateValue.nullable().default(null),
+  // File export cũ không có lãi suất / trả góp
+  interestType: z.enum(['none', 'flat', 'reducing_balance']).default('none'),
+  interestRate: money.refine((val) => val >= 0 && val <= 100, 'Lãi suất không hợp lệ').default(0),
+  compoundingPeriod: z.enum(['weekly', 'monthly', 'quarterly', 'yearly']).default('monthly'),
+  installmentCount: z.number().int().min(1).max(600).nullable().default(null),
+  installmentPeriod: z.enum(['weekly', 'monthly', 'quarterly', 'yearly']).default('monthly'),
+  firstInstallmentDate: dateValue.nullable().default(null),
+  note: z.string().nullable().default(null),
+  createdAt: dateValue.optional(),
+  payments: z.array(z.object({
+    id,
+    walletId: id,
+    transactionId: id,
+    interestTransactionId: id.nullable().default(null),
+    paymentDate: dateValue,
+    amount: positiveMoney,
+    // File export cũ không tách gốc / lãi => toàn bộ là gốc
+    principalAmount: money.optional(),
+    interestAmount: money.refine((val) => val >= 0, 'Tiền lãi không được âm').default(0),
+    note: z.string().nullable().default(null)
+  }).transform((p) => ({
+    ...p,
+    principalAmount: p.principalAmount ?? p.amount
+  }))).default([]),
+  // Vay thêm (có ví + giao dịch giải ngân) / xoá nợ / xoá sổ; principal đã gồm tiền vay thêm
+  adjustments: z.array(z.object({
+    id,
+    type: z.enum(['top_up', 'forgiveness', 'write_off']),
+    amount: positiveMoney,
+    adjustmentDate: dateValue,
+    walletId: id.nullable().default(null),
+    transactionId: id.nullable().default(null),
+    note: z.string().nullable().default(null)
+  })).default([])
+});
+
+const restoreTemplateSchema = z.object({
+  id,
+  name: z.string().min(1).max(191),
+  type: z.enum(['income', 'expense', 'transfer']),
+  walletId: id.nullable().default(null),
+  categoryId: id.nullable().default(null),
+  amount: positiveMoney.nullable().default(null),
+  note: z.string().nullable().default(null)
+});
+
+const restoreGoalSchema = z.object({
+  id,
+  title: z.string().min(1).max(191),
+  description: z.string().nullable().default(null),
+  periodType: z.enum(['daily', 'weekly', 'monthly', 'yearly']),
+  trackingType: z.enum(['checkbox', 'value', 'progress']).default('checkbox'),
+  targetValue: money.nullable().default(null),
+  currentValue: money.nullable().default(null),
+  unit: z.string().max(191).nullable().default(null),
+  parentGoalId: id.nullable().default(null),
+  autoCalculate: z.boolean().default(false),
+  status: z.enum(['pending', 'in_progress', 'completed', 'failed']).default('pending'),
+  priority: z.enum(['low', 'medium', 'high']).default('medium'),
+  category: z.enum(['personal', 'finance', 'health', 'education', 'career']).nullable().default(null),
+  startDate: dateValue.nullable().default(null),
+  endDate: dateValue.nullable().default(null),
+  month: z.number().int().min(1).max(12).nullable().default(null),
+  year: z.number().int().nullable().default(null),
+  recurringConfig: z.any().optional(),
+  createdAt: dateValue.optional(),
+  milestones: z.array(z.object({
+    title: z.string().min(1).max(191),
+    description: z.string().nullable().default(null),
+    targetValue: money.nullable().default(null),
+    currentValue: money.nullable().default(null),
+    targetDate: dateValue.nullable().default(null),
+    isCompleted: z.boolean().default(false),
+    order: z.number().int().default(0)
+  })).default([])
+});
+
+// Schema cho document export (phiên bản 1)
+export const restoreDocumentSchema = z.object({
+  version: z.literal(1, { message: 'Phiên bản file export không được hỗ trợ' }),
+  range: z.object({
+    startDate: z.string().nullable(),
+    endDate: z.string().nullable()
+  }).optional(),
+  wallets: z.array(restoreWalletSchema),
+  categories: z.array(restoreCategorySchema),
+  tags: z.array(restoreTagSchema).default([]),
+  contacts: z.array(restoreContactSchema).default([]),
+  transactions: z.array(restoreTransactionSchema),
+  loans: z.array(restoreLoanSchema).default([]),
+  transactionTemplates: z.array(restoreTemplateSchema).default([]),
+  goals: z.array(restoreGoalSchema).default([])
+});
+
+// Schema cho query parameters restore
+export const restoreQuerySchema = z.object({
+  // Chỉ kiểm tra xung đột, không ghi dữ liệu
+  dryRun: z.enum(['true', 'false']).default('false').transform((v) => v === 'true')
+});
+
+// Type definitions cho TypeScript
+export type RestoreDocument = z.infer<typeof restoreDocumentSchema>;
+export type RestoreQuery = z.infer<typeof restoreQuerySchema>;
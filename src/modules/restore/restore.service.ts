@@ -0,0 +1,618 @@
+/**
+ * Restore Service
+ * File này chứa business logic cho khôi phục toàn bộ dữ liệu từ file JSON export vào 1 tài khoản trống
+ * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
+ *
+ * Nguyên tắc:
+ * - Kiểm tra toàn bộ document trước (tham chiếu, trùng lặp, cấu trúc bút toán...) và trả về danh sách xung đột;
+ *   có bất kỳ xung đột nào thì không ghi gì cả
+ * - Mọi ID được sinh mới (remap), quan hệ giữa các bản ghi được giữ nguyên theo ID trong file
+ * - currentBalance của ví và outstandingAmount/status của khoản vay được tính lại từ dữ liệu, không tin số trong file
+ * - Toàn bộ dữ liệu được ghi trong 1 DB transaction, mỗi bản ghi được tạo ghi 1 dòng nhật ký thay đổi (create)
+ *
+ * Tài khoản trống: chưa có ví, tag, contact, giao dịch, khoản vay, template, mục tiêu.
+ * Danh mục mặc định tạo lúc đăng ký được dùng lại nếu trùng loại + tên với danh mục trong file.
+ */
+import { randomUUID } from 'crypto';
+import { prisma } from '../../db/prisma';
+import { roundMoney } from '../../utils/currency';
+import { removeDiacritics } from '../../utils/text';
+import { AuditEntry, AuditService } from '../audit/audit.service';
+import { AuditEntityType } from '../audit/audit.schema';
+import { RestoreDocument } from './restore.schema';
+
+// Restore có thể ghi hàng chục nghìn dòng => nới timeout của DB transaction
+const RESTORE_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Số dòng mỗi lệnh createMany
+const CREATE_CHUNK_SIZE = 1000;
+
+export interface RestoreConflict {
+  entity: 'account' | 'document' | 'wallet' | 'category' | 'tag' | 'contact' | 'transaction' | 'loan' | 'loanPayment' | 'loanAdjustment'
+    | 'transactionTemplate' | 'goal';
+  id: string | null;
+  message: string;
+}
+
+/**
+ * Chia mảng thành các phần CREATE_CHUNK_SIZE phần tử
+ */
+function chunk<T>(items: T[]): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += CREATE_CHUNK_SIZE) {
+    chunks.push(items.slice(i, i + CREATE_CHUNK_SIZE));
+  }
+  return chunks;
+}
+
+/**
+ * Tìm các ID bị trùng trong 1 danh sách
+ */
+function findDuplicateIds(items: { id: string }[]) {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const item of items) {
+    if (seen.has(item.id)) duplicates.add(item.id);
+    seen.add(item.id);
+  }
+  return Array.from(duplicates);
+}
+
+// Khoá so khớp tên contact: bỏ dấu + chữ thường (tương đương collation utf8mb4_unicode_ci)
+const contactKey = (name: string) => removeDiacritics(name.trim()).toLowerCase();
+
+/**
+ * Kiểm tra tài khoản trống (chỉ cho phép danh mục chưa dùng)
+ */
+async function checkAccountEmpty(userId: string, conflicts: RestoreConflict[]) {
+  const [wallets, tags, contacts, transactions, loans, templates, goals] = await Promise.all([
+    prisma.wallet.count({ where: { userId } }),
+    prisma.tag.count({ where: { userId } }),
+    prisma.contact.count({ where: { userId } }),
+    prisma.transaction.count({ where: { userId } }),
+    prisma.loan.count({ where: { userId } }),
+    prisma.transactionTemplate.count({ where: { userId } }),
+    prisma.goal.count({ where: { userId } })
+  ]);
+
+  const existing = [
+    [wallets, 'ví'],
+    [tags, 'tag'],
+    [contacts, 'contact'],
+    [transactions, 'giao dịch'],
+    [loans, 'khoản vay'],
+    [templates, 'template'],
+    [goals, 'mục tiêu']
+  ] as const;
+  for (const [count, label] of existing) {
+    if (count > 0) {
+      conflicts.push({ entity: 'account', id: null, message: `Tài khoản đã có ${count} ${label}` });
+    }
+  }
+}
+
+/**
+ * Kiểm tra tính toàn vẹn của document, trả về danh sách xung đột (rỗng = hợp lệ)
+ */
+function validateDocument(doc: RestoreDocument): RestoreConflict[] {
+  const conflicts: RestoreConflict[] = [];
+  const add = (entity: RestoreConflict['entity'], id: string | null, message: string) =>
+    conflicts.push({ entity, id, message });
+
+  // File export theo khoảng ngày không đủ dữ liệu để tính lại số dư
+  if (doc.range?.startDate || doc.range?.endDate) {
+    add('document', null, 'File export chỉ chứa 1 khoảng thời gian, cần export toàn bộ để restore');
+  }
+
+  // ID trùng trong từng loại dữ liệu
+  const idLists: [RestoreConflict['entity'], { id: string }[]][] = [
+    ['wallet', doc.wallets],
+    ['category', doc.categories],
+    ['tag', doc.tags],
+    ['contact', doc.contacts],
+    ['transaction', doc.transactions],
+    ['loan', doc.loans],
+    ['loanPayment', doc.loans.flatMap((l) => l.payments)],
+    ['loanAdjustment', doc.loans.flatMap((l) => l.adjustments)],
+    ['transactionTemplate', doc.transactionTemplates],
+    ['goal', doc.goals]
+  ];
+  for (const [entity, items] of idLists) {
+    for (const duplicateId of findDuplicateIds(items)) {
+      add(entity, duplicateId, 'ID bị trùng');
+    }
+  }
+
+  // Ví: tên unique
+  const walletIds = new Set(doc.wallets.map((w) => w.id));
+  const walletNames = new Set<string>();
+  for (const wallet of doc.wallets) {
+    if (walletNames.has(wallet.name)) add('wallet', wallet.id, `Tên ví "${wallet.name}" bị trùng`);
+    walletNames.add(wallet.name);
+  }
+
+  // Danh mục: loại + tên unique, cha tồn tại, cùng loại, không vòng lặp
+  const categories = new Map(doc.categories.map((c) => [c.id, c]));
+  const categoryKeys = new Set<string>();
+  for (const category of doc.categories) {
+    const key = `${category.type}:${category.name}`;
+    if (categoryKeys.has(key)) add('category', category.id, `Danh mục "${category.name}" bị trùng`);
+    categoryKeys.add(key);
+
+    if (!category.parentId) continue;
+    const parent = categories.get(category.parentId);
+    if (!parent) {
+      add('category', category.id, 'Danh mục cha không tồn tại');
+      continue;
+    }
+    if (parent.type !== category.type) {
+      add('category', category.id, 'Danh mục cha phải cùng loại');
+    }
+
+    const visited = new Set([category.id]);
+    let ancestorId: string | null = parent.id;
+    while (ancestorId && categories.has(ancestorId)) {
+      if (visited.has(ancestorId)) {
+        add('category', category.id, 'Cây danh mục bị vòng lặp');
+        break;
+      }
+      visited.add(ancestorId);
+      ancestorId = categories.get(ancestorId)!.parentId;
+    }
+  }
+
+  // Tag: tên unique
+  const tagIds = new Set(doc.tags.map((t) => t.id));
+  const tagNames = new Set<string>();
+  for (const tag of doc.tags) {
+    if (tagNames.has(tag.name)) add('tag', tag.id, `Tên tag "${tag.name}" bị trùng`);
+    tagNames.add(tag.name);
+  }
+
+  // Contact: tên unique (không phân biệt hoa thường / dấu như collation DB)
+  const contactIds = new Set(doc.contacts.map((c) => c.id));
+  const contactKeys = new Set<string>();
+  for (const contact of doc.contacts) {
+    if (contactKeys.has(contactKey(contact.name))) add('contact', contact.id, `Tên contact "${contact.name}" bị trùng`);
+    contactKeys.add(contactKey(contact.name));
+  }
+
+  // Khoản vay + lần trả/thu nợ
+  const loanIds = new Set(doc.loans.map((l) => l.id));
+  const transactionIds = new Set(doc.transactions.map((t) => t.id));
+  const paymentTransactionIds = new Set<string>();
+  for (const loan of doc.loans) {
+    if (loan.contactId && !contactIds.has(loan.contactId)) add('loan', loan.id, 'Contact không tồn tại');
+    let paid = 0;
+    for (const payment of loan.payments) {
+      paid += payment.principalAmount;
+      if (!walletIds.has(payment.walletId)) add('loanPayment', payment.id, 'Ví không tồn tại');
+      if (roundMoney(payment.principalAmount + payment.interestAmount) !== payment.amount) {
+        add('loanPayment', payment.id, 'Tiền gốc + tiền lãi không khớp số tiền thanh toán');
+      }
+      const linkedTransactionIds = payment.interestTransactionId
+        ? [payment.transactionId, payment.interestTransactionId]
+        : [payment.transactionId];
+      for (const transactionId of linkedTransactionIds) {
+        if (!transactionIds.has(transactionId)) {
+          add('loanPayment', payment.id, 'Giao dịch của lần trả/thu nợ không tồn tại');
+        } else if (paymentTransactionIds.has(transactionId)) {
+          add('loanPayment', payment.id, 'Giao dịch đã gắn với lần trả/thu nợ khác');
+        }
+        paymentTransactionIds.add(transactionId);
+      }
+    }
+    for (const adjustment of loan.adjustments) {
+      if (adjustment.type !== 'top_up') {
+        paid += adjustment.amount;
+        continue;
+      }
+      if (!adjustment.walletId || !walletIds.has(adjustment.walletId)) add('loanAdjustment', adjustment.id, 'Ví không tồn tại');
+      if (!adjustment.transactionId || !transactionIds.has(adjustment.transactionId)) {
+        add('loanAdjustment', adjustment.id, 'Giao dịch giải ngân không tồn tại');
+      } else if (paymentTransactionIds.has(adjustment.transactionId)) {
+        add('loanAdjustment', adjustment.id, 'Giao dịch đã gắn với lần trả/thu nợ hoặc điều chỉnh khác');
+      } else {
+        paymentTransactionIds.add(adjustment.transactionId);
+      }
+    }
+    if (roundMoney(loan.principal - paid) < 0) {
+      add('loan', loan.id, 'Tổng tiền đã trả/thu vượt quá số tiền gốc');
+    }
+  }
+
+  // Giao dịch: tham chiếu + cấu trúc bút toán
+  const loanBaseTransactions = new Set<string>();
+  for (const t of doc.transactions) {
+    if (t.loanId) {
+      if (!loanIds.has(t.loanId)) add('transaction', t.id, 'Khoản vay không tồn tại');
+      else if (loanBaseTransactions.has(t.loanId)) add('transaction', t.id, 'Khoản vay đã có giao dịch gốc khác');
+      if (paymentTransactionIds.has(t.id)) add('transaction', t.id, 'Giao dịch gốc của khoản vay không được là lần trả/thu nợ');
+      loanBaseTransactions.add(t.loanId);
+    }
+
+    if (t.type === 'transfer') {
+      if (t.categoryId || t.splits.length > 0) add('transaction', t.id, 'Giao dịch chuyển tiền không có danh mục');
+    } else {
+      if (t.categoryId && t.splits.length > 0) add('transaction', t.id, 'Giao dịch split không có danh mục ở header');
+      for (const categoryId of [t.categoryId, ...t.splits.map((line) => line.categoryId)]) {
+        if (!categoryId) continue;
+        const category = categories.get(categoryId);
+        if (!category) add('transaction', t.id, 'Danh mục không tồn tại');
+        else if (category.type !== t.type) add('transaction', t.id, 'Loại danh mục không khớp loại giao dịch');
+      }
+      const splitTotal = t.splits.reduce((sum, line) => sum + line.amount, 0);
+      if (t.splits.length > 0 && Math.round(splitTotal * 100) !== Math.round(t.amount * 100)) {
+        add('transaction', t.id, 'Tổng các dòng split không bằng số tiền giao dịch');
+      }
+    }
+
+    for (const entry of t.entries) {
+      if (!walletIds.has(entry.walletId)) add('transaction', t.id, 'Ví của bút toán không tồn tại');
+    }
+    for (const { tagId } of t.tags) {
+      if (!tagIds.has(tagId)) add('transaction', t.id, 'Tag không tồn tại');
+    }
+    if (t.contactId && !contactIds.has(t.contactId)) add('transaction', t.id, 'Contact không tồn tại');
+
+    const outs = t.entries.filter((e) => e.direction === 'out');
+    const ins = t.entries.filter((e) => e.direction === 'in');
+    const validShape = t.type === 'income'
+      ? ins.length === 1 && outs.length === 0 && ins[0].amount === t.amount
+      : t.type === 'expense'
+        ? outs.length === 1 && ins.length === 0 && outs[0].amount === t.amount
+        : outs.length === 1 && ins.length === 1 && outs[0].walletId !== ins[0].walletId && outs[0].amount === t.amount;
+    if (!validShape) {
+      add('transaction', t.id, 'Bút toán không khớp loại giao dịch hoặc số tiền');
+    }
+  }
+
+  // Templates
+  for (const template of doc.transactionTemplates) {
+    if (template.walletId && !walletIds.has(template.walletId)) add('transactionTemplate', template.id, 'Ví không tồn tại');
+    if (template.categoryId && !categories.has(template.categoryId)) add('transactionTemplate', template.id, 'Danh mục không tồn tại');
+  }
+
+  // Mục tiêu: goal cha tồn tại (chỉ 1 cấp yearly -> monthly)
+  const goalIds = new Set(doc.goals.map((g) => g.id));
+  for (const goal of doc.goals) {
+    if (goal.parentGoalId && (goal.parentGoalId === goal.id || !goalIds.has(goal.parentGoalId))) {
+      add('goal', goal.id, 'Mục tiêu cha không tồn tại');
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Tóm tắt số bản ghi sẽ / đã được khôi phục
+ */
+function summarize(doc: RestoreDocument) {
+  return {
+    wallets: doc.wallets.length,
+    categories: doc.categories.length,
+    tags: doc.tags.length,
+    contacts: doc.contacts.length,
+    transactions: doc.transactions.length,
+    loans: doc.loans.length,
+    loanPayments: doc.loans.reduce((sum, l) => sum + l.payments.length, 0),
+    loanAdjustments: doc.loans.reduce((sum, l) => sum + l.adjustments.length, 0),
+    transactionTemplates: doc.transactionTemplates.length,
+    goals: doc.goals.length,
+    milestones: doc.goals.reduce((sum, g) => sum + g.milestones.length, 0)
+  };
+}
+
+export const RestoreService = {
+  /**
+   * Khôi phục dữ liệu từ document export
+   *
+   * @param userId - ID của user (tài khoản đích, phải trống)
+   * @param doc - Document đã validate bằng restoreDocumentSchema
+   * @param options.dryRun - Chỉ kiểm tra xung đột, không ghi dữ liệu
+   * @returns { restored, conflicts, summary }; restored = false nếu có xung đột hoặc dryRun
+   */
+  async restore(userId: string, doc: RestoreDocument, options: { dryRun?: boolean } = {}) {
+    const conflicts = validateDocument(doc);
+    await checkAccountEmpty(userId, conflicts);
+
+    const summary = summarize(doc);
+    if (conflicts.length > 0 || options.dryRun) {
+      return { restored: false, conflicts, summary };
+    }
+
+    // Danh mục mặc định đã có => dùng lại theo loại + tên
+    const existingCategories = await prisma.category.findMany({
+      where: { userId },
+      select: { id: true, type: true, name: true }
+    });
+    const existingByKey = new Map(existingCategories.map((c) => [`${c.type}:${c.name}`, c.id]));
+
+    // Remap ID: ID trong file -> ID mới
+    const walletIdMap = new Map(doc.wallets.map((w) => [w.id, randomUUID()]));
+    const categoryIdMap = new Map(doc.categories.map((c) => [c.id, existingByKey.get(`${c.type}:${c.name}`) ?? randomUUID()]));
+    const tagIdMap = new Map(doc.tags.map((t) => [t.id, randomUUID()]));
+    const loanIdMap = new Map(doc.loans.map((l) => [l.id, randomUUID()]));
+    const transactionIdMap = new Map(doc.transactions.map((t) => [t.id, randomUUID()]));
+    const goalIdMap = new Map(doc.goals.map((g) => [g.id, randomUUID()]));
+    const reusedCategoryIds = new Set(existingCategories.map((c) => c.id));
+
+    // Contact của khoản vay: theo contactId, file cũ không có => contact cùng tên (chưa có thì tạo thêm)
+    const contactsById = new Map(doc.contacts.map((c) => [
+      c.id,
+      { id: randomUUID(), userId, name: c.name, phone: c.phone, note: c.note }
+    ]));
+    const contactsByKey = new Map(Array.from(contactsById.values()).map((c) => [contactKey(c.name), c]));
+    const loanContacts = new Map(doc.loans.map((l) => {
+      let contact = l.contactId ? contactsById.get(l.contactId) : contactsByKey.get(contactKey(l.counterpartyName));
+      if (!contact) {
+        contact = { id: randomUUID(), userId, name: l.counterpartyName, phone: null, note: null };
+        contactsByKey.set(contactKey(contact.name), contact);
+      }
+      return [l.id, contact];
+    }));
+
+    // Tính lại số dư ví từ bút toán
+    const balances = new Map(doc.wallets.map((w) => [w.id, w.openingBalance]));
+    for (const t of doc.transactions) {
+      for (const entry of t.entries) {
+        const delta = entry.direction === 'in' ? entry.amount : -entry.amount;
+        balances.set(entry.walletId, balances.get(entry.walletId)! + delta);
+      }
+    }
+
+    // Nhật ký thay đổi của các bản ghi được tạo, ghi cuối transaction
+    const auditEntries: AuditEntry[] = [];
+    const audit = (entityType: AuditEntityType, rows: { id: string }[]) => {
+      for (const row of rows) {
+        auditEntries.push({ userId, entityType, entityId: row.id, action: 'create', after: row });
+      }
+    };
+
+    await prisma.$transaction(async (tx) => {
+      // 1. Ví
+      const wallets = doc.wallets.map((w) => ({
+        id: walletIdMap.get(w.id)!,
+        userId,
+        name: w.name,
+        type: w.type,
+        currency: w.currency,
+        openingBalance: w.openingBalance,
+        currentBalance: roundMoney(balances.get(w.id)!),
+        creditLimit: w.creditLimit,
+        statementClosingDay: w.statementClosingDay,
+        paymentDueDay: w.paymentDueDay,
+        lowBalanceThreshold: w.lowBalanceThreshold,
+        isArchived: w.isArchived,
+        createdAt: w.createdAt
+      }));
+      await tx.wallet.createMany({ data: wallets });
+      audit('wallet', wallets);
+
+      // 2. Danh mục: tạo trước không có cha, sau đó gắn cha (tránh phụ thuộc thứ tự)
+      const newCategories = doc.categories.filter((c) => !reusedCategoryIds.has(categoryIdMap.get(c.id)!));
+      const categories = newCategories.map((c) => ({
+        id: categoryIdMap.get(c.id)!,
+        userId,
+        type: c.type,
+        name: c.name,
+        icon: c.icon,
+        sortOrder: c.sortOrder,
+        isSystem: c.isSystem
+      }));
+      for (const part of chunk(categories)) {
+        await tx.category.createMany({ data: part });
+      }
+      for (const c of doc.categories) {
+        if (!c.parentId) continue;
+        await tx.category.update({
+          where: { id: categoryIdMap.get(c.id)! },
+          data: { parentId: categoryIdMap.get(c.parentId)! }
+        });
+      }
+      audit('category', categories.map((c, i) => ({
+        ...c,
+        parentId: newCategories[i].parentId ? categoryIdMap.get(newCategories[i].parentId!)! : null
+      })));
+
+      // 3. Tag + contact
+      if (doc.tags.length > 0) {
+        await tx.tag.createMany({
+          data: doc.tags.map((t) => ({
+            id: tagIdMap.get(t.id)!,
+            userId,
+            name: t.name,
+            color: t.color
+          }))
+        });
+      }
+
+      // Contact (gồm contact tạo thêm từ counterpartyName của file cũ)
+      if (contactsByKey.size > 0) {
+        await tx.contact.createMany({
+          data: Array.from(contactsByKey.values())
+        });
+      }
+
+      // 4. Khoản vay (dư nợ = gốc - tổng tiền gốc đã trả/thu - xoá nợ / xoá sổ)
+      if (doc.loans.length > 0) {
+        const loans = doc.loans.map((l) => {
+          const outstandingAmount = roundMoney(
+            l.principal
+            - l.payments.reduce((sum, p) => sum + p.principalAmount, 0)
+            - l.adjustments.filter((a) => a.type !== 'top_up').reduce((sum, a) => sum + a.amount, 0)
+          );
+          return {
+            id: loanIdMap.get(l.id)!,
+            userId,
+            kind: l.kind,
+            counterpartyName: loanContacts.get(l.id)!.name,
+            contactId: loanContacts.get(l.id)!.id,
+            principal: l.principal,
+            outstandingAmount,
+            startDate: l.startDate,
+            dueDate: l.dueDate,
+            status: outstandingAmount === 0 ? 'closed' as const : 'open' as const,
+            interestType: l.interestType,
+            interestRate: l.interestRate,
+            compoundingPeriod: l.compoundingPeriod,
+            installmentCount: l.installmentCount,
+            installmentPeriod: l.installmentPeriod,
+            firstInstallmentDate: l.firstInstallmentDate,
+            note: l.note,
+            createdAt: l.createdAt
+          };
+        });
+        await tx.loan.createMany({ data: loans });
+        audit('loan', loans);
+      }
+
+      // 5. Giao dịch + bút toán + dòng split + tag
+      for (const part of chunk(doc.transactions)) {
+        const transactions = part.map((t) => ({
+          header: {
+            id: transactionIdMap.get(t.id)!,
+            userId,
+            type: t.type,
+            transactionDate: t.transactionDate,
+            categoryId: t.categoryId ? categoryIdMap.get(t.categoryId)! : null,
+            amount: t.amount,
+            exchangeRate: t.exchangeRate,
+            note: t.note,
+            loanId: t.loanId ? loanIdMap.get(t.loanId)! : null,
+            contactId: t.contactId ? contactsById.get(t.contactId)!.id : null,
+            createdAt: t.createdAt
+          },
+          entries: t.entries.map((e) => ({
+            walletId: walletIdMap.get(e.walletId)!,
+            direction: e.direction,
+            amount: e.amount
+          })),
+          splits: t.splits.map((line) => ({
+            categoryId: categoryIdMap.get(line.categoryId)!,
+            amount: line.amount,
+            note: line.note
+          })),
+          // Bỏ tag lặp lại trong cùng giao dịch
+          tags: Array.from(new Set(t.tags.map((line) => line.tagId))).map((tagId) => ({ tagId: tagIdMap.get(tagId)! }))
+        }));
+
+        await tx.transaction.createMany({ data: transactions.map((t) => t.header) });
+        await tx.transactionEntry.createMany({
+          data: transactions.flatMap((t) => t.entries.map((e) => ({ transactionId: t.header.id, ...e })))
+        });
+        const splits = transactions.flatMap((t) => t.splits.map((line) => ({ transactionId: t.header.id, ...line })));
+        if (splits.length > 0) {
+          await tx.transactionSplit.createMany({ data: splits });
+        }
+        const transactionTags = transactions.flatMap((t) => t.tags.map((line) => ({ transactionId: t.header.id, ...line })));
+        if (transactionTags.length > 0) {
+          await tx.transactionTag.createMany({ data: transactionTags });
+        }
+        audit('transaction', transactions.map((t) => ({ ...t.header, entries: t.entries, splits: t.splits, tags: t.tags })));
+      }
+
+      // 6. Lần trả/thu nợ + điều chỉnh khoản vay
+      const payments = doc.loans.flatMap((l) => l.payments.map((p) => ({
+        id: randomUUID(),
+        userId,
+        loanId: loanIdMap.get(l.id)!,
+        walletId: walletIdMap.get(p.walletId)!,
+        transactionId: transactionIdMap.get(p.transactionId)!,
+        interestTransactionId: p.interestTransactionId ? transactionIdMap.get(p.interestTransactionId)! : null,
+        paymentDate: p.paymentDate,
+        amount: p.amount,
+        principalAmount: p.principalAmount,
+        interestAmount: p.interestAmount,
+        note: p.note
+      })));
+      for (const part of chunk(payments)) {
+        await tx.loanPayment.createMany({ data: part });
+      }
+      audit('loan_payment', payments);
+
+      const adjustments = doc.loans.flatMap((l) => l.adjustments.map((a) => ({
+        id: randomUUID(),
+        userId,
+        loanId: loanIdMap.get(l.id)!,
+        type: a.type,
+        amount: a.amount,
+        adjustmentDate: a.adjustmentDate,
+        walletId: a.walletId ? walletIdMap.get(a.walletId)! : null,
+        transactionId: a.transactionId ? transactionIdMap.get(a.transactionId)! : null,
+        note: a.note
+      })));
+      for (const part of chunk(adjustments)) {
+        await tx.loanAdjustment.createMany({ data: part });
+      }
+      audit('loan_adjustment', adjustments);
+
+      // 7. Templates
+      if (doc.transactionTemplates.length > 0) {
+        const templates = doc.transactionTemplates.map((t) => ({
+          id: randomUUID(),
+          userId,
+          name: t.name,
+          type: t.type,
+          walletId: t.walletId ? walletIdMap.get(t.walletId)! : null,
+          categoryId: t.categoryId ? categoryIdMap.get(t.categoryId)! : null,
+          amount: t.amount,
+          note: t.note
+        }));
+        await tx.transactionTemplate.createMany({ data: templates });
+        audit('transaction_template', templates);
+      }
+
+      // 8. Mục tiêu + milestones (gắn goal cha sau khi tạo)
+      if (doc.goals.length > 0) {
+        const goals = doc.goals.map((g) => ({
+          id: goalIdMap.get(g.id)!,
+          userId,
+          title: g.title,
+          description: g.description,
+          periodType: g.periodType,
+          trackingType: g.trackingType,
+          targetValue: g.targetValue,
+          currentValue: g.currentValue,
+          unit: g.unit,
+          autoCalculate: g.autoCalculate,
+          status: g.status,
+          priority: g.priority,
+          category: g.category,
+          startDate: g.startDate,
+          endDate: g.endDate,
+          month: g.month,
+          year: g.year,
+          recurringConfig: g.recurringConfig ?? undefined,
+          createdAt: g.createdAt
+        }));
+        await tx.goal.createMany({ data: goals });
+        for (const g of doc.goals) {
+          if (!g.parentGoalId) continue;
+          await tx.goal.update({
+            where: { id: goalIdMap.get(g.id)! },
+            data: { parentGoalId: goalIdMap.get(g.parentGoalId)! }
+          });
+        }
+
+        audit('goal', goals.map((g, i) => ({
+          ...g,
+          parentGoalId: doc.goals[i].parentGoalId ? goalIdMap.get(doc.goals[i].parentGoalId!)! : null
+        })));
+
+        const milestones = doc.goals.flatMap((g) => g.milestones.map((m) => ({ id: randomUUID(), ...m, goalId: goalIdMap.get(g.id)! })));
+        for (const part of chunk(milestones)) {
+          await tx.milestone.createMany({ data: part });
+        }
+        audit('milestone', milestones);
+      }
+
+      // 9. Nhật ký thay đổi
+      for (const part of chunk(auditEntries)) {
+        await AuditService.recordMany(part, tx);
+      }
+    }, { timeout: RESTORE_TIMEOUT_MS });
+
+    return { restored: true, conflicts, summary };
+  }
+};
@@ -0,0 +1,109 @@
+/**
+ * Search Controller
+ * File này xử lý HTTP requests/responses cho tìm kiếm toàn văn
+ * Controller layer - chỉ xử lý HTTP, business logic nằm ở Service layer
+ */
+import { Request, Response } from 'express';
+import { SearchService } from './search.service';
+import { handleError, handleValidationError } from '../../utils/error-handler';
+import { searchQuerySchema } from './search.schema';
+
+// Create module-specific error handler
+const handleSearchError = (error: any, res: Response) =>
+  handleError(error, res, 'Search');
+
+export const SearchController = {
+  /**
+   * @swagger
+   * /search:
+   *   get:
+   *     tags:
+   *       - Search
+   *     summary: Tìm kiếm giao dịch, khoản vay, mục tiêu
+   *     description: |
+   *       So khớp không phân biệt dấu / hoa thường ("minh xe may" khớp "Trả Minh tiền xe máy").
+   *       Mọi từ khoá phải khớp phần đầu 1 từ trong ít nhất 1 trường:
+   *       - Giao dịch: ghi chú, tên category, tên ví, tên tag
+   *       - Khoản vay: tên người vay/cho vay, ghi chú
+   *       - Mục tiêu: tiêu đề, mô tả
+   *
+   *       Kết quả nhóm theo loại (`results.transaction`, `results.loan`, `results.goal`), mỗi loại có `items`
+   *       và `pagination` riêng (mới nhất trước). Trong 1 trang, `items` xếp theo `score` (giảm dần) rồi theo ngày;
+   *       `highlights` chứa đoạn trích của từng trường khớp và vị trí từ khoá trong đoạn trích (`ranges`, [start, end)).
+   *       DB lọc thô theo từ khoá nên 1 trang có thể ít hơn `limit` kết quả; trang tiếp dùng `nextCursor`
+   *       của loại đó kèm `types` chỉ gồm đúng loại đó.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: q
+   *         required: true
+   *         schema:
+   *           type: string
+   *           maxLength: 200
+   *       - in: query
+   *         name: types
+   *         description: Loại kết quả, cách nhau bởi dấu phẩy (mặc định tất cả)
+   *         schema:
+   *           type: string
+   *           example: transaction,loan
+   *       - in: query
+   *         name: minAmount
+   *         description: Giao dịch theo amount, khoản vay theo principal, mục tiêu theo targetValue
+   *         schema:
+   *           type: number
+   *       - in: query
+   *         name: maxAmount
+   *         schema:
+   *           type: number
+   *       - in: query
+   *         name: startDate
+   *         description: Giao dịch theo transactionDate, khoản vay theo startDate, mục tiêu theo startDate (hoặc ngày tạo)
+   *         schema:
+   *           type: string
+   *           format: date
+   *       - in: query
+   *         name: endDate
+   *         schema:
+   *           type: string
+   *           format: date
+   *       - in: query
+   *         name: limit
+   *         description: Số bản ghi mỗi loại
+   *         schema:
+   *           type: integer
+   *           default: 20
+   *           maximum: 100
+   *       - $ref: '#/components/parameters/Cursor'
+   *       - $ref: '#/components/parameters/Offset'
+   *       - $ref: '#/components/parameters/IncludeTotal'
+   *     responses:
+   *       200:
+   *         description: Kết quả theo loại (results), mỗi loại gồm items đã xếp hạng và pagination
+   *       400:
+   *         description: Query không hợp lệ
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async search(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const parsed = searchQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
+
+      const result = await SearchService.search(userId, parsed.data);
+      return res.status(200).json({
+        message: 'Search completed successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleSearchError(e, res);
+    }
+  }
+};
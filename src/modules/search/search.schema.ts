@@ -0,0 +1,52 @@
+// Schema validation cho Search API
+// Sử dụng Zod để validate query parameters tìm kiếm giao dịch, khoản vay, mục tiêu
+import { z } from 'zod';
+import { normalizeText } from '../../utils/text';
+import { paginationQueryShape } from '../../utils/pagination';
+
+export const SEARCH_RESULT_TYPES = ['transaction', 'loan', 'goal'] as const;
+
+export type SearchResultType = typeof SEARCH_RESULT_TYPES[number];
+
+const dateQuery = z.string().refine((val) => !isNaN(Date.parse(val)), {
+  message: 'Ngày không hợp lệ'
+}).transform((val) => new Date(val));
+
+const amountQuery = z.coerce.number().min(0, 'Số tiền phải >= 0');
+
+// Schema cho query parameters tìm kiếm
+export const searchQuerySchema = z.object({
+  // Từ khoá (không phân biệt dấu / hoa thường), tất cả các từ phải khớp
+  q: z.string()
+    .trim()
+    .min(1, 'Từ khoá không được rỗng')
+    .max(200, 'Từ khoá không được quá 200 ký tự')
+    .refine((val) => normalizeText(val) !== '', 'Từ khoá phải chứa chữ hoặc số'),
+  // Loại kết quả (cách nhau bởi dấu phẩy), mặc định tất cả
+  types: z.string()
+    .transform((val) => [...new Set(val.split(',').map((t) => t.trim()).filter(Boolean))])
+    .pipe(z.array(z.enum(SEARCH_RESULT_TYPES, {
+      message: 'types chỉ gồm transaction, loan, goal'
+    })).min(1))
+    .optional(),
+  // Khoảng số tiền: giao dịch theo amount, khoản vay theo principal, mục tiêu theo targetValue
+  minAmount: amountQuery.optional(),
+  maxAmount: amountQuery.optional(),
+  // Khoảng ngày: giao dịch theo transactionDate, khoản vay theo startDate, mục tiêu theo startDate (hoặc ngày tạo)
+  startDate: dateQuery.optional(),
+  endDate: dateQuery.optional(),
+  // Phân trang theo từng loại; cursor (nextCursor của 1 loại) chỉ dùng khi types chỉ gồm đúng loại đó
+  ...paginationQueryShape({ defaultLimit: 20 })
+}).refine(
+  (data) => !data.cursor || data.types?.length === 1,
+  { message: 'cursor chỉ dùng khi types chỉ gồm 1 loại', path: ['cursor'] }
+).refine(
+  (data) => data.minAmount === undefined || data.maxAmount === undefined || data.minAmount <= data.maxAmount,
+  { message: 'minAmount phải nhỏ hơn hoặc bằng maxAmount', path: ['maxAmount'] }
+).refine(
+  (data) => !data.startDate || !data.endDate || data.startDate <= data.endDate,
+  { message: 'startDate phải trước hoặc bằng endDate', path: ['endDate'] }
+);
+
+// Type definitions cho TypeScript
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
@@ -0,0 +1,410 @@
+/**
+ * Search Service
+ * File này chứa business logic tìm kiếm toàn văn trên giao dịch, khoản vay và mục tiêu
+ * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
+ *
+ * Logic nghiệp vụ:
+ * - So khớp không phân biệt dấu tiếng Việt / hoa thường (normalizeText): "minh xe may" khớp "Trả Minh tiền xe máy"
+ * - Mỗi từ khoá phải khớp phần đầu 1 từ trong ít nhất 1 trường của kết quả (AND giữa các từ khoá)
+ * - Trường được tìm: giao dịch (ghi chú, tên category, tên ví, tên tag), khoản vay (tên người vay/cho vay, ghi chú),
+ *   mục tiêu (tiêu đề, mô tả)
+ * - Lọc thô trong DB: mỗi từ khoá phải nằm trong ít nhất 1 cột (LIKE theo collation utf8mb4_unicode_ci
+ *   => không phân biệt hoa thường / dấu), cùng khoảng số tiền / khoảng ngày
+ * - Phân trang cursor theo từng loại (mới nhất trước), trong mỗi trang lọc lại chính xác (khớp phần đầu từ)
+ *   và xếp hạng theo độ khớp (trường quan trọng, khớp trọn từ, khớp cả cụm) => trang có thể ít hơn limit
+ */
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../db/prisma';
+import { paginate, Pagination, SortKey } from '../../utils/pagination';
+import { findTermMatches, normalizeText, TermMatch } from '../../utils/text';
+import { SEARCH_RESULT_TYPES, SearchQuery, SearchResultType } from './search.schema';
+
+// Số từ khoá tối đa được dùng
+const MAX_SEARCH_TERMS = 10;
+// Độ dài đoạn trích quanh vị trí khớp
+const SNIPPET_LENGTH = 120;
+// Khớp phần đầu từ được tính điểm thấp hơn khớp trọn từ
+const PREFIX_MATCH_FACTOR = 0.6;
+// Điểm cộng khi cả cụm từ khoá xuất hiện liền nhau trong 1 trường
+const PHRASE_BONUS = 1;
+
+interface SearchField {
+  name: string;
+  text: string | null;
+  weight: number;
+}
+
+export interface SearchHighlight {
+  field: string;
+  snippet: string;
+  // Vị trí từ khoá trong snippet [start, end)
+  ranges: Array<{ start: number; end: number }>;
+}
+
+interface SearchCandidate {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  date: Date;
+  amount: Prisma.Decimal | null;
+  fields: SearchField[];
+  details: Record<string, unknown>;
+}
+
+/**
+ * Đoạn trích quanh vị trí khớp đầu tiên, vị trí highlight tính lại theo đoạn trích
+ */
+function buildSnippet(text: string, matches: TermMatch[]) {
+  const first = matches.reduce((a, b) => (b.start < a.start ? b : a));
+  let start = 0;
+  let end = text.length;
+
+  if (text.length > SNIPPET_LENGTH) {
+    start = Math.max(0, Math.min(first.start - Math.floor(SNIPPET_LENGTH / 3), text.length - SNIPPET_LENGTH));
+    end = start + SNIPPET_LENGTH;
+    // Không cắt giữa từ
+    if (start > 0) {
+      const space = text.indexOf(' ', start);
+      if (space !== -1 && space < first.start) start = space + 1;
+    }
+    if (end < text.length) {
+      const space = text.lastIndexOf(' ', end);
+      if (space >= first.end) end = space;
+    }
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const ranges = matches
+    .filter((m) => m.start >= start && m.end <= end)
+    .sort((a, b) => a.start - b.start)
+    .filter((m, i, arr) => i === 0 || m.start >= arr[i - 1].end)
+    .map((m) => ({ start: m.start - start + prefix.length, end: m.end - start + prefix.length }));
+
+  return { snippet: prefix + text.slice(start, end) + suffix, ranges };
+}
+
+/**
+ * Chấm điểm 1 kết quả, null nếu có từ khoá không khớp trường nào
+ */
+function scoreCandidate(candidate: SearchCandidate, terms: string[], phrase: string) {
+  const bestByTerm = new Map<string, number>();
+  const highlights: Array<SearchHighlight & { weight: number }> = [];
+  let bonus = 0;
+
+  for (const field of candidate.fields) {
+    if (!field.text) continue;
+    const matches = findTermMatches(field.text, terms);
+    if (matches.length === 0) continue;
+
+    for (const match of matches) {
+      const score = field.weight * (match.exact ? 1 : PREFIX_MATCH_FACTOR);
+      if (score > (bestByTerm.get(match.term) ?? 0)) bestByTerm.set(match.term, score);
+    }
+    if (terms.length > 1 && ` ${normalizeText(field.text)} `.includes(` ${phrase}`)) {
+      bonus = Math.max(bonus, PHRASE_BONUS * field.weight);
+    }
+
+    highlights.push({ field: field.name, weight: field.weight, ...buildSnippet(field.text, matches) });
+  }
+
+  if (bestByTerm.size < terms.length) return null;
+
+  const score = [...bestByTerm.values()].reduce((sum, s) => sum + s, 0) + bonus;
+  return {
+    score: Math.round(score * 100) / 100,
+    highlights: highlights
+      .sort((a, b) => b.weight - a.weight)
+      .map(({ weight: _weight, ...highlight }) => highlight)
+  };
+}
+
+/**
+ * Dạng viết của từ khoá khi so LIKE trong DB: collation bỏ qua dấu thanh / mũ nhưng "đ" khác "d"
+ */
+const termVariants = (term: string) => term.includes('d') ? [term, term.replace(/d/g, 'đ')] : [term];
+
+/**
+ * Lọc thô theo từ khoá: mỗi từ khoá phải nằm trong ít nhất 1 cột (AND giữa các từ khoá)
+ */
+function keywordWhere(terms: string[], columns: (contains: { contains: string }) => object[]) {
+  return terms.map((term) => ({
+    OR: termVariants(term).flatMap((variant) => columns({ contains: variant }))
+  }));
+}
+
+function amountRange(query: SearchQuery) {
+  if (query.minAmount === undefined && query.maxAmount === undefined) return undefined;
+  return {
+    ...(query.minAmount !== undefined ? { gte: query.minAmount } : {}),
+    ...(query.maxAmount !== undefined ? { lte: query.maxAmount } : {})
+  };
+}
+
+function dateRange(query: SearchQuery) {
+  if (!query.startDate && !query.endDate) return undefined;
+  return {
+    ...(query.startDate ? { gte: query.startDate } : {}),
+    ...(query.endDate ? { lte: query.endDate } : {})
+  };
+}
+
+interface CandidatePage {
+  candidates: SearchCandidate[];
+  pagination: Pagination;
+}
+
+const TRANSACTION_SORT: SortKey[] = [
+  { field: 'transactionDate', direction: 'desc' },
+  { field: 'id', direction: 'desc' }
+];
+
+const LOAN_SORT: SortKey[] = [
+  { field: 'startDate', direction: 'desc' },
+  { field: 'id', direction: 'desc' }
+];
+
+const GOAL_SORT: SortKey[] = [
+  { field: 'createdAt', direction: 'desc' },
+  { field: 'id', direction: 'desc' }
+];
+
+async function getTransactionCandidates(userId: string, query: SearchQuery, terms: string[]): Promise<CandidatePage> {
+  const amount = amountRange(query);
+  const date = dateRange(query);
+
+  const where: Prisma.TransactionWhereInput = {
+    userId,
+    deletedAt: null,
+    ...(amount ? { amount } : {}),
+    ...(date ? { transactionDate: date } : {}),
+    AND: keywordWhere(terms, (contains) => [
+      { note: contains },
+      { category: { name: contains } },
+      { splits: { some: { category: { name: contains } } } },
+      { entries: { some: { wallet: { name: contains } } } },
+      { tags: { some: { tag: { name: contains } } } }
+    ])
+  };
+
+  const { items: transactions, pagination } = await paginate(
+    query,
+    TRANSACTION_SORT,
+    (page) => prisma.transaction.findMany({
+      where: { AND: [where, page.where] },
+      select: {
+        id: true,
+        type: true,
+        transactionDate: true,
+        amount: true,
+        note: true,
+        category: { select: { name: true } },
+        splits: { select: { category: { select: { name: true } } } },
+        entries: {
+          select: { direction: true, wallet: { select: { name: true, currency: true } } }
+        },
+        tags: { select: { tag: { select: { name: true } } } }
+      },
+      orderBy: page.orderBy,
+      take: page.take,
+      skip: page.skip
+    }),
+    () => prisma.transaction.count({ where })
+  );
+
+  const candidates = transactions.map((t) => {
+    // Giao dịch split: tên các category của từng dòng
+    const categoryNames = t.category
+      ? [t.category.name]
+      : [...new Set(t.splits.map((s) => s.category.name))];
+    // Ví nguồn trước, ví đích sau (transfer)
+    const wallets = [...t.entries].sort((a, b) => (a.direction === 'out' ? -1 : 0) - (b.direction === 'out' ? -1 : 0));
+    const walletNames = wallets.map((e) => e.wallet.name);
+    const tagNames = t.tags.map((line) => line.tag.name);
+
+    return {
+      type: 'transaction' as const,
+      id: t.id,
+      title: t.note || categoryNames.join(', ') || t.type,
+      date: t.transactionDate,
+      amount: t.amount,
+      fields: [
+        { name: 'note', text: t.note, weight: 3 },
+        { name: 'category', text: categoryNames.join(', ') || null, weight: 2 },
+        { name: 'tag', text: tagNames.join(', ') || null, weight: 2 },
+        { name: 'wallet', text: walletNames.join(', ') || null, weight: 1 }
+      ],
+      details: {
+        transactionType: t.type,
+        currency: wallets[0]?.wallet.currency ?? null,
+        categoryNames,
+        walletNames,
+        tagNames
+      }
+    };
+  });
+
+  return { candidates, pagination };
+}
+
+async function getLoanCandidates(userId: string, query: SearchQuery, terms: string[]): Promise<CandidatePage> {
+  const amount = amountRange(query);
+  const date = dateRange(query);
+
+  const where: Prisma.LoanWhereInput = {
+    userId,
+    deletedAt: null,
+    ...(amount ? { principal: amount } : {}),
+    ...(date ? { startDate: date } : {}),
+    AND: keywordWhere(terms, (contains) => [{ counterpartyName: contains }, { note: contains }])
+  };
+
+  const { items: loans, pagination } = await paginate(
+    query,
+    LOAN_SORT,
+    (page) => prisma.loan.findMany({
+      where: { AND: [where, page.where] },
+      select: {
+        id: true,
+        kind: true,
+        counterpartyName: true,
+        principal: true,
+        outstandingAmount: true,
+        startDate: true,
+        dueDate: true,
+        status: true,
+        note: true
+      },
+      orderBy: page.orderBy,
+      take: page.take,
+      skip: page.skip
+    }),
+    () => prisma.loan.count({ where })
+  );
+
+  const candidates = loans.map((l) => ({
+    type: 'loan' as const,
+    id: l.id,
+    title: l.counterpartyName,
+    date: l.startDate,
+    amount: l.principal,
+    fields: [
+      { name: 'counterpartyName', text: l.counterpartyName, weight: 3 },
+      { name: 'note', text: l.note, weight: 2 }
+    ],
+    details: {
+      kind: l.kind,
+      status: l.status,
+      outstandingAmount: l.outstandingAmount,
+      dueDate: l.dueDate
+    }
+  }));
+
+  return { candidates, pagination };
+}
+
+async function getGoalCandidates(userId: string, query: SearchQuery, terms: string[]): Promise<CandidatePage> {
+  const amount = amountRange(query);
+  const date = dateRange(query);
+
+  const where: Prisma.GoalWhereInput = {
+    userId,
+    ...(amount ? { targetValue: amount } : {}),
+    // Mục tiêu không có startDate => lọc theo ngày tạo
+    ...(date ? { OR: [{ startDate: date }, { startDate: null, createdAt: date }] } : {}),
+    AND: keywordWhere(terms, (contains) => [{ title: contains }, { description: contains }])
+  };
+
+  const { items: goals, pagination } = await paginate(
+    query,
+    GOAL_SORT,
+    (page) => prisma.goal.findMany({
+      where: { AND: [where, page.where] },
+      select: {
+        id: true,
+        title: true,
+        description: true,
+        periodType: true,
+        status: true,
+        targetValue: true,
+        currentValue: true,
+        unit: true,
+        startDate: true,
+        createdAt: true
+      },
+      orderBy: page.orderBy,
+      take: page.take,
+      skip: page.skip
+    }),
+    () => prisma.goal.count({ where })
+  );
+
+  const candidates = goals.map((g) => ({
+    type: 'goal' as const,
+    id: g.id,
+    title: g.title,
+    date: g.startDate ?? g.createdAt,
+    amount: g.targetValue,
+    fields: [
+      { name: 'title', text: g.title, weight: 3 },
+      { name: 'description', text: g.description, weight: 1 }
+    ],
+    details: {
+      periodType: g.periodType,
+      status: g.status,
+      currentValue: g.currentValue,
+      unit: g.unit
+    }
+  }));
+
+  return { candidates, pagination };
+}
+
+const candidateLoaders: Record<SearchResultType, (userId: string, query: SearchQuery, terms: string[]) => Promise<CandidatePage>> = {
+  transaction: getTransactionCandidates,
+  loan: getLoanCandidates,
+  goal: getGoalCandidates
+};
+
+export const SearchService = {
+  /**
+   * Tìm kiếm giao dịch, khoản vay, mục tiêu theo từ khoá
+   * Kết quả nhóm theo loại, mỗi loại 1 trang (cursor riêng), trong trang xếp theo độ khớp
+   * kèm đoạn trích có vị trí highlight của từng trường khớp
+   *
+   * @throws Error('INVALID_CURSOR') nếu cursor không hợp lệ
+   */
+  async search(userId: string, query: SearchQuery) {
+    const phrase = normalizeText(query.q);
+    const terms = [...new Set(phrase.split(' '))].slice(0, MAX_SEARCH_TERMS);
+    const types = query.types ?? [...SEARCH_RESULT_TYPES];
+
+    const results: Partial<Record<SearchResultType, { items: unknown[]; pagination: Pagination }>> = {};
+
+    for (const type of types) {
+      const { candidates, pagination } = await candidateLoaders[type](userId, query, terms);
+
+      const items = [];
+      for (const candidate of candidates) {
+        const scored = scoreCandidate(candidate, terms, phrase);
+        if (!scored) continue;
+
+        items.push({
+          type: candidate.type,
+          id: candidate.id,
+          score: scored.score,
+          title: candidate.title,
+          date: candidate.date,
+          amount: candidate.amount,
+          highlights: scored.highlights,
+          ...candidate.details
+        });
+      }
+
+      items.sort((a, b) => b.score - a.score || b.date.getTime() - a.date.getTime());
+      results[type] = { items, pagination };
+    }
+
+    return { query: query.q, results };
+  }
+};
@@ -0,0 +1,388 @@
+/**
+ * Statement Import Controller
+ * File này xử lý HTTP requests/responses cho import sao kê ngân hàng (CSV/OFX)
+ * Controller layer - chỉ xử lý HTTP, business logic nằm ở Service layer
+ */
+import { Request, Response } from 'express';
+import { StatementImportService } from './statement-import.service';
+import { handleError, handleValidationError } from '../../utils/error-handler';
+import { getImportBatchesQuerySchema } from './statement-import.schema';
+
+// Create module-specific error handler
+const handleImportError = (error: any, res: Response) =>
+  handleError(error, res, 'StatementImport');
+
+export const StatementImportController = {
+  /**
+   * @swagger
+   * /imports/profiles:
+   *   post:
+   *     tags:
+   *       - Imports
+   *     summary: Tạo profile mapping cột CSV
+   *     description: |
+   *       Lưu cách đọc file CSV của 1 ngân hàng để dùng lại. Cột được tham chiếu bằng tên header
+   *       hoặc số thứ tự (bắt đầu từ 1). Số tiền lấy từ `amountColumn` (có dấu) hoặc cặp `debitColumn`/`creditColumn`.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - name
+   *               - dateColumn
+   *             properties:
+   *               name:
+   *                 type: string
+   *                 example: Vietcombank
+   *               delimiter:
+   *                 type: string
+   *                 enum: [',', ';', "\t", '|']
+   *                 default: ','
+   *               hasHeader:
+   *                 type: boolean
+   *                 default: true
+   *               skipRows:
+   *                 type: integer
+   *                 default: 0
+   *                 description: Số dòng bỏ qua ở đầu file (trước header)
+   *               dateFormat:
+   *                 type: string
+   *                 enum: [iso, dmy, mdy]
+   *                 default: iso
+   *               decimalSeparator:
+   *                 type: string
+   *                 enum: ['.', ',']
+   *                 default: '.'
+   *               dateColumn:
+   *                 type: string
+   *                 example: Ngày giao dịch
+   *               amountColumn:
+   *                 type: string
+   *               debitColumn:
+   *                 type: string
+   *                 example: Ghi nợ
+   *               creditColumn:
+   *                 type: string
+   *                 example: Ghi có
+   *               descriptionColumn:
+   *                 type: string
+   *                 example: Nội dung
+   *               referenceColumn:
+   *                 type: string
+   *                 description: Mã giao dịch ngân hàng (dùng để dò trùng)
+   *               invertAmount:
+   *                 type: boolean
+   *                 default: false
+   *                 description: Đảo dấu amountColumn (file ghi chi tiêu là số dương)
+   *     responses:
+   *       201:
+   *         description: Profile được tạo thành công
+   *       409:
+   *         description: Tên profile đã tồn tại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async createProfile(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const profile = await StatementImportService.createProfile(req.body, userId);
+      return res.status(201).json({
+        message: 'Import profile created successfully',
+        profile
+      });
+    } catch (e: any) {
+      return handleImportError(e, res);
+    }
+  },
+
+  /**
+   * Lấy danh sách profile mapping
+   * GET /api/imports/profiles
+   */
+  async getProfiles(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const profiles = await StatementImportService.getProfiles(userId);
+      return res.status(200).json({
+        message: 'Import profiles retrieved successfully',
+        profiles
+      });
+    } catch (e: any) {
+      return handleImportError(e, res);
+    }
+  },
+
+  /**
+   * Cập nhật profile mapping
+   * PUT /api/imports/profiles/:id
+   */
+  async updateProfile(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const profile = await StatementImportService.updateProfile(req.params.id, userId, req.body);
+      return res.status(200).json({
+        message: 'Import profile updated successfully',
+        profile
+      });
+    } catch (e: any) {
+      return handleImportError(e, res);
+    }
+  },
+
+  /**
+   * Xóa profile mapping
+   * DELETE /api/imports/profiles/:id
+   */
+  async deleteProfile(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const profile = await StatementImportService.deleteProfile(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Import profile deleted successfully',
+        profile
+      });
+    } catch (e: any) {
+      return handleImportError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /imports/preview:
+   *   post:
+   *     tags:
+   *       - Imports
+   *     summary: Upload + preview sao kê (dry-run)
+   *     description: |
+   *       Parse file sao kê, đề xuất category theo lịch sử giao dịch và đánh dấu các dòng nghi trùng
+   *       (cùng ví, cùng số tiền và chiều tiền, lệch ngày tối đa `duplicateWindowDays`; hoặc trùng mã FITID/tham chiếu
+   *       đã import). Chưa ghi giao dịch nào - kết quả được lưu thành 1 lần import trạng thái `preview`.
+   *       Số âm / cột ghi nợ => expense, số dương / cột ghi có => income.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - walletId
+   *               - format
+   *               - content
+   *             properties:
+   *               walletId:
+   *                 type: string
+   *                 format: uuid
+   *               format:
+   *                 type: string
+   *                 enum: [csv, ofx]
+   *                 description: QFX dùng format ofx
+   *               content:
+   *                 type: string
+   *                 description: Nội dung file (text)
+   *               fileName:
+   *                 type: string
+   *               profileId:
+   *                 type: string
+   *                 format: uuid
+   *                 description: Profile mapping (CSV)
+   *               mapping:
+   *                 type: object
+   *                 description: Mapping gửi kèm nếu không dùng profile (cùng field với profile, trừ name)
+   *               duplicateWindowDays:
+   *                 type: integer
+   *                 minimum: 0
+   *                 maximum: 30
+   *                 default: 3
+   *     responses:
+   *       201:
+   *         description: Lần import (preview) kèm từng dòng (status ready/duplicate/invalid, category đề xuất)
+   *       400:
+   *         description: File rỗng, sai mapping, quá nhiều dòng hoặc khác tiền tệ ví
+   *       404:
+   *         description: Ví hoặc profile không tồn tại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async previewImport(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const batch = await StatementImportService.previewImport(req.body, userId);
+      return res.status(201).json({
+        message: 'Import preview created successfully',
+        batch
+      });
+    } catch (e: any) {
+      return handleImportError(e, res);
+    }
+  },
+
+  /**
+   * Lấy danh sách các lần import
+   * GET /api/imports?walletId=&status=
+   */
+  async getBatches(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const parsed = getImportBatchesQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
+
+      const result = await StatementImportService.getBatches(userId, parsed.data);
+      return res.status(200).json({
+        message: 'Imports retrieved successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleImportError(e, res);
+    }
+  },
+
+  /**
+   * Lấy chi tiết 1 lần import kèm các dòng
+   * GET /api/imports/:id
+   */
+  async getBatch(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const batch = await StatementImportService.getBatchById(req.params.id, userId);
+      if (!batch) {
+        return res.status(404).json({ message: 'Import not found' });
+      }
+
+      return res.status(200).json({
+        message: 'Import retrieved successfully',
+        batch
+      });
+    } catch (e: any) {
+      return handleImportError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /imports/{id}/commit:
+   *   post:
+   *     tags:
+   *       - Imports
+   *     summary: Commit các dòng được chấp nhận
+   *     description: |
+   *       Tạo giao dịch cho các dòng được chọn (có thể override category/note) và cập nhật số dư ví
+   *       trong 1 DB transaction. Dòng không được chọn chuyển sang `skipped`. Dòng nghi trùng vẫn commit được nếu chọn.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - rows
+   *             properties:
+   *               rows:
+   *                 type: array
+   *                 items:
+   *                   type: object
+   *                   required:
+   *                     - rowIndex
+   *                   properties:
+   *                     rowIndex:
+   *                       type: integer
+   *                     categoryId:
+   *                       type: string
+   *                       format: uuid
+   *                       description: Bắt buộc nếu dòng không có category đề xuất
+   *                     note:
+   *                       type: string
+   *     responses:
+   *       200:
+   *         description: Lần import đã commit
+   *       400:
+   *         description: Dòng không hợp lệ, thiếu category, sai loại category hoặc số dư không đủ
+   *       404:
+   *         description: Lần import hoặc dòng không tồn tại
+   *       409:
+   *         description: Lần import đã commit/huỷ
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async commitImport(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const batch = await StatementImportService.commitImport(req.params.id, userId, req.body);
+      return res.status(200).json({
+        message: 'Import committed successfully',
+        batch
+      });
+    } catch (e: any) {
+      return handleImportError(e, res);
+    }
+  },
+
+  /**
+   * Huỷ preview (không tạo giao dịch)
+   * DELETE /api/imports/:id
+   */
+  async discardImport(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const batch = await StatementImportService.discardImport(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Import discarded successfully',
+        batch
+      });
+    } catch (e: any) {
+      return handleImportError(e, res);
+    }
+  }
+};
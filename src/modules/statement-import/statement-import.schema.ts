@@ -0,0 +1,114 @@
+// Schema validation cho Statement Import APIs
+// Sử dụng Zod để validate request body/query cho import sao kê ngân hàng (CSV/OFX)
+import { z } from 'zod';
+
+// Tối đa số dòng commit trong 1 request (khớp giới hạn dòng của 1 file import)
+export const MAX_IMPORT_ROWS = 2000;
+
+// Tham chiếu cột: tên header hoặc số thứ tự cột (bắt đầu từ 1)
+const columnRef = z.string().trim().min(1, 'Tên cột không được rỗng').max(100, 'Tên cột không được quá 100 ký tự');
+
+// Các field mapping CSV (dùng chung cho profile và mapping gửi kèm preview)
+const mappingFields = {
+  delimiter: z.enum([',', ';', '\t', '|']).default(','),
+  hasHeader: z.boolean().default(true),
+  skipRows: z.number().int().min(0).max(50, 'skipRows không được quá 50').default(0),
+  dateFormat: z.enum(['iso', 'dmy', 'mdy'], {
+    message: 'dateFormat phải là iso, dmy hoặc mdy'
+  }).default('iso'),
+  decimalSeparator: z.enum(['.', ',']).default('.'),
+  dateColumn: columnRef,
+  amountColumn: columnRef.optional(),
+  debitColumn: columnRef.optional(),
+  creditColumn: columnRef.optional(),
+  descriptionColumn: columnRef.optional(),
+  referenceColumn: columnRef.optional(),
+  invertAmount: z.boolean().default(false)
+};
+
+// Phải có cột số tiền có dấu hoặc ít nhất 1 cột ghi nợ/ghi có
+const hasAmountMapping = (data: { amountColumn?: string | null; debitColumn?: string | null; creditColumn?: string | null }) =>
+  !!data.amountColumn || !!data.debitColumn || !!data.creditColumn;
+
+const amountMappingMessage = {
+  message: 'Phải khai báo amountColumn hoặc debitColumn/creditColumn',
+  path: ['amountColumn']
+};
+
+// Mapping CSV gửi trực tiếp khi preview (không lưu profile)
+export const csvMappingSchema = z.object(mappingFields).refine(hasAmountMapping, amountMappingMessage);
+
+// Schema cho tạo profile mapping
+export const createImportProfileSchema = z.object({
+  name: z.string().min(1, 'Tên profile không được rỗng').max(100, 'Tên profile không được quá 100 ký tự'),
+  ...mappingFields
+}).refine(hasAmountMapping, amountMappingMessage);
+
+// Schema cho cập nhật profile mapping (null để bỏ mapping cột tuỳ chọn)
+export const updateImportProfileSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  delimiter: z.enum([',', ';', '\t', '|']).optional(),
+  hasHeader: z.boolean().optional(),
+  skipRows: z.number().int().min(0).max(50).optional(),
+  dateFormat: z.enum(['iso', 'dmy', 'mdy']).optional(),
+  decimalSeparator: z.enum(['.', ',']).optional(),
+  dateColumn: columnRef.optional(),
+  amountColumn: columnRef.nullable().optional(),
+  debitColumn: columnRef.nullable().optional(),
+  creditColumn: columnRef.nullable().optional(),
+  descriptionColumn: columnRef.nullable().optional(),
+  referenceColumn: columnRef.nullable().optional(),
+  invertAmount: z.boolean().optional()
+}).refine(
+  (data) => Object.keys(data).length > 0,
+  'Phải cung cấp ít nhất một trường để cập nhật'
+);
+
+// Schema cho upload + preview (dry-run, chưa ghi giao dịch)
+export const previewImportSchema = z.object({
+  walletId: z.string().uuid('walletId phải là UUID hợp lệ'),
+  format: z.enum(['csv', 'ofx'], {
+    message: 'format phải là csv hoặc ofx'
+  }),
+  // Nội dung file (text). QFX dùng format ofx
+  content: z.string().min(1, 'content không được rỗng'),
+  fileName: z.string().max(191).optional(),
+  // CSV: dùng profile đã lưu hoặc mapping gửi kèm
+  profileId: z.string().uuid('profileId phải là UUID hợp lệ').optional(),
+  mapping: csvMappingSchema.optional(),
+  // Cửa sổ ngày (±N ngày) khi dò trùng với giao dịch đã có
+  duplicateWindowDays: z.number().int().min(0).max(30, 'duplicateWindowDays không được quá 30').default(3)
+}).refine(
+  (data) => data.format !== 'csv' || !!data.profileId || !!data.mapping,
+  { message: 'Import CSV cần profileId hoặc mapping', path: ['profileId'] }
+);
+
+// Schema cho commit: danh sách dòng được chấp nhận (dòng không có trong danh sách sẽ bị bỏ qua)
+export const commitImportSchema = z.object({
+  rows: z.array(z.object({
+    rowIndex: z.number().int().min(1),
+    // Override category đề xuất
+    categoryId: z.string().uuid('categoryId phải là UUID hợp lệ').optional(),
+    // Override ghi chú (mặc định là mô tả trong sao kê)
+    note: z.string().max(1000, 'note không được quá 1000 ký tự').optional()
+  })).min(1, 'Phải chọn ít nhất 1 dòng').max(MAX_IMPORT_ROWS)
+}).refine(
+  (data) => new Set(data.rows.map((r) => r.rowIndex)).size === data.rows.length,
+  { message: 'rowIndex không được trùng', path: ['rows'] }
+);
+
+// Schema cho query parameters danh sách lần import
+export const getImportBatchesQuerySchema = z.object({
+  walletId: z.string().uuid().optional(),
+  status: z.enum(['preview', 'committed', 'discarded']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+// Type definitions cho TypeScript
+export type CsvMappingData = z.infer<typeof csvMappingSchema>;
+export type CreateImportProfileData = z.infer<typeof createImportProfileSchema>;
+export type UpdateImportProfileData = z.infer<typeof updateImportProfileSchema>;
+export type PreviewImportData = z.infer<typeof previewImportSchema>;
+export type CommitImportData = z.infer<typeof commitImportSchema>;
+export type GetImportBatchesQuery = z.infer<typeof getImportBatchesQuerySchema>;
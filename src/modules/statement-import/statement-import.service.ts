@@ -0,0 +1,814 @@
+/**
+ * Statement Import Service
+ * File này chứa business logic cho import sao kê ngân hàng (CSV/OFX) vào 1 ví
+ * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
+ *
+ * Luồng nghiệp vụ:
+ * 1) Preview (dry-run): parse file -> lưu ImportBatch + ImportRow, đề xuất category,
+ *    đánh dấu dòng nghi trùng với giao dịch đã có (cùng ví, cùng số tiền/chiều, lệch ngày <= N)
+ * 2) Commit: user chọn các dòng chấp nhận (có thể override category/note)
+ *    => tạo toàn bộ giao dịch + cập nhật currentBalance trong 1 DB transaction
+ * 3) Discard: huỷ preview
+ *
+ * Quy ước: số tiền âm (hoặc cột ghi nợ) => expense, dương (hoặc cột ghi có) => income
+ */
+import { ImportDateFormat, TransactionType } from '@prisma/client';
+import { prisma } from '../../db/prisma';
+import { parseCsv } from '../../utils/csv';
+import { roundMoney } from '../../utils/currency';
+import { parseOfx } from '../../utils/ofx';
+import { startOfPeriod } from '../../utils/period';
+import { normalizeText, tokenize } from '../../utils/text';
+import { getAvailableBalance, WalletService } from '../wallet/wallet.service';
+import { transactionAuditSelect } from '../transaction/transaction.service';
+import { AuditEntry, AuditService } from '../audit/audit.service';
+import {
+  MAX_IMPORT_ROWS,
+  CreateImportProfileData,
+  UpdateImportProfileData,
+  PreviewImportData,
+  CommitImportData,
+  GetImportBatchesQuery
+} from './statement-import.schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Số giao dịch gần nhất dùng để học category đề xuất
+const SUGGESTION_HISTORY_SIZE = 1000;
+
+// Tỷ lệ từ chung tối thiểu để coi 2 mô tả là giống nhau
+const SUGGESTION_MIN_SIMILARITY = 0.5;
+
+// Commit có thể tạo hàng nghìn giao dịch => nới timeout của DB transaction
+const COMMIT_TIMEOUT_MS = 60_000;
+
+type EntryType = Extract<TransactionType, 'income' | 'expense'>;
+
+interface CsvMapping {
+  delimiter: string;
+  hasHeader: boolean;
+  skipRows: number;
+  dateFormat: ImportDateFormat;
+  decimalSeparator: string;
+  dateColumn: string;
+  amountColumn?: string | null;
+  debitColumn?: string | null;
+  creditColumn?: string | null;
+  descriptionColumn?: string | null;
+  referenceColumn?: string | null;
+  invertAmount: boolean;
+}
+
+interface ParsedStatementRow {
+  sourceLine: number;
+  type: EntryType | null;
+  transactionDate: Date | null;
+  amount: number | null;
+  description: string | null;
+  externalId: string | null;
+  errorMessage: string | null;
+}
+
+/**
+ * Tạo dòng invalid kèm lý do
+ */
+const invalidRow = (sourceLine: number, errorMessage: string, description: string | null = null): ParsedStatementRow => ({
+  sourceLine,
+  type: null,
+  transactionDate: null,
+  amount: null,
+  description,
+  externalId: null,
+  errorMessage
+});
+
+/**
+ * Tạo dòng hợp lệ từ số tiền có dấu
+ */
+function signedRow(
+  sourceLine: number,
+  transactionDate: Date,
+  signedAmount: number,
+  description: string | null,
+  externalId: string | null
+): ParsedStatementRow {
+  return {
+    sourceLine,
+    type: signedAmount < 0 ? 'expense' : 'income',
+    transactionDate,
+    amount: roundMoney(Math.abs(signedAmount)),
+    description,
+    externalId,
+    errorMessage: null
+  };
+}
+
+/**
+ * Tìm vị trí cột: số thứ tự (bắt đầu từ 1) hoặc tên header (không phân biệt hoa thường/dấu)
+ *
+ * @returns index (0-based) hoặc -1 nếu không tìm thấy
+ */
+function resolveColumn(header: string[] | null, ref: string | null | undefined) {
+  if (!ref) return -1;
+  if (/^\d+$/.test(ref)) return Number(ref) - 1;
+  if (!header) return -1;
+
+  const key = normalizeText(ref);
+  return header.findIndex((h) => normalizeText(h) === key);
+}
+
+/**
+ * Parse ngày trong sao kê theo định dạng của profile, trả về 00:00 UTC
+ */
+function parseStatementDate(raw: string | undefined, format: ImportDateFormat): Date | null {
+  const value = raw?.trim();
+  if (!value) return null;
+
+  let year: number;
+  let month: number;
+  let day: number;
+
+  if (format === 'iso') {
+    const match = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(value);
+    if (match) {
+      [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    } else {
+      const time = Date.parse(value);
+      return isNaN(time) ? null : startOfPeriod(new Date(time), 'daily');
+    }
+  } else {
+    const match = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/.exec(value);
+    if (!match) return null;
+    const first = Number(match[1]);
+    const second = Number(match[2]);
+    year = Number(match[3]);
+    if (year < 100) year += 2000;
+    [day, month] = format === 'dmy' ? [first, second] : [second, first];
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+}
+
+/**
+ * Parse số tiền trong sao kê: bỏ ký hiệu tiền tệ/phân cách hàng nghìn,
+ * hỗ trợ số âm dạng -1.000, (1.000) hoặc 1.000-
+ *
+ * @returns số có dấu hoặc NaN nếu không parse được
+ */
+function parseStatementAmount(raw: string | undefined, decimalSeparator: string): number {
+  const value = raw?.trim() ?? '';
+  if (value === '') return NaN;
+
+  const negative = value.startsWith('-') || value.endsWith('-') || /^\(.*\)$/.test(value);
+  const keep = decimalSeparator === ',' ? /[^0-9,]/g : /[^0-9.]/g;
+  let digits = value.replace(keep, '');
+  if (decimalSeparator === ',') digits = digits.replace(',', '.');
+  if (digits === '') return NaN;
+
+  const amount = Number(digits);
+  return negative ? -amount : amount;
+}
+
+/**
+ * Parse file CSV theo mapping
+ *
+ * @throws Error('IMPORT_FILE_EMPTY') nếu không có dòng dữ liệu
+ * @throws Error('IMPORT_CSV_COLUMN_NOT_FOUND') nếu cột trong mapping không có trong file
+ */
+function parseCsvStatement(content: string, mapping: CsvMapping): ParsedStatementRow[] {
+  const rows = parseCsv(content, mapping.delimiter).slice(mapping.skipRows);
+
+  const header = mapping.hasHeader ? rows.shift()?.values ?? null : null;
+  if (rows.length === 0) {
+    throw new Error('IMPORT_FILE_EMPTY');
+  }
+
+  const columns = {
+    date: resolveColumn(header, mapping.dateColumn),
+    amount: resolveColumn(header, mapping.amountColumn),
+    debit: resolveColumn(header, mapping.debitColumn),
+    credit: resolveColumn(header, mapping.creditColumn),
+    description: resolveColumn(header, mapping.descriptionColumn),
+    reference: resolveColumn(header, mapping.referenceColumn)
+  };
+
+  // Cột đã khai báo mà không tìm thấy => mapping sai file
+  const declared: [string | null | undefined, number][] = [
+    [mapping.dateColumn, columns.date],
+    [mapping.amountColumn, columns.amount],
+    [mapping.debitColumn, columns.debit],
+    [mapping.creditColumn, columns.credit],
+    [mapping.descriptionColumn, columns.description],
+    [mapping.referenceColumn, columns.reference]
+  ];
+  if (declared.some(([ref, index]) => !!ref && index < 0)) {
+    throw new Error('IMPORT_CSV_COLUMN_NOT_FOUND');
+  }
+
+  return rows.map(({ line, values }) => {
+    const description = columns.description >= 0 ? values[columns.description]?.trim() || null : null;
+    const externalId = columns.reference >= 0 ? values[columns.reference]?.trim() || null : null;
+
+    const transactionDate = parseStatementDate(values[columns.date], mapping.dateFormat);
+    if (!transactionDate) {
+      return invalidRow(line, 'Ngày không hợp lệ', description);
+    }
+
+    let signedAmount: number;
+    if (columns.amount >= 0) {
+      signedAmount = parseStatementAmount(values[columns.amount], mapping.decimalSeparator);
+      if (mapping.invertAmount) signedAmount = -signedAmount;
+    } else {
+      // Ghi nợ/ghi có: ô trống = 0, luôn lấy trị tuyệt đối
+      const debitRaw = columns.debit >= 0 ? values[columns.debit] : '';
+      const creditRaw = columns.credit >= 0 ? values[columns.credit] : '';
+      const debit = debitRaw?.trim() ? Math.abs(parseStatementAmount(debitRaw, mapping.decimalSeparator)) : 0;
+      const credit = creditRaw?.trim() ? Math.abs(parseStatementAmount(creditRaw, mapping.decimalSeparator)) : 0;
+      signedAmount = credit - debit;
+    }
+
+    if (!Number.isFinite(signedAmount)) {
+      return invalidRow(line, 'Số tiền không hợp lệ', description);
+    }
+    if (roundMoney(signedAmount) === 0) {
+      return invalidRow(line, 'Số tiền bằng 0', description);
+    }
+
+    return signedRow(line, transactionDate, signedAmount, description, externalId);
+  });
+}
+
+/**
+ * Parse file OFX/QFX
+ *
+ * @throws Error('IMPORT_FILE_EMPTY') nếu không có giao dịch
+ * @throws Error('IMPORT_CURRENCY_MISMATCH') nếu tiền tệ sao kê khác tiền tệ ví
+ */
+function parseOfxStatement(content: string, walletCurrency: string): ParsedStatementRow[] {
+  const statement = parseOfx(content);
+  if (statement.transactions.length === 0) {
+    throw new Error('IMPORT_FILE_EMPTY');
+  }
+  if (statement.currency && statement.currency.toUpperCase() !== walletCurrency) {
+    throw new Error('IMPORT_CURRENCY_MISMATCH');
+  }
+
+  return statement.transactions.map((t) => {
+    // NAME thường bị ngân hàng cắt ngắn => ghép thêm MEMO nếu khác
+    const parts = [t.name, t.memo].filter((p): p is string => !!p);
+    const description = parts.length === 2 && parts[0] === parts[1] ? parts[0] : parts.join(' - ') || null;
+
+    if (!t.datePosted) {
+      return invalidRow(t.line, 'Ngày không hợp lệ', description);
+    }
+    if (!Number.isFinite(t.amount)) {
+      return invalidRow(t.line, 'Số tiền không hợp lệ', description);
+    }
+    if (roundMoney(t.amount) === 0) {
+      return invalidRow(t.line, 'Số tiền bằng 0', description);
+    }
+
+    return signedRow(t.line, t.datePosted, t.amount, description, t.fitId);
+  });
+}
+
+/**
+ * Tạo hàm đề xuất category từ lịch sử giao dịch của user
+ * Thứ tự ưu tiên: mô tả trùng khớp -> mô tả nhiều từ chung nhất -> tên category xuất hiện trong mô tả
+ */
+async function buildCategorySuggester(userId: string) {
+  const history = await prisma.transaction.findMany({
+    where: {
+      userId,
+      deletedAt: null,
+      type: { in: ['income', 'expense'] },
+      categoryId: { not: null },
+      note: { not: null }
+    },
+    select: { type: true, categoryId: true, note: true },
+    orderBy: { transactionDate: 'desc' },
+    take: SUGGESTION_HISTORY_SIZE
+  });
+
+  const categories = await prisma.category.findMany({
+    where: { userId },
+    select: { id: true, type: true, name: true }
+  });
+
+  const samples = history.map((t) => ({
+    type: t.type,
+    categoryId: t.categoryId!,
+    key: normalizeText(t.note!),
+    tokens: new Set(tokenize(t.note!))
+  }));
+  const categoryKeys = categories
+    .map((c) => ({ id: c.id, type: c.type as string, key: normalizeText(c.name) }))
+    .filter((c) => c.key !== '');
+
+  return (type: EntryType, description: string | null): string | null => {
+    if (!description) return null;
+    const key = normalizeText(description);
+    if (key === '') return null;
+
+    // 1. Mô tả trùng khớp (history đã sắp mới nhất trước)
+    const exact = samples.find((s) => s.type === type && s.key === key);
+    if (exact) return exact.categoryId;
+
+    // 2. Nhiều từ chung nhất (Jaccard similarity)
+    const tokens = new Set(tokenize(description));
+    if (tokens.size > 0) {
+      let best: { categoryId: string; score: number } | null = null;
+      for (const sample of samples) {
+        if (sample.type !== type || sample.tokens.size === 0) continue;
+        let common = 0;
+        for (const token of tokens) {
+          if (sample.tokens.has(token)) common++;
+        }
+        const score = common / (tokens.size + sample.tokens.size - common);
+        if (score >= SUGGESTION_MIN_SIMILARITY && (!best || score > best.score)) {
+          best = { categoryId: sample.categoryId, score };
+        }
+      }
+      if (best) return best.categoryId;
+    }
+
+    // 3. Tên category xuất hiện nguyên cụm trong mô tả
+    const padded = ` ${key} `;
+    const byName = categoryKeys.find((c) => c.type === type && padded.includes(` ${c.key} `));
+    return byName?.id ?? null;
+  };
+}
+
+/**
+ * Dò trùng với dữ liệu đã có trong ví
+ * - Cùng FITID/mã tham chiếu với dòng đã import trước đó => trùng chắc chắn
+ * - Cùng chiều tiền + số tiền, lệch ngày <= windowDays => nghi trùng (mỗi giao dịch chỉ khớp 1 dòng)
+ *
+ * @returns Map vị trí dòng -> id giao dịch nghi trùng
+ */
+async function findDuplicates(userId: string, walletId: string, rows: ParsedStatementRow[], windowDays: number) {
+  const duplicates = new Map<number, string>();
+  const candidates = rows
+    .map((row, index) => ({ row, index }))
+    .filter(({ row }) => row.transactionDate && row.amount !== null && row.type);
+  if (candidates.length === 0) return duplicates;
+
+  const used = new Set<string>();
+
+  // 1. Trùng mã tham chiếu với các lần import trước vào cùng ví
+  const externalIds = candidates.map(({ row }) => row.externalId).filter((id): id is string => !!id);
+  if (externalIds.length > 0) {
+    const previous = await prisma.importRow.findMany({
+      where: {
+        externalId: { in: externalIds },
+        status: 'imported',
+        transactionId: { not: null },
+        batch: { walletId, userId },
+        transaction: { deletedAt: null }
+      },
+      select: { externalId: true, transactionId: true }
+    });
+    const byExternalId = new Map(previous.map((p) => [p.externalId!, p.transactionId!]));
+
+    for (const { row, index } of candidates) {
+      const transactionId = row.externalId ? byExternalId.get(row.externalId) : undefined;
+      if (transactionId && !used.has(transactionId)) {
+        duplicates.set(index, transactionId);
+        used.add(transactionId);
+      }
+    }
+  }
+
+  // 2. Cùng ví + số tiền + chiều, ngày gần nhau
+  const times = candidates.map(({ row }) => row.transactionDate!.getTime());
+  const windowMs = windowDays * DAY_MS;
+  const entries = await prisma.transactionEntry.findMany({
+    where: {
+      walletId,
+      transaction: {
+        userId,
+        deletedAt: null,
+        transactionDate: {
+          gte: new Date(Math.min(...times) - windowMs),
+          lt: new Date(Math.max(...times) + windowMs + DAY_MS)
+        }
+      }
+    },
+    select: {
+      direction: true,
+      amount: true,
+      transaction: { select: { id: true, transactionDate: true } }
+    }
+  });
+
+  for (const { row, index } of candidates) {
+    if (duplicates.has(index)) continue;
+
+    const direction = row.type === 'expense' ? 'out' : 'in';
+    const rowTime = row.transactionDate!.getTime();
+    let best: { id: string; diff: number } | null = null;
+
+    for (const entry of entries) {
+      const transactionId = entry.transaction.id;
+      if (used.has(transactionId) || entry.direction !== direction || entry.amount.toNumber() !== row.amount) continue;
+
+      const diff = Math.abs(startOfPeriod(entry.transaction.transactionDate, 'daily').getTime() - rowTime);
+      if (diff <= windowMs && (!best || diff < best.diff)) {
+        best = { id: transactionId, diff };
+      }
+    }
+
+    if (best) {
+      duplicates.set(index, best.id);
+      used.add(best.id);
+    }
+  }
+
+  return duplicates;
+}
+
+/**
+ * Lấy profile thuộc user
+ *
+ * @throws Error('IMPORT_PROFILE_NOT_FOUND') nếu profile không tồn tại
+ */
+async function getOwnedProfile(profileId: string, userId: string) {
+  const profile = await prisma.importProfile.findFirst({
+    where: { id: profileId, userId }
+  });
+  if (!profile) {
+    throw new Error('IMPORT_PROFILE_NOT_FOUND');
+  }
+  return profile;
+}
+
+/**
+ * Lấy batch đang ở trạng thái preview
+ *
+ * @throws Error('IMPORT_BATCH_NOT_FOUND') nếu batch không tồn tại
+ * @throws Error('IMPORT_BATCH_NOT_PREVIEW') nếu batch đã commit/huỷ
+ */
+async function getPreviewBatch(batchId: string, userId: string) {
+  const batch = await prisma.importBatch.findFirst({
+    where: { id: batchId, userId },
+    include: { rows: true }
+  });
+  if (!batch) {
+    throw new Error('IMPORT_BATCH_NOT_FOUND');
+  }
+  if (batch.status !== 'preview') {
+    throw new Error('IMPORT_BATCH_NOT_PREVIEW');
+  }
+  return batch;
+}
+
+export const StatementImportService = {
+  /**
+   * Tạo profile mapping cột CSV
+   *
+   * @throws Error('IMPORT_PROFILE_NAME_EXISTS') nếu tên profile đã tồn tại
+   */
+  async createProfile(data: CreateImportProfileData, userId: string) {
+    const existing = await prisma.importProfile.findFirst({
+      where: { userId, name: data.name }
+    });
+    if (existing) {
+      throw new Error('IMPORT_PROFILE_NAME_EXISTS');
+    }
+
+    return await prisma.importProfile.create({
+      data: { ...data, userId }
+    });
+  },
+
+  /**
+   * Lấy danh sách profile mapping của user
+   */
+  async getProfiles(userId: string) {
+    return await prisma.importProfile.findMany({
+      where: { userId },
+      orderBy: { name: 'asc' }
+    });
+  },
+
+  /**
+   * Cập nhật profile mapping
+   *
+   * @throws Error('IMPORT_PROFILE_NOT_FOUND') nếu profile không tồn tại
+   * @throws Error('IMPORT_PROFILE_NAME_EXISTS') nếu tên mới đã tồn tại
+   * @throws Error('IMPORT_PROFILE_AMOUNT_MAPPING_REQUIRED') nếu sau cập nhật không còn cột số tiền
+   */
+  async updateProfile(profileId: string, userId: string, data: UpdateImportProfileData) {
+    const profile = await getOwnedProfile(profileId, userId);
+
+    if (data.name && data.name !== profile.name) {
+      const nameExists = await prisma.importProfile.findFirst({
+        where: { userId, name: data.name, id: { not: profileId } }
+      });
+      if (nameExists) {
+        throw new Error('IMPORT_PROFILE_NAME_EXISTS');
+      }
+    }
+
+    const merged = { ...profile, ...data };
+    if (!merged.amountColumn && !merged.debitColumn && !merged.creditColumn) {
+      throw new Error('IMPORT_PROFILE_AMOUNT_MAPPING_REQUIRED');
+    }
+
+    return await prisma.importProfile.update({
+      where: { id: profileId },
+      data
+    });
+  },
+
+  /**
+   * Xóa profile mapping (các batch đã dùng profile vẫn giữ, profileId = null)
+   *
+   * @throws Error('IMPORT_PROFILE_NOT_FOUND') nếu profile không tồn tại
+   */
+  async deleteProfile(profileId: string, userId: string) {
+    await getOwnedProfile(profileId, userId);
+
+    await prisma.importProfile.delete({
+      where: { id: profileId }
+    });
+
+    return { id: profileId, deleted: true } as any;
+  },
+
+  /**
+   * Upload + preview sao kê (dry-run): parse, đề xuất category, đánh dấu nghi trùng
+   * Kết quả được lưu thành ImportBatch trạng thái preview để commit sau
+   *
+   * @throws Error('WALLET_NOT_FOUND') nếu ví không tồn tại hoặc đã archive
+   * @throws Error('IMPORT_PROFILE_NOT_FOUND') nếu profile không tồn tại
+   * @throws Error('IMPORT_FILE_EMPTY') nếu file không có dòng dữ liệu
+   * @throws Error('IMPORT_TOO_MANY_ROWS') nếu file vượt quá MAX_IMPORT_ROWS dòng
+   */
+  async previewImport(data: PreviewImportData, userId: string) {
+    const { walletId, format, content, fileName, profileId, mapping, duplicateWindowDays } = data;
+
+    const wallet = await prisma.wallet.findFirst({
+      where: { id: walletId, userId, isArchived: false }
+    });
+    if (!wallet) {
+      throw new Error('WALLET_NOT_FOUND');
+    }
+
+    let rows: ParsedStatementRow[];
+    if (format === 'ofx') {
+      rows = parseOfxStatement(content, wallet.currency);
+    } else {
+      const csvMapping: CsvMapping = profileId ? await getOwnedProfile(profileId, userId) : mapping!;
+      rows = parseCsvStatement(content, csvMapping);
+    }
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new Error('IMPORT_TOO_MANY_ROWS');
+    }
+
+    const suggestCategory = await buildCategorySuggester(userId);
+    const duplicates = await findDuplicates(userId, walletId, rows, duplicateWindowDays);
+
+    const batch = await prisma.importBatch.create({
+      data: {
+        userId,
+        walletId,
+        profileId: format === 'csv' ? profileId : undefined,
+        format,
+        fileName,
+        duplicateWindowDays,
+        rowCount: rows.length,
+        duplicateCount: duplicates.size,
+        invalidCount: rows.filter((r) => r.errorMessage).length,
+        rows: {
+          create: rows.map((row, index) => ({
+            rowIndex: index + 1,
+            sourceLine: row.sourceLine,
+            status: row.errorMessage ? 'invalid' : duplicates.has(index) ? 'duplicate' : 'ready',
+            type: row.type,
+            transactionDate: row.transactionDate,
+            amount: row.amount,
+            description: row.description,
+            externalId: row.externalId,
+            errorMessage: row.errorMessage,
+            proposedCategoryId: row.type ? suggestCategory(row.type, row.description) : null,
+            duplicateOfId: duplicates.get(index) ?? null
+          }))
+        }
+      }
+    });
+
+    return await StatementImportService.getBatchById(batch.id, userId);
+  },
+
+  /**
+   * Lấy danh sách các lần import của user
+   */
+  async getBatches(userId: string, filters: Partial<GetImportBatchesQuery> = {}) {
+    const { walletId, status, limit = 20, offset = 0 } = filters;
+
+    const where: any = { userId };
+    if (walletId) where.walletId = walletId;
+    if (status) where.status = status;
+
+    const batches = await prisma.importBatch.findMany({
+      where,
+      include: {
+        wallet: { select: { id: true, name: true, currency: true } },
+        profile: { select: { id: true, name: true } }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      skip: offset
+    });
+
+    const total = await prisma.importBatch.count({ where });
+
+    return {
+      batches,
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total
+      }
+    };
+  },
+
+  /**
+   * Lấy chi tiết 1 lần import kèm các dòng
+   *
+   * @returns ImportBatch hoặc null nếu không tìm thấy
+   */
+  async getBatchById(batchId: string, userId: string) {
+    return await prisma.importBatch.findFirst({
+      where: { id: batchId, userId },
+      include: {
+        wallet: { select: { id: true, name: true, currency: true } },
+        profile: { select: { id: true, name: true } },
+        rows: {
+          include: {
+            proposedCategory: { select: { id: true, name: true, icon: true, type: true } }
+          },
+          orderBy: { rowIndex: 'asc' }
+        }
+      }
+    });
+  },
+
+  /**
+   * Commit các dòng được chấp nhận: tạo giao dịch + cập nhật số dư ví trong 1 DB transaction
+   * Mỗi giao dịch được tạo ghi 1 dòng nhật ký thay đổi (create)
+   * Dòng không được chọn chuyển sang skipped
+   *
+   * @throws Error('IMPORT_BATCH_NOT_FOUND') nếu batch không tồn tại
+   * @throws Error('IMPORT_BATCH_NOT_PREVIEW') nếu batch đã commit/huỷ
+   * @throws Error('IMPORT_ROW_NOT_FOUND') nếu rowIndex không có trong batch
+   * @throws Error('IMPORT_ROW_INVALID') nếu chọn dòng không parse được
+   * @throws Error('IMPORT_ROW_CATEGORY_REQUIRED') nếu dòng không có category đề xuất và không override
+   * @throws Error('INSUFFICIENT_WALLET_BALANCE') nếu số dư ví sau import bị âm (quá hạn mức với ví credit / bank)
+   */
+  async commitImport(batchId: string, userId: string, data: CommitImportData) {
+    const batch = await getPreviewBatch(batchId, userId);
+
+    const wallet = await prisma.wallet.findFirst({
+      where: { id: batch.walletId, userId, isArchived: false }
+    });
+    if (!wallet) {
+      throw new Error('WALLET_NOT_FOUND');
+    }
+
+    const rowsByIndex = new Map(batch.rows.map((row) => [row.rowIndex, row]));
+    const selected = data.rows.map((selection) => {
+      const row = rowsByIndex.get(selection.rowIndex);
+      if (!row) {
+        throw new Error('IMPORT_ROW_NOT_FOUND');
+      }
+      if (row.status === 'invalid' || !row.type || !row.transactionDate || !row.amount) {
+        throw new Error('IMPORT_ROW_INVALID');
+      }
+
+      const categoryId = selection.categoryId ?? row.proposedCategoryId;
+      if (!categoryId) {
+        throw new Error('IMPORT_ROW_CATEGORY_REQUIRED');
+      }
+
+      return {
+        rowId: row.id,
+        type: row.type as EntryType,
+        transactionDate: row.transactionDate,
+        amount: row.amount.toNumber(),
+        categoryId,
+        note: selection.note ?? row.description
+      };
+    });
+
+    // Validate category thuộc user và đúng loại thu/chi
+    const categoryIds = Array.from(new Set(selected.map((s) => s.categoryId)));
+    const categories = await prisma.category.findMany({
+      where: { id: { in: categoryIds }, userId },
+      select: { id: true, type: true }
+    });
+    const categoryTypes = new Map(categories.map((c) => [c.id, c.type]));
+    for (const s of selected) {
+      const categoryType = categoryTypes.get(s.categoryId);
+      if (!categoryType) {
+        throw new Error('CATEGORY_NOT_FOUND');
+      }
+      if (categoryType !== s.type) {
+        throw new Error(s.type === 'income' ? 'INVALID_CATEGORY_TYPE_FOR_INCOME' : 'INVALID_CATEGORY_TYPE_FOR_EXPENSE');
+      }
+    }
+
+    const netAmount = roundMoney(selected.reduce((sum, s) => sum + (s.type === 'income' ? s.amount : -s.amount), 0));
+
+    await prisma.$transaction(async (tx) => {
+      // Chốt trạng thái trước để 2 request commit đồng thời không ghi trùng
+      const claimed = await tx.importBatch.updateMany({
+        where: { id: batchId, status: 'preview' },
+        data: { status: 'committed', committedAt: new Date(), importedCount: selected.length }
+      });
+      if (claimed.count === 0) {
+        throw new Error('IMPORT_BATCH_NOT_PREVIEW');
+      }
+
+      // Kiểm tra số dư trong transaction để tránh race condition
+      const current = await tx.wallet.findUnique({
+        where: { id: wallet.id },
+        select: { currentBalance: true, creditLimit: true }
+      });
+      if (!current || getAvailableBalance(current).plus(netAmount).lessThan(0)) {
+        throw new Error('INSUFFICIENT_WALLET_BALANCE');
+      }
+
+      const auditEntries: AuditEntry[] = [];
+      for (const s of selected) {
+        const transaction = await tx.transaction.create({
+          data: {
+            userId,
+            type: s.type,
+            transactionDate: s.transactionDate,
+            categoryId: s.categoryId,
+            amount: s.amount,
+            note: s.note,
+            entries: {
+              create: {
+                walletId: wallet.id,
+                direction: s.type === 'income' ? 'in' : 'out',
+                amount: s.amount
+              }
+            }
+          },
+          select: transactionAuditSelect
+        });
+
+        await tx.importRow.update({
+          where: { id: s.rowId },
+          data: { status: 'imported', transactionId: transaction.id }
+        });
+
+        auditEntries.push({ userId, entityType: 'transaction', entityId: transaction.id, action: 'create', after: transaction });
+      }
+      await AuditService.recordMany(auditEntries, tx);
+
+      // Các dòng còn lại (không được chọn) => skipped
+      await tx.importRow.updateMany({
+        where: { batchId, status: { in: ['ready', 'duplicate'] } },
+        data: { status: 'skipped' }
+      });
+
+      await tx.wallet.update({
+        where: { id: wallet.id },
+        data: {
+          currentBalance: {
+            increment: netAmount
+          }
+        }
+      });
+
+      if (selected.length > 0) {
+        const earliest = new Date(Math.min(...selected.map((s) => s.transactionDate.getTime())));
+        await WalletService.invalidateBalanceSnapshots([wallet.id], earliest, tx);
+      }
+    }, { timeout: COMMIT_TIMEOUT_MS });
+
+    return await StatementImportService.getBatchById(batchId, userId);
+  },
+
+  /**
+   * Huỷ preview (không tạo giao dịch nào)
+   *
+   * @throws Error('IMPORT_BATCH_NOT_FOUND') nếu batch không tồn tại
+   * @throws Error('IMPORT_BATCH_NOT_PREVIEW') nếu batch đã commit/huỷ
+   */
+  async discardImport(batchId: string, userId: string) {
+    await getPreviewBatch(batchId, userId);
+
+    return await prisma.importBatch.update({
+      where: { id: batchId },
+      data: { status: 'discarded' }
+    });
+  }
+};
@@ -0,0 +1,219 @@
+/**
+ * Tag Controller
+ * File này xử lý HTTP requests/responses cho tag gắn lên giao dịch
+ * Controller layer - chỉ xử lý HTTP, business logic nằm ở Service layer
+ */
+import { Request, Response } from 'express';
+import { TagService } from './tag.service';
+import { handleError, handleValidationError } from '../../utils/error-handler';
+import { getTagsQuerySchema } from './tag.schema';
+
+// Create module-specific error handler
+const handleTagError = (error: any, res: Response) =>
+  handleError(error, res, 'Tag');
+
+export const TagController = {
+  /**
+   * @swagger
+   * /tags:
+   *   post:
+   *     tags:
+   *       - Tags
+   *     summary: Tạo tag
+   *     description: |
+   *       Tag là nhãn tự do để gom giao dịch xuyên category (VD: "trip-japan-2026", "reimbursable").
+   *       Gắn tag khi tạo/sửa giao dịch (tagIds) hoặc hàng loạt qua POST /tags/bulk.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - name
+   *             properties:
+   *               name:
+   *                 type: string
+   *                 maxLength: 50
+   *               color:
+   *                 type: string
+   *                 example: '#ff9900'
+   *     responses:
+   *       201:
+   *         description: Tag đã tạo
+   *       400:
+   *         description: Dữ liệu không hợp lệ
+   *       409:
+   *         description: Tên tag đã tồn tại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async createTag(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const tag = await TagService.createTag(req.body, userId);
+      return res.status(201).json({
+        message: 'Tag created successfully',
+        tag
+      });
+    } catch (e: any) {
+      return handleTagError(e, res);
+    }
+  },
+
+  /**
+   * Lấy danh sách tag
+   * GET /api/tags?search=
+   */
+  async getTags(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const parsed = getTagsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
+
+      const result = await TagService.getTags(userId, parsed.data);
+      return res.status(200).json({
+        message: 'Tags retrieved successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleTagError(e, res);
+    }
+  },
+
+  /**
+   * Chi tiết tag
+   * GET /api/tags/:id
+   */
+  async getTag(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const tag = await TagService.getTagById(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Tag retrieved successfully',
+        tag
+      });
+    } catch (e: any) {
+      return handleTagError(e, res);
+    }
+  },
+
+  /**
+   * Đổi tên / màu tag
+   * PUT /api/tags/:id
+   */
+  async updateTag(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const tag = await TagService.updateTag(req.params.id, userId, req.body);
+      return res.status(200).json({
+        message: 'Tag updated successfully',
+        tag
+      });
+    } catch (e: any) {
+      return handleTagError(e, res);
+    }
+  },
+
+  /**
+   * Xoá tag (gỡ khỏi mọi giao dịch)
+   * DELETE /api/tags/:id
+   */
+  async deleteTag(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const tag = await TagService.deleteTag(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Tag deleted successfully',
+        tag
+      });
+    } catch (e: any) {
+      return handleTagError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /tags/bulk:
+   *   post:
+   *     tags:
+   *       - Tags
+   *     summary: Gắn / gỡ tag hàng loạt trên nhiều giao dịch
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - transactionIds
+   *             properties:
+   *               transactionIds:
+   *                 type: array
+   *                 maxItems: 500
+   *                 items:
+   *                   type: string
+   *                   format: uuid
+   *               addTagIds:
+   *                 type: array
+   *                 items:
+   *                   type: string
+   *                   format: uuid
+   *               removeTagIds:
+   *                 type: array
+   *                 items:
+   *                   type: string
+   *                   format: uuid
+   *     responses:
+   *       200:
+   *         description: Số giao dịch được chọn, số liên kết đã thêm (added) / đã gỡ (removed)
+   *       400:
+   *         description: Dữ liệu không hợp lệ hoặc giao dịch vượt quá 20 tag
+   *       404:
+   *         description: Giao dịch hoặc tag không tồn tại
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async bulkUpdateTransactionTags(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const result = await TagService.bulkUpdateTransactionTags(userId, req.body);
+      return res.status(200).json({
+        message: 'Transaction tags updated successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleTagError(e, res);
+    }
+  }
+};
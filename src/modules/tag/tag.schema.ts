@@ -0,0 +1,63 @@
+// Schema validation cho Tag APIs
+// Sử dụng Zod để validate request body/query cho tag và gắn/gỡ tag hàng loạt
+import { z } from 'zod';
+
+// Số tag tối đa trên 1 giao dịch
+export const MAX_TAGS_PER_TRANSACTION = 20;
+
+const tagName = z.string()
+  .trim()
+  .min(1, 'Tên tag không được rỗng')
+  .max(50, 'Tên tag không được quá 50 ký tự');
+
+const tagColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'color phải là mã màu hex (VD: #ff9900)');
+
+const tagIdList = z.array(z.string().uuid('tagId phải là UUID hợp lệ'))
+  .max(MAX_TAGS_PER_TRANSACTION, `Tối đa ${MAX_TAGS_PER_TRANSACTION} tag`);
+
+// Schema cho tạo tag
+export const createTagSchema = z.object({
+  name: tagName,
+  color: tagColor.optional()
+});
+
+// Schema cho cập nhật tag
+export const updateTagSchema = z.object({
+  name: tagName.optional(),
+  color: tagColor.nullable().optional()
+}).refine(
+  (data) => Object.keys(data).length > 0,
+  'Phải cung cấp ít nhất một trường để cập nhật'
+);
+
+// Schema cho gắn / gỡ tag hàng loạt trên nhiều giao dịch
+export const bulkTagSchema = z.object({
+  transactionIds: z.array(z.string().uuid('transactionId phải là UUID hợp lệ'))
+    .min(1, 'transactionIds không được rỗng')
+    .max(500, 'Tối đa 500 giao dịch mỗi lần'),
+  addTagIds: tagIdList.default([]),
+  removeTagIds: tagIdList.default([])
+}).refine(
+  (data) => data.addTagIds.length > 0 || data.removeTagIds.length > 0,
+  { message: 'Phải có addTagIds hoặc removeTagIds', path: ['addTagIds'] }
+).refine(
+  (data) => !data.addTagIds.some((id) => data.removeTagIds.includes(id)),
+  { message: 'Một tag không thể vừa gắn vừa gỡ', path: ['removeTagIds'] }
+);
+
+// Schema cho query parameters danh sách tag
+export const getTagsQuerySchema = z.object({
+  // Tìm theo tên (chứa chuỗi)
+  search: z.string().trim().min(1).max(50).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+// Dùng cho tagIds trong body tạo/cập nhật giao dịch
+export const transactionTagIdsSchema = tagIdList;
+
+// Type definitions cho TypeScript
+export type CreateTagData = z.infer<typeof createTagSchema>;
+export type UpdateTagData = z.infer<typeof updateTagSchema>;
+export type BulkTagData = z.infer<typeof bulkTagSchema>;
+export type GetTagsQuery = z.infer<typeof getTagsQuerySchema>;
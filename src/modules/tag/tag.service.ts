@@ -0,0 +1,223 @@
+/**
+ * Tag Service
+ * File này chứa business logic cho tag (nhãn tự do) gắn lên giao dịch
+ * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
+ *
+ * Logic nghiệp vụ:
+ * - Tag thuộc user, tên unique theo user; 1 giao dịch có nhiều tag và ngược lại (bảng nối TransactionTag)
+ * - Tag chỉ là metadata: gắn/gỡ tag không ảnh hưởng số dư, được phép cả với giao dịch đã khoá đối chiếu
+ * - Xoá tag => gỡ tag khỏi mọi giao dịch (cascade), giao dịch giữ nguyên
+ * - Tối đa MAX_TAGS_PER_TRANSACTION tag trên 1 giao dịch
+ */
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../db/prisma';
+import {
+  CreateTagData,
+  UpdateTagData,
+  BulkTagData,
+  GetTagsQuery,
+  MAX_TAGS_PER_TRANSACTION
+} from './tag.schema';
+
+// Chỉ đếm giao dịch chưa xoá
+const tagInclude = {
+  _count: {
+    select: {
+      transactions: { where: { transaction: { deletedAt: null } } }
+    }
+  }
+} as const;
+
+async function getTag(tagId: string, userId: string) {
+  const tag = await prisma.tag.findFirst({
+    where: { id: tagId, userId }
+  });
+
+  if (!tag) {
+    throw new Error('TAG_NOT_FOUND');
+  }
+
+  return tag;
+}
+
+async function assertNameAvailable(userId: string, name: string, excludeId?: string) {
+  const existing = await prisma.tag.findFirst({
+    where: {
+      userId,
+      name,
+      ...(excludeId ? { id: { not: excludeId } } : {})
+    },
+    select: { id: true }
+  });
+
+  if (existing) {
+    throw new Error('TAG_NAME_EXISTS');
+  }
+}
+
+export const TagService = {
+  /**
+   * Tạo tag mới
+   *
+   * @throws Error('TAG_NAME_EXISTS') nếu user đã có tag cùng tên
+   */
+  async createTag(data: CreateTagData, userId: string) {
+    await assertNameAvailable(userId, data.name);
+
+    return await prisma.tag.create({
+      data: {
+        userId,
+        name: data.name,
+        color: data.color
+      },
+      include: tagInclude
+    });
+  },
+
+  /**
+   * Danh sách tag của user (kèm số giao dịch đang gắn)
+   */
+  async getTags(userId: string, filters: Partial<GetTagsQuery> = {}) {
+    const { search, limit = 50, offset = 0 } = filters;
+
+    const where: Prisma.TagWhereInput = { userId };
+    if (search) where.name = { contains: search };
+
+    const tags = await prisma.tag.findMany({
+      where,
+      include: tagInclude,
+      orderBy: { name: 'asc' },
+      take: limit,
+      skip: offset
+    });
+
+    const total = await prisma.tag.count({ where });
+
+    return {
+      tags,
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total
+      }
+    };
+  },
+
+  /**
+   * Chi tiết tag
+   *
+   * @throws Error('TAG_NOT_FOUND') nếu tag không thuộc user
+   */
+  async getTagById(tagId: string, userId: string) {
+    const tag = await prisma.tag.findFirst({
+      where: { id: tagId, userId },
+      include: tagInclude
+    });
+
+    if (!tag) {
+      throw new Error('TAG_NOT_FOUND');
+    }
+
+    return tag;
+  },
+
+  /**
+   * Đổi tên / màu tag
+   *
+   * @throws Error('TAG_NOT_FOUND') nếu tag không thuộc user
+   * @throws Error('TAG_NAME_EXISTS') nếu tên mới trùng tag khác
+   */
+  async updateTag(tagId: string, userId: string, data: UpdateTagData) {
+    const tag = await getTag(tagId, userId);
+
+    if (data.name && data.name !== tag.name) {
+      await assertNameAvailable(userId, data.name, tagId);
+    }
+
+    return await prisma.tag.update({
+      where: { id: tagId },
+      data: {
+        name: data.name,
+        color: data.color
+      },
+      include: tagInclude
+    });
+  },
+
+  /**
+   * Xoá tag (gỡ khỏi mọi giao dịch)
+   *
+   * @throws Error('TAG_NOT_FOUND') nếu tag không thuộc user
+   */
+  async deleteTag(tagId: string, userId: string) {
+    await getTag(tagId, userId);
+
+    return await prisma.tag.delete({
+      where: { id: tagId }
+    });
+  },
+
+  /**
+   * Gắn / gỡ tag hàng loạt trên nhiều giao dịch
+   * Gắn tag đã có hoặc gỡ tag chưa gắn được bỏ qua
+   *
+   * @returns Số giao dịch được chọn, số liên kết đã thêm / đã gỡ
+   * @throws Error('TRANSACTION_NOT_FOUND') nếu có giao dịch không thuộc user hoặc đã xoá
+   * @throws Error('TAG_NOT_FOUND') nếu có tag không thuộc user
+   * @throws Error('TAG_LIMIT_EXCEEDED') nếu giao dịch vượt quá số tag tối đa sau khi gắn
+   */
+  async bulkUpdateTransactionTags(userId: string, data: BulkTagData) {
+    const transactionIds = Array.from(new Set(data.transactionIds));
+    const addTagIds = Array.from(new Set(data.addTagIds));
+    const removeTagIds = Array.from(new Set(data.removeTagIds));
+
+    const transactionCount = await prisma.transaction.count({
+      where: { id: { in: transactionIds }, userId, deletedAt: null }
+    });
+    if (transactionCount !== transactionIds.length) {
+      throw new Error('TRANSACTION_NOT_FOUND');
+    }
+
+    const tagIds = [...addTagIds, ...removeTagIds];
+    const tagCount = await prisma.tag.count({
+      where: { id: { in: tagIds }, userId }
+    });
+    if (tagCount !== tagIds.length) {
+      throw new Error('TAG_NOT_FOUND');
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      const removed = removeTagIds.length > 0
+        ? await tx.transactionTag.deleteMany({
+          where: { transactionId: { in: transactionIds }, tagId: { in: removeTagIds } }
+        })
+        : { count: 0 };
+
+      const added = addTagIds.length > 0
+        ? await tx.transactionTag.createMany({
+          data: transactionIds.flatMap((transactionId) => addTagIds.map((tagId) => ({ transactionId, tagId }))),
+          skipDuplicates: true
+        })
+        : { count: 0 };
+
+      if (added.count > 0) {
+        const overLimit = await tx.transactionTag.groupBy({
+          by: ['transactionId'],
+          where: { transactionId: { in: transactionIds } },
+          _count: { tagId: true },
+          having: { tagId: { _count: { gt: MAX_TAGS_PER_TRANSACTION } } }
+        });
+        if (overLimit.length > 0) {
+          throw new Error('TAG_LIMIT_EXCEEDED');
+        }
+      }
+
+      return {
+        transactions: transactionIds.length,
+        added: added.count,
+        removed: removed.count
+      };
+    });
+  }
+};
@@ -140,6 +140,13 @@ export const TransactionTemplateController = {
    *           enum: [income, expense, transfer]
    *         description: Lọc theo loại giao dịch
    *       - in: query
+   *         name: sortBy
+   *         schema:
+   *           type: string
+   *           enum: [createdAt, name]
+   *         description: Bỏ trống => nhóm theo type, mới nhất trước
+   *       - $ref: '#/components/parameters/SortOrder'
+   *       - in: query
    *         name: limit
    *         schema:
    *           type: integer
@@ -147,13 +154,9 @@ export const TransactionTemplateController = {
    *           maximum: 500
    *           default: 50
    *         description: Số lượng templates trả về
-   *       - in: query
-   *         name: offset
-   *         schema:
-   *           type: integer
-   *           minimum: 0
-   *           default: 0
-   *         description: Số lượng templates bỏ qua
+   *       - $ref: '#/components/parameters/Cursor'
+   *       - $ref: '#/components/parameters/Offset'
+   *       - $ref: '#/components/parameters/IncludeTotal'
    *     responses:
    *       200:
    *         description: Danh sách templates
@@ -172,11 +175,7 @@ export const TransactionTemplateController = {
         return handleValidationError(parsed.error, res);
       }
 
-      const result = await TransactionTemplateService.getTemplates(userId, {
-        type: parsed.data.type,
-        limit: parsed.data.limit,
-        offset: parsed.data.offset
-      });
+      const result = await TransactionTemplateService.getTemplates(userId, parsed.data);
 
       return res.status(200).json({
         message: 'Transaction templates retrieved successfully',
@@ -1,6 +1,7 @@
 // Schema validation cho Transaction Template APIs
 // Sử dụng Zod để validate request body
 import { z } from 'zod';
+import { paginationQueryShape, sortQueryShape } from '../../utils/pagination';
 
 // Schema chung cho tất cả transaction template
 const baseTemplateSchema = {
@@ -64,11 +65,15 @@ export const updateTemplateSchema = z.object({
   note: z.string().max(1000).optional().nullable()
 });
 
+// Cột được phép sắp xếp danh sách templates
+export const TEMPLATE_SORT_FIELDS = ['createdAt', 'name'] as const;
+
 // Schema cho query parameters khi lấy danh sách templates
 export const getTemplatesQuerySchema = z.object({
   type: z.enum(['income', 'expense', 'transfer']).optional(),
-  limit: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().int().min(1).max(500)).optional(),
-  offset: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().int().min(0)).optional()
+  // Mặc định: nhóm theo type (income, expense, transfer), mới nhất trước
+  ...sortQueryShape(TEMPLATE_SORT_FIELDS),
+  ...paginationQueryShape({ maxLimit: 500 })
 });
 
 // Type definitions cho TypeScript
@@ -10,6 +10,8 @@
  * - Template thuộc về user (multi-tenant)
  */
 import { prisma } from '../../db/prisma';
+import { paginate, SortKey } from '../../utils/pagination';
+import { AuditService } from '../audit/audit.service';
 import {
   CreateTemplateData,
   CreateTemplateFromTransactionData,
@@ -98,24 +100,35 @@ export const TransactionTemplateService = {
       throw new Error('TEMPLATE_NAME_EXISTS');
     }
 
-    // Tạo template
-    const template = await prisma.transactionTemplate.create({
-      data: {
+    // Tạo template + ghi nhật ký thay đổi
+    return await prisma.$transaction(async (tx) => {
+      const template = await tx.transactionTemplate.create({
+        data: {
+          userId,
+          name,
+          type,
+          walletId: walletId || null,
+          categoryId: categoryId || null,
+          amount: amount ? amount : null,
+          note: note || null
+        },
+        include: {
+          wallet: true,
+          category: true
+        }
+      });
+
+      const { wallet: _wallet, category: _category, ...after } = template;
+      await AuditService.record({
         userId,
-        name,
-        type,
-        walletId: walletId || null,
-        categoryId: categoryId || null,
-        amount: amount ? amount : null,
-        note: note || null
-      },
-      include: {
-        wallet: true,
-        category: true
-      }
-    });
+        entityType: 'transaction_template',
+        entityId: template.id,
+        action: 'create',
+        after
+      }, tx);
 
-    return template;
+      return template;
+    });
   },
 
   /**
@@ -169,24 +182,35 @@ export const TransactionTemplateService = {
       throw new Error('TEMPLATE_NAME_EXISTS');
     }
 
-    // Tạo template từ transaction
-    const template = await prisma.transactionTemplate.create({
-      data: {
+    // Tạo template từ transaction + ghi nhật ký thay đổi
+    return await prisma.$transaction(async (tx) => {
+      const template = await tx.transactionTemplate.create({
+        data: {
+          userId,
+          name,
+          type: transaction.type,
+          walletId,
+          categoryId: transaction.categoryId,
+          amount: transaction.amount.toNumber(),
+          note: transaction.note
+        },
+        include: {
+          wallet: true,
+          category: true
+        }
+      });
+
+      const { wallet: _wallet, category: _category, ...after } = template;
+      await AuditService.record({
         userId,
-        name,
-        type: transaction.type,
-        walletId,
-        categoryId: transaction.categoryId,
-        amount: transaction.amount.toNumber(),
-        note: transaction.note
-      },
-      include: {
-        wallet: true,
-        category: true
-      }
-    });
+        entityType: 'transaction_template',
+        entityId: template.id,
+        action: 'create',
+        after
+      }, tx);
 
-    return template;
+      return template;
+    });
   },
 
   /**
@@ -197,7 +221,15 @@ export const TransactionTemplateService = {
    * @returns Danh sách templates với pagination
    */
   async getTemplates(userId: string, filters: Partial<GetTemplatesQuery> = {}) {
-    const { type, limit = 50, offset = 0 } = filters;
+    const {
+      type,
+      sortBy,
+      sortOrder = 'desc',
+      limit = 50,
+      cursor,
+      offset,
+      includeTotal
+    } = filters;
 
     // Build where clause
     const where: any = {
@@ -208,23 +240,33 @@ export const TransactionTemplateService = {
       where.type = type;
     }
 
-    // Lấy danh sách templates
-    const rows = await prisma.transactionTemplate.findMany({
-      where,
-      include: {
-        wallet: true,
-        category: true
-      },
-      orderBy: [
-        { type: 'asc' },      // Income trước, expense sau, transfer cuối
-        { createdAt: 'desc' }  // Mới nhất trước
-      ],
-      take: limit,
-      skip: offset
-    });
+    const sort: SortKey[] = sortBy
+      ? [
+        { field: sortBy, direction: sortOrder },
+        { field: 'id', direction: sortOrder }
+      ]
+      : [
+        { field: 'type', direction: 'asc', values: ['income', 'expense', 'transfer'] }, // Income trước, expense sau, transfer cuối
+        { field: 'createdAt', direction: 'desc' }, // Mới nhất trước
+        { field: 'id', direction: 'desc' }
+      ];
 
-    // Đếm total
-    const total = await prisma.transactionTemplate.count({ where });
+    // Lấy danh sách templates
+    const { items: rows, pagination } = await paginate(
+      { limit, cursor, offset, includeTotal },
+      sort,
+      (page) => prisma.transactionTemplate.findMany({
+        where: { AND: [where, page.where] },
+        include: {
+          wallet: true,
+          category: true
+        },
+        orderBy: page.orderBy,
+        take: page.take,
+        skip: page.skip
+      }),
+      () => prisma.transactionTemplate.count({ where })
+    );
 
     // Chuyển Prisma Decimal sang number an toàn (tránh throw / lỗi serialize)
     const toNum = (v: unknown): number | null => {
@@ -267,12 +309,7 @@ export const TransactionTemplateService = {
 
     return {
       templates,
-      pagination: {
-        total,
-        limit,
-        offset,
-        hasMore: offset + limit < total
-      }
+      pagination
     };
   },
 
@@ -340,23 +377,35 @@ export const TransactionTemplateService = {
       }
     }
 
-    // Cập nhật template
-    const updatedTemplate = await prisma.transactionTemplate.update({
-      where: { id: templateId },
-      data: {
-        name: data.name,
-        walletId: data.walletId === undefined ? undefined : (data.walletId || null),
-        categoryId: data.categoryId === undefined ? undefined : (data.categoryId || null),
-        amount: data.amount === undefined ? undefined : (data.amount || null),
-        note: data.note === undefined ? undefined : (data.note || null)
-      },
-      include: {
-        wallet: true,
-        category: true
-      }
-    });
+    // Cập nhật template + ghi nhật ký thay đổi
+    return await prisma.$transaction(async (tx) => {
+      const updatedTemplate = await tx.transactionTemplate.update({
+        where: { id: templateId },
+        data: {
+          name: data.name,
+          walletId: data.walletId === undefined ? undefined : (data.walletId || null),
+          categoryId: data.categoryId === undefined ? undefined : (data.categoryId || null),
+          amount: data.amount === undefined ? undefined : (data.amount || null),
+          note: data.note === undefined ? undefined : (data.note || null)
+        },
+        include: {
+          wallet: true,
+          category: true
+        }
+      });
 
-    return updatedTemplate;
+      const { wallet: _wallet, category: _category, ...after } = updatedTemplate;
+      await AuditService.record({
+        userId,
+        entityType: 'transaction_template',
+        entityId: templateId,
+        action: 'update',
+        before: existingTemplate,
+        after
+      }, tx);
+
+      return updatedTemplate;
+    });
   },
 
   /**
@@ -377,9 +426,19 @@ export const TransactionTemplateService = {
       throw new Error('TEMPLATE_NOT_FOUND');
     }
 
-    // Xóa template (hard delete)
-    await prisma.transactionTemplate.delete({
-      where: { id: templateId }
+    // Xóa template (hard delete) + ghi nhật ký thay đổi
+    await prisma.$transaction(async (tx) => {
+      await tx.transactionTemplate.delete({
+        where: { id: templateId }
+      });
+
+      await AuditService.record({
+        userId,
+        entityType: 'transaction_template',
+        entityId: templateId,
+        action: 'delete',
+        before: template
+      }, tx);
     });
 
     return { id: templateId, deleted: true } as any;
@@ -5,7 +5,8 @@
  */
 import { Request, Response } from 'express';
 import { TransactionService } from './transaction.service';
-import { handleError } from '../../utils/error-handler';
+import { handleError, handleValidationError } from '../../utils/error-handler';
+import { getTransactionsQuerySchema } from './transaction.schema';
 
 // Create module-specific error handler
 const handleTransactionError = (error: any, res: Response) =>
@@ -84,8 +85,14 @@ export const TransactionController = {
    * - endDate: ISO date string
    * - categoryId: UUID string
    * - walletId: UUID string
+   * - tagIds: UUID string, nhiều tag cách nhau bởi dấu phẩy
+   * - tagMatch: 'any' | 'all' (default any)
+   * - sortBy: 'transactionDate' | 'amount' | 'createdAt' (default transactionDate)
+   * - sortOrder: 'asc' | 'desc' (default desc)
    * - limit: number (default 50)
-   * - offset: number (default 0)
+   * - cursor: pagination.nextCursor của trang trước
+   * - offset: number (cách cũ, không dùng chung với cursor)
+   * - includeTotal: boolean (default true khi không dùng cursor) - đếm tổng số giao dịch
    *
    * @param req.query - Các filter parameters
    * @param req.user.id - User ID từ JWT token
@@ -99,37 +106,14 @@ export const TransactionController = {
         return res.status(401).json({ message: 'Unauthorized' });
       }
 
-      // Parse query parameters
-      const excludeLoanRelated = req.query.excludeLoanRelated === 'true' || req.query.excludeLoanRelated === '1';
-      const filters = {
-        type: req.query.type as 'income' | 'expense' | 'transfer' | undefined,
-        startDate: req.query.startDate ? new Date(req.query.startDate as string) : undefined,
-        endDate: req.query.endDate ? new Date(req.query.endDate as string) : undefined,
-        categoryId: req.query.categoryId as string | undefined,
-        walletId: req.query.walletId as string | undefined,
-        limit: req.query.limit ? parseInt(req.query.limit as string) : 50,
-        offset: req.query.offset ? parseInt(req.query.offset as string) : 0,
-        excludeLoanRelated
-      };
-
-      // Validate limit và offset
-      if (filters.limit && (filters.limit < 1 || filters.limit > 100)) {
-        return res.status(400).json({ message: 'Limit must be between 1 and 100' });
-      }
-      if (filters.offset && filters.offset < 0) {
-        return res.status(400).json({ message: 'Offset must be non-negative' });
-      }
-
-      // Validate date formats
-      if (filters.startDate && isNaN(filters.startDate.getTime())) {
-        return res.status(400).json({ message: 'Invalid startDate format' });
-      }
-      if (filters.endDate && isNaN(filters.endDate.getTime())) {
-        return res.status(400).json({ message: 'Invalid endDate format' });
+      // Parse + validate query parameters
+      const parsed = getTransactionsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
       }
 
       // Gọi service để lấy transactions
-      const result = await TransactionService.getTransactions(userId, filters);
+      const result = await TransactionService.getTransactions(userId, parsed.data);
 
       // Trả về kết quả
       return res.status(200).json({
@@ -137,8 +121,7 @@ export const TransactionController = {
         ...result
       });
     } catch (e: any) {
-      console.error('Get transactions error:', e);
-      return res.status(500).json({ message: 'Internal server error' });
+      return handleTransactionError(e, res);
     }
   },
 
@@ -1,6 +1,8 @@
 // Schema validation cho Transaction APIs
 // Sử dụng Zod để validate request body cho các loại transaction khác nhau
 import { z } from 'zod';
+import { transactionTagIdsSchema } from '../tag/tag.schema';
+import { paginationQueryShape, sortQueryShape } from '../../utils/pagination';
 
 // Schema chung cho tất cả transaction
 const baseTransactionSchema = {
@@ -11,28 +13,85 @@ const baseTransactionSchema = {
     (val) => Number(val.toFixed(2)) === val,
     'amount chỉ được phép 2 số thập phân'
   ),
+  note: z.string().max(1000, 'note không được quá 1000 ký tự').optional(),
+  // Tag gắn lên giao dịch (update: bỏ trống = giữ nguyên, [] = gỡ hết)
+  tagIds: transactionTagIdsSchema.optional(),
+  // Người liên quan trong danh bạ (update: bỏ trống = giữ nguyên, null = bỏ liên kết)
+  contactId: z.string().uuid('contactId phải là UUID hợp lệ').nullable().optional()
+};
+
+// Số dòng tối đa của 1 giao dịch split
+export const MAX_SPLIT_LINES = 20;
+
+// 1 dòng category của giao dịch split
+const splitLineSchema = z.object({
+  categoryId: z.string().uuid('categoryId phải là UUID hợp lệ'),
+  amount: z.number().positive('amount phải lớn hơn 0').refine(
+    (val) => Number(val.toFixed(2)) === val,
+    'amount chỉ được phép 2 số thập phân'
+  ),
   note: z.string().max(1000, 'note không được quá 1000 ký tự').optional()
+});
+
+// Income/expense: 1 category (categoryId) hoặc chia nhiều category (splits, tổng = amount)
+const categorySchema = {
+  categoryId: z.string().uuid('categoryId phải là UUID hợp lệ').optional(),
+  splits: z.array(splitLineSchema)
+    .min(2, 'splits phải có ít nhất 2 dòng')
+    .max(MAX_SPLIT_LINES, `splits không được quá ${MAX_SPLIT_LINES} dòng`)
+    .optional()
+};
+
+type CategoryFields = { amount: number; categoryId?: string; splits?: { amount: number }[] };
+
+const hasOneCategorySource = (data: CategoryFields) => !!data.categoryId !== !!data.splits;
+const categorySourceMessage = {
+  message: 'Phải có categoryId hoặc splits (không dùng cả 2)',
+  path: ['categoryId']
+};
+
+// So sánh theo đơn vị xu để tránh sai số float
+const splitsMatchAmount = (data: CategoryFields) =>
+  !data.splits || Math.round(data.splits.reduce((sum, s) => sum + s.amount, 0) * 100) === Math.round(data.amount * 100);
+const splitsAmountMessage = {
+  message: 'Tổng amount của splits phải bằng amount của giao dịch',
+  path: ['splits']
+};
+
+// Chỉ dùng cho transfer giữa 2 ví khác tiền tệ (cung cấp 1 trong 2, bỏ trống => tra bảng tỷ giá)
+const crossCurrencyTransferSchema = {
+  // Số tiền ví đích nhận được (theo tiền tệ ví đích)
+  toAmount: z.number().positive('toAmount phải lớn hơn 0').refine(
+    (val) => Number(val.toFixed(2)) === val,
+    'toAmount chỉ được phép 2 số thập phân'
+  ).optional(),
+  // 1 đơn vị tiền ví nguồn = exchangeRate đơn vị tiền ví đích
+  exchangeRate: z.number().positive('exchangeRate phải lớn hơn 0').refine(
+    (val) => Number(val.toFixed(8)) === val,
+    'exchangeRate chỉ được phép 8 số thập phân'
+  ).optional()
 };
 
 // Schema cho Income transaction (thu tiền vào ví)
 export const createIncomeSchema = z.object({
   ...baseTransactionSchema,
+  ...categorySchema,
   type: z.literal('income'),
-  walletId: z.string().uuid('walletId phải là UUID hợp lệ'),
-  categoryId: z.string().uuid('categoryId phải là UUID hợp lệ')
-});
+  walletId: z.string().uuid('walletId phải là UUID hợp lệ')
+}).refine(hasOneCategorySource, categorySourceMessage).refine(splitsMatchAmount, splitsAmountMessage);
 
 // Schema cho Expense transaction (chi tiền ra khỏi ví)
 export const createExpenseSchema = z.object({
   ...baseTransactionSchema,
+  ...categorySchema,
   type: z.literal('expense'),
-  walletId: z.string().uuid('walletId phải là UUID hợp lệ'),
-  categoryId: z.string().uuid('categoryId phải là UUID hợp lệ')
-});
+  walletId: z.string().uuid('walletId phải là UUID hợp lệ')
+}).refine(hasOneCategorySource, categorySourceMessage).refine(splitsMatchAmount, splitsAmountMessage);
 
 // Schema cho Transfer transaction (chuyển tiền giữa 2 ví)
 export const createTransferSchema = z.object({
   ...baseTransactionSchema,
+  ...crossCurrencyTransferSchema,
   type: z.literal('transfer'),
   fromWalletId: z.string().uuid('fromWalletId phải là UUID hợp lệ'),
   toWalletId: z.string().uuid('toWalletId phải là UUID hợp lệ')
@@ -48,20 +107,21 @@ export const createTransactionSchema = z.discriminatedUnion('type', [
 // Schema cho update transaction (cho phép cập nhật dữ liệu, không đổi type)
 export const updateIncomeSchema = z.object({
   ...baseTransactionSchema,
+  ...categorySchema,
   type: z.literal('income'),
-  walletId: z.string().uuid('walletId phải là UUID hợp lệ'),
-  categoryId: z.string().uuid('categoryId phải là UUID hợp lệ')
-});
+  walletId: z.string().uuid('walletId phải là UUID hợp lệ')
+}).refine(hasOneCategorySource, categorySourceMessage).refine(splitsMatchAmount, splitsAmountMessage);
 
 export const updateExpenseSchema = z.object({
   ...baseTransactionSchema,
+  ...categorySchema,
   type: z.literal('expense'),
-  walletId: z.string().uuid('walletId phải là UUID hợp lệ'),
-  categoryId: z.string().uuid('categoryId phải là UUID hợp lệ')
-});
+  walletId: z.string().uuid('walletId phải là UUID hợp lệ')
+}).refine(hasOneCategorySource, categorySourceMessage).refine(splitsMatchAmount, splitsAmountMessage);
 
 export const updateTransferSchema = z.object({
   ...baseTransactionSchema,
+  ...crossCurrencyTransferSchema,
   type: z.literal('transfer'),
   fromWalletId: z.string().uuid('fromWalletId phải là UUID hợp lệ'),
   toWalletId: z.string().uuid('toWalletId phải là UUID hợp lệ')
@@ -73,6 +133,36 @@ export const updateTransactionSchema = z.discriminatedUnion('type', [
   updateTransferSchema
 ]);
 
+const dateQuery = z.string().refine((val) => !isNaN(Date.parse(val)), {
+  message: 'Ngày không hợp lệ'
+}).transform((val) => new Date(val));
+
+// Cột được phép sắp xếp danh sách giao dịch
+export const TRANSACTION_SORT_FIELDS = ['transactionDate', 'amount', 'createdAt'] as const;
+
+// Schema cho query parameters lấy danh sách giao dịch
+export const getTransactionsQuerySchema = z.object({
+  type: z.enum(['income', 'expense', 'transfer'], {
+    message: 'type phải là income, expense hoặc transfer'
+  }).optional(),
+  startDate: dateQuery.optional(),
+  endDate: dateQuery.optional(),
+  categoryId: z.string().uuid('categoryId phải là UUID hợp lệ').optional(),
+  walletId: z.string().uuid('walletId phải là UUID hợp lệ').optional(),
+  // tagIds=a,b hoặc tagIds=a&tagIds=b
+  tagIds: z.union([z.string(), z.array(z.string())])
+    .transform((val) => ([] as string[]).concat(val).flatMap((v) => v.split(',')).map((id) => id.trim()).filter(Boolean))
+    .pipe(z.array(z.string().uuid('tagId phải là UUID hợp lệ')))
+    .optional(),
+  tagMatch: z.enum(['any', 'all'], { message: 'tagMatch phải là any hoặc all' }).default('any'),
+  contactId: z.string().uuid('contactId phải là UUID hợp lệ').optional(),
+  // Loại trừ giao dịch phát sinh từ trả nợ/thu nợ (LoanPayment)
+  excludeLoanRelated: z.enum(['true', 'false', '1', '0']).transform((v) => v === 'true' || v === '1').default(false),
+  // Mặc định: transactionDate giảm dần
+  ...sortQueryShape(TRANSACTION_SORT_FIELDS),
+  ...paginationQueryShape()
+});
+
 // Type definitions cho TypeScript (sẽ được inferred từ zod schemas)
 export type CreateIncomeData = z.infer<typeof createIncomeSchema>;
 export type CreateExpenseData = z.infer<typeof createExpenseSchema>;
@@ -81,4 +171,5 @@ export type CreateTransactionData = z.infer<typeof createTransactionSchema>;
 export type UpdateIncomeData = z.infer<typeof updateIncomeSchema>;
 export type UpdateExpenseData = z.infer<typeof updateExpenseSchema>;
 export type UpdateTransferData = z.infer<typeof updateTransferSchema>;
-export type UpdateTransactionData = z.infer<typeof updateTransactionSchema>;
\ No newline at end of file
+export type UpdateTransactionData = z.infer<typeof updateTransactionSchema>;
+export type GetTransactionsQuery = z.infer<typeof getTransactionsQuerySchema>;
@@ -6,11 +6,109 @@
  * Logic nghiệp vụ quan trọng:
  * - Income: 1 entry (in) vào wallet, tăng currentBalance
  * - Expense: 1 entry (out) từ wallet, giảm currentBalance
+ *   + Split: chia nhiều category (TransactionSplit, tổng = amount), header categoryId = null, vẫn 1 entry
+ * - Tag: nhãn tự do gắn lên mọi loại giao dịch (TransactionTag), không ảnh hưởng số dư
  * - Transfer: 2 entries (out từ wallet A, in vào wallet B), balance thay đổi tương ứng
+ *   + Khác tiền tệ: entry in lưu số tiền đã quy đổi, header lưu exchangeRate áp dụng
  * - Tất cả operations phải atomic (sử dụng DB transaction)
  */
+import { Wallet } from '@prisma/client';
 import { prisma } from '../../db/prisma';
-import { CreateTransactionData, UpdateTransactionData } from './transaction.schema';
+import { roundMoney, roundRate } from '../../utils/currency';
+import { ExchangeRateService } from '../exchange-rate/exchange-rate.service';
+import { getAvailableBalance, WalletService } from '../wallet/wallet.service';
+import { AuditService } from '../audit/audit.service';
+import { assertTransactionsNotReconciled } from '../reconciliation/reconciliation.service';
+import { paginate } from '../../utils/pagination';
+import { CreateTransactionData, UpdateTransactionData, CreateTransferData, GetTransactionsQuery } from './transaction.schema';
+
+/**
+ * Điều kiện loại toàn bộ giao dịch liên quan vay nợ khỏi thống kê thu/chi:
+ * - Giao dịch phát sinh từ LoanPayment (trả nợ / thu nợ)  => có loanPayment
+ * - Giao dịch gốc khi tạo Loan (giải ngân ban đầu)       => có loanId
+ * - Giao dịch giải ngân thêm (vay thêm / cho vay thêm)    => có loanAdjustment
+ * Dùng chung cho danh sách giao dịch và báo cáo (excludeLoanRelated)
+ */
+export const NOT_LOAN_RELATED_FILTER = {
+  NOT: {
+    OR: [
+      { loanPayment: { isNot: null } },
+      { loanId: { not: null } },
+      { loanAdjustment: { isNot: null } }
+    ]
+  }
+};
+
+/**
+ * Điều kiện giao dịch thuộc 1 trong các category:
+ * - Category của header (giao dịch thường)
+ * - Category của ít nhất 1 dòng split (giao dịch chia nhiều category)
+ * Dùng chung cho danh sách giao dịch và ngân sách
+ */
+export const categoryFilter = (categoryIds: string[]) => ({
+  OR: [
+    { categoryId: { in: categoryIds } },
+    { splits: { some: { categoryId: { in: categoryIds } } } }
+  ]
+});
+
+/**
+ * Điều kiện giao dịch gắn tag:
+ * - any: có ít nhất 1 trong các tag
+ * - all: có đủ tất cả các tag
+ * Dùng chung cho danh sách giao dịch và báo cáo theo tag
+ */
+export const tagFilter = (tagIds: string[], match: 'any' | 'all' = 'any') => match === 'any'
+  ? { tags: { some: { tagId: { in: tagIds } } } }
+  : { AND: tagIds.map((tagId) => ({ tags: { some: { tagId } } })) };
+
+type TransactionClient = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
+
+// Ghi thêm dữ liệu gắn với giao dịch vừa tạo trong cùng DB transaction (lỗi => giao dịch rollback theo)
+type AfterCreateHook = (tx: TransactionClient, transactionId: string) => Promise<unknown>;
+
+// Dữ liệu giao dịch ghi vào nhật ký thay đổi (header + entries + splits + tag)
+export const transactionAuditSelect = {
+  id: true,
+  type: true,
+  transactionDate: true,
+  categoryId: true,
+  amount: true,
+  exchangeRate: true,
+  note: true,
+  loanId: true,
+  deletedAt: true,
+  entries: { select: { walletId: true, direction: true, amount: true } },
+  splits: { select: { categoryId: true, amount: true, note: true } },
+  tags: { select: { tagId: true } }
+} as const;
+
+async function getTransactionSnapshot(tx: TransactionClient, transactionId: string) {
+  return await tx.transaction.findUnique({
+    where: { id: transactionId },
+    select: transactionAuditSelect
+  });
+}
+
+/**
+ * Ghi nhật ký thay đổi giao dịch (trong cùng DB transaction), after đọc lại từ DB
+ */
+async function auditTransaction(
+  tx: TransactionClient,
+  userId: string,
+  transactionId: string,
+  action: 'create' | 'update' | 'delete' | 'restore',
+  before?: unknown
+) {
+  await AuditService.record({
+    userId,
+    entityType: 'transaction',
+    entityId: transactionId,
+    action,
+    before,
+    after: await getTransactionSnapshot(tx, transactionId)
+  }, tx);
+}
 
 /**
  * Validate wallet ownership and check sufficient balance for debit operations
@@ -24,8 +122,8 @@ async function validateWalletOwnership(walletId: string, userId: string, require
     throw new Error('TRANSACTION_WALLET_NOT_FOUND');
   }
 
-  // Kiểm tra số dư nếu cần trừ tiền (expense hoặc transfer out)
-  if (requiredAmount !== undefined && wallet.currentBalance.toNumber() < requiredAmount) {
+  // Kiểm tra số dư nếu cần trừ tiền (expense hoặc transfer out), ví credit / bank được âm tới hạn mức
+  if (requiredAmount !== undefined && getAvailableBalance(wallet).lessThan(requiredAmount)) {
     throw new Error('INSUFFICIENT_WALLET_BALANCE');
   }
 
@@ -55,16 +153,140 @@ async function validateCategoryOwnership(categoryId: string, userId: string, tra
   return category;
 }
 
+/**
+ * Validate category của income/expense: 1 categoryId hoặc tất cả category của các dòng split
+ */
+async function validateCategoryLines(
+  data: { categoryId?: string; splits?: { categoryId: string }[] },
+  userId: string,
+  transactionType: 'income' | 'expense'
+) {
+  const categoryIds = data.splits
+    ? Array.from(new Set(data.splits.map((s) => s.categoryId)))
+    : [data.categoryId!];
+
+  for (const categoryId of categoryIds) {
+    await validateCategoryOwnership(categoryId, userId, transactionType);
+  }
+}
+
+/**
+ * Dữ liệu category cho Transaction header: categoryId hoặc các dòng split (categoryId = null)
+ */
+function buildCategoryData(data: { categoryId?: string; splits?: { categoryId: string; amount: number; note?: string }[] }) {
+  if (!data.splits) {
+    return { categoryId: data.categoryId ?? null };
+  }
+
+  return {
+    categoryId: null,
+    splits: {
+      create: data.splits.map((s) => ({
+        categoryId: s.categoryId,
+        amount: s.amount,
+        note: s.note
+      }))
+    }
+  };
+}
+
+/**
+ * Validate tag ownership: tất cả tag phải thuộc user
+ */
+async function validateTagOwnership(tagIds: string[] | undefined, userId: string) {
+  if (!tagIds || tagIds.length === 0) return;
+
+  const uniqueIds = Array.from(new Set(tagIds));
+  const count = await prisma.tag.count({
+    where: { id: { in: uniqueIds }, userId }
+  });
+  if (count !== uniqueIds.length) {
+    throw new Error('TRANSACTION_TAG_NOT_FOUND');
+  }
+}
+
+/**
+ * Validate contact ownership: contact phải thuộc user
+ */
+async function validateContactOwnership(contactId: string | null | undefined, userId: string) {
+  if (!contactId) return;
+
+  const contact = await prisma.contact.findFirst({
+    where: { id: contactId, userId },
+    select: { id: true }
+  });
+  if (!contact) {
+    throw new Error('TRANSACTION_CONTACT_NOT_FOUND');
+  }
+}
+
+/**
+ * Dữ liệu tag cho Transaction header khi tạo mới
+ */
+function buildTagData(tagIds: string[] | undefined) {
+  if (!tagIds || tagIds.length === 0) return {};
+
+  return {
+    tags: {
+      create: Array.from(new Set(tagIds)).map((tagId) => ({ tagId }))
+    }
+  };
+}
+
+/**
+ * Xác định số tiền ví đích nhận và tỷ giá áp dụng cho transfer
+ * - Cùng tiền tệ: nhận đúng amount, không có tỷ giá
+ * - Khác tiền tệ: ưu tiên toAmount, sau đó exchangeRate, cuối cùng tra bảng tỷ giá tại transactionDate
+ */
+async function resolveTransferAmounts(
+  fromWallet: Wallet,
+  toWallet: Wallet,
+  data: Pick<CreateTransferData, 'amount' | 'toAmount' | 'exchangeRate' | 'transactionDate'>,
+  userId: string
+) {
+  const { amount, toAmount, exchangeRate, transactionDate } = data;
+
+  if (toAmount !== undefined && exchangeRate !== undefined) {
+    throw new Error('TRANSFER_RATE_CONFLICT');
+  }
+
+  if (fromWallet.currency === toWallet.currency) {
+    if ((toAmount !== undefined && toAmount !== amount) || (exchangeRate !== undefined && exchangeRate !== 1)) {
+      throw new Error('TRANSFER_RATE_NOT_APPLICABLE');
+    }
+    return { toAmount: amount, exchangeRate: null };
+  }
+
+  if (toAmount !== undefined) {
+    return { toAmount, exchangeRate: roundRate(toAmount / amount) };
+  }
+
+  const rate = exchangeRate
+    ?? (await ExchangeRateService.getRate(userId, fromWallet.currency, toWallet.currency, transactionDate)).rate;
+  const converted = roundMoney(amount * rate);
+  if (converted <= 0) {
+    throw new Error('TRANSFER_CONVERTED_AMOUNT_INVALID');
+  }
+
+  return { toAmount: converted, exchangeRate: rate };
+}
+
 /**
  * Tạo Income transaction
  * Logic: 1 entry (direction: in) vào wallet, tăng currentBalance
  */
-async function createIncomeTransaction(data: CreateTransactionData & { type: 'income' }, userId: string) {
-  const { walletId, categoryId, transactionDate, amount, note } = data;
+async function createIncomeTransaction(
+  data: CreateTransactionData & { type: 'income' },
+  userId: string,
+  afterCreate?: AfterCreateHook
+) {
+  const { walletId, transactionDate, amount, note } = data;
 
   // Validate wallet và category
   await validateWalletOwnership(walletId, userId);
-  await validateCategoryOwnership(categoryId!, userId, 'income');
+  await validateCategoryLines(data, userId, 'income');
+  await validateTagOwnership(data.tagIds, userId);
+  await validateContactOwnership(data.contactId, userId);
 
   // Tạo transaction và entry trong DB transaction
   return await prisma.$transaction(async (tx) => {
@@ -74,7 +296,9 @@ async function createIncomeTransaction(data: CreateTransactionData & { type: 'in
         userId,
         type: 'income',
         transactionDate,
-        categoryId,
+        ...buildCategoryData(data),
+        ...buildTagData(data.tagIds),
+        contactId: data.contactId ?? null,
         amount,
         note,
         entries: {
@@ -87,7 +311,13 @@ async function createIncomeTransaction(data: CreateTransactionData & { type: 'in
       },
       include: {
         entries: true,
-        category: true
+        category: true,
+        splits: {
+          include: { category: true }
+        },
+        tags: {
+          include: { tag: true }
+        }
       }
     });
 
@@ -101,6 +331,12 @@ async function createIncomeTransaction(data: CreateTransactionData & { type: 'in
       }
     });
 
+    // 3. Snapshot số dư từ ngày giao dịch trở đi không còn đúng
+    await WalletService.invalidateBalanceSnapshots([walletId], transactionDate, tx);
+
+    await auditTransaction(tx, userId, transaction.id, 'create');
+    await afterCreate?.(tx, transaction.id);
+
     return transaction;
   });
 }
@@ -110,22 +346,28 @@ async function createIncomeTransaction(data: CreateTransactionData & { type: 'in
  * Logic: 1 entry (direction: out) từ wallet, giảm currentBalance
  * Kiểm tra số dư trước khi thực hiện
  */
-async function createExpenseTransaction(data: CreateTransactionData & { type: 'expense' }, userId: string) {
-  const { walletId, categoryId, transactionDate, amount, note } = data;
+async function createExpenseTransaction(
+  data: CreateTransactionData & { type: 'expense' },
+  userId: string,
+  afterCreate?: AfterCreateHook
+) {
+  const { walletId, transactionDate, amount, note } = data;
 
   // Validate wallet và kiểm tra số dư
   await validateWalletOwnership(walletId, userId, amount);
-  await validateCategoryOwnership(categoryId!, userId, 'expense');
+  await validateCategoryLines(data, userId, 'expense');
+  await validateTagOwnership(data.tagIds, userId);
+  await validateContactOwnership(data.contactId, userId);
 
   // Tạo transaction và entry trong DB transaction
   return await prisma.$transaction(async (tx) => {
     // Kiểm tra lại số dư trong transaction để tránh race condition
     const wallet = await tx.wallet.findUnique({
       where: { id: walletId },
-      select: { currentBalance: true }
+      select: { currentBalance: true, creditLimit: true }
     });
 
-    if (!wallet || wallet.currentBalance.toNumber() < amount) {
+    if (!wallet || getAvailableBalance(wallet).lessThan(amount)) {
       throw new Error('INSUFFICIENT_WALLET_BALANCE');
     }
 
@@ -135,7 +377,9 @@ async function createExpenseTransaction(data: CreateTransactionData & { type: 'e
         userId,
         type: 'expense',
         transactionDate,
-        categoryId,
+        ...buildCategoryData(data),
+        ...buildTagData(data.tagIds),
+        contactId: data.contactId ?? null,
         amount,
         note,
         entries: {
@@ -148,7 +392,13 @@ async function createExpenseTransaction(data: CreateTransactionData & { type: 'e
       },
       include: {
         entries: true,
-        category: true
+        category: true,
+        splits: {
+          include: { category: true }
+        },
+        tags: {
+          include: { tag: true }
+        }
       }
     });
 
@@ -162,6 +412,12 @@ async function createExpenseTransaction(data: CreateTransactionData & { type: 'e
       }
     });
 
+    // 3. Snapshot số dư từ ngày giao dịch trở đi không còn đúng
+    await WalletService.invalidateBalanceSnapshots([walletId], transactionDate, tx);
+
+    await auditTransaction(tx, userId, transaction.id, 'create');
+    await afterCreate?.(tx, transaction.id);
+
     return transaction;
   });
 }
@@ -170,8 +426,13 @@ async function createExpenseTransaction(data: CreateTransactionData & { type: 'e
  * Tạo Transfer transaction
  * Logic: 2 entries (out từ fromWallet, in vào toWallet), balance thay đổi tương ứng
  * Kiểm tra số dư ví nguồn trước khi thực hiện
+ * Khác tiền tệ: ví đích nhận toAmount (đã quy đổi), header lưu exchangeRate
  */
-async function createTransferTransaction(data: CreateTransactionData & { type: 'transfer' }, userId: string) {
+async function createTransferTransaction(
+  data: CreateTransactionData & { type: 'transfer' },
+  userId: string,
+  afterCreate?: AfterCreateHook
+) {
   const { fromWalletId, toWalletId, transactionDate, amount, note } = data;
 
   // Validate: fromWalletId !== toWalletId
@@ -180,18 +441,21 @@ async function createTransferTransaction(data: CreateTransactionData & { type: '
   }
 
   // Validate cả 2 wallet, kiểm tra số dư ví nguồn
-  await validateWalletOwnership(fromWalletId, userId, amount);
-  await validateWalletOwnership(toWalletId, userId);
+  const fromWalletInfo = await validateWalletOwnership(fromWalletId, userId, amount);
+  const toWalletInfo = await validateWalletOwnership(toWalletId, userId);
+  const { toAmount, exchangeRate } = await resolveTransferAmounts(fromWalletInfo, toWalletInfo, data, userId);
+  await validateTagOwnership(data.tagIds, userId);
+  await validateContactOwnership(data.contactId, userId);
 
   // Tạo transaction và entries trong DB transaction
   return await prisma.$transaction(async (tx) => {
     // Kiểm tra lại số dư ví nguồn trong transaction để tránh race condition
     const fromWallet = await tx.wallet.findUnique({
       where: { id: fromWalletId },
-      select: { currentBalance: true }
+      select: { currentBalance: true, creditLimit: true }
     });
 
-    if (!fromWallet || fromWallet.currentBalance.toNumber() < amount) {
+    if (!fromWallet || getAvailableBalance(fromWallet).lessThan(amount)) {
       throw new Error('INSUFFICIENT_WALLET_BALANCE');
     }
 
@@ -202,7 +466,10 @@ async function createTransferTransaction(data: CreateTransactionData & { type: '
         type: 'transfer',
         transactionDate,
         amount,
+        exchangeRate,
         note,
+        ...buildTagData(data.tagIds),
+        contactId: data.contactId ?? null,
         entries: {
           create: [
             // Entry out từ ví nguồn
@@ -211,17 +478,20 @@ async function createTransferTransaction(data: CreateTransactionData & { type: '
               direction: 'out',
               amount
             },
-            // Entry in vào ví đích
+            // Entry in vào ví đích (theo tiền tệ ví đích)
             {
               walletId: toWalletId,
               direction: 'in',
-              amount
+              amount: toAmount
             }
           ]
         }
       },
       include: {
-        entries: true
+        entries: true,
+        tags: {
+          include: { tag: true }
+        }
       }
     });
 
@@ -241,11 +511,17 @@ async function createTransferTransaction(data: CreateTransactionData & { type: '
       where: { id: toWalletId },
       data: {
         currentBalance: {
-          increment: amount
+          increment: toAmount
         }
       }
     });
 
+    // 3. Snapshot số dư từ ngày giao dịch trở đi không còn đúng
+    await WalletService.invalidateBalanceSnapshots([fromWalletId, toWalletId], transactionDate, tx);
+
+    await auditTransaction(tx, userId, transaction.id, 'create');
+    await afterCreate?.(tx, transaction.id);
+
     return transaction;
   });
 }
@@ -258,9 +534,21 @@ async function getMutableTransaction(transactionId: string, userId: string) {
       deletedAt: null
     },
     include: {
-      entries: true,
+      entries: {
+        include: {
+          reconciliationSession: {
+            select: { status: true }
+          }
+        }
+      },
       loanPayment: {
         select: { id: true }
+      },
+      interestLoanPayment: {
+        select: { id: true }
+      },
+      loanAdjustment: {
+        select: { id: true }
       }
     }
   });
@@ -269,18 +557,30 @@ async function getMutableTransaction(transactionId: string, userId: string) {
     throw new Error('TRANSACTION_NOT_FOUND');
   }
 
-  // Không cho sửa/xóa giao dịch gắn với nghiệp vụ vay nợ.
-  if (transaction.loanId || transaction.loanPayment) {
+  // Không cho sửa/xóa giao dịch gắn với nghiệp vụ vay nợ (kể cả giao dịch phần lãi của LoanPayment).
+  if (transaction.loanId || transaction.loanPayment || transaction.interestLoanPayment || transaction.loanAdjustment) {
     throw new Error('TRANSACTION_LOCKED_BY_LOAN');
   }
 
+  // Không cho sửa/xóa giao dịch đã khớp sao kê trong phiên đối chiếu đã khoá (phải unlock phiên trước).
+  // Giao dịch cleared trong phiên đang mở thì vẫn sửa được, nhưng sẽ mất đánh dấu cleared (entry được tạo lại).
+  if (transaction.entries.some((e) => e.reconciliationSession?.status === 'locked')) {
+    throw new Error('TRANSACTION_LOCKED_BY_RECONCILIATION');
+  }
+
   return transaction;
 }
 
 async function reverseTransactionImpact(
-  tx: Parameters<Parameters<typeof prisma.$transaction>[0]>[0],
+  tx: TransactionClient,
   transaction: Awaited<ReturnType<typeof getMutableTransaction>>
 ) {
+  await WalletService.invalidateBalanceSnapshots(
+    transaction.entries.map((e) => e.walletId),
+    transaction.transactionDate,
+    tx
+  );
+
   if (transaction.type === 'income') {
     const inEntry = transaction.entries.find((e) => e.direction === 'in');
     if (!inEntry) throw new Error('TRANSACTION_INVALID_ENTRIES');
@@ -314,11 +614,12 @@ async function reverseTransactionImpact(
   const inEntry = transaction.entries.find((e) => e.direction === 'in');
   if (!outEntry || !inEntry) throw new Error('TRANSACTION_INVALID_ENTRIES');
 
+  // Dùng amount của từng entry (transfer khác tiền tệ có 2 số tiền khác nhau)
   await tx.wallet.update({
     where: { id: outEntry.walletId },
     data: {
       currentBalance: {
-        increment: transaction.amount
+        increment: outEntry.amount
       }
     }
   });
@@ -327,10 +628,103 @@ async function reverseTransactionImpact(
     where: { id: inEntry.walletId },
     data: {
       currentBalance: {
-        decrement: transaction.amount
+        decrement: inEntry.amount
+      }
+    }
+  });
+}
+
+/**
+ * Lấy giao dịch đã xoá mềm (trong thùng rác) để khôi phục
+ * Giao dịch vay nợ không khôi phục riêng lẻ được (giao dịch gốc đi theo khoản vay)
+ */
+async function getDeletedTransaction(transactionId: string, userId: string) {
+  const transaction = await prisma.transaction.findFirst({
+    where: {
+      id: transactionId,
+      userId,
+      deletedAt: { not: null }
+    },
+    include: {
+      entries: {
+        include: {
+          reconciliationSession: {
+            select: { status: true }
+          },
+          wallet: {
+            select: { userId: true, isArchived: true }
+          }
+        }
+      },
+      loanPayment: {
+        select: { id: true }
+      },
+      interestLoanPayment: {
+        select: { id: true }
+      },
+      loanAdjustment: {
+        select: { id: true }
       }
     }
   });
+
+  if (!transaction) {
+    throw new Error('TRANSACTION_NOT_FOUND');
+  }
+
+  if (transaction.loanId || transaction.loanPayment || transaction.interestLoanPayment || transaction.loanAdjustment) {
+    throw new Error('TRANSACTION_LOCKED_BY_LOAN');
+  }
+
+  if (transaction.entries.some((e) => e.reconciliationSession?.status === 'locked')) {
+    throw new Error('TRANSACTION_LOCKED_BY_RECONCILIATION');
+  }
+
+  // Ví đã lưu trữ / không còn thuộc user => không ghi lại số dư được
+  if (transaction.entries.some((e) => e.wallet.userId !== userId || e.wallet.isArchived)) {
+    throw new Error('TRANSACTION_WALLET_NOT_FOUND');
+  }
+
+  return transaction;
+}
+
+/**
+ * Ghi lại ảnh hưởng số dư của giao dịch (ngược với reverseTransactionImpact)
+ * Entry out phải đủ số dư như khi tạo giao dịch
+ */
+async function applyTransactionImpact(
+  tx: TransactionClient,
+  transaction: Awaited<ReturnType<typeof getDeletedTransaction>>
+) {
+  if (transaction.entries.length === 0) throw new Error('TRANSACTION_INVALID_ENTRIES');
+
+  for (const entry of transaction.entries) {
+    if (entry.direction === 'out') {
+      const wallet = await tx.wallet.findUnique({
+        where: { id: entry.walletId },
+        select: { currentBalance: true, creditLimit: true }
+      });
+
+      if (!wallet || getAvailableBalance(wallet).lessThan(entry.amount)) {
+        throw new Error('INSUFFICIENT_WALLET_BALANCE');
+      }
+    }
+
+    await tx.wallet.update({
+      where: { id: entry.walletId },
+      data: {
+        currentBalance: {
+          [entry.direction === 'in' ? 'increment' : 'decrement']: entry.amount
+        }
+      }
+    });
+  }
+
+  await WalletService.invalidateBalanceSnapshots(
+    transaction.entries.map((e) => e.walletId),
+    transaction.transactionDate,
+    tx
+  );
 }
 
 export const TransactionService = {
@@ -340,19 +734,20 @@ export const TransactionService = {
    *
    * @param data - Dữ liệu giao dịch đã validate
    * @param userId - ID của user thực hiện giao dịch
+   * @param afterCreate - Tuỳ chọn: chạy trong cùng DB transaction sau khi tạo (VD: đánh dấu lần phát sinh định kỳ đã posted)
    * @returns Transaction object với entries
    * @throws Error nếu validation fail hoặc có lỗi database
    */
-  async createTransaction(data: CreateTransactionData, userId: string) {
+  async createTransaction(data: CreateTransactionData, userId: string, afterCreate?: AfterCreateHook) {
     switch (data.type) {
       case 'income':
-        return await createIncomeTransaction(data, userId);
+        return await createIncomeTransaction(data, userId, afterCreate);
 
       case 'expense':
-        return await createExpenseTransaction(data, userId);
+        return await createExpenseTransaction(data, userId, afterCreate);
 
       case 'transfer':
-        return await createTransferTransaction(data, userId);
+        return await createTransferTransaction(data, userId, afterCreate);
 
       default:
         throw new Error('UNSUPPORTED_TRANSACTION_TYPE');
@@ -373,29 +768,39 @@ export const TransactionService = {
       throw new Error('TRANSACTION_TYPE_IMMUTABLE');
     }
 
+    // Số tiền ví đích nhận + tỷ giá (chỉ dùng cho transfer)
+    let transferAmounts: { toAmount: number; exchangeRate: number | null } = { toAmount: data.amount, exchangeRate: null };
+
     if (data.type === 'income') {
       await validateWalletOwnership(data.walletId, userId);
-      await validateCategoryOwnership(data.categoryId, userId, 'income');
+      await validateCategoryLines(data, userId, 'income');
     } else if (data.type === 'expense') {
       await validateWalletOwnership(data.walletId, userId);
-      await validateCategoryOwnership(data.categoryId, userId, 'expense');
+      await validateCategoryLines(data, userId, 'expense');
     } else {
       if (data.fromWalletId === data.toWalletId) {
         throw new Error('SAME_WALLET_TRANSFER');
       }
-      await validateWalletOwnership(data.fromWalletId, userId);
-      await validateWalletOwnership(data.toWalletId, userId);
+      const fromWallet = await validateWalletOwnership(data.fromWalletId, userId);
+      const toWallet = await validateWalletOwnership(data.toWalletId, userId);
+      transferAmounts = await resolveTransferAmounts(fromWallet, toWallet, data, userId);
     }
+    await validateTagOwnership(data.tagIds, userId);
+    await validateContactOwnership(data.contactId, userId);
 
     return await prisma.$transaction(async (tx) => {
+      // Phiên đối chiếu có thể vừa bị khoá sau lần kiểm tra ở getMutableTransaction
+      await assertTransactionsNotReconciled(tx, [transactionId]);
+
+      const before = await getTransactionSnapshot(tx, transactionId);
       await reverseTransactionImpact(tx, existingTransaction);
 
       if (data.type === 'expense') {
         const wallet = await tx.wallet.findUnique({
           where: { id: data.walletId },
-          select: { currentBalance: true }
+          select: { currentBalance: true, creditLimit: true }
         });
-        if (!wallet || wallet.currentBalance.toNumber() < data.amount) {
+        if (!wallet || getAvailableBalance(wallet).lessThan(data.amount)) {
           throw new Error('INSUFFICIENT_WALLET_BALANCE');
         }
       }
@@ -403,9 +808,9 @@ export const TransactionService = {
       if (data.type === 'transfer') {
         const fromWallet = await tx.wallet.findUnique({
           where: { id: data.fromWalletId },
-          select: { currentBalance: true }
+          select: { currentBalance: true, creditLimit: true }
         });
-        if (!fromWallet || fromWallet.currentBalance.toNumber() < data.amount) {
+        if (!fromWallet || getAvailableBalance(fromWallet).lessThan(data.amount)) {
           throw new Error('INSUFFICIENT_WALLET_BALANCE');
         }
       }
@@ -413,15 +818,31 @@ export const TransactionService = {
       await tx.transactionEntry.deleteMany({
         where: { transactionId }
       });
+      await tx.transactionSplit.deleteMany({
+        where: { transactionId }
+      });
+
+      // tagIds bỏ trống => giữ nguyên tag hiện có
+      if (data.tagIds) {
+        await tx.transactionTag.deleteMany({
+          where: { transactionId }
+        });
+        if (data.tagIds.length > 0) {
+          await tx.transactionTag.createMany({
+            data: Array.from(new Set(data.tagIds)).map((tagId) => ({ transactionId, tagId }))
+          });
+        }
+      }
 
       if (data.type === 'income') {
         await tx.transaction.update({
           where: { id: transactionId },
           data: {
             transactionDate: data.transactionDate,
-            categoryId: data.categoryId,
+            ...buildCategoryData(data),
             amount: data.amount,
-            note: data.note
+            note: data.note,
+            contactId: data.contactId
           }
         });
         await tx.transactionEntry.create({
@@ -445,9 +866,10 @@ export const TransactionService = {
           where: { id: transactionId },
           data: {
             transactionDate: data.transactionDate,
-            categoryId: data.categoryId,
+            ...buildCategoryData(data),
             amount: data.amount,
-            note: data.note
+            note: data.note,
+            contactId: data.contactId
           }
         });
         await tx.transactionEntry.create({
@@ -473,7 +895,9 @@ export const TransactionService = {
             transactionDate: data.transactionDate,
             categoryId: null,
             amount: data.amount,
-            note: data.note
+            exchangeRate: transferAmounts.exchangeRate,
+            note: data.note,
+            contactId: data.contactId
           }
         });
         await tx.transactionEntry.createMany({
@@ -488,7 +912,7 @@ export const TransactionService = {
               transactionId,
               walletId: data.toWalletId,
               direction: 'in',
-              amount: data.amount
+              amount: transferAmounts.toAmount
             }
           ]
         });
@@ -504,12 +928,18 @@ export const TransactionService = {
           where: { id: data.toWalletId },
           data: {
             currentBalance: {
-              increment: data.amount
+              increment: transferAmounts.toAmount
             }
           }
         });
       }
 
+      await WalletService.invalidateBalanceSnapshots(
+        data.type === 'transfer' ? [data.fromWalletId, data.toWalletId] : [data.walletId],
+        data.transactionDate,
+        tx
+      );
+
       const updatedTransaction = await tx.transaction.findUnique({
         where: { id: transactionId },
         include: {
@@ -518,7 +948,13 @@ export const TransactionService = {
               wallet: true
             }
           },
-          category: true
+          category: true,
+          splits: {
+            include: { category: true }
+          },
+          tags: {
+            include: { tag: true }
+          }
         }
       });
 
@@ -526,6 +962,8 @@ export const TransactionService = {
         throw new Error('TRANSACTION_NOT_FOUND');
       }
 
+      await auditTransaction(tx, userId, transactionId, 'update', before);
+
       return updatedTransaction;
     });
   },
@@ -537,6 +975,10 @@ export const TransactionService = {
     const existingTransaction = await getMutableTransaction(transactionId, userId);
 
     return await prisma.$transaction(async (tx) => {
+      // Phiên đối chiếu có thể vừa bị khoá sau lần kiểm tra ở getMutableTransaction
+      await assertTransactionsNotReconciled(tx, [transactionId]);
+
+      const before = await getTransactionSnapshot(tx, transactionId);
       await reverseTransactionImpact(tx, existingTransaction);
 
       const deletedTransaction = await tx.transaction.update({
@@ -546,39 +988,98 @@ export const TransactionService = {
         },
         include: {
           entries: true,
-          category: true
+          category: true,
+          splits: {
+            include: { category: true }
+          },
+          tags: {
+            include: { tag: true }
+          }
         }
       });
 
+      await auditTransaction(tx, userId, transactionId, 'delete', before);
+
       return deletedTransaction;
     });
   },
 
+  /**
+   * Khôi phục giao dịch đã xoá mềm và ghi lại ảnh hưởng số dư
+   * Kiểm tra số dư như khi tạo (expense / transfer out), giao dịch mất đánh dấu cleared của phiên đối chiếu cũ
+   *
+   * @throws Error('TRANSACTION_NOT_FOUND') nếu giao dịch không nằm trong thùng rác
+   * @throws Error('TRANSACTION_LOCKED_BY_LOAN') nếu là giao dịch vay nợ (khôi phục qua khoản vay)
+   * @throws Error('TRANSACTION_WALLET_NOT_FOUND') nếu ví đã lưu trữ
+   * @throws Error('INSUFFICIENT_WALLET_BALANCE') nếu ví không đủ số dư
+   */
+  async restoreTransaction(transactionId: string, userId: string) {
+    const deletedTransaction = await getDeletedTransaction(transactionId, userId);
+
+    return await prisma.$transaction(async (tx) => {
+      const before = await getTransactionSnapshot(tx, transactionId);
+
+      // Chốt khôi phục trước khi ghi số dư: 2 request khôi phục đồng thời chỉ 1 request ghi được
+      const claimed = await tx.transaction.updateMany({
+        where: { id: transactionId, userId, deletedAt: { not: null } },
+        data: { deletedAt: null }
+      });
+      if (claimed.count === 0) {
+        throw new Error('TRANSACTION_NOT_FOUND');
+      }
+
+      await applyTransactionImpact(tx, deletedTransaction);
+
+      await tx.transactionEntry.updateMany({
+        where: { transactionId, reconciliationSessionId: { not: null } },
+        data: { reconciliationSessionId: null }
+      });
+
+      const restoredTransaction = await tx.transaction.findUniqueOrThrow({
+        where: { id: transactionId },
+        include: {
+          entries: true,
+          category: true,
+          splits: {
+            include: { category: true }
+          },
+          tags: {
+            include: { tag: true }
+          }
+        }
+      });
+
+      await auditTransaction(tx, userId, transactionId, 'restore', before);
+
+      return restoredTransaction;
+    });
+  },
+
   /**
    * Lấy danh sách giao dịch của user
-   * Có thể filter theo type, date range, category, wallet
+   * Có thể filter theo type, date range, category, wallet, tag, contact
+   * Phân trang theo cursor (ổn định theo cột sắp xếp + id), sắp xếp theo transactionDate / amount / createdAt
+   *
+   * @throws Error('INVALID_CURSOR') nếu cursor không hợp lệ
    */
-  async getTransactions(userId: string, filters?: {
-    type?: 'income' | 'expense' | 'transfer';
-    startDate?: Date;
-    endDate?: Date;
-    categoryId?: string;
-    walletId?: string;
-    limit?: number;
-    offset?: number;
-    /** Loại trừ giao dịch phát sinh từ trả nợ/thu nợ (LoanPayment) */
-    excludeLoanRelated?: boolean;
-  }) {
+  async getTransactions(userId: string, filters: Partial<GetTransactionsQuery> = {}) {
     const {
       type,
       startDate,
       endDate,
       categoryId,
       walletId,
+      tagIds,
+      tagMatch = 'any',
+      contactId,
+      excludeLoanRelated = false,
+      sortBy = 'transactionDate',
+      sortOrder = 'desc',
       limit = 50,
-      offset = 0,
-      excludeLoanRelated = false
-    } = filters || {};
+      cursor,
+      offset,
+      includeTotal
+    } = filters;
 
     // Build where clause cơ bản (không tính loan filter)
     const baseWhere: any = {
@@ -592,27 +1093,18 @@ export const TransactionService = {
       if (startDate) baseWhere.transactionDate.gte = startDate;
       if (endDate) baseWhere.transactionDate.lte = endDate;
     }
-    if (categoryId) baseWhere.categoryId = categoryId;
+    // Giao dịch split khớp nếu có ít nhất 1 dòng thuộc category
+    if (categoryId) Object.assign(baseWhere, categoryFilter([categoryId]));
+    if (tagIds && tagIds.length > 0) Object.assign(baseWhere, tagFilter(tagIds, tagMatch));
+    if (contactId) baseWhere.contactId = contactId;
 
     // where cuối cùng (có thể được wrap lại nếu excludeLoanRelated = true)
     let where: any = baseWhere;
 
-    // Loại toàn bộ giao dịch liên quan vay nợ khỏi thống kê thu/chi:
-    // - Giao dịch phát sinh từ LoanPayment (trả nợ / thu nợ)  => có loanPayment
-    // - Giao dịch gốc khi tạo Loan (giải ngân ban đầu)       => có loanId
+    // Loại toàn bộ giao dịch liên quan vay nợ khỏi thống kê thu/chi
     if (excludeLoanRelated) {
       where = {
-        AND: [
-          baseWhere,
-          {
-            NOT: {
-              OR: [
-                { loanPayment: { isNot: null } },
-                { loanId: { not: null } }
-              ]
-            }
-          }
-        ]
+        AND: [baseWhere, NOT_LOAN_RELATED_FILTER]
       };
     }
 
@@ -635,34 +1127,41 @@ export const TransactionService = {
       }
     }
 
-    const transactions = await prisma.transaction.findMany({
-      where,
-      include: {
-        entries: {
-          include: {
-            wallet: true
+    const { items: transactions, pagination } = await paginate(
+      { limit, cursor, offset, includeTotal },
+      [
+        { field: sortBy, direction: sortOrder },
+        { field: 'id', direction: sortOrder }
+      ],
+      (page) => prisma.transaction.findMany({
+        where: { AND: [where, page.where] },
+        include: {
+          entries: {
+            include: {
+              wallet: true
+            }
+          },
+          category: true,
+          splits: {
+            include: { category: true }
+          },
+          tags: {
+            include: { tag: true }
+          },
+          contact: {
+            select: { id: true, name: true }
           }
         },
-        category: true
-      },
-      orderBy: {
-        transactionDate: 'desc'
-      },
-      take: limit,
-      skip: offset
-    });
-
-    // Đếm total records
-    const total = await prisma.transaction.count({ where });
+        orderBy: page.orderBy,
+        take: page.take,
+        skip: page.skip
+      }),
+      () => prisma.transaction.count({ where })
+    );
 
     return {
       transactions,
-      pagination: {
-        total,
-        limit,
-        offset,
-        hasMore: offset + limit < total
-      }
+      pagination
     };
   }
 };
@@ -0,0 +1,251 @@
+/**
+ * Trash Controller
+ * File này xử lý HTTP requests/responses cho thùng rác (giao dịch / khoản vay đã xoá)
+ * Controller layer - chỉ xử lý HTTP, business logic nằm ở Service layer
+ */
+import { Request, Response } from 'express';
+import { TrashService } from './trash.service';
+import { TransactionService } from '../transaction/transaction.service';
+import { LoanService } from '../loan/loan.service';
+import { handleError, handleValidationError } from '../../utils/error-handler';
+import { getTrashQuerySchema } from './trash.schema';
+
+// Create module-specific error handler
+const handleTrashError = (error: any, res: Response) =>
+  handleError(error, res, 'Trash');
+
+export const TrashController = {
+  /**
+   * @swagger
+   * /trash/transactions:
+   *   get:
+   *     tags:
+   *       - Trash
+   *     summary: Danh sách giao dịch đã xoá
+   *     description: |
+   *       Giao dịch đã xoá mềm, mới xoá nhất trước. Giao dịch vay nợ không nằm ở đây
+   *       (giao dịch gốc đi theo khoản vay trong GET /trash/loans).
+   *       Quá TRASH_RETENTION_DAYS ngày (mặc định 30) sẽ bị xoá hẳn tự động.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - $ref: '#/components/parameters/Limit'
+   *       - $ref: '#/components/parameters/Cursor'
+   *       - $ref: '#/components/parameters/Offset'
+   *       - $ref: '#/components/parameters/IncludeTotal'
+   *     responses:
+   *       200:
+   *         description: Danh sách giao dịch đã xoá + phân trang
+   *       400:
+   *         description: Query hoặc cursor không hợp lệ
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async getDeletedTransactions(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const parsed = getTrashQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
+
+      const result = await TrashService.getDeletedTransactions(userId, parsed.data);
+      return res.status(200).json({
+        message: 'Deleted transactions retrieved successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleTrashError(e, res);
+    }
+  },
+
+  /**
+   * Danh sách khoản vay đã xoá (cùng query phân trang với giao dịch)
+   * GET /api/trash/loans
+   */
+  async getDeletedLoans(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const parsed = getTrashQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
+
+      const result = await TrashService.getDeletedLoans(userId, parsed.data);
+      return res.status(200).json({
+        message: 'Deleted loans retrieved successfully',
+        ...result
+      });
+    } catch (e: any) {
+      return handleTrashError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /trash/transactions/{id}/restore:
+   *   post:
+   *     tags:
+   *       - Trash
+   *     summary: Khôi phục giao dịch đã xoá
+   *     description: |
+   *       Ghi lại ảnh hưởng số dư của giao dịch. Expense / transfer phải đủ số dư ví nguồn như khi tạo mới;
+   *       ví đã lưu trữ thì không khôi phục được. Giao dịch không còn đánh dấu cleared của phiên đối chiếu cũ.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: Giao dịch đã khôi phục
+   *       400:
+   *         description: Ví không đủ số dư hoặc giao dịch vay nợ
+   *       404:
+   *         description: Giao dịch không nằm trong thùng rác hoặc ví đã lưu trữ
+   *       409:
+   *         description: Giao dịch thuộc phiên đối chiếu đã khoá
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async restoreTransaction(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const transaction = await TransactionService.restoreTransaction(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Transaction restored successfully',
+        transaction
+      });
+    } catch (e: any) {
+      return handleTrashError(e, res);
+    }
+  },
+
+  /**
+   * @swagger
+   * /trash/loans/{id}/restore:
+   *   post:
+   *     tags:
+   *       - Trash
+   *     summary: Khôi phục khoản vay đã xoá
+   *     description: |
+   *       Khôi phục khoản vay cùng giao dịch gốc và ghi lại tiền gốc vào ví:
+   *       - you_owe: cộng lại tiền gốc vào ví
+   *       - owed_to_you: trừ lại tiền gốc khỏi ví, ví phải đủ số dư
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: Khoản vay đã khôi phục
+   *       400:
+   *         description: Ví không đủ số dư
+   *       404:
+   *         description: Khoản vay không nằm trong thùng rác hoặc ví đã lưu trữ
+   *       409:
+   *         description: Giao dịch gốc thuộc phiên đối chiếu đã khoá
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async restoreLoan(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const loan = await LoanService.restoreLoan(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Loan restored successfully',
+        loan
+      });
+    } catch (e: any) {
+      return handleTrashError(e, res);
+    }
+  },
+
+  /**
+   * Xoá hẳn 1 giao dịch trong thùng rác (không khôi phục được nữa)
+   * DELETE /api/trash/transactions/:id
+   */
+  async purgeTransaction(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const transaction = await TrashService.purgeTransaction(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Transaction permanently deleted',
+        transaction
+      });
+    } catch (e: any) {
+      return handleTrashError(e, res);
+    }
+  },
+
+  /**
+   * Xoá hẳn 1 khoản vay trong thùng rác (kèm giao dịch gốc)
+   * DELETE /api/trash/loans/:id
+   */
+  async purgeLoan(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const loan = await TrashService.purgeLoan(req.params.id, userId);
+      return res.status(200).json({
+        message: 'Loan permanently deleted',
+        loan
+      });
+    } catch (e: any) {
+      return handleTrashError(e, res);
+    }
+  },
+
+  /**
+   * Dọn sạch thùng rác (xoá hẳn mọi giao dịch / khoản vay đã xoá)
+   * DELETE /api/trash
+   */
+  async emptyTrash(req: Request, res: Response) {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const purged = await TrashService.emptyTrash(userId);
+      return res.status(200).json({
+        message: 'Trash emptied successfully',
+        purged
+      });
+    } catch (e: any) {
+      return handleTrashError(e, res);
+    }
+  }
+};
@@ -0,0 +1,12 @@
+// Schema validation cho Trash API
+// Sử dụng Zod để validate query parameters danh sách giao dịch / khoản vay đã xoá
+import { z } from 'zod';
+import { paginationQueryShape } from '../../utils/pagination';
+
+// Schema cho query parameters danh sách thùng rác (mới xoá nhất trước)
+export const getTrashQuerySchema = z.object({
+  ...paginationQueryShape()
+});
+
+// Type definitions cho TypeScript
+export type GetTrashQuery = z.infer<typeof getTrashQuerySchema>;
@@ -0,0 +1,228 @@
+/**
+ * Trash Service
+ * File này chứa business logic cho thùng rác: giao dịch và khoản vay đã xoá mềm
+ * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
+ *
+ * Logic nghiệp vụ:
+ * - Xoá mềm (deletedAt) đã hoàn tác số dư => khôi phục phải ghi lại số dư (TransactionService / LoanService)
+ * - Giao dịch vay nợ không nằm riêng trong thùng rác: giao dịch gốc đi theo khoản vay,
+ *   giao dịch trả nợ chỉ bị xoá mềm khi huỷ / sửa lần trả nợ (LoanService) và không khôi phục được
+ * - Xoá hẳn: bản ghi con (entries, splits, tags, giao dịch gốc của khoản vay) bị xoá theo FK cascade,
+ *   file đính kèm thành mồ côi và được dọn ngay sau đó (AttachmentService.purgeOrphans)
+ * - Quá TRASH_RETENTION_DAYS ngày trong thùng rác => job tự xoá hẳn (purgeExpired)
+ * - Câu DELETE luôn kèm điều kiện deletedAt not null: bản ghi vừa được khôi phục đồng thời không bị xoá hẳn
+ */
+import { prisma } from '../../db/prisma';
+import { logger } from '../../config/logger';
+import { paginate, SortKey } from '../../utils/pagination';
+import { NOT_LOAN_RELATED_FILTER } from '../transaction/transaction.service';
+import { AttachmentService } from '../attachment/attachment.service';
+import { GetTrashQuery } from './trash.schema';
+
+// Số bản ghi xoá hẳn mỗi lượt
+const PURGE_BATCH_SIZE = 500;
+
+const TRASH_SORT: SortKey[] = [
+  { field: 'deletedAt', direction: 'desc' },
+  { field: 'id', direction: 'desc' }
+];
+
+interface PurgeScope {
+  userId?: string;
+  // Chỉ xoá bản ghi đã nằm trong thùng rác trước thời điểm này
+  deletedBefore?: Date;
+}
+
+const deletedAtFilter = (scope: PurgeScope) =>
+  scope.deletedBefore ? { not: null, lt: scope.deletedBefore } : { not: null };
+
+// Giao dịch lãi của lần trả nợ đã huỷ cũng đi theo LoanPayment, không nằm trong thùng rác
+const deletedTransactionWhere = (scope: PurgeScope) => ({
+  ...(scope.userId ? { userId: scope.userId } : {}),
+  deletedAt: deletedAtFilter(scope),
+  ...NOT_LOAN_RELATED_FILTER,
+  interestLoanPayment: { is: null }
+});
+
+const deletedLoanWhere = (scope: PurgeScope) => ({
+  ...(scope.userId ? { userId: scope.userId } : {}),
+  deletedAt: deletedAtFilter(scope)
+});
+
+/**
+ * Xoá hẳn theo từng lượt (tránh 1 câu DELETE khoá quá nhiều dòng)
+ */
+async function purgeInBatches(
+  findIds: () => Promise<{ id: string }[]>,
+  deleteIds: (ids: string[]) => Promise<{ count: number }>
+) {
+  let purged = 0;
+
+  while (true) {
+    const rows = await findIds();
+    if (rows.length === 0) break;
+
+    const { count } = await deleteIds(rows.map((r) => r.id));
+    purged += count;
+    if (rows.length < PURGE_BATCH_SIZE) break;
+  }
+
+  return purged;
+}
+
+/**
+ * Dọn file đính kèm của bản ghi vừa xoá hẳn
+ * Lỗi chỉ log cảnh báo (bản ghi đã xoá xong, job attachment-cleanup sẽ thử lại)
+ */
+async function cleanupAttachments() {
+  await AttachmentService.purgeOrphans().catch((err) =>
+    logger.warn({ err }, 'Failed to clean up attachments after purge')
+  );
+}
+
+async function purgeDeleted(scope: PurgeScope) {
+  const transactions = await purgeInBatches(
+    () => prisma.transaction.findMany({
+      where: deletedTransactionWhere(scope),
+      select: { id: true },
+      take: PURGE_BATCH_SIZE
+    }),
+    (ids) => prisma.transaction.deleteMany({ where: { id: { in: ids }, ...deletedTransactionWhere(scope) } })
+  );
+
+  const loans = await purgeInBatches(
+    () => prisma.loan.findMany({
+      where: deletedLoanWhere(scope),
+      select: { id: true },
+      take: PURGE_BATCH_SIZE
+    }),
+    (ids) => prisma.loan.deleteMany({ where: { id: { in: ids }, ...deletedLoanWhere(scope) } })
+  );
+
+  if (transactions + loans > 0) {
+    await cleanupAttachments();
+  }
+
+  return { transactions, loans };
+}
+
+export const TrashService = {
+  /**
+   * Danh sách giao dịch đã xoá (mới xoá nhất trước)
+   *
+   * @throws Error('INVALID_CURSOR') nếu cursor không hợp lệ
+   */
+  async getDeletedTransactions(userId: string, query: GetTrashQuery) {
+    const where = deletedTransactionWhere({ userId });
+
+    const { items: transactions, pagination } = await paginate(
+      query,
+      TRASH_SORT,
+      (page) => prisma.transaction.findMany({
+        where: { AND: [where, page.where] },
+        include: {
+          entries: {
+            include: {
+              wallet: true
+            }
+          },
+          category: true,
+          splits: {
+            include: { category: true }
+          },
+          tags: {
+            include: { tag: true }
+          }
+        },
+        orderBy: page.orderBy,
+        take: page.take,
+        skip: page.skip
+      }),
+      () => prisma.transaction.count({ where })
+    );
+
+    return { transactions, pagination };
+  },
+
+  /**
+   * Danh sách khoản vay đã xoá (mới xoá nhất trước)
+   *
+   * @throws Error('INVALID_CURSOR') nếu cursor không hợp lệ
+   */
+  async getDeletedLoans(userId: string, query: GetTrashQuery) {
+    const where = deletedLoanWhere({ userId });
+
+    const { items: loans, pagination } = await paginate(
+      query,
+      TRASH_SORT,
+      (page) => prisma.loan.findMany({
+        where: { AND: [where, page.where] },
+        orderBy: page.orderBy,
+        take: page.take,
+        skip: page.skip
+      }),
+      () => prisma.loan.count({ where })
+    );
+
+    return { loans, pagination };
+  },
+
+  /**
+   * Xoá hẳn 1 giao dịch trong thùng rác
+   *
+   * @throws Error('TRANSACTION_NOT_FOUND') nếu giao dịch không nằm trong thùng rác
+   */
+  async purgeTransaction(transactionId: string, userId: string) {
+    const where = { id: transactionId, ...deletedTransactionWhere({ userId }) };
+    const transaction = await prisma.transaction.findFirst({ where });
+
+    // Xoá có điều kiện: giao dịch vừa được khôi phục => count = 0
+    const { count } = await prisma.transaction.deleteMany({ where });
+    if (!transaction || count === 0) {
+      throw new Error('TRANSACTION_NOT_FOUND');
+    }
+
+    await cleanupAttachments();
+
+    return transaction;
+  },
+
+  /**
+   * Xoá hẳn 1 khoản vay trong thùng rác (kèm giao dịch gốc)
+   *
+   * @throws Error('LOAN_NOT_FOUND') nếu khoản vay không nằm trong thùng rác
+   */
+  async purgeLoan(loanId: string, userId: string) {
+    const where = { id: loanId, ...deletedLoanWhere({ userId }) };
+    const loan = await prisma.loan.findFirst({ where });
+
+    // Xoá có điều kiện: khoản vay vừa được khôi phục => count = 0
+    const { count } = await prisma.loan.deleteMany({ where });
+    if (!loan || count === 0) {
+      throw new Error('LOAN_NOT_FOUND');
+    }
+
+    await cleanupAttachments();
+
+    return loan;
+  },
+
+  /**
+   * Dọn sạch thùng rác của user
+   *
+   * @returns Số giao dịch / khoản vay đã xoá hẳn
+   */
+  async emptyTrash(userId: string) {
+    return await purgeDeleted({ userId });
+  },
+
+  /**
+   * Xoá hẳn mọi bản ghi nằm trong thùng rác quá retentionDays ngày (dùng cho job định kỳ)
+   *
+   * @returns Số giao dịch / khoản vay đã xoá hẳn
+   */
+  async purgeExpired(retentionDays: number) {
+    const deletedBefore = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+    return await purgeDeleted({ deletedBefore });
+  }
+};
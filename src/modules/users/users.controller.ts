@@ -5,6 +5,7 @@
  */
 import { Request, Response } from 'express';
 import { UsersService } from './users.service';
+import { handleError } from '../../utils/error-handler';
 
 export const UsersController = {
   /**
@@ -36,6 +37,9 @@ export const UsersController = {
    *                 role:
    *                   type: string
    *                   enum: [USER, ADMIN]
+   *                 baseCurrency:
+   *                   type: string
+   *                   example: VND
    *                 createdAt:
    *                   type: string
    *                   format: date-time
@@ -52,6 +56,43 @@ export const UsersController = {
     return res.json(me);
   },
 
+  /**
+   * @swagger
+   * /users/me:
+   *   put:
+   *     tags:
+   *       - Users
+   *     summary: Cập nhật thông tin user hiện tại
+   *     description: Đổi tên hiển thị hoặc tiền tệ gốc (thống kê/báo cáo quy đổi về tiền tệ này)
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               name:
+   *                 type: string
+   *               baseCurrency:
+   *                 type: string
+   *                 example: VND
+   *     responses:
+   *       200:
+   *         description: Thông tin user sau khi cập nhật
+   *       401:
+   *         description: Chưa đăng nhập
+   */
+  async updateMe(req: Request, res: Response) {
+    try {
+      const me = await UsersService.updateMe(req.user!.sub, req.body);
+      return res.json(me);
+    } catch (e: any) {
+      return handleError(e, res, 'Users');
+    }
+  },
+
   /**
    * @swagger
    * /users:
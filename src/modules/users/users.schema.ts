@@ -0,0 +1,17 @@
+// Schema validation cho User APIs
+// Sử dụng Zod để validate request body khi user tự cập nhật hồ sơ
+import { z } from 'zod';
+import { currencyCodeSchema } from '../../utils/currency';
+
+// Schema cho cập nhật thông tin user hiện tại
+export const updateMeSchema = z.object({
+  name: z.string().min(1, 'Tên không được rỗng').max(100, 'Tên không được quá 100 ký tự').optional(),
+  // Tiền tệ gốc dùng để quy đổi thống kê/báo cáo
+  baseCurrency: currencyCodeSchema.optional()
+}).refine(
+  (data) => Object.keys(data).length > 0,
+  'Phải cung cấp ít nhất một trường để cập nhật'
+);
+
+// Type definitions cho TypeScript
+export type UpdateMeData = z.infer<typeof updateMeSchema>;
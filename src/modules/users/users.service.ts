@@ -4,6 +4,7 @@
  * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
  */
 import { prisma } from '../../db/prisma';
+import { UpdateMeData } from './users.schema';
 
 export const UsersService = {
   /**
@@ -22,11 +23,34 @@ export const UsersService = {
         email: true, 
         name: true, 
         role: true, 
+        baseCurrency: true,
         createdAt: true 
       },
     });
   },
 
+  /**
+   * Cập nhật thông tin user hiện tại (tên, tiền tệ gốc)
+   *
+   * @param userId - ID của user
+   * @param data - Dữ liệu cập nhật đã validate
+   * @returns User object sau khi cập nhật (không có password)
+   */
+  updateMe(userId: string, data: UpdateMeData) {
+    return prisma.user.update({
+      where: { id: userId },
+      data,
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        baseCurrency: true,
+        createdAt: true
+      },
+    });
+  },
+
   /**
    * Lấy danh sách tất cả users
    * Sắp xếp theo thời gian tạo (mới nhất trước)
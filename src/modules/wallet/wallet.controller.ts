@@ -5,7 +5,8 @@
  */
 import { Request, Response } from 'express';
 import { WalletService } from './wallet.service';
-import { handleError } from '../../utils/error-handler';
+import { handleError, handleValidationError } from '../../utils/error-handler';
+import { getWalletsQuerySchema } from './wallet.schema';
 
 // Create module-specific error handler
 const handleWalletError = (error: any, res: Response) =>
@@ -43,10 +44,41 @@ export const WalletController = {
    *                 example: "cash"
    *               openingBalance:
    *                 type: number
-   *                 minimum: 0
    *                 multipleOf: 0.01
    *                 example: 1000.00
    *                 default: 0
+   *                 description: Được âm với ví credit/bank có hạn mức, nhưng không thấp hơn -creditLimit
+   *               creditLimit:
+   *                 type: number
+   *                 nullable: true
+   *                 minimum: 0
+   *                 multipleOf: 0.01
+   *                 example: 20000000
+   *                 description: Hạn mức tín dụng (ví credit) hoặc thấu chi (ví bank). Bỏ trống thì số dư không được âm
+   *               statementClosingDay:
+   *                 type: integer
+   *                 nullable: true
+   *                 minimum: 1
+   *                 maximum: 31
+   *                 example: 20
+   *                 description: Ngày chốt sao kê (chỉ ví credit, đi cùng paymentDueDay)
+   *               paymentDueDay:
+   *                 type: integer
+   *                 nullable: true
+   *                 minimum: 1
+   *                 maximum: 31
+   *                 example: 5
+   *                 description: Ngày đến hạn thanh toán sao kê (chỉ ví credit)
+   *               lowBalanceThreshold:
+   *                 type: number
+   *                 nullable: true
+   *                 minimum: 0
+   *                 example: 500000
+   *                 description: Gửi thông báo low_wallet_balance khi số dư khả dụng xuống dưới ngưỡng. Bỏ trống thì không cảnh báo
+   *               currency:
+   *                 type: string
+   *                 example: "VND"
+   *                 description: Mã tiền tệ ISO 4217 (mặc định là tiền tệ gốc của user)
    *     responses:
    *       201:
    *         description: Ví được tạo thành công
@@ -106,20 +138,16 @@ export const WalletController = {
    *           default: false
    *         description: Có bao gồm ví đã archive không
    *       - in: query
-   *         name: limit
+   *         name: sortBy
    *         schema:
-   *           type: integer
-   *           minimum: 1
-   *           maximum: 100
-   *           default: 50
-   *         description: Số lượng ví trả về
-   *       - in: query
-   *         name: offset
-   *         schema:
-   *           type: integer
-   *           minimum: 0
-   *           default: 0
-   *         description: Số ví bỏ qua (pagination)
+   *           type: string
+   *           enum: [createdAt, name, currentBalance]
+   *         description: Bỏ trống => ví active trước, sau đó theo thời gian tạo mới nhất
+   *       - $ref: '#/components/parameters/SortOrder'
+   *       - $ref: '#/components/parameters/Limit'
+   *       - $ref: '#/components/parameters/Cursor'
+   *       - $ref: '#/components/parameters/Offset'
+   *       - $ref: '#/components/parameters/IncludeTotal'
    *     responses:
    *       200:
    *         description: Danh sách ví
@@ -136,16 +164,7 @@ export const WalletController = {
    *                   items:
    *                     $ref: '#/components/schemas/Wallet'
    *                 pagination:
-   *                   type: object
-   *                   properties:
-   *                     total:
-   *                       type: integer
-   *                     limit:
-   *                       type: integer
-   *                     offset:
-   *                       type: integer
-   *                     hasMore:
-   *                       type: boolean
+   *                   $ref: '#/components/schemas/Pagination'
    *       401:
    *         description: Chưa đăng nhập
    */
@@ -156,19 +175,18 @@ export const WalletController = {
         return res.status(401).json({ message: 'Unauthorized' });
       }
 
-      const result = await WalletService.getWallets(userId, {
-        type: req.query.type as 'cash' | 'bank' | 'ewallet' | 'credit' | undefined,
-        includeArchived: req.query.includeArchived === 'true',
-        limit: parseInt(req.query.limit as string) || 50,
-        offset: parseInt(req.query.offset as string) || 0
-      });
+      const parsed = getWalletsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return handleValidationError(parsed.error, res);
+      }
+
+      const result = await WalletService.getWallets(userId, parsed.data);
       return res.status(200).json({
         message: 'Wallets retrieved successfully',
         ...result
       });
     } catch (e: any) {
-      console.error('Get wallets error:', e);
-      return res.status(500).json({ message: 'Internal server error' });
+      return handleWalletError(e, res);
     }
   },
 
@@ -263,7 +281,7 @@ export const WalletController = {
    * GET /api/wallets/stats/summary
    *
    * @param req.user.sub - User ID từ JWT token
-   * @returns 200 OK với thống kê ví
+   * @returns 200 OK với thống kê ví (tổng số dư quy đổi về tiền tệ gốc + chi tiết theo tiền tệ)
    */
   async getWalletStats(req: Request, res: Response) {
     try {
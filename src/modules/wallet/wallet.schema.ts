@@ -1,6 +1,8 @@
 // Schema validation cho Wallet APIs
 // Sử dụng Zod để validate request body cho các wallet operations
 import { z } from 'zod';
+import { currencyCodeSchema } from '../../utils/currency';
+import { paginationQueryShape, sortQueryShape } from '../../utils/pagination';
 
 // Enum từ Prisma schema để đảm bảo consistency
 const WalletType = {
@@ -10,17 +12,58 @@ const WalletType = {
   credit: 'credit'
 } as const;
 
+// Loại ví được có hạn mức: credit (hạn mức tín dụng), bank (hạn mức thấu chi)
+export const CREDIT_LIMIT_WALLET_TYPES = ['credit', 'bank'] as const;
+
+const creditLimitSchema = z.number()
+  .min(0, 'Hạn mức không được âm')
+  .refine((val) => Number(val.toFixed(2)) === val, 'Hạn mức chỉ được phép 2 số thập phân');
+
+// Ngưỡng cảnh báo số dư thấp (so với số dư khả dụng = số dư + hạn mức)
+const lowBalanceThresholdSchema = z.number()
+  .min(0, 'Ngưỡng cảnh báo số dư không được âm')
+  .refine((val) => Number(val.toFixed(2)) === val, 'Ngưỡng cảnh báo số dư chỉ được phép 2 số thập phân');
+
+// Loại ví có chu kỳ sao kê (ngày chốt / ngày đến hạn)
+export const STATEMENT_CYCLE_WALLET_TYPES = ['credit'] as const;
+
+const dayOfMonthSchema = z.number().int('Ngày trong tháng phải là số nguyên')
+  .min(1, 'Ngày trong tháng phải từ 1 đến 31')
+  .max(31, 'Ngày trong tháng phải từ 1 đến 31');
+
 // Schema cho tạo wallet mới
 export const createWalletSchema = z.object({
   name: z.string().min(1, 'Tên ví không được rỗng').max(100, 'Tên ví không được quá 100 ký tự'),
   type: z.enum(['cash', 'bank', 'ewallet', 'credit'], {
     message: 'Loại ví phải là cash, bank, ewallet hoặc credit'
   }),
-  openingBalance: z.number().min(0, 'Số dư ban đầu không được âm').refine(
+  // Ví có hạn mức được mở với số dư âm (dư nợ thẻ / thấu chi sẵn có), tối đa -creditLimit
+  openingBalance: z.number().refine(
     (val) => Number(val.toFixed(2)) === val,
     'Số dư ban đầu chỉ được phép 2 số thập phân'
-  ).optional().default(0)
-});
+  ).optional().default(0),
+  // Chỉ cho ví credit / bank, bỏ trống => ví không được âm
+  creditLimit: creditLimitSchema.nullable().optional(),
+  // Chu kỳ sao kê, chỉ cho ví credit và phải cùng có
+  statementClosingDay: dayOfMonthSchema.nullable().optional(),
+  paymentDueDay: dayOfMonthSchema.nullable().optional(),
+  // Bỏ trống => không cảnh báo số dư thấp
+  lowBalanceThreshold: lowBalanceThresholdSchema.nullable().optional(),
+  // Mặc định lấy tiền tệ gốc của user
+  currency: currencyCodeSchema.optional()
+}).refine(
+  (data) => data.creditLimit == null || (CREDIT_LIMIT_WALLET_TYPES as readonly string[]).includes(data.type),
+  { message: 'Chỉ ví credit hoặc bank được có hạn mức', path: ['creditLimit'] }
+).refine(
+  (data) => data.openingBalance >= -(data.creditLimit ?? 0),
+  { message: 'Số dư ban đầu không được âm quá hạn mức', path: ['openingBalance'] }
+).refine(
+  (data) => (data.statementClosingDay == null) === (data.paymentDueDay == null),
+  { message: 'statementClosingDay và paymentDueDay phải cùng có hoặc cùng bỏ trống', path: ['paymentDueDay'] }
+).refine(
+  (data) => data.statementClosingDay == null || (STATEMENT_CYCLE_WALLET_TYPES as readonly string[]).includes(data.type),
+  { message: 'Chỉ ví credit được có chu kỳ sao kê', path: ['statementClosingDay'] }
+);
 
 // Schema cho cập nhật wallet
 export const updateWalletSchema = z.object({
@@ -29,27 +72,34 @@ export const updateWalletSchema = z.object({
     message: 'Loại ví phải là cash, bank, ewallet hoặc credit'
   }).optional(),
   isArchived: z.boolean().optional(),
+  // Chỉ đổi được khi ví chưa có giao dịch
+  currency: currencyCodeSchema.optional(),
+  // Được âm tối đa -creditLimit (kiểm tra ở service theo hạn mức sau cập nhật)
   currentBalance: z.number()
-    .min(0, 'Số dư không được âm')
     .refine((val) => Number(val.toFixed(2)) === val, 'Số dư chỉ được phép 2 số thập phân')
-    .optional()
+    .optional(),
+  // null => bỏ hạn mức (số dư hiện tại phải không âm)
+  creditLimit: creditLimitSchema.nullable().optional(),
+  // null => bỏ chu kỳ sao kê (kiểm tra cùng có / loại ví ở service theo giá trị sau cập nhật)
+  statementClosingDay: dayOfMonthSchema.nullable().optional(),
+  paymentDueDay: dayOfMonthSchema.nullable().optional(),
+  // null => tắt cảnh báo số dư thấp; đổi ngưỡng => đánh giá lại từ đầu
+  lowBalanceThreshold: lowBalanceThresholdSchema.nullable().optional()
 }).refine(
   (data) => Object.keys(data).length > 0,
   'Phải cung cấp ít nhất một trường để cập nhật'
 );
 
+// Cột được phép sắp xếp danh sách ví
+export const WALLET_SORT_FIELDS = ['createdAt', 'name', 'currentBalance'] as const;
+
 // Schema cho query parameters
 export const getWalletsQuerySchema = z.object({
   type: z.enum([WalletType.cash, WalletType.bank, WalletType.ewallet, WalletType.credit]).optional(),
   includeArchived: z.string().transform((val) => val === 'true').optional().default(false),
-  limit: z.string().transform((val) => {
-    const num = parseInt(val);
-    return isNaN(num) ? 50 : Math.min(Math.max(num, 1), 100);
-  }).optional().default(50),
-  offset: z.string().transform((val) => {
-    const num = parseInt(val);
-    return isNaN(num) ? 0 : Math.max(num, 0);
-  }).optional().default(0)
+  // Mặc định: ví active trước, sau đó theo thời gian tạo mới nhất
+  ...sortQueryShape(WALLET_SORT_FIELDS),
+  ...paginationQueryShape({ clamp: true })
 });
 
 // Type definitions cho TypeScript
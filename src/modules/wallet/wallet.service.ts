@@ -3,8 +3,103 @@
  * File này chứa business logic cho việc quản lý ví tiền
  * Service layer - xử lý logic nghiệp vụ, không liên quan đến HTTP
  */
+import { Prisma, Wallet } from '@prisma/client';
 import { prisma } from '../../db/prisma';
-import { CreateWalletData, UpdateWalletData, GetWalletsQuery } from './wallet.schema';
+import { DEFAULT_CURRENCY, roundMoney } from '../../utils/currency';
+import { startOfPeriod } from '../../utils/period';
+import { paginate, SortKey } from '../../utils/pagination';
+import { ExchangeRateService } from '../exchange-rate/exchange-rate.service';
+import { AuditService } from '../audit/audit.service';
+import { NotificationInput, NotificationService } from '../notification/notification.service';
+import {
+  CREDIT_LIMIT_WALLET_TYPES,
+  STATEMENT_CYCLE_WALLET_TYPES,
+  CreateWalletData, UpdateWalletData, GetWalletsQuery } from './wallet.schema';
+
+// Số ví mỗi lô khi quét cảnh báo số dư thấp
+const LOW_BALANCE_BATCH_SIZE = 200;
+
+export interface WalletBalanceHistory {
+  walletId: string;
+  name: string;
+  currency: string;
+  isArchived: boolean;
+  // Số dư theo tiền tệ của ví, cùng thứ tự với danh sách mốc asOf
+  balances: number[];
+}
+
+/**
+ * Số tiền còn chi được của ví: số dư + hạn mức tín dụng / thấu chi (ví không có hạn mức => đúng bằng số dư)
+ * Dùng cho mọi chỗ kiểm tra đủ số dư trước khi trừ tiền khỏi ví
+ */
+export function getAvailableBalance(wallet: Pick<Wallet, 'currentBalance' | 'creditLimit'>) {
+  return wallet.currentBalance.plus(wallet.creditLimit ?? 0);
+}
+
+/**
+ * Ví kèm số tiền còn chi được (availableBalance) và hạn mức chưa dùng (availableCredit, null nếu không có hạn mức)
+ */
+function withAvailableCredit<T extends Pick<Wallet, 'currentBalance' | 'creditLimit'>>(wallet: T) {
+  return {
+    ...wallet,
+    availableBalance: getAvailableBalance(wallet),
+    availableCredit: wallet.creditLimit === null
+      ? null
+      : wallet.creditLimit.plus(Prisma.Decimal.min(wallet.currentBalance, 0))
+  };
+}
+
+/**
+ * Số dư 1 ví tại các mốc asOf (tăng dần) bằng cách cộng dồn entry từ snapshot gần nhất trước mốc đầu tiên
+ * Quy ước: openingBalance tính từ ngày tạo ví; entry tính theo transactionDate < asOf
+ */
+async function computeWalletBalances(
+  wallet: { id: string; openingBalance: Prisma.Decimal; createdAt: Date },
+  asOfs: Date[]
+) {
+  const openedAt = startOfPeriod(wallet.createdAt, 'daily').getTime();
+  const includesOpening = (asOf: Date) => asOf.getTime() > openedAt;
+
+  const base = await prisma.balanceSnapshot.findFirst({
+    where: { walletId: wallet.id, asOf: { lt: asOfs[0] } },
+    orderBy: { asOf: 'desc' }
+  });
+
+  // Số dư sổ cái (chưa tính openingBalance) tại mốc base
+  let ledger = base ? base.balance.toNumber() - (includesOpening(base.asOf) ? wallet.openingBalance.toNumber() : 0) : 0;
+
+  const entries = await prisma.transactionEntry.findMany({
+    where: {
+      walletId: wallet.id,
+      transaction: {
+        deletedAt: null,
+        transactionDate: {
+          ...(base ? { gte: base.asOf } : {}),
+          lt: asOfs[asOfs.length - 1]
+        }
+      }
+    },
+    select: {
+      direction: true,
+      amount: true,
+      transaction: { select: { transactionDate: true } }
+    },
+    orderBy: { transaction: { transactionDate: 'asc' } }
+  });
+
+  const balances: number[] = [];
+  let index = 0;
+  for (const asOf of asOfs) {
+    while (index < entries.length && entries[index].transaction.transactionDate.getTime() < asOf.getTime()) {
+      const entry = entries[index];
+      ledger += entry.direction === 'in' ? entry.amount.toNumber() : -entry.amount.toNumber();
+      index++;
+    }
+    balances.push(roundMoney(ledger + (includesOpening(asOf) ? wallet.openingBalance.toNumber() : 0)));
+  }
+
+  return balances;
+}
 
 export const WalletService = {
   /**
@@ -16,7 +111,15 @@ export const WalletService = {
    * @throws Error('WALLET_NAME_EXISTS') nếu tên ví đã tồn tại cho user này
    */
   async createWallet(data: CreateWalletData, userId: string) {
-    const { name, type, openingBalance = 0 } = data;
+    const {
+      name,
+      type,
+      openingBalance = 0,
+      creditLimit = null,
+      statementClosingDay = null,
+      paymentDueDay = null,
+      lowBalanceThreshold = null
+    } = data;
 
     // Kiểm tra tên ví đã tồn tại cho user này chưa
     const existingWallet = await prisma.wallet.findFirst({
@@ -31,29 +134,65 @@ export const WalletService = {
       throw new Error('WALLET_NAME_EXISTS');
     }
 
-    // Tạo ví mới
-    const wallet = await prisma.wallet.create({
-      data: {
+    // Không truyền currency => dùng tiền tệ gốc của user
+    let currency = data.currency;
+    if (!currency) {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { baseCurrency: true }
+      });
+      currency = user?.baseCurrency ?? DEFAULT_CURRENCY;
+    }
+
+    // Tạo ví mới + ghi nhật ký thay đổi
+    return await prisma.$transaction(async (tx) => {
+      const wallet = await tx.wallet.create({
+        data: {
+          userId,
+          name,
+          type,
+          currency,
+          openingBalance,
+          currentBalance: openingBalance, // Số dư hiện tại ban đầu = số dư mở đầu
+          creditLimit,
+          statementClosingDay,
+          paymentDueDay,
+          lowBalanceThreshold
+        }
+      });
+
+      await AuditService.record({
         userId,
-        name,
-        type,
-        openingBalance,
-        currentBalance: openingBalance // Số dư hiện tại ban đầu = số dư mở đầu
-      }
-    });
+        entityType: 'wallet',
+        entityId: wallet.id,
+        action: 'create',
+        after: wallet
+      }, tx);
 
-    return wallet;
+      return withAvailableCredit(wallet);
+    });
   },
 
   /**
    * Lấy danh sách ví của user
+   * Mặc định ví active trước, sau đó theo thời gian tạo; sortBy => chỉ sắp xếp theo cột đó
    *
    * @param userId - ID của user
    * @param filters - Các filter tùy chọn
    * @returns Danh sách ví với pagination
+   * @throws Error('INVALID_CURSOR') nếu cursor không hợp lệ
    */
   async getWallets(userId: string, filters: Partial<GetWalletsQuery> = {}) {
-    const { type, includeArchived = false, limit = 50, offset = 0 } = filters;
+    const {
+      type,
+      includeArchived = false,
+      sortBy,
+      sortOrder = 'desc',
+      limit = 50,
+      cursor,
+      offset,
+      includeTotal
+    } = filters;
 
     // Build where clause
     const where: any = { userId };
@@ -66,28 +205,33 @@ export const WalletService = {
       where.type = type;
     }
 
-    // Lấy danh sách ví
-    const wallets = await prisma.wallet.findMany({
-      where,
-      orderBy: [
-        { isArchived: 'asc' }, // Ví active trước
-        { createdAt: 'desc' }  // Sau đó theo thời gian tạo
-      ],
-      take: limit,
-      skip: offset
-    });
+    const sort: SortKey[] = sortBy
+      ? [
+        { field: sortBy, direction: sortOrder },
+        { field: 'id', direction: sortOrder }
+      ]
+      : [
+        { field: 'isArchived', direction: 'asc', values: [false, true] }, // Ví active trước
+        { field: 'createdAt', direction: 'desc' }, // Sau đó theo thời gian tạo
+        { field: 'id', direction: 'desc' }
+      ];
 
-    // Đếm total
-    const total = await prisma.wallet.count({ where });
+    // Lấy danh sách ví
+    const { items: wallets, pagination } = await paginate(
+      { limit, cursor, offset, includeTotal },
+      sort,
+      (page) => prisma.wallet.findMany({
+        where: { AND: [where, page.where] },
+        orderBy: page.orderBy,
+        take: page.take,
+        skip: page.skip
+      }),
+      () => prisma.wallet.count({ where })
+    );
 
     return {
-      wallets,
-      pagination: {
-        total,
-        limit,
-        offset,
-        hasMore: offset + limit < total
-      }
+      wallets: wallets.map(withAvailableCredit),
+      pagination
     };
   },
 
@@ -99,12 +243,14 @@ export const WalletService = {
    * @returns Wallet object hoặc null nếu không tìm thấy
    */
   async getWalletById(walletId: string, userId: string) {
-    return await prisma.wallet.findFirst({
+    const wallet = await prisma.wallet.findFirst({
       where: {
         id: walletId,
         userId
       }
     });
+
+    return wallet ? withAvailableCredit(wallet) : null;
   },
 
   /**
@@ -116,6 +262,11 @@ export const WalletService = {
    * @returns Wallet object đã cập nhật
    * @throws Error('WALLET_NOT_FOUND') nếu ví không tồn tại
    * @throws Error('WALLET_NAME_EXISTS') nếu tên mới đã tồn tại
+   * @throws Error('WALLET_CURRENCY_LOCKED') nếu đổi tiền tệ khi ví đã có giao dịch
+   * @throws Error('WALLET_CREDIT_LIMIT_NOT_ALLOWED') nếu đặt hạn mức cho ví không phải credit / bank
+   * @throws Error('WALLET_BALANCE_EXCEEDS_CREDIT_LIMIT') nếu số dư âm quá hạn mức sau cập nhật
+   * @throws Error('WALLET_STATEMENT_CYCLE_INCOMPLETE') nếu chỉ có 1 trong 2 ngày chốt / ngày đến hạn
+   * @throws Error('WALLET_STATEMENT_CYCLE_NOT_ALLOWED') nếu đặt chu kỳ sao kê cho ví không phải credit
    */
   async updateWallet(walletId: string, userId: string, data: UpdateWalletData) {
     // Kiểm tra ví tồn tại và thuộc user
@@ -143,13 +294,62 @@ export const WalletService = {
       }
     }
 
-    // Cập nhật ví
-    const updatedWallet = await prisma.wallet.update({
-      where: { id: walletId },
-      data
-    });
+    // Đổi tiền tệ khi đã có entry sẽ làm sai toàn bộ số liệu cũ
+    if (data.currency && data.currency !== existingWallet.currency) {
+      const entry = await prisma.transactionEntry.findFirst({
+        where: { walletId },
+        select: { id: true }
+      });
+
+      if (entry) {
+        throw new Error('WALLET_CURRENCY_LOCKED');
+      }
+    }
+
+    // Hạn mức chỉ cho ví credit / bank; số dư sau cập nhật không được âm quá hạn mức
+    const type = data.type ?? existingWallet.type;
+    const creditLimit = data.creditLimit !== undefined ? data.creditLimit : existingWallet.creditLimit;
+    if (creditLimit !== null && !(CREDIT_LIMIT_WALLET_TYPES as readonly string[]).includes(type)) {
+      throw new Error('WALLET_CREDIT_LIMIT_NOT_ALLOWED');
+    }
+
+    const balance = data.currentBalance !== undefined ? new Prisma.Decimal(data.currentBalance) : existingWallet.currentBalance;
+    if (balance.plus(creditLimit ?? 0).lessThan(0)) {
+      throw new Error('WALLET_BALANCE_EXCEEDS_CREDIT_LIMIT');
+    }
+
+    // Chu kỳ sao kê chỉ cho ví credit, ngày chốt và ngày đến hạn phải cùng có
+    const closingDay = data.statementClosingDay !== undefined ? data.statementClosingDay : existingWallet.statementClosingDay;
+    const dueDay = data.paymentDueDay !== undefined ? data.paymentDueDay : existingWallet.paymentDueDay;
+    if ((closingDay === null) !== (dueDay === null)) {
+      throw new Error('WALLET_STATEMENT_CYCLE_INCOMPLETE');
+    }
+    if (closingDay !== null && !(STATEMENT_CYCLE_WALLET_TYPES as readonly string[]).includes(type)) {
+      throw new Error('WALLET_STATEMENT_CYCLE_NOT_ALLOWED');
+    }
+
+    // Cập nhật ví + ghi nhật ký thay đổi
+    return await prisma.$transaction(async (tx) => {
+      const updatedWallet = await tx.wallet.update({
+        where: { id: walletId },
+        data: {
+          ...data,
+          // Đổi ngưỡng => cho phép cảnh báo lại theo ngưỡng mới
+          ...(data.lowBalanceThreshold !== undefined ? { lowBalanceNotifiedAt: null } : {})
+        }
+      });
 
-    return updatedWallet;
+      await AuditService.record({
+        userId,
+        entityType: 'wallet',
+        entityId: walletId,
+        action: 'update',
+        before: existingWallet,
+        after: updatedWallet
+      }, tx);
+
+      return withAvailableCredit(updatedWallet);
+    });
   },
 
   /**
@@ -182,22 +382,43 @@ export const WalletService = {
       throw new Error('WALLET_HAS_TRANSACTIONS');
     }
 
-    // Archive ví thay vì xóa cứng
-    const archivedWallet = await prisma.wallet.update({
-      where: { id: walletId },
-      data: { isArchived: true }
-    });
+    const { entries: _entries, ...before } = wallet;
 
-    return archivedWallet;
+    // Archive ví thay vì xóa cứng + ghi nhật ký thay đổi
+    return await prisma.$transaction(async (tx) => {
+      const archivedWallet = await tx.wallet.update({
+        where: { id: walletId },
+        data: { isArchived: true }
+      });
+
+      await AuditService.record({
+        userId,
+        entityType: 'wallet',
+        entityId: walletId,
+        action: 'delete',
+        before,
+        after: archivedWallet
+      }, tx);
+
+      return withAvailableCredit(archivedWallet);
+    });
   },
 
   /**
    * Lấy thống kê tổng quan về ví của user
+   * Tổng số dư được quy đổi về tiền tệ gốc của user theo tỷ giá mới nhất;
+   * tiền tệ chưa có tỷ giá được liệt kê trong missingRates và không cộng vào tổng
    *
    * @param userId - ID của user
    * @returns Thống kê tổng quan
    */
   async getWalletStats(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { baseCurrency: true }
+    });
+    const baseCurrency = user?.baseCurrency ?? DEFAULT_CURRENCY;
+
     // Đếm số ví theo loại
     const walletStats = await prisma.wallet.groupBy({
       by: ['type'],
@@ -210,15 +431,64 @@ export const WalletService = {
       }
     });
 
-    // Tính tổng số dư
-    const totalBalance = await prisma.wallet.aggregate({
+    // Tổng số dư theo từng tiền tệ (không cộng lẫn tiền tệ khác nhau)
+    const currencyStats = await prisma.wallet.groupBy({
+      by: ['currency'],
       where: {
         userId,
         isArchived: false
       },
       _sum: {
         currentBalance: true
+      },
+      _count: {
+        id: true
+      }
+    });
+
+    // Ví có hạn mức (thẻ tín dụng / thấu chi): tổng hạn mức và hạn mức chưa dùng theo tiền tệ
+    const creditWallets = await prisma.wallet.findMany({
+      where: {
+        userId,
+        isArchived: false,
+        creditLimit: { not: null }
+      },
+      select: { currency: true, currentBalance: true, creditLimit: true }
+    });
+    const creditByCurrency = new Map<string, { creditLimit: number; availableCredit: number }>();
+    for (const wallet of creditWallets) {
+      const credit = creditByCurrency.get(wallet.currency) ?? { creditLimit: 0, availableCredit: 0 };
+      const { availableCredit } = withAvailableCredit(wallet);
+      credit.creditLimit += wallet.creditLimit!.toNumber();
+      credit.availableCredit += availableCredit!.toNumber();
+      creditByCurrency.set(wallet.currency, credit);
+    }
+
+    const converter = await ExchangeRateService.getConverter(userId, baseCurrency);
+    const now = new Date();
+    const missingRates: string[] = [];
+    let totalBalance = 0;
+    let totalAvailableCredit = 0;
+
+    const byCurrency = currencyStats.map((stat) => {
+      const balance = stat._sum.currentBalance?.toNumber() ?? 0;
+      const credit = creditByCurrency.get(stat.currency);
+      const converted = converter.convert(balance, stat.currency, now);
+      if (converted === null) {
+        missingRates.push(stat.currency);
+      } else {
+        totalBalance += converted;
+        totalAvailableCredit += converter.convert(credit?.availableCredit ?? 0, stat.currency, now) ?? 0;
       }
+
+      return {
+        currency: stat.currency,
+        totalBalance: balance,
+        convertedBalance: converted,
+        creditLimit: roundMoney(credit?.creditLimit ?? 0),
+        availableCredit: roundMoney(credit?.availableCredit ?? 0),
+        walletCount: stat._count.id
+      };
     });
 
     return {
@@ -226,8 +496,175 @@ export const WalletService = {
         acc[stat.type] = stat._count.id;
         return acc;
       }, {} as Record<string, number>),
-      totalBalance: totalBalance._sum.currentBalance || 0,
+      baseCurrency,
+      totalBalance: roundMoney(totalBalance),
+      // Tổng hạn mức tín dụng / thấu chi chưa dùng, quy đổi về tiền tệ gốc
+      totalAvailableCredit: roundMoney(totalAvailableCredit),
+      byCurrency,
+      missingRates,
       totalWallets: walletStats.reduce((sum, stat) => sum + stat._count.id, 0)
     };
+  },
+
+  /**
+   * Lịch sử số dư của tất cả ví tại các mốc asOf (exclusive, tăng dần)
+   * Dùng BalanceSnapshot làm cache: chỉ tính lại các mốc chưa có snapshot,
+   * mốc đã qua (trước 00:00 UTC hôm nay) được lưu lại cho lần sau
+   *
+   * @param userId - ID của user
+   * @param asOfs - Danh sách mốc thời gian tăng dần
+   * @returns Số dư từng ví (theo tiền tệ của ví) tại từng mốc
+   */
+  async getBalanceHistory(userId: string, asOfs: Date[]): Promise<WalletBalanceHistory[]> {
+    const wallets = await prisma.wallet.findMany({
+      where: { userId },
+      select: { id: true, name: true, currency: true, isArchived: true, openingBalance: true, createdAt: true },
+      orderBy: { createdAt: 'asc' }
+    });
+    if (wallets.length === 0 || asOfs.length === 0) {
+      return wallets.map((w) => ({ walletId: w.id, name: w.name, currency: w.currency, isArchived: w.isArchived, balances: [] }));
+    }
+
+    const cached = await prisma.balanceSnapshot.findMany({
+      where: {
+        walletId: { in: wallets.map((w) => w.id) },
+        asOf: { in: asOfs }
+      },
+      select: { walletId: true, asOf: true, balance: true }
+    });
+    const cachedByKey = new Map(cached.map((c) => [`${c.walletId}:${c.asOf.getTime()}`, c.balance.toNumber()]));
+
+    const cacheUntil = startOfPeriod(new Date(), 'daily').getTime();
+    const newSnapshots: { walletId: string; asOf: Date; balance: number }[] = [];
+    const history: WalletBalanceHistory[] = [];
+
+    for (const wallet of wallets) {
+      const balances = asOfs.map((asOf) => cachedByKey.get(`${wallet.id}:${asOf.getTime()}`));
+      const missing = asOfs.filter((_, i) => balances[i] === undefined);
+
+      if (missing.length > 0) {
+        const computed = await computeWalletBalances(wallet, missing);
+        let k = 0;
+        for (let i = 0; i < asOfs.length; i++) {
+          if (balances[i] !== undefined) continue;
+          balances[i] = computed[k++];
+          if (asOfs[i].getTime() <= cacheUntil) {
+            newSnapshots.push({ walletId: wallet.id, asOf: asOfs[i], balance: balances[i]! });
+          }
+        }
+      }
+
+      history.push({
+        walletId: wallet.id,
+        name: wallet.name,
+        currency: wallet.currency,
+        isArchived: wallet.isArchived,
+        balances: balances as number[]
+      });
+    }
+
+    if (newSnapshots.length > 0) {
+      await prisma.balanceSnapshot.createMany({ data: newSnapshots, skipDuplicates: true });
+    }
+
+    return history;
+  },
+
+  /**
+   * Xoá snapshot số dư bị ảnh hưởng khi giao dịch ngày `fromDate` của các ví thay đổi
+   * Gọi trong cùng DB transaction với thao tác ghi giao dịch
+   *
+   * @param walletIds - Các ví có bút toán bị thêm/sửa/xoá
+   * @param fromDate - transactionDate sớm nhất bị ảnh hưởng
+   * @param client - Prisma client hoặc transaction client
+   */
+  async invalidateBalanceSnapshots(walletIds: string[], fromDate: Date, client: Prisma.TransactionClient = prisma) {
+    if (walletIds.length === 0) return;
+    await client.balanceSnapshot.deleteMany({
+      where: {
+        walletId: { in: Array.from(new Set(walletIds)) },
+        asOf: { gt: fromDate }
+      }
+    });
+  },
+
+  /**
+   * Cảnh báo ví có số dư khả dụng (số dư + hạn mức) dưới lowBalanceThreshold (được gọi bởi job nền)
+   * Mỗi đợt số dư tụt dưới ngưỡng chỉ cảnh báo 1 lần; số dư lên lại >= ngưỡng => đợt tụt sau được cảnh báo tiếp
+   * - Đợt mới: ghi lowBalanceNotifiedAt TRƯỚC khi gửi, dedupeKey theo mốc này => chạy lại / lỗi giữa chừng không gửi trùng
+   * - Ví vẫn dưới ngưỡng: gửi lại cùng dedupeKey (bị bỏ qua nếu đã có) => bù thông báo chưa kịp tạo ở lần chạy lỗi
+   * - Quét ví theo lô (cursor theo id) để không nạp toàn bộ ví vào bộ nhớ
+   *
+   * @param now - Thời điểm tham chiếu (mặc định hiện tại)
+   * @returns Số ví đã kiểm tra, số ví hết cảnh báo, số thông báo đã tạo và số lượt gửi thành công / lỗi
+   */
+  async processLowBalanceAlerts(now = new Date()) {
+    const totals = { wallets: 0, recovered: 0, notifications: 0, delivered: 0, failed: 0 };
+    let cursor: string | undefined;
+
+    while (true) {
+      const batch = await prisma.wallet.findMany({
+        where: { isArchived: false, lowBalanceThreshold: { not: null } },
+        orderBy: { id: 'asc' },
+        take: LOW_BALANCE_BATCH_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+      });
+      if (batch.length === 0) break;
+
+      const alerts: NotificationInput[] = [];
+      const recoveredIds: string[] = [];
+      for (const wallet of batch) {
+        const available = getAvailableBalance(wallet);
+        if (!available.lessThan(wallet.lowBalanceThreshold!)) {
+          if (wallet.lowBalanceNotifiedAt) recoveredIds.push(wallet.id);
+          continue;
+        }
+
+        // Mốc bắt đầu đợt số dư thấp: đợt mới thì giữ chỗ trước (điều kiện null tránh 2 job cùng ghi)
+        let episodeAt = wallet.lowBalanceNotifiedAt;
+        if (!episodeAt) {
+          const claimed = await prisma.wallet.updateMany({
+            where: { id: wallet.id, lowBalanceNotifiedAt: null },
+            data: { lowBalanceNotifiedAt: now }
+          });
+          if (claimed.count === 0) continue;
+          episodeAt = now;
+        }
+
+        const threshold = wallet.lowBalanceThreshold!.toNumber();
+        alerts.push({
+          userId: wallet.userId,
+          type: 'low_wallet_balance',
+          title: 'Số dư ví thấp',
+          message: `${wallet.name}: còn ${available.toNumber().toLocaleString('vi-VN')} ${wallet.currency}, dưới ngưỡng ${threshold.toLocaleString('vi-VN')} ${wallet.currency}`,
+          data: {
+            walletId: wallet.id,
+            currency: wallet.currency,
+            availableBalance: available.toNumber(),
+            threshold
+          },
+          dedupeKey: `wallet:${wallet.id}:low:${episodeAt.toISOString()}`
+        });
+      }
+
+      if (recoveredIds.length > 0) {
+        await prisma.wallet.updateMany({
+          where: { id: { in: recoveredIds } },
+          data: { lowBalanceNotifiedAt: null }
+        });
+      }
+      const result = await NotificationService.dispatch(alerts);
+
+      totals.wallets += batch.length;
+      totals.recovered += recoveredIds.length;
+      totals.notifications += result.notifications;
+      totals.delivered += result.delivered;
+      totals.failed += result.failed;
+
+      if (batch.length < LOW_BALANCE_BATCH_SIZE) break;
+      cursor = batch[batch.length - 1].id;
+    }
+
+    return totals;
   }
 };
@@ -0,0 +1,68 @@
+/**
+ * Notification Channels
+ * Interface chung cho kênh gửi thông báo + danh sách kênh theo cấu hình
+ * - in_app: notification center trong app (luôn có)
+ * - email: gửi qua SMTP (chỉ bật khi có SMTP_HOST)
+ * - webhook: POST JSON tới URL user tự cấu hình, ký HMAC-SHA256
+ * Kênh tuỳ chỉnh (VD: kênh giả lập khi test) chỉ cần implement NotificationChannel và đăng ký qua setChannel()
+ */
+import type { Notification } from '@prisma/client';
+import { env } from '../config/env';
+import { createInAppChannel } from './in-app.channel';
+import { createEmailChannel } from './email.channel';
+import { createWebhookChannel } from './webhook.channel';
+
+export type NotificationChannelName = 'in_app' | 'email' | 'webhook';
+
+// Người nhận thông báo (thông tin cần cho mọi kênh)
+export interface NotificationRecipient {
+  userId: string;
+  email: string;
+  name: string | null;
+  webhook: { url: string; secret: string } | null;
+}
+
+export interface NotificationChannel {
+  readonly name: NotificationChannelName;
+  // Kênh gửi được cho người nhận này không (VD: user chưa cấu hình webhook => bỏ qua)
+  isAvailable(recipient: NotificationRecipient): boolean;
+  // Gửi thông báo, throw nếu gửi lỗi
+  deliver(notification: Notification, recipient: NotificationRecipient): Promise<void>;
+}
+
+let channels: Map<NotificationChannelName, NotificationChannel> | null = null;
+
+function getRegistry() {
+  if (!channels) {
+    const defaults: NotificationChannel[] = [
+      createInAppChannel(),
+      createWebhookChannel(env.NOTIFICATION_WEBHOOK_TIMEOUT_MS)
+    ];
+    if (env.SMTP_HOST) {
+      defaults.push(createEmailChannel({
+        host: env.SMTP_HOST,
+        port: env.SMTP_PORT,
+        secure: env.SMTP_SECURE,
+        user: env.SMTP_USER,
+        password: env.SMTP_PASSWORD,
+        timeoutMs: env.SMTP_TIMEOUT_MS
+      }, env.SMTP_FROM));
+    }
+    channels = new Map(defaults.map((channel) => [channel.name, channel]));
+  }
+  return channels;
+}
+
+/**
+ * Các kênh đang bật (khởi tạo lần đầu theo env)
+ */
+export function getChannels(): NotificationChannel[] {
+  return Array.from(getRegistry().values());
+}
+
+/**
+ * Thay / thêm kênh (kênh tuỳ chỉnh)
+ */
+export function setChannel(channel: NotificationChannel) {
+  getRegistry().set(channel.name, channel);
+}
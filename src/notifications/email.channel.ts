@@ -0,0 +1,23 @@
+/**
+ * Email Notification Channel
+ * Gửi thông báo dạng văn bản thuần tới email đăng ký của user qua SMTP
+ */
+import type { NotificationChannel } from './channel';
+import { sendMail, SmtpConfig } from './smtp';
+
+export function createEmailChannel(config: SmtpConfig, from: string): NotificationChannel {
+  return {
+    name: 'email',
+    isAvailable: (recipient) => Boolean(recipient.email),
+
+    async deliver(notification, recipient) {
+      const greeting = recipient.name ? `Xin chào ${recipient.name},` : 'Xin chào,';
+      await sendMail(config, {
+        from,
+        to: recipient.email,
+        subject: notification.title,
+        text: `${greeting}\n\n${notification.message}\n`
+      });
+    }
+  };
+}
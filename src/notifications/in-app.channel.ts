@@ -0,0 +1,15 @@
+/**
+ * In-app Notification Channel
+ * Notification center đọc trực tiếp bảng Notification (inAppAt != null) => không cần gửi gì thêm
+ */
+import type { NotificationChannel } from './channel';
+
+export function createInAppChannel(): NotificationChannel {
+  return {
+    name: 'in_app',
+    isAvailable: () => true,
+    async deliver() {
+      // Bản ghi đã có trong DB, dispatcher chỉ đánh dấu inAppAt
+    }
+  };
+}
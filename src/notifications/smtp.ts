@@ -0,0 +1,189 @@
+/**
+ * SMTP Client
+ * Client SMTP tối giản dùng net / tls của Node, không phụ thuộc thư viện gửi mail. Chỉ gửi email văn bản thuần
+ * (UTF-8, base64) cho 1 người nhận / 1 kết nối. Hỗ trợ TLS ngay từ đầu (secure), STARTTLS khi server hỗ trợ
+ * và AUTH PLAIN. Dùng được với SMTP sink cục bộ (MailHog, Mailpit, smtp4dev...) khi kiểm thử.
+ */
+import net from 'net';
+import tls from 'tls';
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  // true: TLS ngay từ đầu (cổng 465); false: kết nối thường, nâng lên TLS nếu server hỗ trợ STARTTLS
+  secure: boolean;
+  // Bỏ trống => không xác thực
+  user?: string;
+  password?: string;
+  timeoutMs: number;
+}
+
+export interface MailMessage {
+  // "Tên <địa chỉ>" hoặc chỉ địa chỉ
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// Loại bỏ CR/LF để giá trị không chèn được thêm lệnh / header
+const singleLine = (value: string) => value.replace(/[\r\n]+/g, ' ').trim();
+
+const addressOf = (value: string) => singleLine(value.match(/<([^>]+)>/)?.[1] ?? value);
+
+// RFC 2047: header có ký tự ngoài ASCII (tiếng Việt) => encoded-word base64
+const encodeHeader = (value: string) => /^[\x20-\x7e]*$/.test(value)
+  ? value
+  : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+function encodeMailbox(value: string) {
+  const match = singleLine(value).match(/^(.*?)\s*<([^>]+)>$/);
+  if (!match || !match[1]) return `<${addressOf(value)}>`;
+  return `${encodeHeader(match[1].replace(/^"|"$/g, ''))} <${match[2]}>`;
+}
+
+function buildMessage(message: MailMessage) {
+  const domain = addressOf(message.from).split('@')[1] ?? 'localhost';
+  const body = Buffer.from(message.text.replace(/\r?\n/g, '\r\n'), 'utf8')
+    .toString('base64')
+    .replace(/.{1,76}/g, '$&\r\n');
+
+  return [
+    `From: ${encodeMailbox(message.from)}`,
+    `To: <${addressOf(message.to)}>`,
+    `Subject: ${encodeHeader(singleLine(message.subject))}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    // Base64 không bắt đầu dòng bằng "." => không cần dot-stuffing
+    body
+  ].join('\r\n');
+}
+
+/**
+ * Đọc reply của server: gom các dòng "250-..." tới dòng kết thúc "250 ..." thành 1 reply
+ */
+function createReplyReader(socket: net.Socket) {
+  let buffer = '';
+  let lines: string[] = [];
+  const replies: SmtpReply[] = [];
+  let waiter: { resolve: (reply: SmtpReply) => void; reject: (err: Error) => void } | null = null;
+  let failure: Error | null = null;
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let index: number;
+    while ((index = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+      lines.push(line.slice(4));
+      if (!/^\d{3}(?: |$)/.test(line)) continue;
+
+      const reply = { code: Number(line.slice(0, 3)), lines };
+      lines = [];
+      if (waiter) {
+        waiter.resolve(reply);
+        waiter = null;
+      } else {
+        replies.push(reply);
+      }
+    }
+  };
+  const onFailure = (err: Error) => {
+    failure ??= err;
+    waiter?.reject(failure);
+    waiter = null;
+  };
+  const onClose = () => onFailure(new Error('SMTP connection closed'));
+
+  socket.on('data', onData);
+  socket.on('error', onFailure);
+  socket.on('close', onClose);
+
+  return {
+    next(): Promise<SmtpReply> {
+      const reply = replies.shift();
+      if (reply) return Promise.resolve(reply);
+      if (failure) return Promise.reject(failure);
+      return new Promise((resolve, reject) => {
+        waiter = { resolve, reject };
+      });
+    },
+    // Gỡ listener trước khi nâng kết nối lên TLS
+    detach() {
+      socket.off('data', onData);
+      socket.off('error', onFailure);
+      socket.off('close', onClose);
+    }
+  };
+}
+
+function connect(config: SmtpConfig, plainSocket?: net.Socket): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const onConnect = () => {
+      socket.off('error', reject);
+      resolve(socket);
+    };
+    const socket: net.Socket = config.secure || plainSocket
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host, socket: plainSocket }, onConnect)
+      : net.connect({ host: config.host, port: config.port }, onConnect);
+    socket.once('error', reject);
+    socket.setTimeout(config.timeoutMs, () => socket.destroy(new Error('SMTP connection timed out')));
+  });
+}
+
+/**
+ * Gửi 1 email qua SMTP
+ * @throws Error nếu không kết nối được hoặc server từ chối bất kỳ lệnh nào
+ */
+export async function sendMail(config: SmtpConfig, message: MailMessage) {
+  let socket = await connect(config);
+  let reader = createReplyReader(socket);
+
+  const command = async (line: string | null, expected: number[]) => {
+    if (line !== null) socket.write(`${line}\r\n`);
+    const reply = await reader.next();
+    if (!expected.includes(reply.code)) {
+      const verb = line === null ? 'greeting' : line.split(' ')[0].slice(0, 10);
+      throw new Error(`SMTP ${verb} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  };
+
+  try {
+    const helo = `EHLO ${hostname() || 'localhost'}`;
+    await command(null, [220]);
+    const ehlo = await command(helo, [250]);
+
+    if (!config.secure && ehlo.lines.some((line) => /^STARTTLS\b/i.test(line))) {
+      await command('STARTTLS', [220]);
+      reader.detach();
+      socket = await connect(config, socket);
+      reader = createReplyReader(socket);
+      await command(helo, [250]);
+    }
+
+    if (config.user) {
+      const token = Buffer.from(`\0${config.user}\0${config.password ?? ''}`, 'utf8').toString('base64');
+      await command(`AUTH PLAIN ${token}`, [235]);
+    }
+
+    await command(`MAIL FROM:<${addressOf(message.from)}>`, [250]);
+    await command(`RCPT TO:<${addressOf(message.to)}>`, [250, 251]);
+    await command('DATA', [354]);
+    await command(`${buildMessage(message)}\r\n.`, [250]);
+    await command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    socket.destroy();
+  }
+}
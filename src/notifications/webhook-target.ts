@@ -0,0 +1,82 @@
+/**
+ * Webhook Target
+ * Chặn webhook trỏ vào mạng nội bộ (SSRF): loopback, link-local (metadata cloud 169.254.169.254), dải private...
+ * - Khi lưu URL: kiểm tra hostname (IP literal / localhost / tên miền nội bộ)
+ * - Khi gửi: kiểm tra IP đã phân giải ngay lúc kết nối (chặn DNS rebinding)
+ * Host trong NOTIFICATION_WEBHOOK_ALLOWED_HOSTS được bỏ qua kiểm tra (VD: webhook sink cục bộ khi test)
+ */
+import net from 'net';
+import dns from 'dns';
+import { env } from '../config/env';
+
+const blockedAddresses = new net.BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address as string, prefix as number, 'ipv6'));
+// IPv4-mapped IPv6 (::ffff:127.0.0.1) được BlockList đối chiếu với các dải ipv4 ở trên
+
+// Tên miền chỉ phân giải trong mạng nội bộ
+const INTERNAL_HOST_SUFFIXES = ['.localhost', '.local', '.internal', '.lan', '.home.arpa'];
+
+const normalizeHost = (hostname: string) => hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '').toLowerCase();
+
+const isAllowlisted = (host: string) => env.NOTIFICATION_WEBHOOK_ALLOWED_HOSTS.includes(host);
+
+/**
+ * IP không được phép làm đích webhook (loopback, link-local, private, multicast, reserved)
+ */
+export function isBlockedAddress(address: string) {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Kiểm tra hostname của URL webhook khi lưu (chưa phân giải DNS)
+ * @returns false nếu hostname trỏ thẳng vào địa chỉ / tên miền nội bộ
+ */
+export function isAllowedWebhookHost(hostname: string) {
+  const host = normalizeHost(hostname);
+  if (isAllowlisted(host)) return true;
+  if (net.isIP(host)) return !isBlockedAddress(host);
+  return host !== 'localhost' && !INTERNAL_HOST_SUFFIXES.some((suffix) => host.endsWith(suffix));
+}
+
+/**
+ * lookup cho http(s).request: phân giải DNS rồi từ chối nếu có IP bị chặn
+ * Kiểm tra ngay lúc kết nối => không bị lách bằng DNS rebinding giữa lúc kiểm tra và lúc gửi
+ */
+export const webhookLookup: net.LookupFunction = (hostname, options, callback) => {
+  const host = normalizeHost(hostname);
+  dns.lookup(host, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, '', 4);
+
+    const blocked = !isAllowlisted(host) && addresses.some((a) => isBlockedAddress(a.address));
+    if (blocked || addresses.length === 0) {
+      return callback(new Error(`Webhook host ${host} resolves to a blocked address`), '', 4);
+    }
+
+    if (options.all) {
+      (callback as unknown as (err: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
@@ -0,0 +1,68 @@
+/**
+ * Webhook Notification Channel
+ * POST JSON tới URL user cấu hình, header X-Signature: sha256=<HMAC-SHA256 hex của body theo secret của user>
+ * để bên nhận xác thực request. Response không phải 2xx => coi là gửi lỗi.
+ * Đích nội bộ bị chặn lúc kết nối (xem webhook-target.ts)
+ */
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { createHmac } from 'crypto';
+import type { NotificationChannel } from './channel';
+import { isAllowedWebhookHost, webhookLookup } from './webhook-target';
+
+/**
+ * POST body tới url, trả status code (không theo redirect: tránh bị chuyển hướng sang địa chỉ nội bộ)
+ */
+function post(url: URL, body: string, headers: Record<string, string>, timeoutMs: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === 'https:' ? https : http).request(url, {
+      method: 'POST',
+      headers: { ...headers, 'content-length': Buffer.byteLength(body) },
+      lookup: webhookLookup,
+      signal: AbortSignal.timeout(timeoutMs)
+    }, (res) => {
+      res.resume();
+      res.on('end', () => resolve(res.statusCode ?? 0));
+      res.on('error', reject);
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+export function createWebhookChannel(timeoutMs: number): NotificationChannel {
+  return {
+    name: 'webhook',
+    isAvailable: (recipient) => recipient.webhook !== null,
+
+    async deliver(notification, recipient) {
+      const { url, secret } = recipient.webhook!;
+      const target = new URL(url);
+      // IP literal không đi qua lookup => kiểm tra trực tiếp (allowlist có thể đã đổi từ lúc lưu URL)
+      if (net.isIP(target.hostname.replace(/^\[|\]$/g, '')) && !isAllowedWebhookHost(target.hostname)) {
+        throw new Error(`Webhook host ${target.hostname} is a blocked address`);
+      }
+
+      const body = JSON.stringify({
+        id: notification.id,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        data: notification.data,
+        createdAt: notification.createdAt.toISOString()
+      });
+      const signature = createHmac('sha256', secret).update(body).digest('hex');
+
+      const status = await post(target, body, {
+        'content-type': 'application/json',
+        'x-notification-id': notification.id,
+        'x-signature': `sha256=${signature}`
+      }, timeoutMs);
+
+      if (status < 200 || status >= 300) {
+        throw new Error(`Webhook responded with status ${status}`);
+      }
+    }
+  };
+}
@@ -5,20 +5,62 @@
 import { Router } from 'express';
 import { validateBody } from './middlewares/validate.middleware';
 import { requireAuth, requireRole } from './middlewares/auth.middleware';
+import { uploadFile } from './middlewares/upload.middleware';
+import { env } from './config/env';
 
 import { AuthController } from './modules/auth/auth.controller';
 import { registerSchema, loginSchema, refreshSchema } from './modules/auth/auth.schema';
 import { UsersController } from './modules/users/users.controller';
+import { updateMeSchema } from './modules/users/users.schema';
 import { TransactionController } from './modules/transaction/transaction.controller';
 import { createTransactionSchema, updateTransactionSchema } from './modules/transaction/transaction.schema';
 import { WalletController } from './modules/wallet/wallet.controller';
 import { createWalletSchema, updateWalletSchema, getWalletsQuerySchema } from './modules/wallet/wallet.schema';
+import { CreditStatementController } from './modules/credit-statement/credit-statement.controller';
+import { payCreditStatementSchema } from './modules/credit-statement/credit-statement.schema';
+import { BalanceReconciliationController } from './modules/balance-reconciliation/balance-reconciliation.controller';
+import { repairBalancesSchema, adminRepairBalancesSchema } from './modules/balance-reconciliation/balance-reconciliation.schema';
 import { CategoryController } from './modules/category/category.controller';
 import { createCategorySchema, updateCategorySchema, getCategoriesQuerySchema, createFromTemplateSchema } from './modules/category/category.schema';
 import { LoanController } from './modules/loan/loan.controller';
-import { createLoanSchema, updateLoanSchema, createLoanPaymentSchema, getLoansQuerySchema, getLoanPaymentsQuerySchema } from './modules/loan/loan.schema';
+import {
+  createLoanSchema,
+  updateLoanSchema,
+  createLoanPaymentSchema,
+  updateLoanPaymentSchema,
+  increaseLoanPrincipalSchema,
+  forgiveLoanSchema,
+  writeOffLoanSchema,
+  getLoansQuerySchema,
+  getLoanPaymentsQuerySchema
+} from './modules/loan/loan.schema';
 import { TransactionTemplateController } from './modules/transaction-template/transaction-template.controller';
 import { createTemplateSchema, createTemplateFromTransactionSchema, updateTemplateSchema } from './modules/transaction-template/transaction-template.schema';
+import { RecurringScheduleController } from './modules/recurring-schedule/recurring-schedule.controller';
+import { createRecurringScheduleSchema, updateRecurringScheduleSchema, skipOccurrenceSchema } from './modules/recurring-schedule/recurring-schedule.schema';
+import { ExchangeRateController } from './modules/exchange-rate/exchange-rate.controller';
+import { createExchangeRateSchema, importExchangeRatesSchema } from './modules/exchange-rate/exchange-rate.schema';
+import { BudgetController } from './modules/budget/budget.controller';
+import { createBudgetSchema, updateBudgetSchema } from './modules/budget/budget.schema';
+import { StatementImportController } from './modules/statement-import/statement-import.controller';
+import { createImportProfileSchema, updateImportProfileSchema, previewImportSchema, commitImportSchema } from './modules/statement-import/statement-import.schema';
+import { ReconciliationController } from './modules/reconciliation/reconciliation.controller';
+import { createReconciliationSchema, updateReconciliationSchema, clearTransactionsSchema } from './modules/reconciliation/reconciliation.schema';
+import { TagController } from './modules/tag/tag.controller';
+import { createTagSchema, updateTagSchema, bulkTagSchema } from './modules/tag/tag.schema';
+import { ContactController } from './modules/contact/contact.controller';
+import { createContactSchema, updateContactSchema, mergeContactsSchema } from './modules/contact/contact.schema';
+import { AttachmentController } from './modules/attachment/attachment.controller';
+import { ATTACHMENT_FIELD_NAME } from './modules/attachment/attachment.schema';
+import { SearchController } from './modules/search/search.controller';
+import { TrashController } from './modules/trash/trash.controller';
+import { AuditController } from './modules/audit/audit.controller';
+import { NotificationController } from './modules/notification/notification.controller';
+import { updateNotificationPreferencesSchema, upsertNotificationWebhookSchema } from './modules/notification/notification.schema';
+import { ReportController } from './modules/report/report.controller';
+import { ExportController } from './modules/export/export.controller';
+import { RestoreController } from './modules/restore/restore.controller';
+import { restoreDocumentSchema } from './modules/restore/restore.schema';
 import { GoalController } from './modules/goal/goal.controller';
 import { createGoalSchema, updateGoalSchema, createMilestoneSchema, updateMilestoneSchema } from './modules/goal/goal.schema';
 
@@ -38,6 +80,8 @@ routes.post('/auth/logout', validateBody(refreshSchema), AuthController.logout);
 // ========== User Routes ==========
 // Lấy thông tin user hiện tại - yêu cầu authentication
 routes.get('/users/me', requireAuth, UsersController.me);
+// Cập nhật tên / tiền tệ gốc của user hiện tại
+routes.put('/users/me', requireAuth, validateBody(updateMeSchema), UsersController.updateMe);
 // Lấy danh sách users - yêu cầu authentication và role ADMIN
 routes.get('/users', requireAuth, requireRole(['ADMIN']), UsersController.list);
 
@@ -55,6 +99,25 @@ routes.get('/wallets/:id', requireAuth, WalletController.getWallet);
 routes.put('/wallets/:id', requireAuth, validateBody(updateWalletSchema), WalletController.updateWallet);
 routes.delete('/wallets/:id', requireAuth, WalletController.deleteWallet);
 
+// ========== Credit Statement Routes ==========
+routes.get('/wallets/:id/statements', requireAuth, CreditStatementController.getStatements);
+routes.post('/wallets/:id/statements/pay', requireAuth, validateBody(payCreditStatementSchema), CreditStatementController.payStatement);
+
+// ========== Balance Reconciliation Routes ==========
+routes.get('/balance-reconciliation', requireAuth, BalanceReconciliationController.getBalanceCheck);
+routes.post('/balance-reconciliation/repair', requireAuth, validateBody(repairBalancesSchema), BalanceReconciliationController.repairBalances);
+routes.get('/balance-reconciliation/adjustments', requireAuth, BalanceReconciliationController.getAdjustments);
+// Admin: đối soát / sửa lệch toàn hệ thống
+routes.get('/admin/balance-reconciliation', requireAuth, requireRole(['ADMIN']), BalanceReconciliationController.adminGetBalanceCheck);
+routes.post('/admin/balance-reconciliation/repair', requireAuth, requireRole(['ADMIN']), validateBody(adminRepairBalancesSchema), BalanceReconciliationController.adminRepairBalances);
+
+// ========== Exchange Rate Routes ==========
+routes.post('/exchange-rates', requireAuth, validateBody(createExchangeRateSchema), ExchangeRateController.upsertRate);
+routes.post('/exchange-rates/import', requireAuth, validateBody(importExchangeRatesSchema), ExchangeRateController.importRates);
+routes.get('/exchange-rates', requireAuth, ExchangeRateController.getRates);
+routes.get('/exchange-rates/lookup', requireAuth, ExchangeRateController.lookupRate);
+routes.delete('/exchange-rates/:id', requireAuth, ExchangeRateController.deleteRate);
+
 // ========== Category Routes ==========
 routes.post('/categories', requireAuth, validateBody(createCategorySchema), CategoryController.createCategory);
 routes.post('/categories/from-template', requireAuth, validateBody(createFromTemplateSchema), CategoryController.createFromTemplate);
@@ -68,6 +131,12 @@ routes.delete('/categories/:id', requireAuth, CategoryController.deleteCategory)
 routes.post('/loans', requireAuth, validateBody(createLoanSchema), LoanController.createLoan);
 routes.get('/loans', requireAuth, LoanController.getLoans);
 routes.get('/loans/stats/summary', requireAuth, LoanController.getLoanStats);
+routes.get('/loans/installments/overdue', requireAuth, LoanController.getOverdueInstallments);
+routes.get('/loans/:id/schedule', requireAuth, LoanController.getLoanSchedule);
+routes.get('/loans/:id/history', requireAuth, LoanController.getLoanHistory);
+routes.post('/loans/:id/top-ups', requireAuth, validateBody(increaseLoanPrincipalSchema), LoanController.increaseLoanPrincipal);
+routes.post('/loans/:id/forgiveness', requireAuth, validateBody(forgiveLoanSchema), LoanController.forgiveLoanAmount);
+routes.post('/loans/:id/write-off', requireAuth, validateBody(writeOffLoanSchema), LoanController.writeOffLoan);
 routes.get('/loans/:id', requireAuth, LoanController.getLoan);
 routes.put('/loans/:id', requireAuth, validateBody(updateLoanSchema), LoanController.updateLoan);
 routes.delete('/loans/:id', requireAuth, LoanController.deleteLoan);
@@ -75,6 +144,8 @@ routes.delete('/loans/:id', requireAuth, LoanController.deleteLoan);
 // ========== Loan Payment Routes ==========
 routes.post('/loan-payments', requireAuth, validateBody(createLoanPaymentSchema), LoanController.createLoanPayment);
 routes.get('/loan-payments', requireAuth, LoanController.getLoanPayments);
+routes.put('/loan-payments/:id', requireAuth, validateBody(updateLoanPaymentSchema), LoanController.updateLoanPayment);
+routes.delete('/loan-payments/:id', requireAuth, LoanController.voidLoanPayment);
 
 // ========== Transaction Template Routes ==========
 routes.post('/transaction-templates', requireAuth, validateBody(createTemplateSchema), TransactionTemplateController.createTemplate);
@@ -84,6 +155,110 @@ routes.get('/transaction-templates/:id', requireAuth, TransactionTemplateControl
 routes.put('/transaction-templates/:id', requireAuth, validateBody(updateTemplateSchema), TransactionTemplateController.updateTemplate);
 routes.delete('/transaction-templates/:id', requireAuth, TransactionTemplateController.deleteTemplate);
 
+// ========== Recurring Schedule Routes ==========
+routes.post('/recurring-schedules', requireAuth, validateBody(createRecurringScheduleSchema), RecurringScheduleController.createSchedule);
+routes.get('/recurring-schedules', requireAuth, RecurringScheduleController.getSchedules);
+routes.get('/recurring-schedules/upcoming', requireAuth, RecurringScheduleController.getUpcomingOccurrences);
+routes.get('/recurring-schedules/:id', requireAuth, RecurringScheduleController.getSchedule);
+routes.put('/recurring-schedules/:id', requireAuth, validateBody(updateRecurringScheduleSchema), RecurringScheduleController.updateSchedule);
+routes.delete('/recurring-schedules/:id', requireAuth, RecurringScheduleController.deleteSchedule);
+routes.post('/recurring-schedules/:id/pause', requireAuth, RecurringScheduleController.pauseSchedule);
+routes.post('/recurring-schedules/:id/resume', requireAuth, RecurringScheduleController.resumeSchedule);
+routes.post('/recurring-schedules/:id/skip', requireAuth, validateBody(skipOccurrenceSchema), RecurringScheduleController.skipOccurrence);
+
+// ========== Budget Routes ==========
+routes.post('/budgets', requireAuth, validateBody(createBudgetSchema), BudgetController.createBudget);
+routes.get('/budgets', requireAuth, BudgetController.getBudgets);
+routes.get('/budgets/progress', requireAuth, BudgetController.getBudgetsProgress);
+routes.get('/budgets/:id', requireAuth, BudgetController.getBudget);
+routes.put('/budgets/:id', requireAuth, validateBody(updateBudgetSchema), BudgetController.updateBudget);
+routes.delete('/budgets/:id', requireAuth, BudgetController.deleteBudget);
+routes.get('/budgets/:id/progress', requireAuth, BudgetController.getBudgetProgress);
+
+// ========== Statement Import Routes ==========
+routes.post('/imports/profiles', requireAuth, validateBody(createImportProfileSchema), StatementImportController.createProfile);
+routes.get('/imports/profiles', requireAuth, StatementImportController.getProfiles);
+routes.put('/imports/profiles/:id', requireAuth, validateBody(updateImportProfileSchema), StatementImportController.updateProfile);
+routes.delete('/imports/profiles/:id', requireAuth, StatementImportController.deleteProfile);
+routes.post('/imports/preview', requireAuth, validateBody(previewImportSchema), StatementImportController.previewImport);
+routes.get('/imports', requireAuth, StatementImportController.getBatches);
+routes.get('/imports/:id', requireAuth, StatementImportController.getBatch);
+routes.post('/imports/:id/commit', requireAuth, validateBody(commitImportSchema), StatementImportController.commitImport);
+routes.delete('/imports/:id', requireAuth, StatementImportController.discardImport);
+
+// ========== Reconciliation Routes ==========
+routes.post('/reconciliations', requireAuth, validateBody(createReconciliationSchema), ReconciliationController.createSession);
+routes.get('/reconciliations', requireAuth, ReconciliationController.getSessions);
+routes.get('/reconciliations/:id', requireAuth, ReconciliationController.getSession);
+routes.put('/reconciliations/:id', requireAuth, validateBody(updateReconciliationSchema), ReconciliationController.updateSession);
+routes.post('/reconciliations/:id/clear', requireAuth, validateBody(clearTransactionsSchema), ReconciliationController.setCleared);
+routes.post('/reconciliations/:id/lock', requireAuth, ReconciliationController.lockSession);
+routes.post('/reconciliations/:id/unlock', requireAuth, ReconciliationController.unlockSession);
+routes.delete('/reconciliations/:id', requireAuth, ReconciliationController.deleteSession);
+
+// ========== Tag Routes ==========
+routes.post('/tags', requireAuth, validateBody(createTagSchema), TagController.createTag);
+routes.get('/tags', requireAuth, TagController.getTags);
+routes.post('/tags/bulk', requireAuth, validateBody(bulkTagSchema), TagController.bulkUpdateTransactionTags);
+routes.get('/tags/:id', requireAuth, TagController.getTag);
+routes.put('/tags/:id', requireAuth, validateBody(updateTagSchema), TagController.updateTag);
+routes.delete('/tags/:id', requireAuth, TagController.deleteTag);
+
+// ========== Contact Routes ==========
+routes.post('/contacts', requireAuth, validateBody(createContactSchema), ContactController.createContact);
+routes.get('/contacts', requireAuth, ContactController.getContacts);
+routes.get('/contacts/:id', requireAuth, ContactController.getContact);
+routes.get('/contacts/:id/ledger', requireAuth, ContactController.getContactLedger);
+routes.post('/contacts/:id/merge', requireAuth, validateBody(mergeContactsSchema), ContactController.mergeContacts);
+routes.put('/contacts/:id', requireAuth, validateBody(updateContactSchema), ContactController.updateContact);
+routes.delete('/contacts/:id', requireAuth, ContactController.deleteContact);
+
+// ========== Attachment Routes ==========
+const uploadAttachment = uploadFile(ATTACHMENT_FIELD_NAME, env.ATTACHMENT_MAX_FILE_BYTES);
+routes.post('/transactions/:id/attachments', requireAuth, uploadAttachment, AttachmentController.uploadTransactionAttachment);
+routes.get('/transactions/:id/attachments', requireAuth, AttachmentController.getTransactionAttachments);
+routes.post('/loans/:id/attachments', requireAuth, uploadAttachment, AttachmentController.uploadLoanAttachment);
+routes.get('/loans/:id/attachments', requireAuth, AttachmentController.getLoanAttachments);
+routes.get('/attachments/usage', requireAuth, AttachmentController.getUsage);
+routes.get('/attachments/:id/download', requireAuth, AttachmentController.downloadAttachment);
+routes.delete('/attachments/:id', requireAuth, AttachmentController.deleteAttachment);
+
+// ========== Search Routes ==========
+routes.get('/search', requireAuth, SearchController.search);
+
+// ========== Trash Routes ==========
+routes.get('/trash/transactions', requireAuth, TrashController.getDeletedTransactions);
+routes.get('/trash/loans', requireAuth, TrashController.getDeletedLoans);
+routes.post('/trash/transactions/:id/restore', requireAuth, TrashController.restoreTransaction);
+routes.post('/trash/loans/:id/restore', requireAuth, TrashController.restoreLoan);
+routes.delete('/trash/transactions/:id', requireAuth, TrashController.purgeTransaction);
+routes.delete('/trash/loans/:id', requireAuth, TrashController.purgeLoan);
+routes.delete('/trash', requireAuth, TrashController.emptyTrash);
+
+// ========== Audit Log Routes ==========
+routes.get('/audit-logs', requireAuth, AuditController.getMyAuditLogs);
+routes.get('/admin/audit-logs', requireAuth, requireRole(['ADMIN']), AuditController.getAuditLogs);
+
+// ========== Notification Routes ==========
+routes.get('/notifications', requireAuth, NotificationController.getNotifications);
+routes.get('/notifications/unread-count', requireAuth, NotificationController.getUnreadCount);
+routes.post('/notifications/read-all', requireAuth, NotificationController.markAllAsRead);
+routes.get('/notifications/preferences', requireAuth, NotificationController.getPreferences);
+routes.put('/notifications/preferences', requireAuth, validateBody(updateNotificationPreferencesSchema), NotificationController.updatePreferences);
+routes.get('/notifications/webhook', requireAuth, NotificationController.getWebhook);
+routes.put('/notifications/webhook', requireAuth, validateBody(upsertNotificationWebhookSchema), NotificationController.upsertWebhook);
+routes.delete('/notifications/webhook', requireAuth, NotificationController.deleteWebhook);
+routes.post('/notifications/:id/read', requireAuth, NotificationController.markAsRead);
+
+// ========== Report Routes ==========
+routes.get('/reports/cashflow', requireAuth, ReportController.getCashflow);
+routes.get('/reports/net-worth', requireAuth, ReportController.getNetWorth);
+routes.get('/reports/tags', requireAuth, ReportController.getTagBreakdown);
+
+// ========== Export Routes ==========
+routes.get('/export', requireAuth, ExportController.exportData);
+routes.post('/restore', requireAuth, validateBody(restoreDocumentSchema), RestoreController.restore);
+
 // ========== Goal Routes ==========
 routes.post('/goals', requireAuth, validateBody(createGoalSchema), GoalController.createGoal);
 routes.get('/goals', requireAuth, GoalController.getGoals);
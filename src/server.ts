@@ -5,6 +5,12 @@
 import { createApp } from './app';
 import { env } from './config/env';
 import { logger } from './config/logger';
+import { startRecurringScheduleJob } from './jobs/recurring-schedule.job';
+import { startBalanceReconciliationJob } from './jobs/balance-reconciliation.job';
+import { startAttachmentCleanupJob } from './jobs/attachment-cleanup.job';
+import { startTrashRetentionJob } from './jobs/trash-retention.job';
+import { startLoanReminderJob } from './jobs/loan-reminder.job';
+import { startNotificationAlertJob } from './jobs/notification-alert.job';
 
 // Tạo Express app instance
 const app = createApp();
@@ -13,4 +19,12 @@ const app = createApp();
 app.listen(env.PORT, () => {
   logger.info(`Server: http://localhost:${env.PORT}`);
   logger.info(`Health: http://localhost:${env.PORT}/health`);
+
+  // Khởi động các job nền
+  startRecurringScheduleJob();
+  startBalanceReconciliationJob();
+  startAttachmentCleanupJob();
+  startTrashRetentionJob();
+  startLoanReminderJob();
+  startNotificationAlertJob();
 });
@@ -0,0 +1,43 @@
+/**
+ * Local File Storage
+ * Lưu file trong 1 thư mục trên server, key là đường dẫn tương đối trong thư mục đó
+ */
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import type { FileStorage } from './storage';
+
+export function createLocalStorage(rootDir: string): FileStorage {
+  const root = resolve(rootDir);
+
+  // Chặn key thoát ra ngoài thư mục gốc (../)
+  const pathOf = (key: string) => {
+    const path = resolve(root, key);
+    if (!path.startsWith(root + sep)) {
+      throw new Error('STORAGE_KEY_INVALID');
+    }
+    return path;
+  };
+
+  return {
+    driver: 'local',
+
+    async put(key, data) {
+      const path = pathOf(key);
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, data);
+    },
+
+    async get(key) {
+      try {
+        return await readFile(pathOf(key));
+      } catch (err: any) {
+        if (err?.code === 'ENOENT') throw new Error('STORAGE_OBJECT_NOT_FOUND');
+        throw err;
+      }
+    },
+
+    async delete(key) {
+      await rm(pathOf(key), { force: true });
+    }
+  };
+}
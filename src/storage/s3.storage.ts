@@ -0,0 +1,102 @@
+/**
+ * S3 File Storage
+ * Client tối giản cho API tương thích S3 (AWS S3, MinIO...) dùng fetch + chữ ký AWS Signature V4,
+ * không phụ thuộc AWS SDK. Chỉ dùng PutObject / GetObject / DeleteObject.
+ */
+import { createHash, createHmac } from 'crypto';
+import type { FileStorage } from './storage';
+
+export interface S3StorageConfig {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // true: endpoint/bucket/key; false: bucket.endpoint/key
+  forcePathStyle: boolean;
+}
+
+const sha256Hex = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) => createHmac('sha256', key).update(data).digest();
+
+// Encode từng đoạn của key theo quy tắc URI của SigV4 (giữ nguyên dấu /)
+const encodeKey = (key: string) => key.split('/').map((part) =>
+  encodeURIComponent(part).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+).join('/');
+
+export function createS3Storage(config: S3StorageConfig): FileStorage {
+  const endpoint = new URL(config.endpoint);
+
+  const objectUrl = (key: string) => config.forcePathStyle
+    ? new URL(`${endpoint.origin}/${encodeURIComponent(config.bucket)}/${encodeKey(key)}`)
+    : new URL(`${endpoint.protocol}//${config.bucket}.${endpoint.host}/${encodeKey(key)}`);
+
+  /**
+   * Gửi request đã ký SigV4 (payload được hash đầy đủ, không dùng UNSIGNED-PAYLOAD)
+   */
+  async function send(method: 'PUT' | 'GET' | 'DELETE', key: string, body?: Buffer, contentType?: string) {
+    const url = objectUrl(key);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body ?? '');
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate
+    };
+    if (contentType) headers['content-type'] = contentType;
+
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      signedHeaders.map((name) => `${name}:${headers[name]}\n`).join(''),
+      signedHeaders.join(';'),
+      payloadHash
+    ].join('\n');
+
+    const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region), 's3'), 'aws4_request');
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    // Header host do fetch tự gắn (đã có trong chữ ký)
+    const { host: _host, ...requestHeaders } = headers;
+    return await fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`
+      },
+      body: body ? new Uint8Array(body) : undefined
+    });
+  }
+
+  const fail = async (action: string, res: Response) => {
+    const detail = (await res.text().catch(() => '')).slice(0, 500);
+    throw new Error(`S3 ${action} failed with status ${res.status}: ${detail}`);
+  };
+
+  return {
+    driver: 's3',
+
+    async put(key, data, contentType) {
+      const res = await send('PUT', key, data, contentType);
+      if (!res.ok) await fail('PutObject', res);
+    },
+
+    async get(key) {
+      const res = await send('GET', key);
+      if (res.status === 404) throw new Error('STORAGE_OBJECT_NOT_FOUND');
+      if (!res.ok) await fail('GetObject', res);
+      return Buffer.from(await res.arrayBuffer());
+    },
+
+    async delete(key) {
+      const res = await send('DELETE', key);
+      if (!res.ok && res.status !== 404) await fail('DeleteObject', res);
+    }
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * File Storage
+ * Interface chung cho nơi lưu nội dung file đính kèm + chọn backend theo cấu hình (STORAGE_DRIVER)
+ * - local: thư mục trên server (mặc định)
+ * - s3: dịch vụ tương thích S3 (AWS S3, MinIO...)
+ * Backend khác chỉ cần implement FileStorage và đăng ký qua setStorage()
+ */
+import { env } from '../config/env';
+import { createLocalStorage } from './local.storage';
+import { createS3Storage } from './s3.storage';
+
+export interface FileStorage {
+  // Tên backend (dùng cho logging)
+  readonly driver: string;
+  // Ghi file (ghi đè nếu key đã tồn tại)
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Đọc file, throw Error('STORAGE_OBJECT_NOT_FOUND') nếu không tồn tại
+  get(key: string): Promise<Buffer>;
+  // Xoá file, không lỗi nếu file không tồn tại
+  delete(key: string): Promise<void>;
+}
+
+let storage: FileStorage | null = null;
+
+/**
+ * Storage backend đang dùng (khởi tạo lần đầu theo env)
+ */
+export function getStorage(): FileStorage {
+  if (!storage) {
+    storage = env.STORAGE_DRIVER === 's3'
+      ? createS3Storage({
+        endpoint: env.S3_ENDPOINT ?? `https://s3.${env.S3_REGION}.amazonaws.com`,
+        region: env.S3_REGION,
+        bucket: env.S3_BUCKET!,
+        accessKeyId: env.S3_ACCESS_KEY_ID!,
+        secretAccessKey: env.S3_SECRET_ACCESS_KEY!,
+        forcePathStyle: env.S3_FORCE_PATH_STYLE
+      })
+      : createLocalStorage(env.STORAGE_LOCAL_DIR);
+  }
+  return storage;
+}
+
+/**
+ * Thay storage backend (backend tuỳ chỉnh)
+ */
+export function setStorage(custom: FileStorage) {
+  storage = custom;
+}
@@ -1,9 +1,11 @@
 import type { JwtPayload } from '../utils/jwt';
+import type { UploadedFile } from '../middlewares/upload.middleware';
 
 declare global {
   namespace Express {
     interface Request {
       user?: JwtPayload;
+      file?: UploadedFile;
     }
   }
 }
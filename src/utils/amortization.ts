@@ -0,0 +1,179 @@
+/**
+ * Amortization helpers
+ * Tính lịch trả góp (gốc + lãi từng kỳ), lãi phát sinh và phân bổ tiền trả vào lịch của khoản vay
+ *
+ * Quy ước:
+ * - interestRate là lãi suất năm (%)
+ * - flat: lãi mỗi kỳ = gốc ban đầu * lãi suất năm / số kỳ trong năm, gốc chia đều
+ * - reducing_balance: lãi suất kỳ trả góp quy đổi từ kỳ ghép lãi ((1 + r/m)^(m/p) - 1), số tiền mỗi kỳ bằng nhau
+ * - Làm tròn 2 số thập phân từng kỳ, kỳ cuối trả nốt phần gốc còn lại
+ * - Ngày đến hạn tính như lịch định kỳ (tháng ngắn hơn => ngày cuối tháng)
+ */
+import { roundMoney } from './currency';
+import { getOccurrenceDate } from './recurrence';
+
+export type LoanInterestType = 'none' | 'flat' | 'reducing_balance';
+export type LoanPeriod = 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+const PERIODS_PER_YEAR: Record<LoanPeriod, number> = {
+  weekly: 52,
+  monthly: 12,
+  quarterly: 4,
+  yearly: 1
+};
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+export interface InterestTerms {
+  interestType: LoanInterestType;
+  interestRate: number;
+  compoundingPeriod: LoanPeriod;
+}
+
+export interface InstallmentTerms extends InterestTerms {
+  principal: number;
+  installmentCount: number;
+  installmentPeriod: LoanPeriod;
+  firstInstallmentDate: Date;
+}
+
+export interface ScheduledInstallment {
+  // Kỳ thứ mấy (bắt đầu từ 1)
+  number: number;
+  dueDate: Date;
+  principal: number;
+  interest: number;
+  amount: number;
+  // Dư nợ gốc sau kỳ này
+  balance: number;
+}
+
+export interface PaymentAllocation {
+  principal: number;
+  interest: number;
+}
+
+/**
+ * Ngày đến hạn kỳ thứ `index` (0-based) tính từ kỳ đầu tiên
+ */
+export function getInstallmentDate(firstInstallmentDate: Date, period: LoanPeriod, index: number): Date {
+  return getOccurrenceDate({
+    frequency: period === 'quarterly' ? 'monthly' : period,
+    interval: period === 'quarterly' ? 3 : 1,
+    startDate: firstInstallmentDate
+  }, index);
+}
+
+/**
+ * Lãi suất của 1 kỳ trả góp, quy đổi từ lãi suất năm ghép lãi theo compoundingPeriod
+ */
+export function getPeriodicRate(interestRate: number, compoundingPeriod: LoanPeriod, installmentPeriod: LoanPeriod): number {
+  const m = PERIODS_PER_YEAR[compoundingPeriod];
+  const p = PERIODS_PER_YEAR[installmentPeriod];
+  return Math.pow(1 + interestRate / 100 / m, m / p) - 1;
+}
+
+/**
+ * Lịch trả góp đầy đủ theo điều khoản khoản vay
+ */
+export function buildAmortizationSchedule(terms: InstallmentTerms): ScheduledInstallment[] {
+  const { principal, interestType, interestRate, installmentCount: count, installmentPeriod } = terms;
+  const periodicRate = interestType === 'reducing_balance'
+    ? getPeriodicRate(interestRate, terms.compoundingPeriod, installmentPeriod)
+    : 0;
+
+  // Số tiền mỗi kỳ (reducing_balance) / phần gốc và lãi cố định mỗi kỳ (flat, none)
+  const annuity = periodicRate > 0
+    ? (principal * periodicRate) / (1 - Math.pow(1 + periodicRate, -count))
+    : principal / count;
+  const flatInterest = interestType === 'flat'
+    ? roundMoney((principal * interestRate) / 100 / PERIODS_PER_YEAR[installmentPeriod])
+    : 0;
+
+  const schedule: ScheduledInstallment[] = [];
+  let balance = principal;
+
+  for (let index = 0; index < count; index++) {
+    const interest = interestType === 'flat' ? flatInterest : roundMoney(balance * periodicRate);
+    const isLast = index === count - 1;
+    const principalPart = isLast
+      ? balance
+      : Math.min(balance, roundMoney(interestType === 'reducing_balance' ? annuity - interest : principal / count));
+
+    balance = roundMoney(balance - principalPart);
+    schedule.push({
+      number: index + 1,
+      dueDate: getInstallmentDate(terms.firstInstallmentDate, installmentPeriod, index),
+      principal: principalPart,
+      interest,
+      amount: roundMoney(principalPart + interest),
+      balance
+    });
+  }
+
+  return schedule;
+}
+
+/**
+ * Lãi phát sinh trong khoảng [from, to) khi khoản vay không có lịch trả góp
+ * - flat: lãi đơn trên gốc ban đầu
+ * - reducing_balance: ghép lãi theo kỳ trên dư nợ gốc hiện tại
+ */
+export function accrueInterest(
+  terms: InterestTerms & { principal: number; balance: number },
+  from: Date,
+  to: Date
+): number {
+  const years = Math.max(0, to.getTime() - from.getTime()) / YEAR_MS;
+  const rate = terms.interestRate / 100;
+
+  switch (terms.interestType) {
+    case 'flat':
+      return roundMoney(terms.principal * rate * years);
+    case 'reducing_balance': {
+      const m = PERIODS_PER_YEAR[terms.compoundingPeriod];
+      return roundMoney(terms.balance * (Math.pow(1 + rate / m, m * years) - 1));
+    }
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Phân bổ `amount` vào lịch trả góp theo thứ tự kỳ, mỗi kỳ trả lãi trước rồi tới gốc
+ * paidPrincipal / paidInterest: tổng đã trả trước đó (cộng dồn từ kỳ 1)
+ * Phần dư sau kỳ cuối tính là trả trước gốc (lãi các kỳ sau giữ nguyên theo lịch)
+ */
+export function allocateToSchedule(
+  schedule: ScheduledInstallment[],
+  paidPrincipal: number,
+  paidInterest: number,
+  amount: number
+): PaymentAllocation {
+  let remaining = amount;
+  let principal = 0;
+  let interest = 0;
+  let scheduledPrincipal = 0;
+  let scheduledInterest = 0;
+
+  for (const installment of schedule) {
+    if (remaining <= 0) break;
+    scheduledPrincipal += installment.principal;
+    scheduledInterest += installment.interest;
+
+    const interestDue = Math.max(0, roundMoney(scheduledInterest - paidInterest - interest));
+    const interestPart = Math.min(remaining, interestDue);
+    interest += interestPart;
+    remaining = roundMoney(remaining - interestPart);
+
+    const principalDue = Math.max(0, roundMoney(scheduledPrincipal - paidPrincipal - principal));
+    const principalPart = Math.min(remaining, principalDue);
+    principal += principalPart;
+    remaining = roundMoney(remaining - principalPart);
+  }
+
+  return {
+    principal: roundMoney(principal + remaining),
+    interest: roundMoney(interest)
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * CSV helpers
+ * Parser/writer CSV tối giản theo RFC 4180 (không phụ thuộc thư viện ngoài)
+ *
+ * Hỗ trợ:
+ * - Field trong dấu nháy kép, "" là dấu nháy escape, xuống dòng bên trong nháy
+ * - Dòng kết thúc bằng \n hoặc \r\n, bỏ BOM đầu file
+ * - Delimiter tuỳ chọn (mặc định dấu phẩy; file Excel tiếng Việt hay dùng ;)
+ */
+
+export interface ParsedCsvRow {
+  // Số dòng (bắt đầu từ 1) trong file gốc, dùng để báo lỗi
+  line: number;
+  values: string[];
+}
+
+/**
+ * Parse nội dung CSV thành danh sách dòng (bỏ qua dòng trống)
+ */
+export function parseCsv(content: string, delimiter = ','): ParsedCsvRow[] {
+  const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+
+  const rows: ParsedCsvRow[] = [];
+  let values: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const pushRow = () => {
+    values.push(field);
+    // Dòng chỉ có 1 field rỗng => dòng trống
+    if (!(values.length === 1 && values[0].trim() === '')) {
+      rows.push({ line: rowLine, values });
+    }
+    values = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      values.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      pushRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || values.length > 0) {
+    pushRow();
+  }
+
+  return rows;
+}
+
+
+/**
+ * Escape 1 giá trị CSV: null/undefined => rỗng, Date => ISO string
+ * Giá trị chứa delimiter, nháy kép hoặc xuống dòng được bọc trong nháy kép
+ */
+function formatCsvValue(value: unknown, delimiter: string): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return text.includes(delimiter) || /["\r\n]/.test(text)
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+}
+
+/**
+ * Tạo nội dung CSV từ header + các dòng (có BOM để Excel đọc đúng tiếng Việt)
+ */
+export function toCsv(header: string[], rows: unknown[][], delimiter = ','): string {
+  return '\uFEFF' + toCsvLines([header, ...rows], delimiter);
+}
+
+/**
+ * Các dòng CSV (không BOM), dùng khi ghi CSV dần theo lô
+ */
+export function toCsvLines(rows: unknown[][], delimiter = ','): string {
+  return rows.map((values) => values.map((value) => formatCsvValue(value, delimiter)).join(delimiter) + '\r\n').join('');
+}
@@ -0,0 +1,37 @@
+/**
+ * Currency helpers
+ * Mã tiền tệ theo ISO 4217 (3 chữ cái in hoa, VD: VND, USD, EUR)
+ */
+import { z } from 'zod';
+
+// Tiền tệ mặc định cho user/ví mới
+export const DEFAULT_CURRENCY = 'VND';
+
+// Schema dùng chung cho các field mã tiền tệ (chấp nhận chữ thường, lưu in hoa)
+export const currencyCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^[a-zA-Z]{3}$/, 'Mã tiền tệ phải gồm 3 chữ cái (ISO 4217)')
+  .transform((val) => val.toUpperCase());
+
+/**
+ * Chuẩn hoá mã tiền tệ (trim + in hoa), trả về null nếu không hợp lệ
+ */
+export function normalizeCurrency(value: string): string | null {
+  const code = value.trim().toUpperCase();
+  return /^[A-Z]{3}$/.test(code) ? code : null;
+}
+
+/**
+ * Làm tròn tiền về 2 số thập phân (khớp Decimal(18, 2))
+ */
+export function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Làm tròn tỷ giá về 8 số thập phân (khớp Decimal(20, 8))
+ */
+export function roundRate(value: number): number {
+  return Math.round(value * 1e8) / 1e8;
+}
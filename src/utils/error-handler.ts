@@ -32,6 +32,22 @@ export const ErrorMap: Record<string, ErrorResponse> = {
   WALLET_NAME_EXISTS: { status: 409, message: 'Wallet name already exists' },
   WALLET_NOT_FOUND: { status: 404, message: 'Wallet not found' },
   WALLET_HAS_TRANSACTIONS: { status: 409, message: 'Cannot archive wallet with existing transactions' },
+  WALLET_CURRENCY_LOCKED: { status: 409, message: 'Cannot change currency of a wallet with existing transactions' },
+  WALLET_CREDIT_LIMIT_NOT_ALLOWED: { status: 400, message: 'Only credit and bank wallets can have a credit limit' },
+  WALLET_BALANCE_EXCEEDS_CREDIT_LIMIT: { status: 400, message: 'Wallet balance cannot go below the credit limit' },
+  WALLET_STATEMENT_CYCLE_INCOMPLETE: { status: 400, message: 'statementClosingDay and paymentDueDay must be set together' },
+  WALLET_STATEMENT_CYCLE_NOT_ALLOWED: { status: 400, message: 'Only credit wallets can have a statement cycle' },
+
+  // Credit Statement Errors
+  CREDIT_STATEMENT_NOT_CONFIGURED: { status: 400, message: 'Wallet has no statement cycle configured' },
+  CREDIT_STATEMENT_NOTHING_DUE: { status: 400, message: 'No outstanding statement balance to pay' },
+  CREDIT_STATEMENT_PAYMENT_AMOUNT_REQUIRED: { status: 400, message: 'amount is required when paying from a wallet in another currency' },
+
+  // Exchange Rate Errors
+  EXCHANGE_RATE_NOT_FOUND: { status: 404, message: 'Exchange rate not found' },
+  EXCHANGE_RATE_UNAVAILABLE: { status: 400, message: 'No exchange rate available for this currency pair and date' },
+  EXCHANGE_RATE_CSV_EMPTY: { status: 400, message: 'CSV content has no data rows' },
+  EXCHANGE_RATE_CSV_INVALID_HEADER: { status: 400, message: 'CSV header must contain date, from, to and rate columns' },
 
   // Category Errors
   CATEGORY_NAME_EXISTS: { status: 409, message: 'Category name already exists for this type' },
@@ -46,6 +62,8 @@ export const ErrorMap: Record<string, ErrorResponse> = {
   // Transaction Errors
   TRANSACTION_WALLET_NOT_FOUND: { status: 404, message: 'Wallet not found or does not belong to user' },
   TRANSACTION_CATEGORY_NOT_FOUND: { status: 404, message: 'Category not found or does not belong to user' },
+  TRANSACTION_TAG_NOT_FOUND: { status: 404, message: 'Tag not found or does not belong to user' },
+  TRANSACTION_CONTACT_NOT_FOUND: { status: 404, message: 'Contact not found or does not belong to user' },
   INVALID_CATEGORY_TYPE_FOR_INCOME: { status: 400, message: 'Category type must be income for income transactions' },
   INVALID_CATEGORY_TYPE_FOR_EXPENSE: { status: 400, message: 'Category type must be expense for expense transactions' },
   UNSUPPORTED_TRANSACTION_TYPE: { status: 400, message: 'Unsupported transaction type' },
@@ -55,7 +73,11 @@ export const ErrorMap: Record<string, ErrorResponse> = {
   TRANSACTION_NOT_FOUND: { status: 404, message: 'Transaction not found' },
   TRANSACTION_TYPE_IMMUTABLE: { status: 400, message: 'Transaction type cannot be changed' },
   TRANSACTION_LOCKED_BY_LOAN: { status: 400, message: 'Transaction linked to loan cannot be modified' },
+  TRANSACTION_LOCKED_BY_RECONCILIATION: { status: 409, message: 'Transaction is part of a locked reconciliation, unlock it first' },
   TRANSACTION_INVALID_ENTRIES: { status: 409, message: 'Transaction entries are invalid' },
+  TRANSFER_RATE_CONFLICT: { status: 400, message: 'Provide either toAmount or exchangeRate, not both' },
+  TRANSFER_RATE_NOT_APPLICABLE: { status: 400, message: 'toAmount/exchangeRate only apply to transfers between different currencies' },
+  TRANSFER_CONVERTED_AMOUNT_INVALID: { status: 400, message: 'Converted transfer amount must be greater than 0' },
 
   // Transaction Template Errors
   TEMPLATE_NAME_EXISTS: { status: 409, message: 'Template name already exists' },
@@ -65,11 +87,90 @@ export const ErrorMap: Record<string, ErrorResponse> = {
   TEMPLATE_CATEGORY_TYPE_MISMATCH: { status: 400, message: 'Category type does not match transaction type' },
   PRISMA_TEMPLATE_MODEL_MISSING: { status: 503, message: 'Prisma client missing TransactionTemplate. Run: npx prisma generate in LE-backend folder' },
 
+  // Recurring Schedule Errors
+  RECURRING_SCHEDULE_NOT_FOUND: { status: 404, message: 'Recurring schedule not found' },
+  RECURRING_TEMPLATE_INCOMPLETE: { status: 400, message: 'Template must have a wallet and, for income/expense, a category' },
+  RECURRING_AMOUNT_REQUIRED: { status: 400, message: 'Amount is required when the template has no default amount' },
+  RECURRING_TRANSFER_TARGET_REQUIRED: { status: 400, message: 'Destination wallet is required for transfer schedules' },
+  RECURRING_SCHEDULE_NOT_ACTIVE: { status: 400, message: 'Recurring schedule is not active' },
+  RECURRING_SCHEDULE_NOT_PAUSED: { status: 400, message: 'Recurring schedule is not paused' },
+  RECURRING_INVALID_OCCURRENCE: { status: 400, message: 'Date does not match an upcoming occurrence' },
+  RECURRING_OCCURRENCE_ALREADY_PROCESSED: { status: 409, message: 'Occurrence has already been processed' },
+
+  // Budget Errors
+  BUDGET_NOT_FOUND: { status: 404, message: 'Budget not found' },
+  BUDGET_EXISTS: { status: 409, message: 'Budget for this category and period type already exists' },
+  BUDGET_CATEGORY_TYPE_INVALID: { status: 400, message: 'Budgets can only be set on expense categories' },
+
+  // Statement Import Errors
+  IMPORT_PROFILE_NOT_FOUND: { status: 404, message: 'Import profile not found' },
+  IMPORT_PROFILE_NAME_EXISTS: { status: 409, message: 'Import profile name already exists' },
+  IMPORT_PROFILE_AMOUNT_MAPPING_REQUIRED: { status: 400, message: 'Profile must map an amount column or debit/credit columns' },
+  IMPORT_FILE_EMPTY: { status: 400, message: 'Statement file has no transactions' },
+  IMPORT_TOO_MANY_ROWS: { status: 400, message: 'Statement file has too many rows' },
+  IMPORT_CSV_COLUMN_NOT_FOUND: { status: 400, message: 'Mapped column not found in CSV file' },
+  IMPORT_CURRENCY_MISMATCH: { status: 400, message: 'Statement currency does not match wallet currency' },
+  IMPORT_BATCH_NOT_FOUND: { status: 404, message: 'Import not found' },
+  IMPORT_BATCH_NOT_PREVIEW: { status: 409, message: 'Import has already been committed or discarded' },
+  IMPORT_ROW_NOT_FOUND: { status: 404, message: 'Import row not found' },
+  IMPORT_ROW_INVALID: { status: 400, message: 'Invalid import rows cannot be committed' },
+  IMPORT_ROW_CATEGORY_REQUIRED: { status: 400, message: 'Category is required for rows without a suggested category' },
+
+  // Reconciliation Errors
+  RECONCILIATION_NOT_FOUND: { status: 404, message: 'Reconciliation session not found' },
+  RECONCILIATION_ALREADY_OPEN: { status: 409, message: 'Wallet already has an open reconciliation session' },
+  RECONCILIATION_NOT_OPEN: { status: 409, message: 'Reconciliation session is locked' },
+  RECONCILIATION_NOT_LOCKED: { status: 409, message: 'Reconciliation session is not locked' },
+  RECONCILIATION_NOT_LATEST: { status: 409, message: 'Only the latest reconciliation session of the wallet can be unlocked' },
+  RECONCILIATION_NOT_BALANCED: { status: 400, message: 'Cleared balance does not match statement balance' },
+  RECONCILIATION_DATE_BEFORE_LAST: { status: 400, message: 'Statement date must not be before the last reconciled statement date' },
+  RECONCILIATION_TRANSACTION_INVALID: { status: 400, message: 'Transaction cannot be cleared in this reconciliation session' },
+
+  // Tag Errors
+  TAG_NOT_FOUND: { status: 404, message: 'Tag not found' },
+  TAG_NAME_EXISTS: { status: 409, message: 'Tag name already exists' },
+  TAG_LIMIT_EXCEEDED: { status: 400, message: 'A transaction can have at most 20 tags' },
+
+  // Contact Errors
+  CONTACT_NOT_FOUND: { status: 404, message: 'Contact not found' },
+  CONTACT_NAME_EXISTS: { status: 409, message: 'Contact name already exists' },
+  CONTACT_MERGE_SELF: { status: 400, message: 'A contact cannot be merged into itself' },
+
+  // Attachment Errors
+  ATTACHMENT_NOT_FOUND: { status: 404, message: 'Attachment not found' },
+  ATTACHMENT_FILE_MISSING: { status: 404, message: 'Attachment file is no longer available' },
+  ATTACHMENT_EMPTY: { status: 400, message: 'Attachment file is empty' },
+  ATTACHMENT_TYPE_NOT_ALLOWED: { status: 415, message: 'Only JPEG, PNG, WebP, HEIC images and PDF files are allowed, and the file content must match its declared type' },
+  ATTACHMENT_QUOTA_EXCEEDED: { status: 413, message: 'Attachment storage quota exceeded' },
+
+  // Notification Errors
+  NOTIFICATION_NOT_FOUND: { status: 404, message: 'Notification not found' },
+  NOTIFICATION_WEBHOOK_NOT_FOUND: { status: 404, message: 'Notification webhook not configured' },
+
+  // Report Errors
+  REPORT_RANGE_TOO_LARGE: { status: 400, message: 'Date range has too many periods for this grouping' },
+
+  // Restore Errors
+  RESTORE_CONFLICTS: { status: 409, message: 'Backup has conflicts, nothing was restored' },
+
   // Loan Errors
   LOAN_NOT_FOUND: { status: 404, message: 'Loan not found' },
   LOAN_WALLET_NOT_FOUND: { status: 404, message: 'Wallet not found or does not belong to user' },
+  LOAN_CONTACT_NOT_FOUND: { status: 404, message: 'Contact not found or does not belong to user' },
   LOAN_ALREADY_SETTLED: { status: 400, message: 'Loan is already settled' },
   LOAN_PAYMENT_EXCEEDS_REMAINING: { status: 400, message: 'Payment amount exceeds remaining balance' },
+  LOAN_ALREADY_CLOSED: { status: 400, message: 'Loan is already closed' },
+  LOAN_WRITTEN_OFF: { status: 409, message: 'Loan has been written off, its payments can no longer be changed' },
+  LOAN_HAS_PAYMENTS: { status: 400, message: 'Cannot delete loan with payments' },
+  PAYMENT_EXCEEDS_OUTSTANDING: { status: 400, message: 'Payment principal exceeds outstanding amount' },
+  LOAN_TERMS_LOCKED: { status: 409, message: 'Cannot change interest or installment terms of a loan with payments' },
+  LOAN_INTEREST_RATE_REQUIRED: { status: 400, message: 'Interest rate must be greater than 0 when interest is charged' },
+  LOAN_INVALID_FIRST_INSTALLMENT_DATE: { status: 400, message: 'First installment date must be after the loan start date' },
+  LOAN_NO_INSTALLMENT_PLAN: { status: 400, message: 'Loan has no installment plan' },
+  LOAN_PAYMENT_PRINCIPAL_REQUIRED: { status: 400, message: 'Payment must cover the interest due and part of the principal' },
+  LOAN_PAYMENT_NOT_FOUND: { status: 404, message: 'Loan payment not found' },
+  LOAN_FORGIVENESS_EXCEEDS_OUTSTANDING: { status: 400, message: 'Forgiven amount exceeds outstanding amount' },
+  LOAN_HAS_ADJUSTMENTS: { status: 400, message: 'Cannot delete loan with top-ups, forgiveness or write-offs' },
 
   // Goal Errors
   GOAL_NOT_FOUND: { status: 404, message: 'Goal not found' },
@@ -81,6 +182,10 @@ export const ErrorMap: Record<string, ErrorResponse> = {
   VALIDATION_ERROR: { status: 400, message: 'Validation error' },
   INVALID_INPUT: { status: 400, message: 'Invalid input' },
 
+  // Pagination Errors
+  INVALID_CURSOR: { status: 400, message: 'Invalid or expired pagination cursor' },
+  PAGINATION_CURSOR_WITH_OFFSET: { status: 400, message: 'Use either cursor or offset, not both' },
+
   // Database Errors
   DATABASE_ERROR: { status: 500, message: 'Database error' },
   CONNECTION_ERROR: { status: 500, message: 'Connection error' },
@@ -151,8 +256,8 @@ export function createModuleErrorHandler(moduleName: string) {
  */
 export function handleValidationError(error: any, res: Response): Response {
   if (error.name === 'ZodError') {
-    // Zod validation error
-    const errors = error.errors.map((err: any) => ({
+    // Zod validation error (zod 4: issues, zod 3: errors)
+    const errors = (error.issues ?? error.errors).map((err: any) => ({
       field: err.path.join('.'),
       message: err.message,
       code: err.code
@@ -0,0 +1,95 @@
+/**
+ * Multipart helpers
+ * Parser tối giản cho body multipart/form-data đã đọc hết vào Buffer (không phụ thuộc thư viện ngoài)
+ * Chỉ dùng cho upload file nhỏ (giới hạn kích thước được áp dụng khi đọc body)
+ */
+
+export interface MultipartPart {
+  // Tên field trong form
+  name: string;
+  // Tên file (null nếu là field text)
+  fileName: string | null;
+  contentType: string | null;
+  data: Buffer;
+}
+
+/**
+ * Lấy boundary từ header Content-Type, null nếu không có
+ */
+export function getBoundary(contentType: string): string | null {
+  const match = /boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+  return match ? (match[1] ?? match[2]) : null;
+}
+
+/**
+ * Đọc 1 tham số trong header Content-Disposition (hỗ trợ filename*=UTF-8''...)
+ */
+function readDispositionParam(header: string, param: string): string | null {
+  const extended = new RegExp(`(?:^|;)\\s*${param}\\*=UTF-8''([^;\\r\\n]+)`, 'i').exec(header);
+  if (extended) {
+    try {
+      return decodeURIComponent(extended[1]);
+    } catch {
+      return extended[1];
+    }
+  }
+
+  const quoted = new RegExp(`(?:^|;)\\s*${param}="((?:[^"\\\\]|\\\\.)*)"`, 'i').exec(header);
+  if (quoted) return quoted[1].replace(/\\(.)/g, '$1');
+
+  const plain = new RegExp(`(?:^|;)\\s*${param}=([^;\\s]+)`, 'i').exec(header);
+  return plain ? plain[1] : null;
+}
+
+/**
+ * Tách body multipart thành các part
+ *
+ * @throws Error('MULTIPART_INVALID') nếu body không đúng định dạng
+ */
+export function parseMultipart(body: Buffer, boundary: string): MultipartPart[] {
+  const delimiter = Buffer.from(`--${boundary}`);
+  const nextDelimiter = Buffer.from(`\r\n--${boundary}`);
+  const parts: MultipartPart[] = [];
+
+  let pos = body.indexOf(delimiter);
+  if (pos === -1) {
+    throw new Error('MULTIPART_INVALID');
+  }
+
+  while (true) {
+    pos += delimiter.length;
+
+    // "--" sau delimiter => kết thúc body
+    if (body[pos] === 0x2d && body[pos + 1] === 0x2d) break;
+    if (body[pos] !== 0x0d || body[pos + 1] !== 0x0a) {
+      throw new Error('MULTIPART_INVALID');
+    }
+    pos += 2;
+
+    const headerEnd = body.indexOf('\r\n\r\n', pos);
+    const dataEnd = headerEnd === -1 ? -1 : body.indexOf(nextDelimiter, headerEnd + 4);
+    if (headerEnd === -1 || dataEnd === -1) {
+      throw new Error('MULTIPART_INVALID');
+    }
+
+    const headers = body.subarray(pos, headerEnd).toString('utf8').split('\r\n');
+    const disposition = headers.find((h) => /^content-disposition:/i.test(h)) ?? '';
+    const contentType = headers.find((h) => /^content-type:/i.test(h));
+    const name = readDispositionParam(disposition, 'name');
+    if (!name) {
+      throw new Error('MULTIPART_INVALID');
+    }
+
+    parts.push({
+      name,
+      fileName: readDispositionParam(disposition, 'filename'),
+      contentType: contentType ? contentType.slice(contentType.indexOf(':') + 1).trim() : null,
+      data: body.subarray(headerEnd + 4, dataEnd)
+    });
+
+    // Trỏ về đầu delimiter tiếp theo (bỏ CRLF đứng trước)
+    pos = dataEnd + 2;
+  }
+
+  return parts;
+}
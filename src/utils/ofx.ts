@@ -0,0 +1,97 @@
+/**
+ * OFX helpers
+ * Parser tối giản cho sao kê OFX/QFX, hỗ trợ cả OFX 1.x (SGML, tag không đóng) và 2.x (XML)
+ * Chỉ đọc các field cần cho import: tiền tệ, tài khoản và danh sách STMTTRN
+ */
+
+export interface OfxTransaction {
+  // Số dòng (bắt đầu từ 1) của thẻ <STMTTRN> trong file, dùng để báo lỗi
+  line: number;
+  trnType: string | null;
+  // Ngày giao dịch (00:00 UTC), null nếu không parse được
+  datePosted: Date | null;
+  // Số tiền có dấu: âm = tiền ra, NaN nếu không parse được
+  amount: number;
+  fitId: string | null;
+  name: string | null;
+  memo: string | null;
+}
+
+export interface OfxStatement {
+  currency: string | null;
+  accountId: string | null;
+  transactions: OfxTransaction[];
+}
+
+/**
+ * Đọc giá trị của tag đầu tiên trong đoạn text
+ * SGML: <TAG>value (kết thúc ở dấu < hoặc xuống dòng); XML: <TAG>value</TAG>
+ */
+function readTag(block: string, tag: string): string | null {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block);
+  if (!match) return null;
+  const value = decodeEntities(match[1].trim());
+  return value === '' ? null : value;
+}
+
+function decodeEntities(value: string) {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Parse ngày OFX: YYYYMMDD[HHMMSS[.XXX]][[+-]TZ[:TZNAME]] => chỉ lấy phần ngày
+ */
+function parseOfxDate(value: string | null): Date | null {
+  if (!value) return null;
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const month = Number(match[2]) - 1;
+  const day = Number(match[3]);
+  const date = new Date(Date.UTC(year, month, day));
+  return date.getUTCMonth() === month && date.getUTCDate() === day ? date : null;
+}
+
+/**
+ * Parse số tiền OFX (một số ngân hàng dùng dấu phẩy thập phân)
+ */
+function parseOfxAmount(value: string | null): number {
+  if (!value) return NaN;
+  const normalized = value.includes(',') && !value.includes('.') ? value.replace(',', '.') : value;
+  return Number(normalized.replace(/\s/g, ''));
+}
+
+/**
+ * Parse nội dung file OFX/QFX
+ */
+export function parseOfx(content: string): OfxStatement {
+  const transactions: OfxTransaction[] = [];
+
+  // Mỗi giao dịch kết thúc ở </STMTTRN> (XML) hoặc ở <STMTTRN>/</BANKTRANLIST> tiếp theo (SGML)
+  const pattern = /<STMTTRN>([\s\S]*?)(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(content)) !== null) {
+    const block = match[1];
+    transactions.push({
+      line: content.slice(0, match.index).split('\n').length,
+      trnType: readTag(block, 'TRNTYPE'),
+      datePosted: parseOfxDate(readTag(block, 'DTPOSTED')),
+      amount: parseOfxAmount(readTag(block, 'TRNAMT')),
+      fitId: readTag(block, 'FITID'),
+      name: readTag(block, 'NAME'),
+      memo: readTag(block, 'MEMO')
+    });
+  }
+
+  return {
+    currency: readTag(content, 'CURDEF'),
+    accountId: readTag(content, 'ACCTID'),
+    transactions
+  };
+}
@@ -0,0 +1,203 @@
+/**
+ * Pagination helpers
+ * Phân trang theo cursor (keyset) dùng chung cho các API danh sách
+ *
+ * - Cursor là chuỗi base64url mờ (opaque) chứa giá trị các cột sắp xếp của bản ghi cuối trang trước,
+ *   trang sau lấy các bản ghi đứng SAU bộ giá trị đó => không trùng / sót khi có bản ghi mới chen vào
+ * - Luôn có id làm khoá sắp xếp cuối cùng để thứ tự ổn định khi các cột khác bằng nhau
+ * - offset vẫn được hỗ trợ cho client cũ (không dùng chung với cursor)
+ * - total: mặc định đếm khi không dùng cursor (offset / trang đầu, giữ tương thích client cũ),
+ *   phân trang cursor mặc định bỏ qua (COUNT trên bảng lớn chậm); includeTotal ghi đè cả 2 trường hợp
+ */
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortKey {
+  field: string;
+  direction: SortDirection;
+  // Cột có thể null (MySQL: NULL đứng đầu khi asc, cuối khi desc)
+  nullable?: boolean;
+  // Cột enum / boolean: thứ tự các giá trị khi asc (so sánh bằng danh sách thay cho gt/lt)
+  values?: readonly (string | boolean)[];
+}
+
+export interface PaginationQuery {
+  limit: number;
+  cursor?: string;
+  offset?: number;
+  // Bỏ trống => đếm khi không có cursor
+  includeTotal?: boolean;
+}
+
+export interface Pagination {
+  // null nếu không đếm (phân trang cursor hoặc includeTotal=false)
+  total: number | null;
+  limit: number;
+  offset: number;
+  hasMore: boolean;
+  // Truyền vào query cursor để lấy trang tiếp theo, null nếu hết
+  nextCursor: string | null;
+}
+
+const booleanQuery = z.enum(['true', 'false', '1', '0']).transform((v) => v === 'true' || v === '1');
+
+/**
+ * Số nguyên từ query, giá trị không hợp lệ => fallback, ngoài khoảng => kẹp về [min, max] (không trả 400)
+ */
+const clampedIntQuery = (fallback: number, min: number, max = Number.MAX_SAFE_INTEGER) => z.string().transform((val) => {
+  const num = parseInt(val);
+  return isNaN(num) ? fallback : Math.min(Math.max(num, min), max);
+});
+
+/**
+ * Các query parameter phân trang (dùng với z.object({ ...paginationQueryShape(), ... }))
+ * clamp: limit / offset ngoài khoảng được kẹp lại thay vì báo lỗi (giữ hành vi cũ của các API đã kẹp từ trước)
+ */
+export function paginationQueryShape({ defaultLimit = 50, maxLimit = 100, clamp = false } = {}) {
+  return {
+    limit: clamp
+      ? clampedIntQuery(defaultLimit, 1, maxLimit).default(defaultLimit)
+      : z.coerce.number().int().min(1).max(maxLimit).default(defaultLimit),
+    cursor: z.string().min(1).max(1000).optional(),
+    offset: clamp
+      ? clampedIntQuery(0, 0).optional()
+      : z.coerce.number().int().min(0).optional(),
+    includeTotal: booleanQuery.optional()
+  };
+}
+
+/**
+ * Các query parameter sắp xếp: sortBy thuộc danh sách cột cho phép, sortOrder asc/desc
+ */
+export function sortQueryShape<const T extends readonly [string, ...string[]]>(fields: T) {
+  return {
+    sortBy: z.enum(fields, { message: `sortBy phải là ${fields.join(', ')}` }).optional(),
+    sortOrder: z.enum(['asc', 'desc'], { message: 'sortOrder phải là asc hoặc desc' }).optional()
+  };
+}
+
+// Chữ ký thứ tự sắp xếp, cursor chỉ dùng được với đúng thứ tự đã tạo ra nó
+const sortSignature = (sort: SortKey[]) => sort.map((k) => `${k.field}:${k.direction}`).join(',');
+
+function encodeCursor(sort: SortKey[], item: Record<string, any>): string {
+  const values = sort.map((k) => {
+    const value = item[k.field];
+    if (value instanceof Date) return { d: value.toISOString() };
+    if (Prisma.Decimal.isDecimal(value)) return value.toString();
+    return value ?? null;
+  });
+  return Buffer.from(JSON.stringify({ s: sortSignature(sort), v: values })).toString('base64url');
+}
+
+/**
+ * @throws Error('INVALID_CURSOR') nếu cursor hỏng hoặc tạo từ thứ tự sắp xếp khác
+ */
+function decodeCursor(sort: SortKey[], cursor: string): unknown[] {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('INVALID_CURSOR');
+  }
+
+  if (parsed?.s !== sortSignature(sort) || !Array.isArray(parsed.v) || parsed.v.length !== sort.length) {
+    throw new Error('INVALID_CURSOR');
+  }
+
+  return parsed.v.map((value: unknown) => {
+    if (value && typeof value === 'object' && typeof (value as any).d === 'string') {
+      const date = new Date((value as any).d);
+      if (isNaN(date.getTime())) throw new Error('INVALID_CURSOR');
+      return date;
+    }
+    if (value !== null && typeof value === 'object') throw new Error('INVALID_CURSOR');
+    return value;
+  });
+}
+
+/**
+ * Điều kiện "đứng sau value" theo 1 khoá sắp xếp, null nếu không bản ghi nào thoả
+ */
+function afterCondition(key: SortKey, value: unknown): object | null {
+  if (key.values) {
+    const order = key.direction === 'asc' ? key.values : [...key.values].reverse();
+    const index = order.indexOf(value as string | boolean);
+    if (index === -1) throw new Error('INVALID_CURSOR');
+    const later = order.slice(index + 1);
+    if (later.length === 0) return null;
+    return { [key.field]: later.length === 1 ? later[0] : { in: later } };
+  }
+
+  if (key.nullable) {
+    if (key.direction === 'asc') {
+      return value === null ? { [key.field]: { not: null } } : { [key.field]: { gt: value } };
+    }
+    return value === null ? null : { OR: [{ [key.field]: { lt: value } }, { [key.field]: null }] };
+  }
+
+  if (value === null) throw new Error('INVALID_CURSOR');
+  return { [key.field]: { [key.direction === 'asc' ? 'gt' : 'lt']: value } };
+}
+
+/**
+ * Điều kiện keyset: (k1 > v1) OR (k1 = v1 AND k2 > v2) OR ...
+ */
+function keysetWhere(sort: SortKey[], values: unknown[]) {
+  const branches: object[] = [];
+
+  for (let i = 0; i < sort.length; i++) {
+    const after = afterCondition(sort[i], values[i]);
+    if (!after) continue;
+    const equals = sort.slice(0, i).map((key, j) => ({ [key.field]: values[j] }));
+    branches.push(equals.length > 0 ? { AND: [...equals, after] } : after);
+  }
+
+  return { OR: branches };
+}
+
+/**
+ * Lấy 1 trang dữ liệu theo cursor / offset
+ *
+ * @param query - Tham số phân trang đã validate
+ * @param sort - Thứ tự sắp xếp, khoá cuối phải là cột unique (id)
+ * @param fetch - Truy vấn findMany, phải gộp args.where vào điều kiện lọc (AND) và dùng orderBy / take / skip
+ * @param count - Đếm tổng số bản ghi theo điều kiện lọc (chỉ gọi khi cần total)
+ * @throws Error('INVALID_CURSOR') nếu cursor không hợp lệ
+ * @throws Error('PAGINATION_CURSOR_WITH_OFFSET') nếu truyền cả cursor và offset
+ */
+export async function paginate<T extends Record<string, any>>(
+  query: PaginationQuery,
+  sort: SortKey[],
+  fetch: (args: { where: object; orderBy: Record<string, SortDirection>[]; take: number; skip: number }) => Promise<T[]>,
+  count: () => Promise<number>
+): Promise<{ items: T[]; pagination: Pagination }> {
+  if (query.cursor && query.offset) {
+    throw new Error('PAGINATION_CURSOR_WITH_OFFSET');
+  }
+
+  const offset = query.offset ?? 0;
+  const includeTotal = query.includeTotal ?? !query.cursor;
+  const rows = await fetch({
+    where: query.cursor ? keysetWhere(sort, decodeCursor(sort, query.cursor)) : {},
+    orderBy: sort.map((key) => ({ [key.field]: key.direction })),
+    // Lấy dư 1 bản ghi để biết còn trang sau
+    take: query.limit + 1,
+    skip: offset
+  });
+
+  const hasMore = rows.length > query.limit;
+  const items = hasMore ? rows.slice(0, query.limit) : rows;
+
+  return {
+    items,
+    pagination: {
+      total: includeTotal ? await count() : null,
+      limit: query.limit,
+      offset,
+      hasMore,
+      nextCursor: hasMore ? encodeCursor(sort, items[items.length - 1]) : null
+    }
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * Period helpers
+ * Tính khoảng thời gian [start, end) của ngày/tuần/tháng/năm chứa 1 thời điểm
+ *
+ * Quy ước:
+ * - Tính theo UTC
+ * - Tuần bắt đầu từ thứ 2
+ * - end là exclusive (start của kỳ tiếp theo) => query dùng gte start, lt end
+ */
+
+export type PeriodType = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface PeriodRange {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Thời điểm bắt đầu kỳ chứa `date`
+ */
+export function startOfPeriod(date: Date, periodType: PeriodType): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const day = date.getUTCDate();
+
+  switch (periodType) {
+    case 'daily':
+      return new Date(Date.UTC(year, month, day));
+    case 'weekly': {
+      // getUTCDay: 0 = Chủ nhật => lùi về thứ 2
+      const diff = (date.getUTCDay() + 6) % 7;
+      return new Date(Date.UTC(year, month, day - diff));
+    }
+    case 'monthly':
+      return new Date(Date.UTC(year, month, 1));
+    case 'yearly':
+      return new Date(Date.UTC(year, 0, 1));
+    default:
+      throw new Error('UNSUPPORTED_PERIOD_TYPE');
+  }
+}
+
+/**
+ * Dịch kỳ chứa `date` đi `count` kỳ (âm = lùi), trả về start của kỳ đích
+ */
+export function shiftPeriod(date: Date, periodType: PeriodType, count: number): Date {
+  const start = startOfPeriod(date, periodType);
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+  const day = start.getUTCDate();
+
+  switch (periodType) {
+    case 'daily':
+      return new Date(Date.UTC(year, month, day + count));
+    case 'weekly':
+      return new Date(Date.UTC(year, month, day + count * 7));
+    case 'monthly':
+      return new Date(Date.UTC(year, month + count, 1));
+    case 'yearly':
+      return new Date(Date.UTC(year + count, 0, 1));
+    default:
+      throw new Error('UNSUPPORTED_PERIOD_TYPE');
+  }
+}
+
+/**
+ * Khoảng [start, end) của kỳ chứa `date`
+ */
+export function getPeriodRange(date: Date, periodType: PeriodType): PeriodRange {
+  return {
+    start: startOfPeriod(date, periodType),
+    end: shiftPeriod(date, periodType, 1)
+  };
+}
+
+/**
+ * Liệt kê các kỳ liên tiếp phủ khoảng [from, to] (kỳ đầu chứa from, kỳ cuối chứa to)
+ */
+export function listPeriods(from: Date, to: Date, periodType: PeriodType): PeriodRange[] {
+  const periods: PeriodRange[] = [];
+  let cursor = startOfPeriod(from, periodType);
+
+  while (cursor.getTime() <= to.getTime()) {
+    const end = shiftPeriod(cursor, periodType, 1);
+    periods.push({ start: cursor, end });
+    cursor = end;
+  }
+
+  return periods;
+}
+
+/**
+ * Khoá ngắn gọn cho kỳ: ngày/tuần => YYYY-MM-DD (tuần lấy ngày thứ 2), tháng => YYYY-MM, năm => YYYY
+ * Dùng làm key khi group dữ liệu theo kỳ
+ */
+export function formatPeriodKey(start: Date, periodType: PeriodType): string {
+  const iso = start.toISOString();
+  switch (periodType) {
+    case 'daily':
+    case 'weekly':
+      return iso.slice(0, 10);
+    case 'monthly':
+      return iso.slice(0, 7);
+    case 'yearly':
+      return iso.slice(0, 4);
+    default:
+      throw new Error('UNSUPPORTED_PERIOD_TYPE');
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Recurrence helpers
+ * Tính ngày phát sinh của lịch định kỳ (daily/weekly/monthly/yearly)
+ *
+ * Quy ước:
+ * - Lần phát sinh thứ `index` luôn tính trực tiếp từ startDate (index = 0 là startDate)
+ *   => không cộng dồn nên không bị trôi ngày (VD: 31/01 -> 28/02 -> 31/03)
+ * - Monthly/yearly: nếu tháng đích không có ngày đó thì lấy ngày cuối tháng
+ * - Tính theo UTC, giữ nguyên giờ/phút của startDate
+ */
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  startDate: Date;
+  endDate?: Date | null;
+  maxOccurrences?: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Số ngày của tháng (month: 0-11) theo UTC
+ */
+function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * Cộng số tháng, giữ ngày của `date` (clamp về cuối tháng nếu cần)
+ */
+function addMonthsClamped(date: Date, months: number) {
+  const totalMonths = date.getUTCFullYear() * 12 + date.getUTCMonth() + months;
+  const year = Math.floor(totalMonths / 12);
+  const month = totalMonths % 12;
+  const day = Math.min(date.getUTCDate(), daysInMonth(year, month));
+
+  return new Date(Date.UTC(
+    year,
+    month,
+    day,
+    date.getUTCHours(),
+    date.getUTCMinutes(),
+    date.getUTCSeconds(),
+    date.getUTCMilliseconds()
+  ));
+}
+
+/**
+ * Ngày phát sinh thứ `index` (0-based) của rule
+ */
+export function getOccurrenceDate(rule: RecurrenceRule, index: number): Date {
+  const steps = index * rule.interval;
+
+  switch (rule.frequency) {
+    case 'daily':
+      return new Date(rule.startDate.getTime() + steps * DAY_MS);
+    case 'weekly':
+      return new Date(rule.startDate.getTime() + steps * 7 * DAY_MS);
+    case 'monthly':
+      return addMonthsClamped(rule.startDate, steps);
+    case 'yearly':
+      return addMonthsClamped(rule.startDate, steps * 12);
+    default:
+      throw new Error('UNSUPPORTED_RECURRENCE_FREQUENCY');
+  }
+}
+
+/**
+ * Kiểm tra lần phát sinh thứ `index` còn nằm trong giới hạn của rule không
+ * (chưa vượt maxOccurrences và chưa qua endDate)
+ */
+export function isOccurrenceInRange(rule: RecurrenceRule, index: number, date = getOccurrenceDate(rule, index)) {
+  if (rule.maxOccurrences != null && index >= rule.maxOccurrences) return false;
+  if (rule.endDate && date.getTime() > rule.endDate.getTime()) return false;
+  return true;
+}
+
+/**
+ * Tìm index của lần phát sinh đầu tiên có ngày >= `from`
+ * Dùng khi resume lịch đã pause (bỏ qua các lần rơi vào thời gian tạm dừng)
+ */
+export function findFirstIndexOnOrAfter(rule: RecurrenceRule, from: Date, startIndex = 0) {
+  let index = startIndex;
+  while (getOccurrenceDate(rule, index).getTime() < from.getTime()) {
+    index++;
+  }
+  return index;
+}
+
+/**
+ * Liệt kê các lần phát sinh (index + date) trong khoảng [from, to], tối đa `limit` phần tử
+ */
+export function listOccurrences(
+  rule: RecurrenceRule,
+  from: Date,
+  to: Date,
+  options: { startIndex?: number; limit?: number } = {}
+) {
+  const { startIndex = 0, limit = 100 } = options;
+  const result: Array<{ index: number; date: Date }> = [];
+
+  let index = findFirstIndexOnOrAfter(rule, from, startIndex);
+  while (result.length < limit) {
+    const date = getOccurrenceDate(rule, index);
+    if (date.getTime() > to.getTime() || !isOccurrenceInRange(rule, index, date)) break;
+    result.push({ index, date });
+    index++;
+  }
+
+  return result;
+}
@@ -0,0 +1,30 @@
+/**
+ * Request context
+ * Lưu thông tin của request hiện tại (người thực hiện, IP, user agent) theo AsyncLocalStorage
+ * để service layer đọc được mà không phải truyền req qua từng hàm
+ * Ngoài request (job nền, script) => không có context
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface RequestContext {
+  // User đã xác thực (null nếu request không yêu cầu đăng nhập)
+  readonly actorId: string | null;
+  readonly ipAddress: string | null;
+  readonly userAgent: string | null;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Chạy fn trong context của 1 request
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Context của request đang xử lý, undefined nếu đang chạy ngoài request
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
@@ -0,0 +1,89 @@
+/**
+ * Text helpers
+ * Chuẩn hoá chuỗi tiếng Việt để so khớp không phân biệt dấu / hoa thường
+ */
+
+/**
+ * Bỏ dấu tiếng Việt (kể cả đ/Đ), giữ nguyên hoa thường
+ */
+export function removeDiacritics(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D');
+}
+
+/**
+ * Chuẩn hoá để so khớp: bỏ dấu, chữ thường, bỏ ký tự đặc biệt, gộp khoảng trắng
+ * VD: "  Tiền ĐIỆN  tháng 10!" => "tien dien thang 10"
+ */
+export function normalizeText(value: string): string {
+  return removeDiacritics(value)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Tách chuỗi đã chuẩn hoá thành các từ (bỏ số và từ quá ngắn)
+ * Dùng để so khớp mô tả giao dịch (mã giao dịch, ngày tháng thường là số => bỏ qua)
+ */
+export function tokenize(value: string): string[] {
+  return normalizeText(value)
+    .split(' ')
+    .filter((token) => token.length >= 2 && !/^\d+$/.test(token));
+}
+
+export interface TermMatch {
+  // Từ khoá (đã chuẩn hoá) khớp
+  term: string;
+  // Vị trí trong chuỗi gốc [start, end)
+  start: number;
+  end: number;
+  // true: khớp trọn từ, false: khớp phần đầu từ
+  exact: boolean;
+}
+
+/**
+ * Tìm các từ khoá (đã chuẩn hoá bằng normalizeText) trong chuỗi gốc, không phân biệt dấu / hoa thường
+ * Từ khoá khớp khi là phần đầu của 1 từ trong chuỗi (VD: "xe" khớp "Xe máy", "mi" khớp "Minh")
+ * Vị trí trả về tính trên chuỗi gốc (dùng để highlight)
+ * VD: findTermMatches("Trả tiền Minh", ["minh"]) => [{ term: "minh", start: 9, end: 13, exact: true }]
+ */
+export function findTermMatches(text: string, terms: string[]): TermMatch[] {
+  // Chuẩn hoá từng ký tự, ghi lại vị trí gốc của mỗi ký tự sau chuẩn hoá
+  let normalized = '';
+  const origins: number[] = [];
+  for (let i = 0; i < text.length;) {
+    const char = String.fromCodePoint(text.codePointAt(i)!);
+    for (const c of removeDiacritics(char).toLowerCase().replace(/[^a-z0-9]/g, ' ')) {
+      normalized += c;
+      origins.push(i);
+    }
+    i += char.length;
+  }
+
+  // Vị trí kết thúc trong chuỗi gốc (gồm cả dấu tổ hợp đứng sau ký tự cuối)
+  const originalEnd = (normalizedIndex: number) => {
+    const start = origins[normalizedIndex];
+    let end = start + String.fromCodePoint(text.codePointAt(start)!).length;
+    while (end < text.length && /[\u0300-\u036f]/.test(text[end])) end++;
+    return end;
+  };
+
+  const matches: TermMatch[] = [];
+  for (const word of normalized.matchAll(/[a-z0-9]+/g)) {
+    for (const term of terms) {
+      if (!word[0].startsWith(term)) continue;
+      matches.push({
+        term,
+        start: origins[word.index],
+        end: originalEnd(word.index + term.length - 1),
+        exact: word[0].length === term.length
+      });
+    }
+  }
+
+  return matches;
+}
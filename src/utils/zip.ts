@@ -0,0 +1,182 @@
+/**
+ * ZIP helpers
+ * Writer ZIP tối giản (deflate qua zlib của Node, không phụ thuộc thư viện ngoài)
+ *
+ * Mỗi file được nén và trả về ngay dưới dạng Buffer để có thể stream ra response,
+ * central directory được ghi khi gọi finish(). Không hỗ trợ ZIP64 (mỗi file/tổng < 4GB).
+ *
+ * File lớn ghi dần qua openFile(): mỗi phần được nén thành các block deflate không kết thúc (sync flush),
+ * CRC / kích thước ghi trong data descriptor sau nội dung => không cần giữ cả file trong bộ nhớ.
+ */
+import { constants, deflateRawSync } from 'zlib';
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 của data, truyền crc của phần trước để tính tiếp khi dữ liệu đến theo từng phần
+ */
+function crc32(data: Buffer, previous = 0): number {
+  let crc = (previous ^ 0xffffffff) >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Đổi Date sang định dạng ngày/giờ MS-DOS dùng trong header ZIP
+ */
+function toDosDateTime(date: Date) {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return { time, day };
+}
+
+export interface ZipFileWriter {
+  // Local header, ghi ra trước mọi phần nội dung
+  header: Buffer;
+  // Nén 1 phần nội dung, trả về dữ liệu cần ghi ra
+  write(content: string | Buffer): Buffer;
+  // Kết thúc file, trả về block deflate cuối + data descriptor
+  end(): Buffer;
+}
+
+export interface ZipWriter {
+  // Thêm 1 file, trả về phần dữ liệu (local header + nội dung nén) cần ghi ra
+  addFile(name: string, content: string | Buffer): Buffer;
+  // Mở 1 file để ghi dần từng phần (mỗi lúc chỉ mở 1 file, phải end() trước khi thêm file khác)
+  openFile(name: string): ZipFileWriter;
+  // Kết thúc archive, trả về central directory + end record
+  finish(): Buffer;
+}
+
+// Flag: tên file UTF-8 (bit 11); bit 3: CRC / kích thước nằm trong data descriptor sau nội dung
+const FLAG_UTF8 = 0x0800;
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+
+/**
+ * Tạo ZIP writer
+ */
+export function createZipWriter(modifiedAt = new Date()): ZipWriter {
+  const { time, day } = toDosDateTime(modifiedAt);
+  const centralHeaders: Buffer[] = [];
+  let offset = 0;
+
+  const localHeader = (fileName: Buffer, flags: number, crc: number, compressedSize: number, size: number) => {
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0); // Local file header signature
+    local.writeUInt16LE(20, 4); // Version needed
+    local.writeUInt16LE(flags, 6);
+    local.writeUInt16LE(8, 8); // Method: deflate
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(day, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressedSize, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(fileName.length, 26);
+    local.writeUInt16LE(0, 28); // Extra field length
+    return Buffer.concat([local, fileName]);
+  };
+
+  const addCentralHeader = (fileName: Buffer, flags: number, crc: number, compressedSize: number, size: number, localOffset: number) => {
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0); // Central directory signature
+    central.writeUInt16LE(20, 4); // Version made by
+    central.writeUInt16LE(20, 6); // Version needed
+    central.writeUInt16LE(flags, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(day, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressedSize, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(fileName.length, 28);
+    // Extra/comment length, disk number, attributes = 0
+    central.writeUInt32LE(localOffset, 42);
+    centralHeaders.push(central, fileName);
+  };
+
+  return {
+    addFile(name, content) {
+      const data = typeof content === 'string' ? Buffer.from(content, 'utf8') : content;
+      const compressed = deflateRawSync(data);
+      const fileName = Buffer.from(name, 'utf8');
+      const crc = crc32(data);
+
+      addCentralHeader(fileName, FLAG_UTF8, crc, compressed.length, data.length, offset);
+
+      const chunk = Buffer.concat([localHeader(fileName, FLAG_UTF8, crc, compressed.length, data.length), compressed]);
+      offset += chunk.length;
+      return chunk;
+    },
+
+    openFile(name) {
+      const fileName = Buffer.from(name, 'utf8');
+      const flags = FLAG_UTF8 | FLAG_DATA_DESCRIPTOR;
+      const localOffset = offset;
+      let crc = 0;
+      let size = 0;
+      let compressedSize = 0;
+
+      const header = localHeader(fileName, flags, 0, 0, 0);
+      offset += header.length;
+
+      return {
+        header,
+
+        write(content) {
+          const data = typeof content === 'string' ? Buffer.from(content, 'utf8') : content;
+          // Sync flush: block không đánh dấu kết thúc, các phần nén độc lập nối tiếp nhau vẫn là 1 luồng deflate hợp lệ
+          const compressed = deflateRawSync(data, { finishFlush: constants.Z_SYNC_FLUSH });
+          crc = crc32(data, crc);
+          size += data.length;
+          compressedSize += compressed.length;
+          offset += compressed.length;
+          return compressed;
+        },
+
+        end() {
+          // Block rỗng đánh dấu kết thúc luồng deflate
+          const last = deflateRawSync(Buffer.alloc(0));
+          compressedSize += last.length;
+
+          const descriptor = Buffer.alloc(16);
+          descriptor.writeUInt32LE(0x08074b50, 0); // Data descriptor signature
+          descriptor.writeUInt32LE(crc, 4);
+          descriptor.writeUInt32LE(compressedSize, 8);
+          descriptor.writeUInt32LE(size, 12);
+
+          addCentralHeader(fileName, flags, crc, compressedSize, size, localOffset);
+
+          const chunk = Buffer.concat([last, descriptor]);
+          offset += chunk.length;
+          return chunk;
+        }
+      };
+    },
+
+    finish() {
+      const directory = Buffer.concat(centralHeaders);
+      const count = centralHeaders.length / 2;
+
+      const end = Buffer.alloc(22);
+      end.writeUInt32LE(0x06054b50, 0); // End of central directory signature
+      end.writeUInt16LE(count, 8);
+      end.writeUInt16LE(count, 10);
+      end.writeUInt32LE(directory.length, 12);
+      end.writeUInt32LE(offset, 16);
+
+      return Buffer.concat([directory, end]);
+    }
+  };
+}